@@ -9,11 +9,31 @@ import updateTextRouter from "./routes/updates/text";
 import updateFontSizeRouter from "./routes/updates/fontSize";
 import updateFontFamilyRouter from "./routes/updates/fontFamily";
 import updateColorRouter from "./routes/updates/color";
+import updateSpacingRouter from "./routes/updates/spacing";
+import updateTypographyRouter from "./routes/updates/typography";
+import updateBorderRouter from "./routes/updates/border";
+import updateLayoutRouter from "./routes/updates/layout";
+import updateImageRouter from "./routes/updates/image";
+import updateLinkRouter from "./routes/updates/link";
+import updatePropRouter from "./routes/updates/prop";
+import batchUpdateRouter from "./routes/updates/batch";
+import imagesRouter from "./routes/images";
+import propsRouter from "./routes/props";
 import contextRouter from "./routes/editor/context";
 import foldersRouter from "./routes/editor/folders";
 import createPageRouter from "./routes/editor/createPage";
+import routesRouter from "./routes/editor/routes";
+import localesRouter from "./routes/editor/locales";
 import { deleteElement } from "./routes/delete/element";
+import { moveElement } from "./routes/move/element";
+import { duplicateElement } from "./routes/duplicate/element";
+import { insertComponent } from "./routes/insert/component";
+import { generateCanvasCode } from "./routes/insert/canvas";
+import { wrapElements } from "./routes/wrap/elements";
 import historyRouter from "./routes/history";
+import devServerRouter from "./routes/devServer";
+import { attachEventSocket } from "./routes/events/socket";
+import { projectWatcher } from "./services/watcher";
 import { logger } from "./utils/logger";
 
 function validateConfiguration() {
@@ -41,7 +61,8 @@ validateConfiguration();
 const app = express();
 const proBundlePath = process.env.BRAKIT_PRO_BUNDLE_PATH;
 
-app.use(bodyParser.json());
+// Image uploads arrive as base64 JSON
+app.use(bodyParser.json({ limit: "12mb" }));
 
 app.use(
   cors({
@@ -104,13 +125,33 @@ app.use("/api/health", healthRouter);
 app.use("/api/editor/context", contextRouter);
 app.use("/api/editor/folders", foldersRouter);
 app.use("/api/editor/create", createPageRouter);
+app.use("/api/editor/routes", routesRouter);
+app.use("/api/editor/locales", localesRouter);
 app.use("/api/update-text", updateTextRouter);
 app.use("/api/update-font-size", updateFontSizeRouter);
 app.use("/api/update-font-family", updateFontFamilyRouter);
 app.use("/api/update-color", updateColorRouter);
+app.use("/api/update-spacing", updateSpacingRouter);
+app.use("/api/update-typography", updateTypographyRouter);
+app.use("/api/update-border", updateBorderRouter);
+app.use("/api/update-layout", updateLayoutRouter);
+app.use("/api/update-image", updateImageRouter);
+app.use("/api/update-link", updateLinkRouter);
+app.use("/api/update-prop", updatePropRouter);
+app.use("/api/batch-update", batchUpdateRouter);
+app.use("/api/images", imagesRouter);
+app.use("/api/props", propsRouter);
 app.use("/api/delete-element", deleteElement);
+app.use("/api/move-element", moveElement);
+app.use("/api/duplicate-element", duplicateElement);
+app.use("/api/insert-component", insertComponent);
+app.use("/api/generate-canvas-code", generateCanvasCode);
+app.use("/api/wrap-elements", wrapElements);
 app.use("/api/history", historyRouter);
+app.use("/api/dev-server", devServerRouter);
 
-app.listen(config.server.port, config.server.host, () => {
+const server = app.listen(config.server.port, config.server.host, () => {
   config.logConfig();
 });
+attachEventSocket(server);
+projectWatcher.start();
@@ -3,7 +3,8 @@ import { logger } from "../../utils/logger";
 import { VisualDeleteService } from "../../services/delete/visualDelete";
 import { DeletePayload, DeleteResult } from "../../types/delete";
 import config from "../../config";
-import { actionHistory } from "../../services/history";
+import type { ActionMetadata } from "../../services/history";
+import { runDryRun, runVerifiedAction } from "../shared/routeHelpers";
 
 // Type aliases for API layer
 type DeleteElementPayload = DeletePayload;
@@ -29,6 +30,7 @@ export const deleteElement = async (
       textContent,
       ownerComponentName,
       ownerFilePath,
+      dryRun,
     } = req.body;
 
     logger.info(
@@ -46,31 +48,38 @@ export const deleteElement = async (
       });
     }
 
-    const result = await actionHistory.runAction(
-      {
-        type: "delete-element",
-        label: `Delete ${componentName} in ${sourceFile}`,
-        details: {
-          sourceFile,
-          componentName,
-          elementIdentifier,
-        },
+    const metadata: ActionMetadata = {
+      type: "delete-element",
+      label: `Delete ${componentName} in ${sourceFile}`,
+      details: {
+        sourceFile,
+        componentName,
+        elementIdentifier,
       },
-      () =>
-        deleteService.deleteElement({
-          sourceFile,
-          componentName,
-          elementIdentifier,
-          elementTag,
-          className,
-          textContent,
-          ownerComponentName,
-          ownerFilePath,
-        })
-    );
+    };
+    const runDelete = () =>
+      deleteService.deleteElement({
+        sourceFile,
+        componentName,
+        elementIdentifier,
+        elementTag,
+        className,
+        textContent,
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+    const result =
+      dryRun === true
+        ? await runDryRun(metadata, runDelete)
+        : await runVerifiedAction(metadata, runDelete);
 
     if (result.success) {
-      logger.info(`[Delete] Element deleted successfully: ${result.message}`);
+      logger.info(
+        dryRun === true
+          ? `[Delete] Dry run prepared: ${result.message}`
+          : `[Delete] Element deleted successfully: ${result.message}`
+      );
       res.json({
         ...result,
       });
@@ -79,6 +88,7 @@ export const deleteElement = async (
       res.status(400).json({
         success: false,
         error: result.error,
+        verification: result.verification,
       });
     }
   } catch (error) {
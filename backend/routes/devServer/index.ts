@@ -0,0 +1,51 @@
+import { Router, Request, Response } from "express";
+import { compileErrorTracker } from "../../services/devServer";
+import type { CompileError } from "../../services/devServer";
+
+const router = Router();
+
+function readCompileError(value: unknown): CompileError | null | undefined {
+  if (value === null) {
+    return null;
+  }
+
+  const error = value as Partial<CompileError> | undefined;
+  if (
+    !error ||
+    typeof error.message !== "string" ||
+    (error.framework !== "next" && error.framework !== "vite")
+  ) {
+    return undefined;
+  }
+
+  return {
+    message: error.message,
+    file: typeof error.file === "string" ? error.file : undefined,
+    line: typeof error.line === "number" ? error.line : undefined,
+    column: typeof error.column === "number" ? error.column : undefined,
+    framework: error.framework,
+    output: typeof error.output === "string" ? error.output : error.message,
+  };
+}
+
+/** Reported by the CLI, which reads the user's dev server output */
+router.post("/errors", (req: Request, res: Response) => {
+  const error = readCompileError(req.body?.error);
+  if (error === undefined) {
+    return res.status(400).json({
+      success: false,
+      error: "Body must contain an error with a message and framework, or null",
+    });
+  }
+
+  return res.json({
+    success: true,
+    status: compileErrorTracker.report(error),
+  });
+});
+
+router.get("/errors", (_req: Request, res: Response) => {
+  res.json({ success: true, status: compileErrorTracker.getStatus() });
+});
+
+export default router;
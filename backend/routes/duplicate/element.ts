@@ -0,0 +1,102 @@
+import { Request, Response } from "express";
+import { logger } from "../../utils/logger";
+import { VisualDuplicateService } from "../../services/duplicate/visualDuplicate";
+import { DuplicatePayload, DuplicateResult } from "../../types/duplicate";
+import config from "../../config";
+import type { ActionMetadata } from "../../services/history";
+import { runDryRun, runVerifiedAction } from "../shared/routeHelpers";
+
+// Singleton service instance
+const duplicateService = new VisualDuplicateService(config.project.root);
+
+/**
+ * Duplicate an element in the source code, inserting the copy right after it
+ */
+export const duplicateElement = async (
+  req: Request<Record<string, never>, DuplicateResult, DuplicatePayload>,
+  res: Response<DuplicateResult>
+) => {
+  try {
+    const {
+      sourceFile,
+      componentName,
+      elementIdentifier,
+      elementTag,
+      className,
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+      dryRun,
+    } = req.body;
+
+    logger.info(
+      `[Duplicate] Duplicate request received: ${sourceFile}, ${componentName}, ${elementIdentifier}`
+    );
+
+    // Validate required fields
+    if (!sourceFile || !componentName || !elementIdentifier) {
+      const error =
+        "Missing required fields: sourceFile, componentName, or elementIdentifier";
+      logger.warn(`[Duplicate] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    const metadata: ActionMetadata = {
+      type: "duplicate-element",
+      label: `Duplicate ${componentName} in ${sourceFile}`,
+      details: {
+        sourceFile,
+        componentName,
+        elementIdentifier,
+      },
+    };
+    const runDuplicate = () =>
+      duplicateService.duplicateElement({
+        sourceFile,
+        componentName,
+        elementIdentifier,
+        elementTag,
+        className,
+        textContent,
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+    const result =
+      dryRun === true
+        ? await runDryRun(metadata, runDuplicate)
+        : await runVerifiedAction(metadata, runDuplicate);
+
+    if (result.warning) {
+      logger.info(`[Duplicate] Duplicate refused: ${result.message}`);
+      return res.status(200).json(result);
+    }
+
+    if (result.success) {
+      logger.info(
+        dryRun === true
+          ? `[Duplicate] Dry run prepared: ${result.message}`
+          : `[Duplicate] Element duplicated successfully: ${result.message}`
+      );
+      res.json({
+        ...result,
+      });
+    } else {
+      logger.error(`[Duplicate] Duplicate failed: ${result.error}`);
+      res.status(400).json({
+        success: false,
+        error: result.error,
+        verification: result.verification,
+      });
+    }
+  } catch (error) {
+    logger.error(`[Duplicate] Duplicate error: ${error}`);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown duplicate error",
+    });
+  }
+};
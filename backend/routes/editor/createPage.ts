@@ -5,6 +5,7 @@ import { detectFramework, FrameworkInfo } from "../../utils/detectFramework";
 import { selectTemplate } from "../../templates";
 import type { TemplateMetadata } from "../../templates/types";
 import { actionHistory } from "../../services/history";
+import { eventBus } from "../../services/events";
 import {
   ensurePackagesInstalled,
   FORM_DEPENDENCIES,
@@ -147,6 +148,7 @@ async function installTemplateDependencies(
 
   const pushMessage = (message: string) => {
     messages.push(message);
+    eventBus.publish({ type: "install:progress", source: "page", message });
   };
 
   if (metadata.requiresFormDependencies) {
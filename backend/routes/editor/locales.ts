@@ -0,0 +1,20 @@
+import express from "express";
+import config from "../../config";
+import { findLocaleMessageFiles } from "../../services/shared/translations";
+
+const router = express.Router();
+
+router.get("/", (req, res) => {
+  try {
+    const locales = Array.from(
+      new Set(
+        findLocaleMessageFiles(config.project.root).map((file) => file.locale)
+      )
+    ).sort();
+    res.json({ success: true, locales });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
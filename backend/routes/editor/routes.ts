@@ -0,0 +1,22 @@
+import express from "express";
+import config from "../../config";
+import { detectFramework } from "../../utils/detectFramework";
+import { listProjectRoutes } from "../../services/project/projectRoutes";
+
+const router = express.Router();
+
+router.get("/", (req, res) => {
+  try {
+    const info = detectFramework(config.project.root);
+    res.json({
+      success: true,
+      framework: info.framework,
+      router: info.router,
+      routes: listProjectRoutes(config.project.root, info),
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
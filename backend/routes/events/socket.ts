@@ -0,0 +1,89 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocket, WebSocketServer } from "ws";
+import config from "../../config";
+import { eventBus } from "../../services/events";
+import type { BackendEvent } from "../../services/events";
+import { compileErrorTracker } from "../../services/devServer";
+import { logger } from "../../utils/logger";
+
+export const EVENTS_SOCKET_PATH = "/api/events";
+
+// Connections that miss a ping for this long are dropped
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/**
+ * Same rule as the CORS middleware: localhost pages in development,
+ * otherwise only the configured origins. Requests without an Origin header
+ * come from tools rather than browsers and are allowed.
+ */
+function isAllowedOrigin(request: IncomingMessage): boolean {
+  const origin = request.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  if (config.cors.origins === undefined) {
+    return /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?$/.test(origin);
+  }
+  return config.cors.origins.includes(origin);
+}
+
+/**
+ * Serve backend events to the overlay over a WebSocket on the API server.
+ * The CLI proxy forwards its own upgrade path here, so the overlay connects
+ * to the same host it was loaded from.
+ */
+export function attachEventSocket(server: Server): WebSocketServer {
+  const socketServer = new WebSocketServer({
+    server,
+    path: EVENTS_SOCKET_PATH,
+    verifyClient: ({ req }: { req: IncomingMessage }) => isAllowedOrigin(req),
+  });
+  const alive = new WeakSet<WebSocket>();
+
+  const send = (socket: WebSocket, event: BackendEvent) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  };
+
+  socketServer.on("connection", (socket) => {
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    // Late joiners still need to know the app is broken
+    send(socket, {
+      type: "dev-server:status",
+      status: compileErrorTracker.getStatus(),
+    });
+  });
+
+  const unsubscribe = eventBus.subscribe((event) => {
+    socketServer.clients.forEach((socket) => send(socket, event));
+  });
+
+  const heartbeat = setInterval(() => {
+    socketServer.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  socketServer.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+
+  socketServer.on("error", (error) => {
+    logger.error({
+      message: "[Events] WebSocket server error",
+      context: { error: error.message },
+    });
+  });
+
+  return socketServer;
+}
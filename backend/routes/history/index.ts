@@ -1,23 +1,31 @@
 import { Router, Request, Response } from "express";
 import { actionHistory } from "../../services/history";
+import type { HistoryApplyOptions } from "../../services/history";
 import { logger } from "../../utils/logger";
 
 const router = Router();
 
+function readApplyOptions(req: Request): HistoryApplyOptions {
+  return { force: req.body?.force === true };
+}
+
 export async function handleUndoRequest(req: Request, res: Response) {
   try {
-    const result = await actionHistory.undoLastAction();
+    const result = await actionHistory.undoLastAction(readApplyOptions(req));
 
     if (!result.success) {
-      return res.status(400).json({
+      return res.status(result.conflicts ? 409 : 400).json({
         success: false,
         error: result.error ?? "No action available to undo",
+        conflicts: result.conflicts,
+        action: result.action,
       });
     }
 
     return res.json({
       success: true,
       restoredFiles: result.restoredFiles,
+      mergedFiles: result.mergedFiles,
       action: result.action,
     });
   } catch (error) {
@@ -33,16 +41,169 @@ export async function handleUndoRequest(req: Request, res: Response) {
   }
 }
 
+export async function handleRedoRequest(req: Request, res: Response) {
+  try {
+    const result = await actionHistory.redoLastAction(readApplyOptions(req));
+
+    if (!result.success) {
+      return res.status(result.conflicts ? 409 : 400).json({
+        success: false,
+        error: result.error ?? "No action available to redo",
+        conflicts: result.conflicts,
+        action: result.action,
+      });
+    }
+
+    return res.json({
+      success: true,
+      restoredFiles: result.restoredFiles,
+      mergedFiles: result.mergedFiles,
+      action: result.action,
+    });
+  } catch (error) {
+    logger.error({
+      message: "[History] Redo request failed",
+      context: { error: error instanceof Error ? error.message : String(error) },
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to redo changes",
+    });
+  }
+}
+
+export async function handleJumpRequest(req: Request, res: Response) {
+  const actionId = req.body?.actionId;
+  if (typeof actionId !== "string" || actionId.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: "Missing required field: actionId",
+    });
+  }
+
+  try {
+    const result = await actionHistory.jumpTo(actionId, readApplyOptions(req));
+
+    if (!result.success) {
+      return res.status(result.conflicts ? 409 : 400).json({
+        success: false,
+        error: result.error ?? "Failed to jump to action",
+        direction: result.direction,
+        actions: result.actions,
+        restoredFiles: result.restoredFiles,
+        conflicts: result.conflicts,
+      });
+    }
+
+    return res.json(result);
+  } catch (error) {
+    logger.error({
+      message: "[History] Jump request failed",
+      context: {
+        actionId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to jump to action",
+    });
+  }
+}
+
+export async function handleRevertRequest(req: Request, res: Response) {
+  const actionId = req.body?.actionId;
+  if (typeof actionId !== "string" || actionId.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: "Missing required field: actionId",
+    });
+  }
+
+  try {
+    const result = await actionHistory.revertAction(
+      actionId,
+      readApplyOptions(req)
+    );
+
+    if (!result.success) {
+      return res.status(result.conflicts ? 409 : 400).json({
+        success: false,
+        error: result.error ?? "Failed to revert action",
+        conflicts: result.conflicts,
+        action: result.action,
+      });
+    }
+
+    return res.json({
+      success: true,
+      restoredFiles: result.restoredFiles,
+      mergedFiles: result.mergedFiles,
+      action: result.action,
+    });
+  } catch (error) {
+    logger.error({
+      message: "[History] Revert request failed",
+      context: {
+        actionId,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to revert action",
+    });
+  }
+}
+
+router.get("/", (_req, res) => {
+  const listing = actionHistory.listActions();
+
+  res.json({
+    success: true,
+    undo: listing.undo,
+    redo: listing.redo,
+  });
+});
+
+router.get("/log", (_req, res) => {
+  try {
+    res.json({
+      success: true,
+      entries: actionHistory.getActionLog(),
+    });
+  } catch (error) {
+    logger.error({
+      message: "[History] Failed to build action log",
+      context: { error: error instanceof Error ? error.message : String(error) },
+    });
+
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to load history",
+    });
+  }
+});
+
 router.get("/status", (_req, res) => {
   const summary = actionHistory.getLastActionSummary();
+  const redoSummary = actionHistory.getNextRedoSummary();
 
   res.json({
     success: true,
     hasAction: Boolean(summary),
     action: summary,
+    hasRedo: Boolean(redoSummary),
+    redoAction: redoSummary,
   });
 });
 
 router.post("/undo", handleUndoRequest);
+router.post("/redo", handleRedoRequest);
+router.post("/jump", handleJumpRequest);
+router.post("/revert", handleRevertRequest);
 
 export default router;
@@ -0,0 +1,54 @@
+import express from "express";
+import config from "../../config";
+import {
+  listPublicImages,
+  savePublicImage,
+} from "../../services/images/publicImages";
+import { logger } from "../../utils/logger";
+
+const router = express.Router();
+
+interface UploadImageRequestBody {
+  fileName?: unknown;
+  data?: unknown;
+}
+
+router.get("/", (req, res) => {
+  try {
+    const images = listPublicImages(config.project.root);
+    res.json({ success: true, images });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+router.post("/upload", async (req, res) => {
+  const { fileName, data } = (req.body ?? {}) as UploadImageRequestBody;
+
+  if (typeof fileName !== "string" || typeof data !== "string") {
+    return res.status(400).json({
+      success: false,
+      error: "Missing required fields: fileName, data",
+    });
+  }
+
+  try {
+    const image = await savePublicImage(config.project.root, {
+      fileName,
+      data,
+    });
+    logger.info({
+      message: "[Images] Saved uploaded image",
+      context: { filePath: image.filePath, size: image.size },
+    });
+    res.json({ success: true, image });
+  } catch (error) {
+    logger.warn({
+      message: "[Images] Upload failed",
+      context: { fileName, error: (error as Error).message },
+    });
+    res.status(400).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
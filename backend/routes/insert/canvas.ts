@@ -0,0 +1,76 @@
+import { Request, Response } from "express";
+import { logger } from "../../utils/logger";
+import { ComponentInsertService } from "../../services/insert/componentInsert";
+import {
+  GenerateCanvasCodeResult,
+  validateGenerateCanvasCodePayload,
+} from "../../shared/componentTypes";
+import config from "../../config";
+import type { ActionMetadata } from "../../services/history";
+import { runDryRun, runVerifiedAction } from "../shared/routeHelpers";
+
+// Singleton service instance
+const insertService = new ComponentInsertService(config.project.root);
+
+/**
+ * Turn positioned canvas components into laid-out JSX and insert it into the
+ * target file
+ */
+export const generateCanvasCode = async (
+  req: Request<Record<string, never>, GenerateCanvasCodeResult, unknown>,
+  res: Response<GenerateCanvasCodeResult>
+) => {
+  try {
+    const validation = validateGenerateCanvasCodePayload(req.body);
+    if (!validation.success) {
+      logger.warn(`[CanvasCode] Validation failed: ${validation.error}`);
+      return res.status(400).json({
+        success: false,
+        error: validation.error,
+      });
+    }
+
+    const payload = validation.payload;
+    logger.info(
+      `[CanvasCode] Generate request received: ${payload.filePath}, ${payload.components.length} component(s)`
+    );
+
+    const metadata: ActionMetadata = {
+      type: "generate-canvas-code",
+      label: `Generate ${payload.components.length} canvas component(s) in ${payload.filePath}`,
+      details: {
+        filePath: payload.filePath,
+        componentTypes: payload.components.map((component) => component.type),
+      },
+    };
+    const runGenerate = () => insertService.generateCanvasCode(payload);
+
+    const result = payload.dryRun
+      ? await runDryRun(metadata, runGenerate)
+      : await runVerifiedAction(metadata, runGenerate);
+
+    if (result.success) {
+      logger.info(
+        payload.dryRun
+          ? `[CanvasCode] Dry run prepared: ${result.message}`
+          : `[CanvasCode] Canvas code generated successfully: ${result.message}`
+      );
+      res.json(result);
+    } else {
+      logger.error(`[CanvasCode] Generation failed: ${result.error}`);
+      res.status(400).json({
+        success: false,
+        error: result.error,
+        progressMessages: result.progressMessages,
+        verification: result.verification,
+      });
+    }
+  } catch (error) {
+    logger.error(`[CanvasCode] Generation error: ${error}`);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Unknown canvas code error",
+    });
+  }
+};
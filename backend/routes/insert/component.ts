@@ -0,0 +1,85 @@
+import { Request, Response } from "express";
+import { logger } from "../../utils/logger";
+import { ComponentInsertService } from "../../services/insert/componentInsert";
+import {
+  InsertComponentResult,
+  validateInsertComponentPayload,
+} from "../../shared/componentTypes";
+import config from "../../config";
+import type { ActionMetadata } from "../../services/history";
+import { runDryRun, runVerifiedAction } from "../shared/routeHelpers";
+
+// Singleton service instance
+const insertService = new ComponentInsertService(config.project.root);
+
+/**
+ * Insert a component snippet before, after or inside an element in the
+ * source code
+ */
+export const insertComponent = async (
+  req: Request<Record<string, never>, InsertComponentResult, unknown>,
+  res: Response<InsertComponentResult>
+) => {
+  try {
+    const validation = validateInsertComponentPayload(req.body);
+    if (!validation.success) {
+      logger.warn(`[InsertComponent] Validation failed: ${validation.error}`);
+      return res.status(400).json({
+        success: false,
+        error: validation.error,
+      });
+    }
+
+    const payload = validation.payload;
+    const position = payload.position ?? "inside";
+    const targetLabel =
+      payload.target?.componentName ?? payload.targetSelector ?? "root";
+
+    logger.info(
+      `[InsertComponent] Insert request received: ${payload.filePath}, ${payload.componentType ?? "snippet"} ${position} ${targetLabel}`
+    );
+
+    const metadata: ActionMetadata = {
+      type: "insert-component",
+      label: `Insert ${payload.componentType ?? "component"} ${position} ${targetLabel} in ${payload.filePath}`,
+      details: {
+        filePath: payload.filePath,
+        componentType: payload.componentType,
+        position,
+        target: targetLabel,
+      },
+    };
+    const runInsert = () => insertService.insertComponent(payload);
+
+    const result = payload.dryRun
+      ? await runDryRun(metadata, runInsert)
+      : await runVerifiedAction(metadata, runInsert);
+
+    if (result.warning) {
+      logger.info(`[InsertComponent] Insert refused: ${result.message}`);
+      return res.status(200).json(result);
+    }
+
+    if (result.success) {
+      logger.info(
+        payload.dryRun
+          ? `[InsertComponent] Dry run prepared: ${result.message}`
+          : `[InsertComponent] Component inserted successfully: ${result.message}`
+      );
+      res.json(result);
+    } else {
+      logger.error(`[InsertComponent] Insert failed: ${result.error}`);
+      res.status(400).json({
+        success: false,
+        error: result.error,
+        verification: result.verification,
+      });
+    }
+  } catch (error) {
+    logger.error(`[InsertComponent] Insert error: ${error}`);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown insert error",
+    });
+  }
+};
@@ -0,0 +1,121 @@
+import { Request, Response } from "express";
+import { logger } from "../../utils/logger";
+import { VisualMoveService } from "../../services/move/visualMove";
+import { MovePayload, MoveResult } from "../../types/move";
+import config from "../../config";
+import type { ActionMetadata } from "../../services/history";
+import { runDryRun, runVerifiedAction } from "../shared/routeHelpers";
+
+// Singleton service instance
+const moveService = new VisualMoveService(config.project.root);
+
+/**
+ * Move an element before or after one of its siblings in the source code
+ */
+export const moveElement = async (
+  req: Request<Record<string, never>, MoveResult, MovePayload>,
+  res: Response<MoveResult>
+) => {
+  try {
+    const {
+      sourceFile,
+      componentName,
+      elementIdentifier,
+      elementTag,
+      className,
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+      target,
+      position,
+      dryRun,
+    } = req.body;
+
+    logger.info(
+      `[Move] Move request received: ${sourceFile}, ${componentName}, ${elementIdentifier} ${position} ${target?.elementIdentifier}`
+    );
+
+    // Validate required fields
+    if (!sourceFile || !componentName || !elementIdentifier) {
+      const error =
+        "Missing required fields: sourceFile, componentName, or elementIdentifier";
+      logger.warn(`[Move] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    if (!target || typeof target.elementIdentifier !== "string") {
+      const error = "Missing required field: target.elementIdentifier";
+      logger.warn(`[Move] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    if (position !== "before" && position !== "after") {
+      const error = 'position must be "before" or "after"';
+      logger.warn(`[Move] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    const metadata: ActionMetadata = {
+      type: "move-element",
+      label: `Move ${componentName} in ${sourceFile}`,
+      details: {
+        sourceFile,
+        componentName,
+        elementIdentifier,
+        position,
+        target: target.elementIdentifier,
+      },
+    };
+    const runMove = () =>
+      moveService.moveElement({
+        sourceFile,
+        componentName,
+        elementIdentifier,
+        elementTag,
+        className,
+        textContent,
+        ownerComponentName,
+        ownerFilePath,
+        target,
+        position,
+      });
+
+    const result =
+      dryRun === true
+        ? await runDryRun(metadata, runMove)
+        : await runVerifiedAction(metadata, runMove);
+
+    if (result.success) {
+      logger.info(
+        dryRun === true
+          ? `[Move] Dry run prepared: ${result.message}`
+          : `[Move] Element moved successfully: ${result.message}`
+      );
+      res.json({
+        ...result,
+      });
+    } else {
+      logger.error(`[Move] Move failed: ${result.error}`);
+      res.status(400).json({
+        success: false,
+        error: result.error,
+        verification: result.verification,
+      });
+    }
+  } catch (error) {
+    logger.error(`[Move] Move error: ${error}`);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown move error",
+    });
+  }
+};
@@ -0,0 +1,55 @@
+import express from "express";
+import config from "../../config";
+import { PropUpdateService } from "../../services/updates/propUpdate";
+import type { PropTargetPayload } from "../../services/updates/propUpdate";
+import { logger } from "../../utils/logger";
+
+const router = express.Router();
+const propUpdateService = new PropUpdateService(config.project.root);
+
+interface InspectPropsRequestBody {
+  text?: unknown;
+  tag?: unknown;
+  file?: unknown;
+  className?: unknown;
+  elementTag?: unknown;
+  ownerComponentName?: unknown;
+  ownerFilePath?: unknown;
+}
+
+router.post("/inspect", async (req, res) => {
+  const body = (req.body ?? {}) as InspectPropsRequestBody;
+
+  if (typeof body.tag !== "string" || typeof body.file !== "string") {
+    return res
+      .status(400)
+      .json({ success: false, error: "Missing required fields: tag, file" });
+  }
+
+  const payload: PropTargetPayload = {
+    tag: body.tag,
+    file: body.file,
+    text: asOptionalString(body.text),
+    className: asOptionalString(body.className),
+    elementTag: asOptionalString(body.elementTag),
+    ownerComponentName: asOptionalString(body.ownerComponentName),
+    ownerFilePath: asOptionalString(body.ownerFilePath),
+  };
+
+  try {
+    const result = await propUpdateService.inspectProps(payload);
+    res.status(result.success ? 200 : 404).json(result);
+  } catch (error) {
+    logger.error({
+      message: "Prop inspection failed",
+      context: { error: (error as Error).message },
+    });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+function asOptionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+export default router;
@@ -1,7 +1,17 @@
 import { Request, Response } from "express";
 import { logger } from "../../utils/logger";
-import { BaseUpdateResult } from "../../services/shared/types";
+import {
+  BaseUpdateResult,
+  DryRunChange,
+  VerificationReport,
+} from "../../services/shared/types";
 import { actionHistory } from "../../services/history";
+import type { ActionMetadata } from "../../services/history";
+import { verifyChangedFiles } from "../../services/shared/editVerifier";
+import config from "../../config";
+import { isSpacingGroup } from "../../services/updates/spacingUpdate";
+import { IMAGE_FIELDS } from "../../services/updates/imageUpdate";
+import { LINK_FIELDS } from "../../services/updates/linkUpdate";
 
 export interface RouteConfig {
   serviceName: string;
@@ -41,14 +51,16 @@ export function createUpdateRouteHandler<TPayload extends Record<string, any>>(
           ? `<${(payload as Record<string, unknown>).tag as string}>`
           : "selection";
 
-      const result = await actionHistory.runAction(
-        {
-          type: config.serviceName,
-          label: `${config.serviceName}: ${tagLabel} in ${fileLabel}`,
-          details: { file: fileLabel, tag: tagLabel },
-        },
-        () => serviceMethod(payload)
-      );
+      const metadata: ActionMetadata = {
+        type: config.serviceName,
+        label: `${config.serviceName}: ${tagLabel} in ${fileLabel}`,
+        details: { file: fileLabel, tag: tagLabel },
+      };
+      const dryRun = req.body?.dryRun === true;
+
+      const result = dryRun
+        ? await runDryRun(metadata, () => serviceMethod(payload))
+        : await runVerifiedAction(metadata, () => serviceMethod(payload));
 
       if (result.warning) {
         logger.info(
@@ -59,7 +71,9 @@ export function createUpdateRouteHandler<TPayload extends Record<string, any>>(
 
       if (result.success) {
         logger.info(
-          `[${config.serviceName}] Update applied successfully for ${payload.file}`
+          dryRun
+            ? `[${config.serviceName}] Dry run produced ${result.changes?.length ?? 0} file change(s) for ${payload.file}`
+            : `[${config.serviceName}] Update applied successfully for ${payload.file}`
         );
         res.json(result);
       } else {
@@ -80,7 +94,85 @@ export function createUpdateRouteHandler<TPayload extends Record<string, any>>(
   };
 }
 
-function extractPayload<T extends Record<string, any>>(
+/**
+ * Runs a service method without touching disk and attaches the unified diff of
+ * every file it would have written.
+ */
+export async function runDryRun<
+  TResult extends {
+    success: boolean;
+    filePath?: string;
+    dryRun?: boolean;
+    diff?: string;
+    changes?: DryRunChange[];
+  },
+>(metadata: ActionMetadata, handler: () => Promise<TResult>): Promise<TResult> {
+  const { result, changes } = await actionHistory.previewAction(
+    metadata,
+    handler
+  );
+
+  if (!result.success) {
+    return { ...result, dryRun: true };
+  }
+
+  return {
+    ...result,
+    dryRun: true,
+    diff: changes.map((change) => change.diff).join("\n"),
+    filePath: changes[0]?.filePath ?? result.filePath,
+    changes,
+  };
+}
+
+/**
+ * Runs a service method as a recorded action and verifies the files it wrote
+ * before the action is committed. When a check fails every write is rolled
+ * back, nothing lands in the history, and the result carries the
+ * diagnostics instead.
+ */
+export async function runVerifiedAction<
+  TResult extends {
+    success: boolean;
+    error?: string;
+    verification?: VerificationReport;
+  },
+>(metadata: ActionMetadata, handler: () => Promise<TResult>): Promise<TResult> {
+  return actionHistory.runAction(metadata, async () => {
+    const result = await handler();
+    if (!result.success) {
+      return result;
+    }
+
+    const failure = verifyChangedFiles(
+      actionHistory.getCurrentChanges(),
+      config.project.root
+    );
+    if (!failure) {
+      return result;
+    }
+
+    const rolledBackFiles = actionHistory.rollbackCurrentAction();
+    const [first] = failure.diagnostics;
+    const location = [first.file, first.line, first.column]
+      .filter((part) => part !== undefined)
+      .join(":");
+
+    logger.warn({
+      message: `[${metadata.type}] Edit failed ${failure.stage} verification and was rolled back`,
+      context: { diagnostics: failure.diagnostics },
+    });
+
+    return {
+      ...result,
+      success: false,
+      error: `Edit rolled back: ${failure.stage === "parse" ? "it left a syntax error" : "it introduced a type error"} in ${location}: ${first.message}`,
+      verification: { ...failure, rolledBackFiles },
+    };
+  });
+}
+
+export function extractPayload<T extends Record<string, any>>(
   body: any,
   config: RouteConfig
 ): T {
@@ -99,7 +191,7 @@ function extractPayload<T extends Record<string, any>>(
   return payload as T;
 }
 
-function validateRequiredFields(
+export function validateRequiredFields(
   payload: Record<string, any>,
   requiredFields: string[]
 ): string[] {
@@ -120,3 +212,151 @@ export function validateColorPayload(payload: {
   }
   return null;
 }
+
+export function validateSpacingPayload(payload: unknown): string | null {
+  const spacing = isRecord(payload) ? payload.spacing : undefined;
+  if (!Array.isArray(spacing) || spacing.length === 0) {
+    return "At least one spacing group must be provided";
+  }
+
+  for (const update of spacing as unknown[]) {
+    const group = isRecord(update) ? update.group : undefined;
+    if (!isRecord(update) || !isSpacingGroup(group)) {
+      return `Unknown spacing group: ${String(group)}`;
+    }
+    if (!isStringArray(update.old) || !isStringArray(update.new)) {
+      return `Spacing group "${group}" must list old and new class tokens`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Typography, border and layout payloads carry one `{ old, new }` class pair
+ * per field they change. `label` names the group in error messages.
+ */
+export function validateFieldChangePayload(
+  payload: unknown,
+  fields: readonly string[],
+  label: string
+): string | null {
+  const changes = isRecord(payload) ? payload : {};
+  const provided = fields.filter((field) => changes[field]);
+  if (provided.length === 0) {
+    return `At least one ${label} field must be provided`;
+  }
+
+  const groupName = label.charAt(0).toUpperCase() + label.slice(1);
+  for (const field of provided) {
+    const change = changes[field];
+    if (
+      !isRecord(change) ||
+      typeof change.old !== "string" ||
+      typeof change.new !== "string"
+    ) {
+      return `${groupName} field "${field}" must include old and new class names`;
+    }
+  }
+
+  return null;
+}
+
+export function validateImagePayload(payload: unknown): string | null {
+  if (
+    !isRecord(payload) ||
+    !IMAGE_FIELDS.some((field) => payload[field] !== undefined)
+  ) {
+    return "At least one image field must be provided";
+  }
+
+  if (
+    payload.src !== undefined &&
+    (typeof payload.src !== "string" ||
+      !/^(\/|https?:\/\/)\S+$/.test(payload.src))
+  ) {
+    return "Image src must be a path in public/ or an http(s) URL";
+  }
+
+  if (payload.alt !== undefined && typeof payload.alt !== "string") {
+    return "Image alt must be a string";
+  }
+
+  for (const field of ["width", "height"] as const) {
+    const value = payload[field];
+    if (
+      value !== undefined &&
+      value !== null &&
+      !(typeof value === "number" && Number.isInteger(value) && value > 0)
+    ) {
+      return `Image ${field} must be a positive whole number or null`;
+    }
+  }
+
+  return null;
+}
+
+export function validateLinkPayload(payload: unknown): string | null {
+  if (
+    !isRecord(payload) ||
+    !LINK_FIELDS.some((field) => payload[field] !== undefined)
+  ) {
+    return "At least one link field must be provided";
+  }
+
+  if (
+    payload.href !== undefined &&
+    (typeof payload.href !== "string" || payload.href.trim().length === 0)
+  ) {
+    return "Link href must be a non-empty string";
+  }
+
+  for (const field of ["target", "rel"] as const) {
+    const value = payload[field];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return `Link ${field} must be a string or null`;
+    }
+  }
+
+  return null;
+}
+
+export function validatePropPayload(payload: unknown): string | null {
+  if (
+    !isRecord(payload) ||
+    typeof payload.name !== "string" ||
+    !/^[A-Za-z_$][\w$-]*(:[A-Za-z_][\w-]*)?$/.test(payload.name)
+  ) {
+    return "Prop name must be a valid JSX attribute name";
+  }
+
+  if (payload.name === "children" || payload.name === "key") {
+    return `The ${payload.name} prop can't be edited from the inspector`;
+  }
+
+  const { value } = payload;
+  if (value === undefined) {
+    return "Prop value is required; send null to remove the prop";
+  }
+
+  if (
+    value !== null &&
+    typeof value !== "string" &&
+    typeof value !== "boolean" &&
+    !(typeof value === "number" && Number.isFinite(value))
+  ) {
+    return "Prop value must be a string, number, boolean or null";
+  }
+
+  return null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((token) => typeof token === "string")
+  );
+}
@@ -0,0 +1,100 @@
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import batchRouter from "./batch";
+import type { BatchUpdateResult } from "../../types/batch";
+
+describe("POST /api/batch-update validation", () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use("/api/batch-update", batchRouter);
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/batch-update`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const post = async (body: unknown) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return {
+      status: response.status,
+      body: (await response.json()) as BatchUpdateResult,
+    };
+  };
+
+  const colorUpdate = (payload: Record<string, unknown>) => ({
+    kind: "color",
+    payload: {
+      text: "Hello",
+      tag: "p",
+      file: "app/page.tsx",
+      className: "lead",
+      textColor: { old: "text-black", new: "text-red-500" },
+      ...payload,
+    },
+  });
+
+  it("requires a list of updates", async () => {
+    const response = await post({ updates: [] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Missing required field: updates");
+  });
+
+  it("caps the batch size", async () => {
+    const response = await post({
+      updates: Array.from({ length: 51 }, () => colorUpdate({})),
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("A batch can update at most 50 elements");
+  });
+
+  it("rejects unknown kinds with the entry's position", async () => {
+    const response = await post({
+      updates: [colorUpdate({}), { kind: "shadow", payload: {} }],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Update 2: unknown kind "shadow"');
+  });
+
+  it("rejects entries missing required fields", async () => {
+    const response = await post({ updates: [colorUpdate({ file: "" })] });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe("Update 1: missing required fields: file");
+  });
+
+  it("runs the kind's own payload validation", async () => {
+    const response = await post({
+      updates: [colorUpdate({ textColor: undefined })],
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(
+      "Update 1: At least one color field must be provided"
+    );
+  });
+});
@@ -0,0 +1,256 @@
+import { Router, Request, Response } from "express";
+import { logger } from "../../utils/logger";
+import type { ActionMetadata } from "../../services/history";
+import type { BaseUpdateResult } from "../../services/shared/types";
+import {
+  extractPayload,
+  runDryRun,
+  runVerifiedAction,
+  validateColorPayload,
+  validateRequiredFields,
+  type RouteConfig,
+} from "../shared/routeHelpers";
+import { applyColorUpdate, colorRouteConfig } from "./color";
+import { applyFontSizeUpdate, fontSizeRouteConfig } from "./fontSize";
+import { applyFontFamilyUpdate, fontFamilyRouteConfig } from "./fontFamily";
+import type {
+  BatchItemResult,
+  BatchUpdateItem,
+  BatchUpdateKind,
+  BatchUpdatePayload,
+  BatchUpdateResult,
+} from "../../types/batch";
+
+type BatchPayload = Record<string, unknown>;
+
+interface BatchHandler {
+  config: RouteConfig;
+  validate?: (payload: BatchPayload) => string | null;
+  apply: (payload: BatchPayload) => Promise<BaseUpdateResult>;
+}
+
+interface PreparedUpdate {
+  index: number;
+  kind: BatchUpdateKind;
+  handler: BatchHandler;
+  payload: BatchPayload;
+}
+
+const router = Router();
+
+const MAX_BATCH_SIZE = 50;
+
+// Batch edits reuse the single-element routes' field lists and services
+const BATCH_HANDLERS: Record<BatchUpdateKind, BatchHandler> = {
+  color: batchHandler(colorRouteConfig, applyColorUpdate, validateColorPayload),
+  fontSize: batchHandler(fontSizeRouteConfig, applyFontSizeUpdate),
+  fontFamily: batchHandler(fontFamilyRouteConfig, applyFontFamilyUpdate),
+};
+
+/**
+ * Adapt a typed update function to the batch table. Payloads reach `apply`
+ * only after `prepareUpdate` has extracted and validated them against the
+ * route config, which is what makes the narrowing safe.
+ */
+function batchHandler<TPayload>(
+  config: RouteConfig,
+  apply: (payload: TPayload) => Promise<BaseUpdateResult>,
+  validate?: (payload: BatchPayload) => string | null
+): BatchHandler {
+  return {
+    config,
+    validate,
+    apply: (payload) => apply(payload as TPayload),
+  };
+}
+
+/**
+ * Apply the same kind of edit to several elements, possibly across files, as
+ * one history entry so a single undo reverts the whole batch
+ */
+router.post(
+  "/",
+  async (
+    req: Request<Record<string, never>, BatchUpdateResult, BatchUpdatePayload>,
+    res: Response<BatchUpdateResult>
+  ) => {
+    try {
+      const { updates, dryRun } = req.body ?? {};
+
+      if (!Array.isArray(updates) || updates.length === 0) {
+        const error = "Missing required field: updates";
+        logger.warn(`[BatchUpdate] Validation failed: ${error}`);
+        return res.status(400).json({ success: false, error });
+      }
+
+      if (updates.length > MAX_BATCH_SIZE) {
+        const error = `A batch can update at most ${MAX_BATCH_SIZE} elements`;
+        logger.warn(`[BatchUpdate] Validation failed: ${error}`);
+        return res.status(400).json({ success: false, error });
+      }
+
+      // Validate every entry up front so a malformed one never leaves the
+      // batch half applied
+      const prepared: PreparedUpdate[] = [];
+      for (const [index, update] of updates.entries()) {
+        const error = prepareUpdate(index, update, prepared);
+        if (error) {
+          logger.warn(`[BatchUpdate] Validation failed: ${error}`);
+          return res.status(400).json({ success: false, error });
+        }
+      }
+
+      const kinds = Array.from(new Set(prepared.map((item) => item.kind)));
+      const files = Array.from(
+        new Set(prepared.map((item) => String(item.payload.file)))
+      );
+
+      logger.info(
+        `[BatchUpdate] Processing ${prepared.length} update(s) (${kinds.join(", ")}) across ${files.length} file(s)`
+      );
+
+      const metadata: ActionMetadata = {
+        type: "BatchUpdate",
+        label: `BatchUpdate: ${kinds.join(", ")} on ${prepared.length} elements`,
+        details: { kinds, files, count: prepared.length },
+      };
+      const runBatch = () => applyBatch(prepared);
+
+      const result =
+        dryRun === true
+          ? await runDryRun(metadata, runBatch)
+          : await runVerifiedAction(metadata, runBatch);
+
+      if (result.success) {
+        logger.info(
+          dryRun === true
+            ? `[BatchUpdate] Dry run produced ${result.changes?.length ?? 0} file change(s)`
+            : `[BatchUpdate] ${result.message}`
+        );
+        res.json(result);
+      } else {
+        logger.info(`[BatchUpdate] Batch failed: ${result.error}`);
+        res.status(400).json(result);
+      }
+    } catch (error) {
+      logger.error(
+        `BatchUpdate error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+);
+
+function prepareUpdate(
+  index: number,
+  update: unknown,
+  prepared: PreparedUpdate[]
+): string | null {
+  const label = `Update ${index + 1}`;
+  const { kind, payload } = (update ?? {}) as Partial<BatchUpdateItem>;
+
+  if (!kind || !Object.prototype.hasOwnProperty.call(BATCH_HANDLERS, kind)) {
+    return `${label}: unknown kind "${String(kind)}"`;
+  }
+
+  if (!payload || typeof payload !== "object") {
+    return `${label}: missing payload`;
+  }
+
+  const handler = BATCH_HANDLERS[kind];
+  const extracted = extractPayload<BatchPayload>(payload, handler.config);
+  const missingFields = validateRequiredFields(
+    extracted,
+    handler.config.requiredFields
+  );
+  if (missingFields.length > 0) {
+    return `${label}: missing required fields: ${missingFields.join(", ")}`;
+  }
+
+  const validationError = handler.validate?.(extracted);
+  if (validationError) {
+    return `${label}: ${validationError}`;
+  }
+
+  prepared.push({ index, kind, handler, payload: extracted });
+  return null;
+}
+
+/**
+ * Runs inside the action context. Updates go one after another because later
+ * ones may edit a file an earlier one already rewrote.
+ */
+async function applyBatch(
+  prepared: PreparedUpdate[]
+): Promise<BatchUpdateResult> {
+  const results: BatchItemResult[] = [];
+
+  for (const { index, kind, handler, payload } of prepared) {
+    const file = String(payload.file);
+    try {
+      const result = await handler.apply(payload);
+      if (result.warning) {
+        results.push({
+          index,
+          kind,
+          file,
+          success: false,
+          skipped: true,
+          message: result.message,
+        });
+      } else {
+        results.push({
+          index,
+          kind,
+          file,
+          success: result.success,
+          message: result.message,
+          error: result.error,
+        });
+      }
+    } catch (error) {
+      logger.error(
+        `[BatchUpdate] ${handler.config.serviceName} threw for update ${index + 1}: ${error}`
+      );
+      results.push({
+        index,
+        kind,
+        file,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const appliedCount = results.filter((result) => result.success).length;
+  if (appliedCount === 0) {
+    const firstProblem = results.find(
+      (result) => result.error || result.message
+    );
+    return {
+      success: false,
+      error:
+        firstProblem?.error ??
+        firstProblem?.message ??
+        "None of the selected elements could be updated",
+      appliedCount,
+      results,
+    };
+  }
+
+  const notApplied = results.length - appliedCount;
+  return {
+    success: true,
+    message:
+      notApplied === 0
+        ? `Updated ${appliedCount} elements`
+        : `Updated ${appliedCount} of ${results.length} elements; ${notApplied} could not be updated`,
+    appliedCount,
+    results,
+  };
+}
+
+export default router;
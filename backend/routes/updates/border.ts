@@ -0,0 +1,55 @@
+import { Router } from "express";
+import config from "../../config";
+import {
+  BorderUpdateService,
+  BORDER_FIELDS,
+} from "../../services/updates/borderUpdate";
+import {
+  createUpdateRouteHandler,
+  validateFieldChangePayload,
+} from "../shared/routeHelpers";
+import type { BorderUpdatePayload } from "../../services/updates/borderUpdate";
+
+const router = Router();
+const borderUpdateService = new BorderUpdateService(config.project.root);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<BorderUpdatePayload>(
+    {
+      serviceName: "BorderUpdate",
+      requiredFields: ["tag", "file"],
+      optionalFields: [
+        "text",
+        "className",
+        "borderRadius",
+        "borderWidth",
+        "borderStyle",
+        "borderColor",
+        "boxShadow",
+        "forceGlobal",
+        "elementTag",
+        "textContent",
+        "ownerComponentName",
+        "ownerFilePath",
+        "line",
+      ],
+    },
+    async (payload) => {
+      const borderError = validateFieldChangePayload(
+        payload,
+        BORDER_FIELDS,
+        "border"
+      );
+      if (borderError) {
+        return {
+          success: false,
+          error: borderError,
+        };
+      }
+      return borderUpdateService.updateBorder(payload);
+    }
+  )
+);
+
+export default router;
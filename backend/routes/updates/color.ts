@@ -4,29 +4,41 @@ import { ColorUpdateService } from "../../services/updates/colorUpdate";
 import {
   createUpdateRouteHandler,
   validateColorPayload,
+  type RouteConfig,
 } from "../shared/routeHelpers";
-import type { ColorUpdatePayload } from "../../services/updates/colorUpdate";
+import type {
+  ColorUpdatePayload,
+  ColorUpdateResult,
+} from "../../services/updates/colorUpdate";
 
 const router = Router();
 const colorUpdateService = new ColorUpdateService(config.project.root);
 
+export const colorRouteConfig: RouteConfig = {
+  serviceName: "ColorUpdate",
+  requiredFields: ["text", "tag", "file", "className"],
+  optionalFields: [
+    "textColor",
+    "backgroundColor",
+    "hoverBackgroundColor",
+    "forceGlobal",
+    "elementTag",
+    "textContent",
+    "ownerComponentName",
+    "ownerFilePath",
+  ],
+};
+
+export async function applyColorUpdate(
+  payload: ColorUpdatePayload
+): Promise<ColorUpdateResult> {
+  return colorUpdateService.updateColor(payload);
+}
+
 router.post(
   "/",
   createUpdateRouteHandler<ColorUpdatePayload>(
-    {
-      serviceName: "ColorUpdate",
-      requiredFields: ["text", "tag", "file", "className"],
-      optionalFields: [
-        "textColor",
-        "backgroundColor",
-        "hoverBackgroundColor",
-        "forceGlobal",
-        "elementTag",
-        "textContent",
-        "ownerComponentName",
-        "ownerFilePath",
-      ],
-    },
+    colorRouteConfig,
     async (payload) => {
       // Additional validation for color-specific requirements
       const colorError = validateColorPayload(payload);
@@ -36,7 +48,7 @@ router.post(
           error: colorError,
         };
       }
-      return colorUpdateService.updateColor(payload);
+      return applyColorUpdate(payload);
     }
   )
 );
@@ -1,30 +1,44 @@
 import { Router } from "express";
 import config from "../../config";
 import { FontFamilyUpdateService } from "../../services/updates/fontFamilyUpdate";
-import { createUpdateRouteHandler } from "../shared/routeHelpers";
-import type { FontFamilyUpdatePayload } from "../../services/updates/fontFamilyUpdate";
+import {
+  createUpdateRouteHandler,
+  type RouteConfig,
+} from "../shared/routeHelpers";
+import type {
+  FontFamilyUpdatePayload,
+  FontFamilyUpdateResult,
+} from "../../services/updates/fontFamilyUpdate";
 
 const router = Router();
 const fontFamilyUpdateService = new FontFamilyUpdateService(
   config.project.root
 );
 
+export const fontFamilyRouteConfig: RouteConfig = {
+  serviceName: "FontFamilyUpdate",
+  requiredFields: ["newFont", "text", "tag", "file", "className"],
+  optionalFields: [
+    "oldFont",
+    "forceGlobal",
+    "elementTag",
+    "textContent",
+    "ownerComponentName",
+    "ownerFilePath",
+  ],
+};
+
+export function applyFontFamilyUpdate(
+  payload: FontFamilyUpdatePayload
+): Promise<FontFamilyUpdateResult> {
+  return fontFamilyUpdateService.updateFontFamily(payload);
+}
+
 router.post(
   "/",
   createUpdateRouteHandler<FontFamilyUpdatePayload>(
-    {
-      serviceName: "FontFamilyUpdate",
-      requiredFields: ["newFont", "text", "tag", "file", "className"],
-      optionalFields: [
-        "oldFont",
-        "forceGlobal",
-        "elementTag",
-        "textContent",
-        "ownerComponentName",
-        "ownerFilePath",
-      ],
-    },
-    (payload) => fontFamilyUpdateService.updateFontFamily(payload)
+    fontFamilyRouteConfig,
+    applyFontFamilyUpdate
   )
 );
 
@@ -1,36 +1,43 @@
 import { Router } from "express";
 import config from "../../config";
 import { FontSizeUpdateService } from "../../services/updates/fontSizeUpdate";
-import { createUpdateRouteHandler } from "../shared/routeHelpers";
-import type { FontSizeUpdatePayload } from "../../services/updates/fontSizeUpdate";
+import {
+  createUpdateRouteHandler,
+  type RouteConfig,
+} from "../shared/routeHelpers";
+import type {
+  FontSizeUpdatePayload,
+  FontSizeUpdateResult,
+} from "../../services/updates/fontSizeUpdate";
 
 const router = Router();
 const fontSizeUpdateService = new FontSizeUpdateService(
   config.project.root
 );
 
+export const fontSizeRouteConfig: RouteConfig = {
+  serviceName: "FontSizeUpdate",
+  requiredFields: ["oldSize", "newSize", "text", "tag", "file", "className"],
+  optionalFields: [
+    "forceGlobal",
+    "elementTag",
+    "textContent",
+    "ownerComponentName",
+    "ownerFilePath",
+  ],
+};
+
+export function applyFontSizeUpdate(
+  payload: FontSizeUpdatePayload
+): Promise<FontSizeUpdateResult> {
+  return fontSizeUpdateService.updateFontSize(payload);
+}
+
 router.post(
   "/",
   createUpdateRouteHandler<FontSizeUpdatePayload>(
-    {
-      serviceName: "FontSizeUpdate",
-      requiredFields: [
-        "oldSize",
-        "newSize",
-        "text",
-        "tag",
-        "file",
-        "className",
-      ],
-      optionalFields: [
-        "forceGlobal",
-        "elementTag",
-        "textContent",
-        "ownerComponentName",
-        "ownerFilePath",
-      ],
-    },
-    (payload) => fontSizeUpdateService.updateFontSize(payload)
+    fontSizeRouteConfig,
+    applyFontSizeUpdate
   )
 );
 
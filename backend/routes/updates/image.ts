@@ -0,0 +1,45 @@
+import { Router } from "express";
+import config from "../../config";
+import { ImageUpdateService } from "../../services/updates/imageUpdate";
+import {
+  createUpdateRouteHandler,
+  validateImagePayload,
+} from "../shared/routeHelpers";
+import type { ImageUpdatePayload } from "../../services/updates/imageUpdate";
+
+const router = Router();
+const imageUpdateService = new ImageUpdateService(config.project.root);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<ImageUpdatePayload>(
+    {
+      serviceName: "ImageUpdate",
+      requiredFields: ["currentSrc", "tag", "file"],
+      optionalFields: [
+        "currentAlt",
+        "src",
+        "alt",
+        "width",
+        "height",
+        "forceGlobal",
+        "className",
+        "elementTag",
+        "ownerComponentName",
+        "ownerFilePath",
+      ],
+    },
+    async (payload) => {
+      const imageError = validateImagePayload(payload);
+      if (imageError) {
+        return {
+          success: false,
+          error: imageError,
+        };
+      }
+      return imageUpdateService.updateImage(payload);
+    }
+  )
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import { Router } from "express";
+import config from "../../config";
+import {
+  LayoutUpdateService,
+  LAYOUT_FIELDS,
+} from "../../services/updates/layoutUpdate";
+import {
+  createUpdateRouteHandler,
+  validateFieldChangePayload,
+} from "../shared/routeHelpers";
+import type { LayoutUpdatePayload } from "../../services/updates/layoutUpdate";
+
+const router = Router();
+const layoutUpdateService = new LayoutUpdateService(config.project.root);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<LayoutUpdatePayload>(
+    {
+      serviceName: "LayoutUpdate",
+      requiredFields: ["tag", "file"],
+      optionalFields: [
+        "text",
+        "className",
+        "display",
+        "flexDirection",
+        "flexWrap",
+        "justifyContent",
+        "alignItems",
+        "gridColumns",
+        "gap",
+        "forceGlobal",
+        "elementTag",
+        "textContent",
+        "ownerComponentName",
+        "ownerFilePath",
+        "line",
+      ],
+    },
+    async (payload) => {
+      const layoutError = validateFieldChangePayload(
+        payload,
+        LAYOUT_FIELDS,
+        "layout"
+      );
+      if (layoutError) {
+        return {
+          success: false,
+          error: layoutError,
+        };
+      }
+      return layoutUpdateService.updateLayout(payload);
+    }
+  )
+);
+
+export default router;
@@ -0,0 +1,44 @@
+import { Router } from "express";
+import config from "../../config";
+import { LinkUpdateService } from "../../services/updates/linkUpdate";
+import {
+  createUpdateRouteHandler,
+  validateLinkPayload,
+} from "../shared/routeHelpers";
+import type { LinkUpdatePayload } from "../../services/updates/linkUpdate";
+
+const router = Router();
+const linkUpdateService = new LinkUpdateService(config.project.root);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<LinkUpdatePayload>(
+    {
+      serviceName: "LinkUpdate",
+      requiredFields: ["currentHref", "tag", "file"],
+      optionalFields: [
+        "text",
+        "href",
+        "target",
+        "rel",
+        "forceGlobal",
+        "className",
+        "elementTag",
+        "ownerComponentName",
+        "ownerFilePath",
+      ],
+    },
+    async (payload) => {
+      const linkError = validateLinkPayload(payload);
+      if (linkError) {
+        return {
+          success: false,
+          error: linkError,
+        };
+      }
+      return linkUpdateService.updateLink(payload);
+    }
+  )
+);
+
+export default router;
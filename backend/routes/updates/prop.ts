@@ -0,0 +1,42 @@
+import { Router } from "express";
+import config from "../../config";
+import { PropUpdateService } from "../../services/updates/propUpdate";
+import {
+  createUpdateRouteHandler,
+  validatePropPayload,
+} from "../shared/routeHelpers";
+import type { PropUpdatePayload } from "../../services/updates/propUpdate";
+
+const router = Router();
+const propUpdateService = new PropUpdateService(config.project.root);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<PropUpdatePayload>(
+    {
+      serviceName: "PropUpdate",
+      requiredFields: ["name", "tag", "file"],
+      optionalFields: [
+        "value",
+        "text",
+        "forceGlobal",
+        "className",
+        "elementTag",
+        "ownerComponentName",
+        "ownerFilePath",
+      ],
+    },
+    async (payload) => {
+      const propError = validatePropPayload(payload);
+      if (propError) {
+        return {
+          success: false,
+          error: propError,
+        };
+      }
+      return propUpdateService.updateProp(payload);
+    }
+  )
+);
+
+export default router;
@@ -0,0 +1,43 @@
+import { Router } from "express";
+import config from "../../config";
+import { SpacingUpdateService } from "../../services/updates/spacingUpdate";
+import {
+  createUpdateRouteHandler,
+  validateSpacingPayload,
+} from "../shared/routeHelpers";
+import type { SpacingUpdatePayload } from "../../services/updates/spacingUpdate";
+
+const router = Router();
+const spacingUpdateService = new SpacingUpdateService(config.project.root);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<SpacingUpdatePayload>(
+    {
+      serviceName: "SpacingUpdate",
+      requiredFields: ["spacing", "tag", "file"],
+      optionalFields: [
+        "text",
+        "className",
+        "forceGlobal",
+        "elementTag",
+        "textContent",
+        "ownerComponentName",
+        "ownerFilePath",
+        "line",
+      ],
+    },
+    async (payload) => {
+      const spacingError = validateSpacingPayload(payload);
+      if (spacingError) {
+        return {
+          success: false,
+          error: spacingError,
+        };
+      }
+      return spacingUpdateService.updateSpacing(payload);
+    }
+  )
+);
+
+export default router;
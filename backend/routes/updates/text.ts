@@ -19,6 +19,9 @@ router.post(
         "textContent",
         "ownerComponentName",
         "ownerFilePath",
+        "listEditMode",
+        "locale",
+        "translationLocales",
       ],
     },
     (payload) => textUpdateService.updateText(payload)
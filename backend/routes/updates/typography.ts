@@ -0,0 +1,57 @@
+import { Router } from "express";
+import config from "../../config";
+import {
+  TypographyUpdateService,
+  TYPOGRAPHY_FIELDS,
+} from "../../services/updates/typographyUpdate";
+import {
+  createUpdateRouteHandler,
+  validateFieldChangePayload,
+} from "../shared/routeHelpers";
+import type { TypographyUpdatePayload } from "../../services/updates/typographyUpdate";
+
+const router = Router();
+const typographyUpdateService = new TypographyUpdateService(
+  config.project.root
+);
+
+router.post(
+  "/",
+  createUpdateRouteHandler<TypographyUpdatePayload>(
+    {
+      serviceName: "TypographyUpdate",
+      requiredFields: ["tag", "file"],
+      optionalFields: [
+        "text",
+        "className",
+        "fontWeight",
+        "lineHeight",
+        "letterSpacing",
+        "textAlign",
+        "textTransform",
+        "forceGlobal",
+        "elementTag",
+        "textContent",
+        "ownerComponentName",
+        "ownerFilePath",
+        "line",
+      ],
+    },
+    async (payload) => {
+      const typographyError = validateFieldChangePayload(
+        payload,
+        TYPOGRAPHY_FIELDS,
+        "typography"
+      );
+      if (typographyError) {
+        return {
+          success: false,
+          error: typographyError,
+        };
+      }
+      return typographyUpdateService.updateTypography(payload);
+    }
+  )
+);
+
+export default router;
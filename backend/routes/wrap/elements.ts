@@ -0,0 +1,132 @@
+import { Request, Response } from "express";
+import { logger } from "../../utils/logger";
+import { VisualWrapService } from "../../services/wrap/visualWrap";
+import { WrapPayload, WrapResult } from "../../types/wrap";
+import config from "../../config";
+import type { ActionMetadata } from "../../services/history";
+import { runDryRun, runVerifiedAction } from "../shared/routeHelpers";
+
+// Singleton service instance
+const wrapService = new VisualWrapService(config.project.root);
+
+// Lowercase HTML tags and custom elements, or capitalised component names
+const WRAPPER_TAG_PATTERN =
+  /^(?:[a-z][a-z0-9]*(?:-[a-z0-9]+)*|[A-Z][A-Za-z0-9]*)$/;
+
+/**
+ * Wrap adjacent sibling elements in a new container element in the source
+ * code
+ */
+export const wrapElements = async (
+  req: Request<Record<string, never>, WrapResult, WrapPayload>,
+  res: Response<WrapResult>
+) => {
+  try {
+    const {
+      sourceFile,
+      elements,
+      ownerComponentName,
+      ownerFilePath,
+      wrapperTag,
+      wrapperClassName,
+      dryRun,
+    } = req.body;
+
+    logger.info(
+      `[Wrap] Wrap request received: ${sourceFile}, ${Array.isArray(elements) ? elements.length : 0} element(s) in <${wrapperTag}>`
+    );
+
+    // Validate required fields
+    if (!sourceFile || !Array.isArray(elements) || elements.length === 0) {
+      const error = "Missing required fields: sourceFile or elements";
+      logger.warn(`[Wrap] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    if (
+      elements.some(
+        (element) =>
+          !element ||
+          typeof element.componentName !== "string" ||
+          typeof element.elementIdentifier !== "string"
+      )
+    ) {
+      const error =
+        "Every element needs a componentName and an elementIdentifier";
+      logger.warn(`[Wrap] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    if (
+      typeof wrapperTag !== "string" ||
+      !WRAPPER_TAG_PATTERN.test(wrapperTag)
+    ) {
+      const error = "wrapperTag must be an element or component name";
+      logger.warn(`[Wrap] Validation failed: ${error}`);
+      return res.status(400).json({
+        success: false,
+        error,
+      });
+    }
+
+    const className =
+      typeof wrapperClassName === "string" && wrapperClassName.trim()
+        ? wrapperClassName.trim().split(/\s+/).join(" ")
+        : undefined;
+
+    const metadata: ActionMetadata = {
+      type: "wrap-elements",
+      label: `Wrap ${elements.length} element(s) in ${wrapperTag} in ${sourceFile}`,
+      details: {
+        sourceFile,
+        wrapperTag,
+        wrapperClassName: className,
+        elements: elements.map((element) => element.elementIdentifier),
+      },
+    };
+    const runWrap = () =>
+      wrapService.wrapElements({
+        sourceFile,
+        elements,
+        ownerComponentName,
+        ownerFilePath,
+        wrapperTag,
+        wrapperClassName: className,
+      });
+
+    const result =
+      dryRun === true
+        ? await runDryRun(metadata, runWrap)
+        : await runVerifiedAction(metadata, runWrap);
+
+    if (result.success) {
+      logger.info(
+        dryRun === true
+          ? `[Wrap] Dry run prepared: ${result.message}`
+          : `[Wrap] Elements wrapped successfully: ${result.message}`
+      );
+      res.json({
+        ...result,
+      });
+    } else {
+      logger.error(`[Wrap] Wrap failed: ${result.error}`);
+      res.status(400).json({
+        success: false,
+        error: result.error,
+        verification: result.verification,
+      });
+    }
+  } catch (error) {
+    logger.error(`[Wrap] Wrap error: ${error}`);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown wrap error",
+    });
+  }
+};
@@ -0,0 +1,204 @@
+import type { CanvasComponent } from "../../shared/componentTypes";
+
+// Tailwind spacing steps, one step = 4px
+const SPACING_SCALE = [
+  0, 0.5, 1, 1.5, 2, 2.5, 3, 4, 5, 6, 8, 10, 12, 14, 16, 20, 24,
+];
+
+const WIDTH_FRACTIONS: Array<[number, string]> = [
+  [1 / 4, "w-1/4"],
+  [1 / 3, "w-1/3"],
+  [1 / 2, "w-1/2"],
+  [2 / 3, "w-2/3"],
+  [3 / 4, "w-3/4"],
+  [1, "w-full"],
+];
+
+const MAX_GRID_COLUMNS = 12;
+// Relative tolerances used when snapping drawn boxes to a layout
+const ROW_OVERLAP_RATIO = 0.5;
+const EQUAL_WIDTH_TOLERANCE = 0.1;
+const FRACTION_TOLERANCE = 0.04;
+const ALIGN_TOLERANCE = 0.05;
+
+interface CanvasRow {
+  items: CanvasComponent[];
+  top: number;
+  bottom: number;
+}
+
+export interface CanvasLayoutOptions {
+  containerWidth?: number;
+}
+
+/**
+ * Turn absolutely positioned canvas components into a single JSX block.
+ * Components whose boxes share a horizontal band become a row (a grid when
+ * they have matching widths, a flex row otherwise) and rows stack in a flex
+ * column. The same input always produces the same markup.
+ */
+export function buildCanvasLayout(
+  components: CanvasComponent[],
+  options: CanvasLayoutOptions = {}
+): string {
+  const originX = Math.min(...components.map((component) => component.x));
+  const contentWidth =
+    Math.max(...components.map((component) => component.x + component.width)) -
+    originX;
+  const containerWidth =
+    options.containerWidth && options.containerWidth > 0
+      ? options.containerWidth
+      : contentWidth;
+
+  const rows = groupIntoRows(components);
+  const renderedRows = rows.map((row) =>
+    renderRow(row, originX, containerWidth)
+  );
+
+  if (renderedRows.length === 1) {
+    return renderedRows[0];
+  }
+
+  const rowGaps = rows
+    .slice(1)
+    .map((row, index) => Math.max(0, row.top - rows[index].bottom));
+  return wrap(`flex flex-col gap-${toSpacing(median(rowGaps))}`, renderedRows);
+}
+
+function groupIntoRows(components: CanvasComponent[]): CanvasRow[] {
+  const sorted = [...components].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: CanvasRow[] = [];
+
+  for (const component of sorted) {
+    const top = component.y;
+    const bottom = component.y + component.height;
+    const current = rows[rows.length - 1];
+
+    if (current) {
+      const overlap =
+        Math.min(bottom, current.bottom) - Math.max(top, current.top);
+      const shortest = Math.min(component.height, current.bottom - current.top);
+      if (overlap > shortest * ROW_OVERLAP_RATIO) {
+        current.items.push(component);
+        current.top = Math.min(current.top, top);
+        current.bottom = Math.max(current.bottom, bottom);
+        continue;
+      }
+    }
+
+    rows.push({ items: [component], top, bottom });
+  }
+
+  for (const row of rows) {
+    row.items.sort((a, b) => a.x - b.x || a.y - b.y);
+  }
+  return rows;
+}
+
+function renderRow(
+  row: CanvasRow,
+  originX: number,
+  containerWidth: number
+): string {
+  const { items } = row;
+
+  if (items.length === 1) {
+    const [item] = items;
+    const left = item.x - originX;
+    const right = containerWidth - (left + item.width);
+    const tolerance = containerWidth * ALIGN_TOLERANCE;
+
+    if (left > tolerance && Math.abs(left - right) <= tolerance) {
+      return wrap("flex justify-center", [item.template]);
+    }
+    if (left > tolerance && right <= tolerance) {
+      return wrap("flex justify-end", [item.template]);
+    }
+    return item.template;
+  }
+
+  const gaps = items
+    .slice(1)
+    .map((item, index) =>
+      Math.max(0, item.x - (items[index].x + items[index].width))
+    );
+  const gap = `gap-${toSpacing(median(gaps))}`;
+
+  const meanWidth =
+    items.reduce((sum, item) => sum + item.width, 0) / items.length;
+  const equalWidths = items.every(
+    (item) =>
+      Math.abs(item.width - meanWidth) <= meanWidth * EQUAL_WIDTH_TOLERANCE
+  );
+
+  if (equalWidths && items.length <= MAX_GRID_COLUMNS) {
+    return wrap(
+      `grid grid-cols-${items.length} ${gap}`,
+      items.map((item) => item.template)
+    );
+  }
+
+  return wrap(
+    `flex ${alignItems(items)} ${gap}`,
+    items.map((item) =>
+      wrap(widthClass(item.width, containerWidth), [item.template])
+    )
+  );
+}
+
+function alignItems(items: CanvasComponent[]): string {
+  const tops = items.map((item) => item.y);
+  const centers = items.map((item) => item.y + item.height / 2);
+  const bottoms = items.map((item) => item.y + item.height);
+  const spread = (values: number[]) =>
+    Math.max(...values) - Math.min(...values);
+
+  const smallest = Math.min(...items.map((item) => item.height));
+  const tolerance = Math.max(4, smallest * ALIGN_TOLERANCE);
+
+  if (spread(tops) <= tolerance) {
+    return "items-start";
+  }
+  if (spread(centers) <= tolerance) {
+    return "items-center";
+  }
+  if (spread(bottoms) <= tolerance) {
+    return "items-end";
+  }
+  return "items-start";
+}
+
+function widthClass(width: number, containerWidth: number): string {
+  const ratio = width / containerWidth;
+  for (const [fraction, className] of WIDTH_FRACTIONS) {
+    if (Math.abs(ratio - fraction) <= FRACTION_TOLERANCE) {
+      return className;
+    }
+  }
+  return `w-[${Math.round(width)}px]`;
+}
+
+function toSpacing(px: number): string {
+  let closest = SPACING_SCALE[0];
+  for (const step of SPACING_SCALE) {
+    if (Math.abs(step * 4 - px) < Math.abs(closest * 4 - px)) {
+      closest = step;
+    }
+  }
+  return String(closest);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+function wrap(className: string, children: string[]): string {
+  return `<div className="${className}">\n${children.join("\n")}\n</div>`;
+}
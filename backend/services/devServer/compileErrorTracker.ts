@@ -0,0 +1,91 @@
+import { actionHistory } from "../history";
+import type { ActionSummary } from "../history";
+import type { CompileError, DevServerStatus } from "../../types/devServer";
+import { logger } from "../../utils/logger";
+
+// Errors without a file are blamed on an edit applied this recently
+const RECENT_ACTION_WINDOW_MS = 60_000;
+
+type StatusListener = (status: DevServerStatus) => void;
+
+/**
+ * Holds the dev server's current compile error, as reported by the CLI, and
+ * notifies subscribers whenever it appears or clears.
+ */
+export class CompileErrorTracker {
+  private status: DevServerStatus = {
+    error: null,
+    relatedAction: null,
+    reportedAt: new Date().toISOString(),
+  };
+  private listeners = new Set<StatusListener>();
+
+  getStatus(): DevServerStatus {
+    return this.status;
+  }
+
+  report(error: CompileError | null): DevServerStatus {
+    this.status = {
+      error,
+      relatedAction: error ? this.findRelatedAction(error) : null,
+      reportedAt: new Date().toISOString(),
+    };
+
+    if (error) {
+      logger.warn({
+        message: "[DevServer] App failed to compile",
+        context: {
+          file: error.file,
+          message: error.message,
+          relatedAction: this.status.relatedAction?.label,
+        },
+      });
+    } else {
+      logger.info("[DevServer] App compiles again");
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(this.status);
+      } catch (listenerError) {
+        logger.warn({
+          message: "[DevServer] Status listener failed",
+          context: {
+            error:
+              listenerError instanceof Error
+                ? listenerError.message
+                : String(listenerError),
+          },
+        });
+      }
+    });
+
+    return this.status;
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private findRelatedAction(error: CompileError): ActionSummary | null {
+    const lastAction = actionHistory.getLastActionSummary();
+    if (!lastAction) {
+      return null;
+    }
+
+    if (error.file) {
+      const errorFile = error.file.replace(/\\/g, "/");
+      return lastAction.files.some(
+        (file) => file.replace(/\\/g, "/") === errorFile
+      )
+        ? lastAction
+        : null;
+    }
+
+    const age = Date.now() - new Date(lastAction.timestamp).getTime();
+    return age <= RECENT_ACTION_WINDOW_MS ? lastAction : null;
+  }
+}
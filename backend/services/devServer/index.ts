@@ -0,0 +1,5 @@
+import { CompileErrorTracker } from "./compileErrorTracker";
+
+export const compileErrorTracker = new CompileErrorTracker();
+
+export type { CompileError, DevServerStatus } from "../../types/devServer";
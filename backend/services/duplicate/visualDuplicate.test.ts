@@ -0,0 +1,95 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { VisualDuplicateService } from "./visualDuplicate";
+
+describe("VisualDuplicateService", () => {
+  let projectRoot: string;
+  let pagePath: string;
+  let service: VisualDuplicateService;
+
+  const writePage = (source: string) =>
+    fs.writeFileSync(pagePath, source, "utf8");
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-duplicate-"));
+    pagePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    // Check recast's own output, without Prettier tidying it up
+    fs.mkdirSync(path.join(projectRoot, ".brakit"));
+    fs.writeFileSync(
+      path.join(projectRoot, ".brakit", "config.json"),
+      JSON.stringify({ formatting: { strategy: "recast" } }),
+      "utf8"
+    );
+    service = new VisualDuplicateService(projectRoot);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("puts the copy on its own line at the original's indent", async () => {
+    writePage(`export default function Page() {
+  return (
+    <main>
+      <p className="lead">Hello</p>
+    </main>
+  );
+}
+`);
+
+    const result = await service.duplicateElement({
+      sourceFile: "app/page.tsx",
+      componentName: "p",
+      elementIdentifier: "Hello",
+      elementTag: "p",
+      className: "lead",
+      textContent: "Hello",
+    });
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(pagePath, "utf8")).toContain(`    <main>
+      <p className="lead">Hello</p>
+      <p className="lead">Hello</p>
+    </main>
+`);
+  });
+
+  it("wraps a duplicated root in a fragment without stray parentheses", async () => {
+    writePage(`export default function Card() {
+  return (
+    <section className="card">
+      <h2>Card</h2>
+    </section>
+  );
+}
+`);
+
+    const result = await service.duplicateElement({
+      sourceFile: "app/page.tsx",
+      componentName: "section",
+      elementIdentifier: "card",
+      elementTag: "section",
+      className: "card",
+    });
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(pagePath, "utf8"))
+      .toBe(`export default function Card() {
+  return (
+    <>
+      <section className="card">
+        <h2>Card</h2>
+      </section>
+      <section className="card">
+        <h2>Card</h2>
+      </section>
+    </>
+  );
+}
+`);
+  });
+});
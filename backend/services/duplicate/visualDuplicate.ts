@@ -0,0 +1,192 @@
+import jscodeshift from "jscodeshift";
+import type { ASTPath, JSXElement } from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+} from "../shared/BaseUpdateService";
+import { safeReadFile } from "../shared/fileUtils";
+import { asJsxChild, createLineBreak, isMultiline } from "../shared/jsxLayout";
+import { DuplicatePayload, DuplicateResult } from "../../types/duplicate";
+import { logger } from "../../utils/logger";
+
+const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+type JSXChild = namedTypes.Node | null | undefined;
+
+export class VisualDuplicateService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  async duplicateElement(payload: DuplicatePayload): Promise<DuplicateResult> {
+    const {
+      sourceFile,
+      componentName,
+      elementIdentifier,
+      elementTag,
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+    } = payload;
+
+    try {
+      const lookupText =
+        textContent && textContent.length > 0 ? textContent : elementIdentifier;
+
+      const candidateFiles = await this.resolveCandidateFiles({
+        file: sourceFile,
+        tag: elementTag ?? componentName,
+        serviceName: "Duplicate",
+        lookupText,
+        ownerComponentName,
+        ownerFilePath,
+      });
+      if (candidateFiles.length === 0) {
+        return {
+          success: false,
+          error: `Source file "${sourceFile}" not found`,
+        };
+      }
+
+      for (const filePath of candidateFiles) {
+        const result = await this.tryDuplicateInFile(filePath, payload);
+        if (result) {
+          return result;
+        }
+      }
+
+      logger.warn(
+        `[VisualDuplicate] Unable to locate "${elementIdentifier}" in ${candidateFiles.join(", ")}`
+      );
+      return {
+        success: false,
+        error: `Element "${elementIdentifier}" not found or could not be duplicated`,
+      };
+    } catch (error) {
+      logger.error(`[VisualDuplicate] Duplicate operation failed: ${error}`);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown duplicate error",
+      };
+    }
+  }
+
+  private async tryDuplicateInFile(
+    filePath: string,
+    payload: DuplicatePayload
+  ): Promise<DuplicateResult | null> {
+    const {
+      componentName,
+      elementIdentifier,
+      elementTag,
+      className,
+      textContent,
+    } = payload;
+
+    const source = await safeReadFile(filePath);
+    if (!source) {
+      return null;
+    }
+
+    const { ast, possibleNames } = this.parseAndFindElements(
+      source,
+      elementTag ?? componentName
+    );
+
+    const match = this.findLocalElementMatch({
+      filePath,
+      ast,
+      possibleNames,
+      matcher: this.createElementMatcher({
+        identifier: elementIdentifier,
+        textContent,
+        className,
+        elementTag,
+      }),
+      className: className ?? "",
+      text: textContent ?? elementIdentifier,
+      serviceName: "Duplicate",
+    });
+
+    if (!match) {
+      return null;
+    }
+
+    if (this.isRenderedFromList(match.matchedPath)) {
+      logger.info({
+        message: "[VisualDuplicate] Element is rendered from a list",
+        context: { filePath, elementIdentifier },
+      });
+      return {
+        success: false,
+        warning: true,
+        message: `<${componentName}> is rendered from a .map() call, so duplicating it in source would repeat it for every item.`,
+        details:
+          "Add another entry to the data the list is built from instead.",
+        filePath,
+      };
+    }
+
+    this.insertCloneAfter(match);
+
+    const updated = await this.writeFormattedSource(filePath, ast, source);
+    if (!updated) {
+      return null;
+    }
+
+    logger.info({
+      message: "[VisualDuplicate] Duplicated element",
+      context: { filePath, elementIdentifier },
+    });
+
+    return {
+      success: true,
+      message: `Element "${componentName}" duplicated successfully`,
+      updatedFile: filePath,
+    };
+  }
+
+  /**
+   * Insert a deep copy of the matched element right after it, on its own line
+   * when the siblings are written one per line. Elements that are not JSX
+   * children (a component's returned root, a conditional branch) are wrapped
+   * in a fragment so the result is still a single expression.
+   */
+  private insertCloneAfter(match: ElementMatchContext): void {
+    const clone = asJsxChild(this.cloneElement(match.matchedPath));
+    const parentNode = match.matchedPath.parent?.value as
+      | (namedTypes.Node & { children?: JSXChild[] })
+      | undefined;
+
+    if (
+      parentNode &&
+      (parentNode.type === "JSXElement" || parentNode.type === "JSXFragment")
+    ) {
+      const children = parentNode.children ?? [];
+      const index = children.indexOf(match.matchedNode);
+      const inserted = isMultiline(children)
+        ? [createLineBreak(), clone]
+        : [clone];
+      children.splice(index + 1, 0, ...inserted);
+      parentNode.children = children;
+      return;
+    }
+
+    match.matchedPath.replace(
+      j.jsxFragment(j.jsxOpeningFragment(), j.jsxClosingFragment(), [
+        createLineBreak(),
+        asJsxChild(match.matchedNode),
+        createLineBreak(),
+        clone,
+        createLineBreak(),
+      ])
+    );
+  }
+
+  private cloneElement(path: ASTPath<JSXElement>): JSXElement {
+    const snippet = j(path).toSource();
+    return j(snippet).find(j.JSXElement).get().node as JSXElement;
+  }
+}
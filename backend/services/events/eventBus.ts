@@ -0,0 +1,35 @@
+import type { BackendEvent } from "../../types/events";
+import { logger } from "../../utils/logger";
+
+type BackendEventListener = (event: BackendEvent) => void;
+
+/**
+ * Fans backend events out to the overlay connections. Services publish here
+ * instead of knowing about WebSockets.
+ */
+export class EventBus {
+  private listeners = new Set<BackendEventListener>();
+
+  publish(event: BackendEvent): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn({
+          message: "[EventBus] Listener failed",
+          context: {
+            eventType: event.type,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+  }
+
+  subscribe(listener: BackendEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
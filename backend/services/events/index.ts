@@ -0,0 +1,12 @@
+import { actionHistory } from "../history";
+import { compileErrorTracker } from "../devServer";
+import { EventBus } from "./eventBus";
+
+export const eventBus = new EventBus();
+
+actionHistory.subscribe((event) => eventBus.publish(event));
+compileErrorTracker.subscribe((status) =>
+  eventBus.publish({ type: "dev-server:status", status })
+);
+
+export type { BackendEvent, BackendEventType } from "../../types/events";
@@ -0,0 +1,205 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ActionHistory } from "./actionHistory";
+
+describe("ActionHistory", () => {
+  let projectRoot: string;
+  let history: ActionHistory;
+
+  const filePath = (name: string) => path.join(projectRoot, name);
+  const read = (name: string) => fs.readFileSync(filePath(name), "utf8");
+
+  // Writes a file inside a recorded action, the way the update services do
+  const edit = (name: string, content: string, label = `Edit ${name}`) =>
+    history.runAction({ type: "test", label }, async () => {
+      const absolutePath = filePath(name);
+      const before = fs.existsSync(absolutePath)
+        ? fs.readFileSync(absolutePath, "utf8")
+        : null;
+      fs.writeFileSync(absolutePath, content, "utf8");
+      history.recordFileChange(absolutePath, before, content);
+    });
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-history-"));
+    history = new ActionHistory(projectRoot);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  describe("undo and redo", () => {
+    it("steps back and forward through several actions", async () => {
+      fs.writeFileSync(filePath("page.tsx"), "v0", "utf8");
+      await edit("page.tsx", "v1");
+      await edit("page.tsx", "v2");
+
+      expect((await history.undoLastAction()).success).toBe(true);
+      expect(read("page.tsx")).toBe("v1");
+      expect((await history.undoLastAction()).success).toBe(true);
+      expect(read("page.tsx")).toBe("v0");
+
+      const exhausted = await history.undoLastAction();
+      expect(exhausted.success).toBe(false);
+      expect(exhausted.error).toBe("No action available to undo");
+
+      expect((await history.redoLastAction()).success).toBe(true);
+      expect(read("page.tsx")).toBe("v1");
+      expect((await history.redoLastAction()).success).toBe(true);
+      expect(read("page.tsx")).toBe("v2");
+      expect((await history.redoLastAction()).success).toBe(false);
+    });
+
+    it("drops the redo stack when a new action is recorded", async () => {
+      fs.writeFileSync(filePath("page.tsx"), "v0", "utf8");
+      await edit("page.tsx", "v1");
+      await history.undoLastAction();
+      await edit("page.tsx", "other");
+
+      expect(history.getNextRedoSummary()).toBeNull();
+      expect((await history.redoLastAction()).success).toBe(false);
+    });
+
+    it("deletes files an action created and restores them on redo", async () => {
+      await edit("new.tsx", "created");
+
+      await history.undoLastAction();
+      expect(fs.existsSync(filePath("new.tsx"))).toBe(false);
+
+      await history.redoLastAction();
+      expect(read("new.tsx")).toBe("created");
+    });
+
+    it("does not record actions that fail", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      fs.writeFileSync(filePath("page.tsx"), "v0", "utf8");
+
+      await expect(
+        history.runAction({ type: "test", label: "Broken" }, async () => {
+          history.recordFileChange(filePath("page.tsx"), "v0", "v1");
+          throw new Error("boom");
+        })
+      ).rejects.toThrow("boom");
+
+      expect(history.getLastActionSummary()).toBeNull();
+    });
+
+    it("restores the stacks from the history file", async () => {
+      fs.writeFileSync(filePath("page.tsx"), "v0", "utf8");
+      await edit("page.tsx", "v1", "First edit");
+
+      const restored = new ActionHistory(projectRoot);
+      expect(restored.getLastActionSummary()?.label).toBe("First edit");
+
+      await restored.undoLastAction();
+      expect(read("page.tsx")).toBe("v0");
+    });
+  });
+
+  describe("conflicts", () => {
+    const original = ["header", "title", "body", "", "", "", "footer"].join(
+      "\n"
+    );
+    const edited = original.replace("title", "new title");
+
+    beforeEach(() => {
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    it("merges external edits that do not overlap the recorded change", async () => {
+      fs.writeFileSync(filePath("page.tsx"), original, "utf8");
+      await edit("page.tsx", edited);
+      fs.writeFileSync(
+        filePath("page.tsx"),
+        edited.replace("footer", "hand-edited footer"),
+        "utf8"
+      );
+
+      const result = await history.undoLastAction();
+
+      expect(result.success).toBe(true);
+      expect(result.mergedFiles).toEqual(["page.tsx"]);
+      expect(read("page.tsx")).toBe(
+        original.replace("footer", "hand-edited footer")
+      );
+    });
+
+    it("refuses to undo over an overlapping external edit", async () => {
+      fs.writeFileSync(filePath("page.tsx"), original, "utf8");
+      await edit("page.tsx", edited);
+      const handEdited = edited.replace("new title", "hand title");
+      fs.writeFileSync(filePath("page.tsx"), handEdited, "utf8");
+
+      const result = await history.undoLastAction();
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ file: "page.tsx", kind: "modified" }),
+      ]);
+      expect(read("page.tsx")).toBe(handEdited);
+      expect(history.getLastActionSummary()).not.toBeNull();
+    });
+
+    it("reports files deleted since the action as missing", async () => {
+      fs.writeFileSync(filePath("page.tsx"), original, "utf8");
+      await edit("page.tsx", edited);
+      fs.unlinkSync(filePath("page.tsx"));
+
+      const result = await history.undoLastAction();
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts?.[0].kind).toBe("missing");
+    });
+
+    it("overwrites conflicting files when forced", async () => {
+      fs.writeFileSync(filePath("page.tsx"), original, "utf8");
+      await edit("page.tsx", edited);
+      fs.writeFileSync(filePath("page.tsx"), "rewritten by hand", "utf8");
+
+      const result = await history.undoLastAction({ force: true });
+
+      expect(result.success).toBe(true);
+      expect(read("page.tsx")).toBe(original);
+    });
+  });
+
+  describe("revert", () => {
+    it("reverts an older action without touching later ones", async () => {
+      fs.writeFileSync(filePath("a.tsx"), "a0", "utf8");
+      fs.writeFileSync(filePath("b.tsx"), "b0", "utf8");
+      await edit("a.tsx", "a1", "Edit a");
+      await edit("b.tsx", "b1", "Edit b");
+      // Most recent first, so the older edit comes second
+      const [, target] = history.listActions().undo;
+
+      const result = await history.revertAction(target.id);
+
+      expect(result.success).toBe(true);
+      expect(read("a.tsx")).toBe("a0");
+      expect(read("b.tsx")).toBe("b1");
+      expect(history.getLastActionSummary()?.label).toBe('Revert "Edit a"');
+    });
+
+    it("records the revert so it can be undone", async () => {
+      fs.writeFileSync(filePath("a.tsx"), "a0", "utf8");
+      await edit("a.tsx", "a1", "Edit a");
+      await edit("b.tsx", "b1", "Edit b");
+      const [, target] = history.listActions().undo;
+
+      await history.revertAction(target.id);
+      await history.undoLastAction();
+
+      expect(read("a.tsx")).toBe("a1");
+    });
+
+    it("rejects actions that are not applied", async () => {
+      const result = await history.revertAction("missing");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("Action missing is not an applied action");
+    });
+  });
+});
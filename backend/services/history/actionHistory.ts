@@ -2,7 +2,9 @@ import { AsyncLocalStorage } from "async_hooks";
 import { randomUUID } from "crypto";
 import fs from "fs";
 import path from "path";
+import { applyPatch, createPatch } from "diff";
 import { logger } from "../../utils/logger";
+import { createUnifiedDiff } from "../shared/diffUtils";
 
 export interface ActionMetadata {
   type: string;
@@ -25,21 +27,135 @@ export interface ActionEntry extends ActionMetadata {
   files: FileChangeRecord[];
 }
 
+export interface ActionDescriptor {
+  id: string;
+  type: string;
+  label: string;
+  timestamp: string;
+}
+
+export type FileConflictKind = "modified" | "missing" | "recreated";
+
+export interface FileConflict {
+  file: string;
+  kind: FileConflictKind;
+  message: string;
+}
+
 export interface UndoResult {
   success: boolean;
   restoredFiles?: string[];
-  action?: {
-    id: string;
-    type: string;
-    label: string;
-    timestamp: string;
-  };
+  mergedFiles?: string[];
+  conflicts?: FileConflict[];
+  action?: ActionDescriptor;
+  error?: string;
+}
+
+export interface HistoryApplyOptions {
+  /** Overwrite files even if they changed on disk since the action was recorded */
+  force?: boolean;
+}
+
+export type RedoResult = UndoResult;
+
+export interface ActionSummary extends ActionDescriptor {
+  fileCount: number;
+  files: string[];
+  /** Files edited outside Brakit since the action, so undo or redo must merge */
+  staleFiles?: string[];
+}
+
+export interface HistoryFileDiff {
+  file: string;
+  status: "created" | "deleted" | "modified";
+  diff: string;
+}
+
+export interface HistoryLogEntry extends ActionSummary {
+  state: "applied" | "undone";
+  changes: HistoryFileDiff[];
+}
+
+export interface PreviewFileChange {
+  filePath: string;
+  file: string;
+  diff: string;
+}
+
+export interface CurrentFileChange {
+  filePath: string;
+  file: string;
+  beforeContent: string | null;
+  afterContent: string | null;
+}
+
+export interface PreviewOutcome<T> {
+  result: T;
+  changes: PreviewFileChange[];
+}
+
+export interface HistoryListing {
+  undo: ActionSummary[];
+  redo: ActionSummary[];
+}
+
+export interface JumpResult {
+  success: boolean;
+  direction?: "undo" | "redo" | "none";
+  actions?: ActionDescriptor[];
+  restoredFiles?: string[];
+  conflicts?: FileConflict[];
   error?: string;
 }
 
+/** What the undo and redo buttons should offer after a change */
+export interface HistoryStatusSnapshot {
+  action: ActionSummary | null;
+  redoAction: ActionSummary | null;
+}
+
+export type HistoryEvent =
+  | {
+      type: "action:committed";
+      action: ActionSummary;
+      history: HistoryStatusSnapshot;
+    }
+  | {
+      type: "history:changed";
+      operation: "undo" | "redo" | "clear";
+      action?: ActionDescriptor;
+      restoredFiles: string[];
+      history: HistoryStatusSnapshot;
+    }
+  | {
+      type: "file:changed-externally";
+      files: string[];
+    };
+
+type HistoryEventListener = (event: HistoryEvent) => void;
+
+interface PersistedHistoryState {
+  version: 2;
+  undoStack: ActionEntry[];
+  redoStack: ActionEntry[];
+}
+
 interface ActionContext {
   metadata: ActionMetadata;
   files: Map<string, FileChangeRecord>;
+  dryRun?: boolean;
+}
+
+interface PlannedFileWrite {
+  file: FileChangeRecord;
+  exists: boolean;
+  content: string | null;
+}
+
+interface FileStatePlan {
+  writes: PlannedFileWrite[];
+  conflicts: FileConflict[];
+  mergedFiles: string[];
 }
 
 interface RecordFileChangeOptions {
@@ -47,12 +163,31 @@ interface RecordFileChangeOptions {
   existedAfter?: boolean;
 }
 
+const DEFAULT_MAX_ENTRIES = 50;
+// Watcher events trail the write that caused them, so own writes stay
+// ignored for a moment after they finish
+const OWN_WRITE_GRACE_MS = 2_000;
+
 export class ActionHistory {
   private storage = new AsyncLocalStorage<ActionContext>();
-  private lastAction: ActionEntry | null = null;
+  // Most recent action is last; redo entries are pushed in undo order so the
+  // next redo candidate is also last.
+  private undoStack: ActionEntry[] = [];
+  private redoStack: ActionEntry[] = [];
   private readonly historyFilePath: string;
+  private listeners = new Set<HistoryEventListener>();
+  private activeContexts = new Set<ActionContext>();
+  // Relative paths whose disk content no longer matches the history
+  private staleFiles = new Set<string>();
+  // Absolute paths Brakit wrote outside an action, until when to ignore them
+  private ownWrites = new Map<string, number>();
+  private ownWriteTasks = 0;
+  private ownWriteTasksSettleAt = 0;
 
-  constructor(private readonly projectRoot: string) {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly maxEntries: number = DEFAULT_MAX_ENTRIES
+  ) {
     this.historyFilePath = path.resolve(
       this.projectRoot,
       ".brakit-history.json"
@@ -67,6 +202,7 @@ export class ActionHistory {
     };
 
     return await this.storage.run(context, async () => {
+      this.activeContexts.add(context);
       try {
         const result = await handler();
         this.commitIfNeeded();
@@ -74,10 +210,149 @@ export class ActionHistory {
       } catch (error) {
         this.discardContext();
         throw error;
+      } finally {
+        this.activeContexts.delete(context);
       }
     });
   }
 
+  /**
+   * Runs a handler in dry-run mode: services record what they would write but
+   * leave the disk untouched, and nothing is added to the history stacks.
+   */
+  async previewAction<T>(
+    metadata: ActionMetadata,
+    handler: () => Promise<T>
+  ): Promise<PreviewOutcome<T>> {
+    const context: ActionContext = {
+      metadata,
+      files: new Map(),
+      dryRun: true,
+    };
+
+    return await this.storage.run(context, async () => {
+      const result = await handler();
+      const changes = Array.from(context.files.values())
+        .filter(
+          (file) =>
+            file.existedBefore !== file.existedAfter ||
+            file.beforeContent !== file.afterContent
+        )
+        .map((file) => ({
+          filePath: file.absolutePath,
+          file: file.relativePath,
+          diff: createUnifiedDiff(
+            file.relativePath,
+            file.existedBefore ? file.beforeContent : null,
+            file.existedAfter ? file.afterContent : null
+          ),
+        }));
+
+      return { result, changes };
+    });
+  }
+
+  subscribe(listener: HistoryEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run work that writes project files without recording them, such as a
+   * package or shadcn install whose subprocess decides which files change.
+   * Untracked files changing meanwhile are not reported as external.
+   */
+  async runOwnWrites<T>(handler: () => Promise<T>): Promise<T> {
+    this.ownWriteTasks += 1;
+    try {
+      return await handler();
+    } finally {
+      this.ownWriteTasks -= 1;
+      this.ownWriteTasksSettleAt = Date.now() + OWN_WRITE_GRACE_MS;
+    }
+  }
+
+  /** Mark a file Brakit wrote directly, outside any action */
+  noteOwnWrite(filePath: string): void {
+    const { absolutePath } = this.normalizePath(filePath);
+    this.ownWrites.set(absolutePath, Date.now() + OWN_WRITE_GRACE_MS);
+  }
+
+  /**
+   * Called when a file changed on disk. Changes an action is still writing,
+   * or that leave the file as the history expects, are Brakit's own, as are
+   * untracked files written by an install. Any other change is reported as
+   * external, and actions touching a file the history tracks are marked
+   * stale until its content matches again.
+   */
+  noteFileChange(filePath: string): void {
+    const { absolutePath, relativePath } = this.normalizePath(filePath);
+    const beingWritten = Array.from(this.activeContexts).some(
+      (context) => !context.dryRun && context.files.has(absolutePath)
+    );
+    if (beingWritten) {
+      return;
+    }
+
+    const expected = this.getExpectedFileState(absolutePath);
+    if (expected) {
+      const currentExists = fs.existsSync(absolutePath);
+      const currentContent = currentExists
+        ? fs.readFileSync(absolutePath, "utf8")
+        : null;
+      const matches =
+        currentExists === expected.exists &&
+        (!currentExists || currentContent === expected.content);
+
+      if (matches) {
+        this.staleFiles.delete(relativePath);
+        return;
+      }
+      this.staleFiles.add(relativePath);
+    } else if (this.isOwnWrite(absolutePath)) {
+      return;
+    }
+
+    this.emit({ type: "file:changed-externally", files: [relativePath] });
+  }
+
+  private isOwnWrite(absolutePath: string): boolean {
+    const now = Date.now();
+    if (this.ownWriteTasks > 0 || now < this.ownWriteTasksSettleAt) {
+      return true;
+    }
+
+    const until = this.ownWrites.get(absolutePath);
+    if (until === undefined) {
+      return false;
+    }
+    if (now >= until) {
+      this.ownWrites.delete(absolutePath);
+      return false;
+    }
+    return true;
+  }
+
+  isDryRun(): boolean {
+    return this.storage.getStore()?.dryRun === true;
+  }
+
+  /**
+   * Content a dry run has already produced for a file. Lets later steps of
+   * the same preview build on earlier ones instead of the untouched disk copy.
+   */
+  getPendingContent(filePath: string): string | null {
+    const context = this.storage.getStore();
+    if (!context?.dryRun) {
+      return null;
+    }
+
+    const record = context.files.get(this.normalizePath(filePath).absolutePath);
+    return record?.existedAfter ? record.afterContent : null;
+  }
+
   recordFileChange(
     filePath: string,
     beforeContent: string | null,
@@ -117,23 +392,111 @@ export class ActionHistory {
     existing.existedAfter = existedAfter;
   }
 
-  getLastActionSummary() {
-    if (!this.lastAction) {
-      return null;
+  /**
+   * Files the running action has changed so far, before it is committed.
+   */
+  getCurrentChanges(): CurrentFileChange[] {
+    const context = this.storage.getStore();
+    if (!context) {
+      return [];
+    }
+
+    return Array.from(context.files.values())
+      .filter(
+        (file) =>
+          file.existedBefore !== file.existedAfter ||
+          file.beforeContent !== file.afterContent
+      )
+      .map((file) => ({
+        filePath: file.absolutePath,
+        file: file.relativePath,
+        beforeContent: file.existedBefore ? file.beforeContent : null,
+        afterContent: file.existedAfter ? file.afterContent : null,
+      }));
+  }
+
+  /**
+   * Puts every file the running action touched back to its state before the
+   * action, and forgets the changes so nothing is committed to the history.
+   * Returns the restored files relative to the project.
+   */
+  rollbackCurrentAction(): string[] {
+    const context = this.storage.getStore();
+    if (!context) {
+      return [];
     }
 
+    const files = Array.from(context.files.values());
+    context.files.clear();
+
+    if (context.dryRun) {
+      return [];
+    }
+
+    this.applyFileStates(
+      files.map((file) => ({
+        file,
+        exists: file.existedBefore,
+        content: file.beforeContent,
+      }))
+    );
+
+    logger.warn({
+      message: "[ActionHistory] Rolled back action",
+      context: {
+        actionType: context.metadata.type,
+        files: files.map((file) => file.relativePath),
+      },
+    });
+
+    return files.map((file) => file.relativePath);
+  }
+
+  getLastActionSummary(): ActionSummary | null {
+    const lastAction = this.peek(this.undoStack);
+    return lastAction ? this.summarize(lastAction) : null;
+  }
+
+  getNextRedoSummary(): ActionSummary | null {
+    const nextAction = this.peek(this.redoStack);
+    return nextAction ? this.summarize(nextAction) : null;
+  }
+
+  /**
+   * Lists recorded actions, most recent first for both stacks.
+   */
+  listActions(): HistoryListing {
     return {
-      id: this.lastAction.id,
-      type: this.lastAction.type,
-      label: this.lastAction.label,
-      timestamp: this.lastAction.timestamp,
-      fileCount: this.lastAction.files.length,
-      files: this.lastAction.files.map((file) => file.relativePath),
+      undo: this.undoStack
+        .slice()
+        .reverse()
+        .map((entry) => this.summarize(entry)),
+      redo: this.redoStack
+        .slice()
+        .reverse()
+        .map((entry) => this.summarize(entry)),
     };
   }
 
-  async undoLastAction(): Promise<UndoResult> {
-    if (!this.lastAction) {
+  /**
+   * Full action log, most recent first, with a unified diff per touched file.
+   * Undone actions that can still be redone are listed ahead of applied ones.
+   */
+  getActionLog(): HistoryLogEntry[] {
+    const undone = this.redoStack.map((entry) =>
+      this.buildLogEntry(entry, "undone")
+    );
+    const applied = this.undoStack
+      .slice()
+      .reverse()
+      .map((entry) => this.buildLogEntry(entry, "applied"));
+
+    return [...undone, ...applied];
+  }
+
+  async undoLastAction(options?: HistoryApplyOptions): Promise<UndoResult> {
+    const action = this.peek(this.undoStack);
+    if (!action) {
       return {
         success: false,
         error: "No action available to undo",
@@ -141,39 +504,30 @@ export class ActionHistory {
     }
 
     try {
-      for (const file of this.lastAction.files) {
-        if (!file.existedBefore) {
-          if (fs.existsSync(file.absolutePath)) {
-            fs.unlinkSync(file.absolutePath);
-          }
-          continue;
-        }
-
-        fs.mkdirSync(path.dirname(file.absolutePath), { recursive: true });
-        fs.writeFileSync(file.absolutePath, file.beforeContent ?? "", "utf8");
+      const plan = this.planFileStates(action, "before", options);
+      if (plan.conflicts.length > 0) {
+        return this.buildConflictResult(action, plan, "undo");
       }
 
-      const undoneAction = this.lastAction;
-      this.lastAction = null;
+      this.applyFileStates(plan.writes);
+
+      this.undoStack.pop();
+      this.redoStack.push(action);
       this.persistHistoryState();
+      this.emitHistoryChanged("undo", action);
 
       return {
         success: true,
-        restoredFiles: undoneAction.files.map((file) => file.relativePath),
-        action: {
-          id: undoneAction.id,
-          type: undoneAction.type,
-          label: undoneAction.label,
-          timestamp: undoneAction.timestamp,
-        },
+        restoredFiles: action.files.map((file) => file.relativePath),
+        mergedFiles: plan.mergedFiles.length > 0 ? plan.mergedFiles : undefined,
+        action: this.describe(action),
       };
     } catch (error) {
-      const currentAction = this.lastAction;
       logger.error({
         message: "[ActionHistory] Failed to undo action",
         context: {
           error: error instanceof Error ? error.message : String(error),
-          actionId: currentAction?.id,
+          actionId: action.id,
         },
       });
 
@@ -184,9 +538,389 @@ export class ActionHistory {
     }
   }
 
+  async redoLastAction(options?: HistoryApplyOptions): Promise<RedoResult> {
+    const action = this.peek(this.redoStack);
+    if (!action) {
+      return {
+        success: false,
+        error: "No action available to redo",
+      };
+    }
+
+    try {
+      const plan = this.planFileStates(action, "after", options);
+      if (plan.conflicts.length > 0) {
+        return this.buildConflictResult(action, plan, "redo");
+      }
+
+      this.applyFileStates(plan.writes);
+
+      this.redoStack.pop();
+      this.undoStack.push(action);
+      this.persistHistoryState();
+      this.emitHistoryChanged("redo", action);
+
+      return {
+        success: true,
+        restoredFiles: action.files.map((file) => file.relativePath),
+        mergedFiles: plan.mergedFiles.length > 0 ? plan.mergedFiles : undefined,
+        action: this.describe(action),
+      };
+    } catch (error) {
+      logger.error({
+        message: "[ActionHistory] Failed to redo action",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+          actionId: action.id,
+        },
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to redo changes",
+      };
+    }
+  }
+
+  /**
+   * Reverts a single applied action without touching the ones recorded after it.
+   * The revert is recorded as a new action so it can itself be undone.
+   */
+  async revertAction(
+    actionId: string,
+    options?: HistoryApplyOptions
+  ): Promise<UndoResult> {
+    const action = this.undoStack.find((entry) => entry.id === actionId);
+    if (!action) {
+      return {
+        success: false,
+        error: `Action ${actionId} is not an applied action`,
+      };
+    }
+
+    if (this.peek(this.undoStack)?.id === actionId) {
+      return this.undoLastAction(options);
+    }
+
+    try {
+      const plan = this.planFileStates(action, "before", options);
+      if (plan.conflicts.length > 0) {
+        return this.buildConflictResult(action, plan, "revert");
+      }
+
+      await this.runAction(
+        {
+          type: "revert",
+          label: `Revert "${action.label}"`,
+          details: { revertedActionId: action.id },
+        },
+        async () => {
+          for (const write of plan.writes) {
+            const existedBefore = fs.existsSync(write.file.absolutePath);
+            const beforeContent = existedBefore
+              ? fs.readFileSync(write.file.absolutePath, "utf8")
+              : null;
+
+            this.applyFileStates([write]);
+
+            this.recordFileChange(
+              write.file.absolutePath,
+              beforeContent,
+              write.exists ? write.content ?? "" : null,
+              { existedBefore, existedAfter: write.exists }
+            );
+          }
+        }
+      );
+
+      return {
+        success: true,
+        restoredFiles: action.files.map((file) => file.relativePath),
+        mergedFiles: plan.mergedFiles.length > 0 ? plan.mergedFiles : undefined,
+        action: this.describe(action),
+      };
+    } catch (error) {
+      logger.error({
+        message: "[ActionHistory] Failed to revert action",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+          actionId: action.id,
+        },
+      });
+
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to revert changes",
+      };
+    }
+  }
+
+  /**
+   * Moves the working tree to the state right after the action with the given id,
+   * undoing newer actions or redoing older ones as needed.
+   */
+  async jumpTo(
+    actionId: string,
+    options?: HistoryApplyOptions
+  ): Promise<JumpResult> {
+    const undoIndex = this.undoStack.findIndex((entry) => entry.id === actionId);
+    const redoIndex = this.redoStack.findIndex((entry) => entry.id === actionId);
+
+    if (undoIndex === -1 && redoIndex === -1) {
+      return {
+        success: false,
+        error: `Action ${actionId} not found in history`,
+      };
+    }
+
+    const direction = undoIndex !== -1 ? "undo" : "redo";
+    const steps =
+      direction === "undo"
+        ? this.undoStack.length - 1 - undoIndex
+        : this.redoStack.length - redoIndex;
+
+    const actions: ActionDescriptor[] = [];
+    const restoredFiles = new Set<string>();
+
+    for (let i = 0; i < steps; i++) {
+      const result =
+        direction === "undo"
+          ? await this.undoLastAction(options)
+          : await this.redoLastAction(options);
+
+      if (!result.success) {
+        return {
+          success: false,
+          direction,
+          actions,
+          restoredFiles: Array.from(restoredFiles),
+          conflicts: result.conflicts,
+          error: result.error,
+        };
+      }
+
+      if (result.action) {
+        actions.push(result.action);
+      }
+      result.restoredFiles?.forEach((file) => restoredFiles.add(file));
+    }
+
+    return {
+      success: true,
+      direction: steps === 0 ? "none" : direction,
+      actions,
+      restoredFiles: Array.from(restoredFiles),
+    };
+  }
+
   clear(): void {
-    this.lastAction = null;
+    this.undoStack = [];
+    this.redoStack = [];
+    this.staleFiles.clear();
     this.persistHistoryState();
+    this.emitHistoryChanged("clear");
+  }
+
+  /**
+   * Works out what each file should be written as to reach the target state.
+   * Files edited outside Brakit since the action ran are three-way merged when the
+   * recorded change still applies cleanly; anything else is reported as a conflict.
+   */
+  private planFileStates(
+    action: ActionEntry,
+    target: "before" | "after",
+    options?: HistoryApplyOptions
+  ): FileStatePlan {
+    const plan: FileStatePlan = { writes: [], conflicts: [], mergedFiles: [] };
+
+    for (const file of action.files) {
+      const desiredExists =
+        target === "before" ? file.existedBefore : file.existedAfter;
+      const desiredContent =
+        target === "before" ? file.beforeContent : file.afterContent;
+      const expectedExists =
+        target === "before" ? file.existedAfter : file.existedBefore;
+      const expectedContent =
+        target === "before" ? file.afterContent : file.beforeContent;
+
+      const currentExists = fs.existsSync(file.absolutePath);
+      const currentContent = currentExists
+        ? fs.readFileSync(file.absolutePath, "utf8")
+        : null;
+
+      const unchanged =
+        currentExists === expectedExists &&
+        (!currentExists || currentContent === expectedContent);
+
+      if (options?.force || unchanged) {
+        plan.writes.push({ file, exists: desiredExists, content: desiredContent });
+        continue;
+      }
+
+      if (!currentExists) {
+        plan.conflicts.push({
+          file: file.relativePath,
+          kind: "missing",
+          message: "File was deleted after this change was recorded",
+        });
+        continue;
+      }
+
+      if (!expectedExists) {
+        plan.conflicts.push({
+          file: file.relativePath,
+          kind: "recreated",
+          message: "File was created again after this change was recorded",
+        });
+        continue;
+      }
+
+      const merged = desiredExists
+        ? this.mergeExternalEdits(
+            file.relativePath,
+            expectedContent ?? "",
+            desiredContent ?? "",
+            currentContent ?? ""
+          )
+        : null;
+
+      if (merged === null) {
+        plan.conflicts.push({
+          file: file.relativePath,
+          kind: "modified",
+          message: "File was edited after this change was recorded",
+        });
+        continue;
+      }
+
+      plan.writes.push({ file, exists: true, content: merged });
+      plan.mergedFiles.push(file.relativePath);
+    }
+
+    return plan;
+  }
+
+  private mergeExternalEdits(
+    fileName: string,
+    base: string,
+    target: string,
+    current: string
+  ): string | null {
+    const patch = createPatch(fileName, base, target);
+    const merged = applyPatch(current, patch);
+    return merged === false ? null : merged;
+  }
+
+  private applyFileStates(writes: PlannedFileWrite[]) {
+    for (const { file, exists, content } of writes) {
+      if (!exists) {
+        if (fs.existsSync(file.absolutePath)) {
+          fs.unlinkSync(file.absolutePath);
+        }
+        continue;
+      }
+
+      fs.mkdirSync(path.dirname(file.absolutePath), { recursive: true });
+      fs.writeFileSync(file.absolutePath, content ?? "", "utf8");
+    }
+  }
+
+  private buildConflictResult(
+    action: ActionEntry,
+    plan: FileStatePlan,
+    operation: "undo" | "redo" | "revert"
+  ): UndoResult {
+    const files = plan.conflicts.map((conflict) => conflict.file);
+
+    logger.warn({
+      message: `[ActionHistory] Refusing to ${operation} action with conflicting files`,
+      context: { actionId: action.id, files },
+    });
+
+    return {
+      success: false,
+      error: `Cannot ${operation} "${action.label}": ${files.join(", ")} changed since it was recorded`,
+      conflicts: plan.conflicts,
+      action: this.describe(action),
+    };
+  }
+
+  private buildLogEntry(
+    action: ActionEntry,
+    state: HistoryLogEntry["state"]
+  ): HistoryLogEntry {
+    return {
+      ...this.summarize(action),
+      state,
+      changes: action.files.map((file) => ({
+        file: file.relativePath,
+        status: !file.existedBefore
+          ? "created"
+          : !file.existedAfter
+            ? "deleted"
+            : "modified",
+        diff: createUnifiedDiff(
+          file.relativePath,
+          file.existedBefore ? file.beforeContent : null,
+          file.existedAfter ? file.afterContent : null
+        ),
+      })),
+    };
+  }
+
+  private peek(stack: ActionEntry[]): ActionEntry | null {
+    return stack.length > 0 ? stack[stack.length - 1] : null;
+  }
+
+  private describe(action: ActionEntry): ActionDescriptor {
+    return {
+      id: action.id,
+      type: action.type,
+      label: action.label,
+      timestamp: action.timestamp,
+    };
+  }
+
+  private summarize(action: ActionEntry): ActionSummary {
+    const files = action.files.map((file) => file.relativePath);
+    const staleFiles = files.filter((file) => this.staleFiles.has(file));
+
+    return {
+      ...this.describe(action),
+      fileCount: action.files.length,
+      files,
+      ...(staleFiles.length > 0 ? { staleFiles } : {}),
+    };
+  }
+
+  /**
+   * What the file should look like given the history: the result of the
+   * latest applied action that touched it, otherwise the state before the
+   * next redo that does. Null when no recorded action touched it.
+   */
+  private getExpectedFileState(
+    absolutePath: string
+  ): { exists: boolean; content: string | null } | null {
+    for (let index = this.undoStack.length - 1; index >= 0; index--) {
+      const file = this.undoStack[index].files.find(
+        (record) => record.absolutePath === absolutePath
+      );
+      if (file) {
+        return { exists: file.existedAfter, content: file.afterContent };
+      }
+    }
+
+    for (let index = this.redoStack.length - 1; index >= 0; index--) {
+      const file = this.redoStack[index].files.find(
+        (record) => record.absolutePath === absolutePath
+      );
+      if (file) {
+        return { exists: file.existedBefore, content: file.beforeContent };
+      }
+    }
+
+    return null;
   }
 
   private commitIfNeeded(): void {
@@ -229,15 +963,63 @@ export class ActionHistory {
     const timestamp = new Date().toISOString();
     const id = randomUUID();
 
-    this.lastAction = {
+    this.undoStack.push({
       id,
       timestamp,
       type: context.metadata.type,
       label: context.metadata.label,
       details: context.metadata.details,
       files: meaningfulFiles,
-    };
+    });
+    // A fresh edit forks the timeline, so anything that was undone can no longer be redone
+    this.redoStack = [];
+    this.trimToCapacity();
     this.persistHistoryState();
+
+    const committed = this.peek(this.undoStack);
+    if (committed) {
+      this.emit({
+        type: "action:committed",
+        action: this.summarize(committed),
+        history: this.getStatusSnapshot(),
+      });
+    }
+  }
+
+  private getStatusSnapshot(): HistoryStatusSnapshot {
+    return {
+      action: this.getLastActionSummary(),
+      redoAction: this.getNextRedoSummary(),
+    };
+  }
+
+  private emitHistoryChanged(
+    operation: "undo" | "redo" | "clear",
+    action?: ActionEntry
+  ) {
+    this.emit({
+      type: "history:changed",
+      operation,
+      action: action ? this.describe(action) : undefined,
+      restoredFiles: action?.files.map((file) => file.relativePath) ?? [],
+      history: this.getStatusSnapshot(),
+    });
+  }
+
+  private emit(event: HistoryEvent) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn({
+          message: "[ActionHistory] Event listener failed",
+          context: {
+            eventType: event.type,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
   }
 
   private discardContext(): void {
@@ -278,6 +1060,24 @@ export class ActionHistory {
     };
   }
 
+  private trimToCapacity() {
+    if (this.undoStack.length > this.maxEntries) {
+      this.undoStack = this.undoStack.slice(-this.maxEntries);
+    }
+    if (this.redoStack.length > this.maxEntries) {
+      this.redoStack = this.redoStack.slice(-this.maxEntries);
+    }
+  }
+
+  private isActionEntry(value: unknown): value is ActionEntry {
+    return Boolean(
+      value &&
+        typeof value === "object" &&
+        typeof (value as ActionEntry).id === "string" &&
+        Array.isArray((value as ActionEntry).files)
+    );
+  }
+
   private restorePersistedHistory() {
     try {
       if (!fs.existsSync(this.historyFilePath)) {
@@ -288,13 +1088,24 @@ export class ActionHistory {
         return;
       }
       const parsed = JSON.parse(raw);
-      if (
-        parsed &&
-        typeof parsed === "object" &&
-        typeof parsed.id === "string" &&
-        Array.isArray(parsed.files)
-      ) {
-        this.lastAction = parsed as ActionEntry;
+      if (!parsed || typeof parsed !== "object") {
+        return;
+      }
+
+      if (Array.isArray(parsed.undoStack)) {
+        this.undoStack = parsed.undoStack.filter((entry: unknown) =>
+          this.isActionEntry(entry)
+        );
+        this.redoStack = Array.isArray(parsed.redoStack)
+          ? parsed.redoStack.filter((entry: unknown) => this.isActionEntry(entry))
+          : [];
+        this.trimToCapacity();
+        return;
+      }
+
+      // Legacy format: a single ActionEntry written at the top level
+      if (this.isActionEntry(parsed)) {
+        this.undoStack = [parsed];
       }
     } catch (error) {
       logger.warn({
@@ -306,14 +1117,19 @@ export class ActionHistory {
 
   private persistHistoryState() {
     try {
-      if (!this.lastAction) {
+      if (this.undoStack.length === 0 && this.redoStack.length === 0) {
         if (fs.existsSync(this.historyFilePath)) {
           fs.unlinkSync(this.historyFilePath);
         }
         return;
       }
 
-      const payload = JSON.stringify(this.lastAction, null, 2);
+      const state: PersistedHistoryState = {
+        version: 2,
+        undoStack: this.undoStack,
+        redoStack: this.redoStack,
+      };
+      const payload = JSON.stringify(state, null, 2);
       fs.writeFileSync(this.historyFilePath, payload, "utf8");
     } catch (error) {
       logger.warn({
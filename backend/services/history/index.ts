@@ -3,4 +3,20 @@ import { ActionHistory } from "./actionHistory";
 
 export const actionHistory = new ActionHistory(config.project.root);
 
-export type { ActionMetadata, UndoResult } from "./actionHistory";
+export type {
+  ActionMetadata,
+  ActionSummary,
+  CurrentFileChange,
+  FileConflict,
+  HistoryApplyOptions,
+  HistoryEvent,
+  HistoryFileDiff,
+  HistoryListing,
+  HistoryLogEntry,
+  HistoryStatusSnapshot,
+  JumpResult,
+  PreviewFileChange,
+  PreviewOutcome,
+  RedoResult,
+  UndoResult,
+} from "./actionHistory";
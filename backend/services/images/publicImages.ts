@@ -0,0 +1,148 @@
+import fs from "fs";
+import path from "path";
+
+export const IMAGE_EXTENSIONS = new Set([
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".webp",
+  ".avif",
+  ".svg",
+  ".ico",
+]);
+
+const PUBLIC_DIRECTORY = "public";
+const UPLOAD_DIRECTORY = "uploads";
+const MAX_UPLOAD_BYTES = 8 * 1024 * 1024;
+
+export interface PublicImage {
+  /** URL the browser requests, e.g. /images/hero.png */
+  src: string;
+  /** Path relative to the project root */
+  filePath: string;
+  size: number;
+}
+
+export interface ImageUploadInput {
+  fileName: string;
+  /** Base64 file contents, optionally as a data URL */
+  data: string;
+}
+
+/**
+ * Map a public URL such as /images/hero.png onto the file it serves. Returns
+ * null for URLs that would escape the public directory.
+ */
+export function resolvePublicPath(
+  projectRoot: string,
+  src: string
+): string | null {
+  const publicRoot = path.join(projectRoot, PUBLIC_DIRECTORY);
+  let pathname: string;
+  try {
+    pathname = decodeURI(src.split(/[?#]/)[0]);
+  } catch {
+    return null;
+  }
+
+  const resolved = path.join(publicRoot, pathname);
+  if (resolved !== publicRoot && !resolved.startsWith(publicRoot + path.sep)) {
+    return null;
+  }
+  return resolved;
+}
+
+export function listPublicImages(projectRoot: string): PublicImage[] {
+  const publicRoot = path.join(projectRoot, PUBLIC_DIRECTORY);
+  if (!fs.existsSync(publicRoot)) {
+    return [];
+  }
+
+  const results: PublicImage[] = [];
+
+  function walk(currentDir: string) {
+    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) continue;
+
+      const absolutePath = path.join(currentDir, entry.name);
+      if (entry.isDirectory()) {
+        walk(absolutePath);
+        continue;
+      }
+
+      if (
+        entry.isFile() &&
+        IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())
+      ) {
+        results.push(toPublicImage(projectRoot, absolutePath));
+      }
+    }
+  }
+
+  walk(publicRoot);
+  return results.sort((a, b) => a.src.localeCompare(b.src));
+}
+
+/**
+ * Copy an uploaded image into public/uploads under a unique, URL-safe name.
+ * The binary file is written directly and is not tracked by undo history;
+ * only the source edit that references it is.
+ */
+export async function savePublicImage(
+  projectRoot: string,
+  input: ImageUploadInput
+): Promise<PublicImage> {
+  const extension = path.extname(input.fileName).toLowerCase();
+  if (!IMAGE_EXTENSIONS.has(extension)) {
+    throw new Error(`Unsupported image type "${extension || input.fileName}"`);
+  }
+
+  const base64 = input.data.replace(/^data:[^;]+;base64,/, "");
+  const buffer = Buffer.from(base64, "base64");
+  if (buffer.length === 0) {
+    throw new Error("Uploaded image is empty");
+  }
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    throw new Error(
+      `Uploaded image exceeds ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`
+    );
+  }
+
+  const uploadDir = path.join(projectRoot, PUBLIC_DIRECTORY, UPLOAD_DIRECTORY);
+  await fs.promises.mkdir(uploadDir, { recursive: true });
+
+  const stem =
+    path
+      .basename(input.fileName, path.extname(input.fileName))
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "image";
+
+  let fileName = `${stem}${extension}`;
+  let counter = 2;
+  while (fs.existsSync(path.join(uploadDir, fileName))) {
+    fileName = `${stem}-${counter}${extension}`;
+    counter += 1;
+  }
+
+  const absolutePath = path.join(uploadDir, fileName);
+  await fs.promises.writeFile(absolutePath, buffer);
+  return toPublicImage(projectRoot, absolutePath);
+}
+
+function toPublicImage(projectRoot: string, absolutePath: string): PublicImage {
+  const publicRoot = path.join(projectRoot, PUBLIC_DIRECTORY);
+  const relativeToPublic = path
+    .relative(publicRoot, absolutePath)
+    .split(path.sep)
+    .join("/");
+
+  return {
+    src: `/${relativeToPublic}`,
+    filePath: path.relative(projectRoot, absolutePath).split(path.sep).join("/"),
+    size: fs.statSync(absolutePath).size,
+  };
+}
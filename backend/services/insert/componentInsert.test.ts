@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ComponentInsertService } from "./componentInsert";
+
+const PAGE = `export default function Page() {
+  return (
+    <main>
+      <h1>Title</h1>
+      <div className="empty"></div>
+    </main>
+  );
+}
+`;
+
+describe("ComponentInsertService", () => {
+  let projectRoot: string;
+  let pagePath: string;
+  let service: ComponentInsertService;
+
+  const read = () => fs.readFileSync(pagePath, "utf8");
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-insert-"));
+    pagePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, PAGE, "utf8");
+    // Check recast's own output, without Prettier tidying it up
+    fs.mkdirSync(path.join(projectRoot, ".brakit"));
+    fs.writeFileSync(
+      path.join(projectRoot, ".brakit", "config.json"),
+      JSON.stringify({ formatting: { strategy: "recast" } }),
+      "utf8"
+    );
+    service = new ComponentInsertService(projectRoot);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("appends inside an element on a line of its own", async () => {
+    const result = await service.insertComponent({
+      filePath: "app/page.tsx",
+      componentTemplate: "<button>Go</button>",
+      targetSelector: "main",
+      insertIndex: Number.MAX_SAFE_INTEGER,
+    });
+
+    expect(result.success).toBe(true);
+    expect(read()).toContain(`      <div className="empty"></div>
+      <button>Go</button>
+    </main>
+`);
+  });
+
+  it("indents children of an empty element and keeps its closing tag aligned", async () => {
+    const result = await service.insertComponent({
+      filePath: "app/page.tsx",
+      componentTemplate: "<span>\n  <b>New</b>\n</span>",
+      targetSelector: ".empty",
+      insertIndex: 0,
+    });
+
+    expect(result.success).toBe(true);
+    expect(read()).toContain(`      <div className="empty">
+        <span>
+          <b>New</b>
+        </span>
+      </div>
+`);
+  });
+
+  it("inserts next to a sibling on its own line", async () => {
+    const result = await service.insertComponent({
+      filePath: "app/page.tsx",
+      componentTemplate: "<p>Intro</p>",
+      target: {
+        componentName: "h1",
+        elementIdentifier: "Title",
+        elementTag: "h1",
+        textContent: "Title",
+      },
+      position: "after",
+      insertIndex: 0,
+    });
+
+    expect(result.success).toBe(true);
+    expect(read()).toContain(`      <h1>Title</h1>
+      <p>Intro</p>
+      <div className="empty"></div>
+`);
+  });
+
+  it("wraps a returned root in a fragment laid out over lines", async () => {
+    const result = await service.insertComponent({
+      filePath: "app/page.tsx",
+      componentTemplate: "<header>Top</header>",
+      target: {
+        componentName: "main",
+        elementIdentifier: "main",
+        elementTag: "main",
+      },
+      position: "before",
+      insertIndex: 0,
+    });
+
+    expect(result.success).toBe(true);
+    expect(read()).toBe(`export default function Page() {
+  return (
+    <>
+      <header>Top</header>
+      <main>
+        <h1>Title</h1>
+        <div className="empty"></div>
+      </main>
+    </>
+  );
+}
+`);
+  });
+});
@@ -0,0 +1,664 @@
+import fs from "fs";
+import jscodeshift from "jscodeshift";
+import type {
+  ASTPath,
+  ImportDeclaration,
+  ImportSpecifier,
+  JSXElement,
+} from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import { BaseUpdateService, type ParsedAst } from "../shared/BaseUpdateService";
+import { ShadcnService, type ProgressCallback } from "../shadcn/shadcnService";
+import { buildCanvasLayout } from "../canvas/canvasLayout";
+import {
+  asJsxChild,
+  createLineBreak,
+  isMultiline,
+  layOutOnOwnLines,
+} from "../shared/jsxLayout";
+import { actionHistory } from "../history";
+import { eventBus } from "../events";
+import type {
+  GenerateCanvasCodePayload,
+  GenerateCanvasCodeResult,
+  InsertComponentPayload,
+  InsertComponentResult,
+  InsertPosition,
+  InsertTarget,
+} from "../../shared/componentTypes";
+import { logger } from "../../utils/logger";
+
+const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+// HTML elements that can't hold children
+const VOID_ELEMENTS = new Set([
+  "area",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// The child index is clamped, so this always appends
+const APPEND_INDEX = Number.MAX_SAFE_INTEGER;
+
+type JSXChild = namedTypes.Node | null | undefined;
+
+interface InsertLocation {
+  filePath: string;
+  source: string;
+  ast: ParsedAst;
+  path: ASTPath<JSXElement>;
+  elementName: string;
+}
+
+interface SnippetImport {
+  component: string;
+  declaration: ImportDeclaration;
+}
+
+export class ComponentInsertService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  /**
+   * Insert a JSX snippet before, after or inside an element, importing the
+   * shadcn components it uses and installing any that are missing. Installed
+   * component files are not part of the action, so undo only reverts the
+   * source edit.
+   */
+  async insertComponent(
+    payload: InsertComponentPayload
+  ): Promise<InsertComponentResult> {
+    const {
+      componentTemplate,
+      componentType,
+      target,
+      insertIndex,
+      position = "inside",
+    } = payload;
+
+    try {
+      const snippet = this.parseTemplate(componentTemplate);
+      if (!snippet) {
+        return {
+          success: false,
+          error: "Component template must be a single JSX element",
+        };
+      }
+
+      const location = target
+        ? await this.locateTarget(payload.filePath, target)
+        : this.locateBySelector(payload.filePath, payload.targetSelector);
+      if (!location) {
+        return {
+          success: false,
+          error: target
+            ? `Element "${target.elementIdentifier}" not found`
+            : `No element to insert into in ${payload.filePath}`,
+        };
+      }
+
+      if (target && this.isRenderedFromList(location.path)) {
+        return {
+          success: false,
+          warning: true,
+          message: `<${location.elementName}> is rendered from a .map() call, so inserting here would repeat the snippet for every item.`,
+          details: "Pick an element outside the list instead.",
+          filePath: location.filePath,
+        };
+      }
+
+      return await this.applyInsert({
+        location,
+        snippet,
+        componentTypes: componentType ? [componentType] : [],
+        position,
+        insertIndex,
+        label: componentType
+          ? new ShadcnService(this.projectRoot).getComponentDisplayName(
+              componentType
+            )
+          : this.getElementName(snippet),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: "[ComponentInsert] Error",
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Lay drawn canvas components out as one JSX block and append it to the
+   * container matched by their target selector, or to the page root.
+   */
+  async generateCanvasCode(
+    payload: GenerateCanvasCodePayload
+  ): Promise<GenerateCanvasCodeResult> {
+    const { filePath, components, containerWidth } = payload;
+    const progressMessages: string[] = [];
+
+    try {
+      const invalid = components.find(
+        (component) => !this.parseTemplate(component.template)
+      );
+      if (invalid) {
+        return {
+          success: false,
+          error: `Template for canvas component "${invalid.id}" must be a single JSX element`,
+        };
+      }
+
+      const snippet = this.parseTemplate(
+        buildCanvasLayout(components, { containerWidth })
+      );
+      if (!snippet) {
+        return { success: false, error: "Unable to build the canvas layout" };
+      }
+
+      const targetSelector = components.find(
+        (component) => component.targetSelector
+      )?.targetSelector;
+      const location = this.locateBySelector(filePath, targetSelector);
+      if (!location) {
+        return {
+          success: false,
+          error: targetSelector
+            ? `No element matching "${targetSelector}" in ${filePath}`
+            : `No element to insert into in ${filePath}`,
+        };
+      }
+
+      const result = await this.applyInsert({
+        location,
+        snippet,
+        componentTypes: components.map((component) => component.type),
+        position: "inside",
+        insertIndex: APPEND_INDEX,
+        label:
+          components.length === 1
+            ? "1 canvas component"
+            : `${components.length} canvas components`,
+        onProgress: (progress) => progressMessages.push(progress.message),
+      });
+      return { ...result, progressMessages };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: "[CanvasCode] Error",
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message, progressMessages };
+    }
+  }
+
+  private async applyInsert(options: {
+    location: InsertLocation;
+    snippet: JSXElement;
+    componentTypes: string[];
+    position: InsertPosition;
+    insertIndex: number;
+    label: string;
+    onProgress?: ProgressCallback;
+  }): Promise<InsertComponentResult> {
+    const {
+      location,
+      snippet,
+      componentTypes,
+      position,
+      insertIndex,
+      label,
+      onProgress,
+    } = options;
+
+    const shadcn = new ShadcnService(this.projectRoot);
+    const imports = this.resolveSnippetImports(
+      shadcn,
+      componentTypes,
+      this.collectElementNames(snippet)
+    );
+    const importError = this.addImports(location.ast, imports);
+    if (importError) {
+      return { success: false, error: importError };
+    }
+
+    const insertError = this.insertSnippet(
+      location,
+      snippet,
+      position,
+      insertIndex
+    );
+    if (insertError) {
+      return { success: false, error: insertError };
+    }
+
+    const missingComponents = Array.from(
+      new Set(imports.map((entry) => entry.component))
+    ).filter((component) => !shadcn.isComponentInstalled(component));
+
+    // Install before writing so a failed install leaves the source untouched
+    if (missingComponents.length > 0 && !actionHistory.isDryRun()) {
+      const reportProgress: ProgressCallback = (progress) => {
+        eventBus.publish({
+          type: "install:progress",
+          source: "component",
+          message: progress.message,
+        });
+        onProgress?.(progress);
+      };
+
+      await shadcn.initializeShadcn(reportProgress);
+      for (const component of missingComponents) {
+        await shadcn.installComponent(component, reportProgress);
+      }
+    }
+
+    const updated = await this.writeFormattedSource(
+      location.filePath,
+      location.ast,
+      location.source
+    );
+    if (!updated) {
+      return {
+        success: false,
+        error: "Inserting the component produced no changes",
+      };
+    }
+
+    logger.info({
+      message: "[ComponentInsert] Inserted component",
+      context: {
+        filePath: location.filePath,
+        componentTypes,
+        position,
+        missingComponents,
+      },
+    });
+
+    const placement =
+      position === "inside"
+        ? "into"
+        : position === "before"
+          ? "before"
+          : "after";
+    const installNote =
+      missingComponents.length === 0
+        ? ""
+        : actionHistory.isDryRun()
+          ? ` (will install ${missingComponents.join(", ")})`
+          : ` (installed ${missingComponents.join(", ")})`;
+
+    return {
+      success: true,
+      message: `Inserted ${label} ${placement} <${location.elementName}>${installNote}`,
+      filePath: location.filePath,
+      installedComponents: actionHistory.isDryRun()
+        ? undefined
+        : missingComponents,
+    };
+  }
+
+  private parseTemplate(template: string): JSXElement | null {
+    try {
+      const elements = j(template).find(j.JSXElement);
+      return elements.size() > 0 ? (elements.get().node as JSXElement) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async locateTarget(
+    file: string,
+    target: InsertTarget
+  ): Promise<InsertLocation | null> {
+    const {
+      componentName,
+      elementIdentifier,
+      elementTag,
+      className,
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+    } = target;
+    const lookupText =
+      textContent && textContent.length > 0 ? textContent : elementIdentifier;
+
+    const candidateFiles = await this.resolveCandidateFiles({
+      file,
+      tag: elementTag ?? componentName,
+      serviceName: "ComponentInsert",
+      lookupText,
+      ownerComponentName,
+      ownerFilePath,
+    });
+
+    for (const filePath of candidateFiles) {
+      const source = fs.readFileSync(filePath, "utf8");
+      const { ast, possibleNames } = this.parseAndFindElements(
+        source,
+        elementTag ?? componentName
+      );
+
+      const match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher: this.createElementMatcher({
+          identifier: elementIdentifier,
+          textContent,
+          className,
+          elementTag,
+        }),
+        className: className ?? "",
+        text: lookupText,
+        serviceName: "ComponentInsert",
+      });
+
+      if (match) {
+        return {
+          filePath,
+          source,
+          ast,
+          path: match.matchedPath,
+          elementName: match.elementName ?? componentName,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Without a rendered target, find the container by `#id`, `.class` or tag
+   * name, falling back to the root element of the default export.
+   */
+  private locateBySelector(
+    file: string,
+    selector: string | undefined
+  ): InsertLocation | null {
+    const filePath = this.resolveFilePath(file);
+    if (!filePath || !fs.existsSync(filePath)) {
+      return null;
+    }
+
+    const source = fs.readFileSync(filePath, "utf8");
+    const ast = j(source);
+
+    let elements: ASTPath<JSXElement>[];
+    if (selector) {
+      elements = ast
+        .find(j.JSXElement)
+        .filter((elementPath) =>
+          this.matchesSelector(elementPath.node, selector)
+        )
+        .paths();
+    } else {
+      const defaultExport = ast
+        .find(j.ExportDefaultDeclaration)
+        .find(j.JSXElement);
+      elements = (
+        defaultExport.size() > 0 ? defaultExport : ast.find(j.JSXElement)
+      ).paths();
+    }
+
+    const elementPath = elements[0];
+    if (!elementPath) {
+      return null;
+    }
+
+    return {
+      filePath,
+      source,
+      ast,
+      path: elementPath,
+      elementName: this.getElementName(elementPath.node),
+    };
+  }
+
+  private matchesSelector(node: JSXElement, selector: string): boolean {
+    const attributes = node.openingElement.attributes ?? [];
+    const readAttribute = (name: string): string | null => {
+      const attr = attributes.find(
+        (candidate) =>
+          candidate.type === "JSXAttribute" && candidate.name.name === name
+      );
+      return attr?.type === "JSXAttribute" && attr.value
+        ? this.extractStringValue(attr.value)
+        : null;
+    };
+
+    if (selector.startsWith("#")) {
+      return readAttribute("id") === selector.slice(1);
+    }
+    if (selector.startsWith(".")) {
+      return this.sanitizeClassTokens(readAttribute("className") ?? "").has(
+        selector.slice(1)
+      );
+    }
+    return this.getElementName(node) === selector;
+  }
+
+  private insertSnippet(
+    location: InsertLocation,
+    snippet: JSXElement,
+    position: InsertPosition,
+    insertIndex: number
+  ): string | null {
+    const { path: elementPath, elementName } = location;
+
+    if (position === "inside") {
+      const node = elementPath.node;
+      if (node.openingElement.selfClosing) {
+        if (VOID_ELEMENTS.has(elementName)) {
+          return `<${elementName}> can't contain other elements`;
+        }
+        node.openingElement.selfClosing = false;
+        node.closingElement = j.jsxClosingElement(node.openingElement.name);
+      }
+
+      const children: JSXChild[] = node.children ?? [];
+      // Count only meaningful children so the index matches what's rendered
+      const slots = children
+        .map((child, index) => ({ child, index }))
+        .filter(
+          ({ child }) =>
+            !(
+              child?.type === "JSXText" &&
+              !(child as namedTypes.JSXText).value.trim()
+            )
+        );
+      // A new child goes on its own line unless the others share one line
+      if (slots.length === 0) {
+        node.children = layOutOnOwnLines([snippet]) as JSXElement["children"];
+        return null;
+      }
+
+      const multiline = isMultiline(children);
+      const slot = slots[Math.min(insertIndex, slots.length)];
+      if (slot) {
+        children.splice(
+          slot.index,
+          0,
+          ...(multiline ? [snippet, createLineBreak()] : [snippet])
+        );
+      } else {
+        children.splice(
+          slots[slots.length - 1].index + 1,
+          0,
+          ...(multiline ? [createLineBreak(), snippet] : [snippet])
+        );
+      }
+      node.children = children as JSXElement["children"];
+      return null;
+    }
+
+    const parentNode = elementPath.parent?.value as
+      | (namedTypes.Node & { children?: JSXChild[] })
+      | undefined;
+
+    if (
+      parentNode &&
+      (parentNode.type === "JSXElement" || parentNode.type === "JSXFragment")
+    ) {
+      const children = parentNode.children ?? [];
+      const index = children.indexOf(elementPath.node);
+      const multiline = isMultiline(children);
+      if (position === "before") {
+        children.splice(
+          index,
+          0,
+          ...(multiline ? [snippet, createLineBreak()] : [snippet])
+        );
+      } else {
+        children.splice(
+          index + 1,
+          0,
+          ...(multiline ? [createLineBreak(), snippet] : [snippet])
+        );
+      }
+      parentNode.children = children;
+      return null;
+    }
+
+    // A returned root or conditional branch must stay a single expression
+    const existing = asJsxChild(elementPath.node);
+    elementPath.replace(
+      j.jsxFragment(
+        j.jsxOpeningFragment(),
+        j.jsxClosingFragment(),
+        layOutOnOwnLines(
+          position === "before" ? [snippet, existing] : [existing, snippet]
+        ) as JSXElement["children"]
+      )
+    );
+    return null;
+  }
+
+  /**
+   * Map the shadcn components required by the component types to import
+   * declarations, keeping only the specifiers the snippet actually renders.
+   */
+  private resolveSnippetImports(
+    shadcn: ShadcnService,
+    componentTypes: string[],
+    usedNames: Set<string>
+  ): SnippetImport[] {
+    const components = new Set(
+      Array.from(new Set(componentTypes)).flatMap((componentType) =>
+        shadcn.getRequiredComponents(componentType)
+      )
+    );
+
+    const imports: SnippetImport[] = [];
+    for (const component of components) {
+      const statement = shadcn.getImportStatement(component);
+      if (!statement) {
+        continue;
+      }
+
+      const parsed = j(statement).find(j.ImportDeclaration).get()
+        .node as ImportDeclaration;
+      const names = (parsed.specifiers ?? [])
+        .filter((specifier) => specifier.type === "ImportSpecifier")
+        .map((specifier) => specifier.local?.name as string)
+        .filter((name) => usedNames.has(name));
+      if (names.length === 0) {
+        continue;
+      }
+
+      // Fresh nodes so recast prints them instead of reusing the statement text
+      const declaration = j.importDeclaration(
+        names.map((name) => j.importSpecifier(j.identifier(name))),
+        j.stringLiteral(parsed.source.value as string)
+      );
+      imports.push({ component, declaration });
+    }
+
+    return imports;
+  }
+
+  private addImports(ast: ParsedAst, imports: SnippetImport[]): string | null {
+    const program = ast.find(j.Program).get().node as namedTypes.Program;
+
+    for (const { declaration } of imports) {
+      const importSource = declaration.source.value;
+      const specifiers = (declaration.specifiers ?? []) as ImportSpecifier[];
+
+      for (const specifier of specifiers) {
+        const localName = (specifier.local?.name ??
+          specifier.imported.name) as string;
+        const conflict = ast
+          .find(j.ImportDeclaration)
+          .filter((existing) => existing.node.source.value !== importSource)
+          .find(j.Identifier, { name: localName });
+        if (conflict.size() > 0) {
+          return `"${localName}" is already imported from another module`;
+        }
+      }
+
+      const existing = ast
+        .find(j.ImportDeclaration)
+        .filter((importPath) => importPath.node.source.value === importSource);
+      if (existing.size() === 0) {
+        const lastImportIndex = program.body.reduce(
+          (last, statement, index) =>
+            statement.type === "ImportDeclaration" ? index : last,
+          -1
+        );
+        program.body.splice(lastImportIndex + 1, 0, declaration);
+        continue;
+      }
+
+      const existingDeclaration = existing.get().node as ImportDeclaration;
+      const existingSpecifiers = existingDeclaration.specifiers ?? [];
+      const importedNames = new Set(
+        existingSpecifiers.map((specifier) => specifier.local?.name)
+      );
+      existingDeclaration.specifiers = [
+        ...existingSpecifiers,
+        ...specifiers.filter(
+          (specifier) => !importedNames.has(specifier.local?.name)
+        ),
+      ];
+    }
+
+    return null;
+  }
+
+  private collectElementNames(snippet: JSXElement): Set<string> {
+    const names = new Set<string>();
+    j(snippet)
+      .find(j.JSXOpeningElement)
+      .forEach((openingPath) => {
+        names.add(this.getElementName({ openingElement: openingPath.node }));
+      });
+    names.add(this.getElementName(snippet));
+    return names;
+  }
+
+  private getElementName(node: Pick<JSXElement, "openingElement">): string {
+    const name = node.openingElement.name;
+    if (name.type === "JSXIdentifier") {
+      return name.name;
+    }
+    if (name.type === "JSXMemberExpression") {
+      return j(name).toSource();
+    }
+    return `${name.namespace.name}:${name.name.name}`;
+  }
+}
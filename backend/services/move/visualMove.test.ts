@@ -0,0 +1,85 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { VisualMoveService } from "./visualMove";
+
+const PAGE = `export default function Page() {
+  return (
+    <main>
+      <h1>Title</h1>
+      <p>First</p>
+      <p>Second</p>
+    </main>
+  );
+}
+`;
+
+describe("VisualMoveService", () => {
+  let projectRoot: string;
+  let pagePath: string;
+  let service: VisualMoveService;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-move-"));
+    pagePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, PAGE, "utf8");
+    // Check recast's own output, without Prettier tidying it up
+    fs.mkdirSync(path.join(projectRoot, ".brakit"));
+    fs.writeFileSync(
+      path.join(projectRoot, ".brakit", "config.json"),
+      JSON.stringify({ formatting: { strategy: "recast" } }),
+      "utf8"
+    );
+    service = new VisualMoveService(projectRoot);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const move = (
+    elementIdentifier: string,
+    targetIdentifier: string,
+    position: "before" | "after"
+  ) =>
+    service.moveElement({
+      sourceFile: "app/page.tsx",
+      componentName: "p",
+      elementIdentifier,
+      elementTag: elementIdentifier === "Title" ? "h1" : "p",
+      textContent: elementIdentifier,
+      target: {
+        elementIdentifier: targetIdentifier,
+        elementTag: targetIdentifier === "Title" ? "h1" : "p",
+        textContent: targetIdentifier,
+      },
+      position,
+    });
+
+  it("keeps each sibling on its own line when moving up", async () => {
+    const result = await move("Second", "Title", "before");
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(pagePath, "utf8")).toBe(
+      PAGE.replace(
+        "      <h1>Title</h1>\n      <p>First</p>\n      <p>Second</p>\n",
+        "      <p>Second</p>\n      <h1>Title</h1>\n      <p>First</p>\n"
+      )
+    );
+  });
+
+  it("leaves no empty line behind when moving down", async () => {
+    const result = await move("First", "Second", "after");
+
+    expect(result.success).toBe(true);
+    expect(fs.readFileSync(pagePath, "utf8")).toBe(
+      PAGE.replace(
+        "      <p>First</p>\n      <p>Second</p>\n",
+        "      <p>Second</p>\n      <p>First</p>\n"
+      )
+    );
+  });
+});
@@ -0,0 +1,284 @@
+import type { ASTPath, JSXElement } from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+} from "../shared/BaseUpdateService";
+import {
+  createCandidate,
+  type ElementMatchCandidate,
+} from "../shared/elementMatcher";
+import { safeReadFile } from "../shared/fileUtils";
+import { createLineBreak, isLineBreak, isMultiline } from "../shared/jsxLayout";
+import {
+  MovePayload,
+  MovePosition,
+  MoveResult,
+  MoveTargetHints,
+} from "../../types/move";
+import { logger } from "../../utils/logger";
+
+type JSXChild = namedTypes.Node | null | undefined;
+type JSXMatcher = (node: JSXElement, children: JSXChild[]) => boolean;
+
+export class VisualMoveService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  async moveElement(payload: MovePayload): Promise<MoveResult> {
+    const {
+      sourceFile,
+      componentName,
+      elementIdentifier,
+      elementTag,
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+    } = payload;
+
+    try {
+      const lookupText =
+        textContent && textContent.length > 0 ? textContent : elementIdentifier;
+
+      const candidateFiles = await this.resolveCandidateFiles({
+        file: sourceFile,
+        tag: elementTag ?? componentName,
+        serviceName: "Move",
+        lookupText,
+        ownerComponentName,
+        ownerFilePath,
+      });
+      if (candidateFiles.length === 0) {
+        return {
+          success: false,
+          error: `Source file "${sourceFile}" not found`,
+        };
+      }
+
+      let lastError: string | null = null;
+
+      for (const filePath of candidateFiles) {
+        const result = await this.tryMoveInFile(filePath, payload);
+        if (!result) {
+          continue;
+        }
+        if (result.success) {
+          return result;
+        }
+        lastError = result.error ?? lastError;
+      }
+
+      logger.warn(
+        `[VisualMove] Unable to move "${elementIdentifier}" next to "${payload.target.elementIdentifier}"`
+      );
+      return {
+        success: false,
+        error:
+          lastError ??
+          `Element "${elementIdentifier}" not found or could not be moved`,
+      };
+    } catch (error) {
+      logger.error(`[VisualMove] Move operation failed: ${error}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown move error",
+      };
+    }
+  }
+
+  /**
+   * Returns null when the element is not in the file, and a failed result when
+   * it is but cannot be moved to the requested position.
+   */
+  private async tryMoveInFile(
+    filePath: string,
+    payload: MovePayload
+  ): Promise<MoveResult | null> {
+    const {
+      componentName,
+      elementIdentifier,
+      elementTag,
+      className,
+      textContent,
+      target,
+      position,
+    } = payload;
+
+    const source = await safeReadFile(filePath);
+    if (!source) {
+      return null;
+    }
+
+    const { ast, possibleNames } = this.parseAndFindElements(
+      source,
+      elementTag ?? componentName
+    );
+
+    let match: ElementMatchContext | null = null;
+    for (const matcher of this.createMatchers({
+      elementIdentifier,
+      textContent,
+      className,
+      elementTag,
+    })) {
+      match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher,
+        className: className ?? "",
+        text: textContent ?? elementIdentifier,
+        serviceName: "Move",
+      });
+      if (match) {
+        break;
+      }
+    }
+
+    if (!match) {
+      return null;
+    }
+
+    const relocationError = this.relocateAmongSiblings(match, target, position);
+    if (relocationError) {
+      return { success: false, error: relocationError };
+    }
+
+    const updated = await this.writeFormattedSource(filePath, ast, source);
+    if (!updated) {
+      return {
+        success: true,
+        message: `<${componentName}> is already in that position`,
+        updatedFile: filePath,
+      };
+    }
+
+    logger.info({
+      message: "[VisualMove] Moved element among siblings",
+      context: {
+        filePath,
+        position,
+        target: target.elementIdentifier,
+      },
+    });
+
+    const targetLabel = target.elementTag
+      ? `<${target.elementTag}>`
+      : `"${target.elementIdentifier}"`;
+    return {
+      success: true,
+      message: `Moved <${componentName}> ${position} ${targetLabel}`,
+      updatedFile: filePath,
+    };
+  }
+
+  /**
+   * Exact text matching first, so siblings sharing the same classes stay
+   * distinguishable, then the looser matching used for deletes.
+   */
+  private createMatchers(hints: MoveTargetHints): JSXMatcher[] {
+    return [
+      this.createTextOrClassNameMatcher(
+        hints.textContent || hints.elementIdentifier,
+        hints.className
+      ),
+      this.createElementMatcher({
+        identifier: hints.elementIdentifier,
+        textContent: hints.textContent,
+        className: hints.className,
+        elementTag: hints.elementTag,
+      }),
+    ];
+  }
+
+  /**
+   * Move the matched node before or after one of its JSX siblings. Returns an
+   * error message when the move cannot be expressed as a plain child reorder.
+   */
+  private relocateAmongSiblings(
+    match: ElementMatchContext,
+    target: MoveTargetHints,
+    position: MovePosition
+  ): string | null {
+    const elementLabel = match.elementName ?? "element";
+    const parentPath = match.matchedPath
+      .parent as ASTPath<namedTypes.Node> | null;
+    const parentNode = parentPath?.value as
+      | (namedTypes.Node & { children?: JSXChild[] })
+      | undefined;
+
+    if (
+      !parentPath ||
+      !parentNode ||
+      (parentNode.type !== "JSXElement" && parentNode.type !== "JSXFragment")
+    ) {
+      return `<${elementLabel}> is not a direct child of a JSX element, so it cannot be reordered`;
+    }
+
+    const children = parentNode.children ?? [];
+    let anchor: { matchedNode: JSXElement } | null = null;
+
+    for (const matcher of this.createMatchers(target)) {
+      const siblingCandidates: ElementMatchCandidate[] = [];
+      children.forEach((child, index) => {
+        if (
+          !child ||
+          child.type !== "JSXElement" ||
+          child === match.matchedNode
+        ) {
+          return;
+        }
+        const sibling = child as JSXElement;
+        if (matcher(sibling, (sibling.children ?? []) as JSXChild[])) {
+          siblingCandidates.push(
+            createCandidate(sibling, parentPath.get("children", index))
+          );
+        }
+      });
+
+      anchor = this.selectBestMatchingElement(
+        siblingCandidates,
+        target.className ?? "",
+        target.textContent ?? target.elementIdentifier,
+        "Move:Target"
+      );
+      if (anchor) {
+        break;
+      }
+    }
+
+    if (!anchor) {
+      return `Could not find "${target.elementIdentifier}" next to <${elementLabel}> in the same JSX parent. Elements rendered from lists or expressions cannot be reordered here.`;
+    }
+
+    // The line break in front of the node moves with it, so no empty line is
+    // left behind and the node keeps a line of its own at the new position
+    const multiline = isMultiline(children);
+    const fromIndex = children.indexOf(match.matchedNode);
+    const removeFrom =
+      fromIndex > 0 && isLineBreak(children[fromIndex - 1])
+        ? fromIndex - 1
+        : fromIndex;
+    children.splice(removeFrom, fromIndex - removeFrom + 1);
+
+    const moved: JSXChild[] = [match.matchedNode];
+    if (multiline) {
+      if (position === "before") {
+        moved.push(createLineBreak());
+      } else {
+        moved.unshift(createLineBreak());
+      }
+    }
+
+    const anchorIndex = children.indexOf(anchor.matchedNode);
+    children.splice(
+      position === "before" ? anchorIndex : anchorIndex + 1,
+      0,
+      ...moved
+    );
+    parentNode.children = children;
+
+    return null;
+  }
+}
@@ -0,0 +1,213 @@
+import fs from "fs";
+import path from "path";
+import type { FrameworkInfo } from "../../utils/detectFramework";
+
+const PAGE_EXTENSIONS = new Set([".tsx", ".ts", ".jsx", ".js", ".mdx", ".md"]);
+const APP_PAGE_BASENAME = "page";
+const IGNORED_DIRECTORIES = new Set(["node_modules", "api"]);
+
+export interface ProjectRoute {
+  /** URL path with dynamic segments as written, e.g. /blog/[slug] */
+  path: string;
+  /** Page file relative to the project root */
+  filePath: string;
+  dynamic: boolean;
+  /** Regular expression source matching concrete pathnames for this route */
+  pattern: string;
+}
+
+/**
+ * Discover the routes served from each page root. Next.js app directories
+ * only route `page.*` files; every other root is treated as file-based
+ * routing where each file is a page and `index` maps to its folder.
+ */
+export function listProjectRoutes(
+  projectRoot: string,
+  info: FrameworkInfo
+): ProjectRoute[] {
+  const routes = new Map<string, ProjectRoute>();
+
+  for (const pageRoot of info.pageRoots) {
+    const absoluteRoot = path.join(projectRoot, pageRoot);
+    if (!fs.existsSync(absoluteRoot)) {
+      continue;
+    }
+
+    const isAppRouter =
+      info.framework === "next" && path.posix.basename(pageRoot) === "app";
+    const discovered = isAppRouter
+      ? collectAppRoutes(projectRoot, absoluteRoot)
+      : collectFileRoutes(projectRoot, absoluteRoot);
+
+    for (const route of discovered) {
+      if (!routes.has(route.path)) {
+        routes.set(route.path, route);
+      }
+    }
+  }
+
+  return Array.from(routes.values()).sort((a, b) => {
+    if (a.dynamic !== b.dynamic) return a.dynamic ? 1 : -1;
+    return a.path.localeCompare(b.path);
+  });
+}
+
+/**
+ * The pathname an href navigates to when it stays inside the app, or null
+ * for external URLs, fragments, mailto: links and relative paths.
+ */
+export function toInternalPathname(href: string): string | null {
+  const trimmed = href.trim();
+  if (!trimmed.startsWith("/") || trimmed.startsWith("//")) {
+    return null;
+  }
+
+  const pathname = trimmed.split(/[?#]/)[0];
+  try {
+    return decodeURI(pathname);
+  } catch {
+    return pathname;
+  }
+}
+
+export function findMatchingRoute(
+  routes: ProjectRoute[],
+  pathname: string
+): ProjectRoute | null {
+  return (
+    routes.find((route) => new RegExp(route.pattern).test(pathname)) ?? null
+  );
+}
+
+function collectAppRoutes(
+  projectRoot: string,
+  absoluteRoot: string
+): ProjectRoute[] {
+  const routes: ProjectRoute[] = [];
+
+  function walk(currentDir: string, segments: string[]) {
+    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const absolutePath = path.join(currentDir, entry.name);
+
+      if (entry.isDirectory()) {
+        // Private folders and intercepting routes never produce a URL of
+        // their own
+        if (
+          entry.name.startsWith("_") ||
+          entry.name.startsWith(".") ||
+          entry.name.startsWith("(.") ||
+          IGNORED_DIRECTORIES.has(entry.name)
+        ) {
+          continue;
+        }
+
+        // Route groups and parallel slots don't add a URL segment
+        const isTransparent =
+          /^\(.+\)$/.test(entry.name) || entry.name.startsWith("@");
+        walk(
+          absolutePath,
+          isTransparent ? segments : [...segments, entry.name]
+        );
+        continue;
+      }
+
+      const extension = path.extname(entry.name);
+      if (
+        entry.isFile() &&
+        PAGE_EXTENSIONS.has(extension) &&
+        path.basename(entry.name, extension) === APP_PAGE_BASENAME
+      ) {
+        routes.push(createRoute(projectRoot, absolutePath, segments));
+      }
+    }
+  }
+
+  walk(absoluteRoot, []);
+  return routes;
+}
+
+function collectFileRoutes(
+  projectRoot: string,
+  absoluteRoot: string
+): ProjectRoute[] {
+  const routes: ProjectRoute[] = [];
+
+  function walk(currentDir: string, segments: string[]) {
+    const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (entry.name.startsWith("_") || entry.name.startsWith(".")) {
+        continue;
+      }
+
+      const absolutePath = path.join(currentDir, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) {
+          walk(absolutePath, [...segments, entry.name]);
+        }
+        continue;
+      }
+
+      const extension = path.extname(entry.name);
+      if (!entry.isFile() || !PAGE_EXTENSIONS.has(extension)) {
+        continue;
+      }
+      if (entry.name.endsWith(`.d${extension}`)) {
+        continue;
+      }
+
+      const stem = path.basename(entry.name, extension);
+      routes.push(
+        createRoute(
+          projectRoot,
+          absolutePath,
+          stem === "index" ? segments : [...segments, stem]
+        )
+      );
+    }
+  }
+
+  walk(absoluteRoot, []);
+  return routes;
+}
+
+function createRoute(
+  projectRoot: string,
+  absolutePath: string,
+  segments: string[]
+): ProjectRoute {
+  let pattern = "";
+  let dynamic = false;
+
+  for (const segment of segments) {
+    if (/^\[\[\.\.\..+\]\]$/.test(segment)) {
+      pattern += "(?:/.+)?";
+      dynamic = true;
+    } else if (/^\[\.\.\..+\]$/.test(segment)) {
+      pattern += "/.+";
+      dynamic = true;
+    } else if (/^\[.+\]$/.test(segment)) {
+      pattern += "/[^/]+";
+      dynamic = true;
+    } else {
+      pattern += `/${escapeRegExp(segment)}`;
+    }
+  }
+
+  return {
+    path: `/${segments.join("/")}`,
+    filePath: path
+      .relative(projectRoot, absolutePath)
+      .split(path.sep)
+      .join("/"),
+    dynamic,
+    pattern: pattern ? `^${pattern}/?$` : "^/$",
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -3,6 +3,7 @@ import { promisify } from "util";
 import fs from "fs";
 import path from "path";
 import { logger } from "../../utils/logger";
+import { actionHistory } from "../history";
 import { ensurePackagesInstalled } from "../shared/dependencyInstaller";
 
 const BASE_SHADCN_DEPENDENCIES = [
@@ -126,6 +127,7 @@ export function cn(...inputs: ClassValue[]) {
 `;
 
     fs.writeFileSync(utilityPath, content, "utf8");
+    actionHistory.noteOwnWrite(utilityPath);
     logger.info({
       message: "Created shadcn utility helper",
       context: { path: utilityPath },
@@ -179,10 +181,12 @@ export function cn(...inputs: ClassValue[]) {
     try {
       // Run shadcn-ui init with default options
       // Using --yes for non-interactive mode
-      await execAsync("npx shadcn@latest init --yes --defaults", {
-        cwd: this.projectRoot,
-        timeout: 60000, // 60 second timeout
-      });
+      await actionHistory.runOwnWrites(() =>
+        execAsync("npx shadcn@latest init --yes --defaults", {
+          cwd: this.projectRoot,
+          timeout: 60000, // 60 second timeout
+        })
+      );
 
       await this.ensureBaseDependencies(onProgress);
 
@@ -259,10 +263,12 @@ export function cn(...inputs: ClassValue[]) {
 
     try {
       // Run shadcn-ui add command with --yes for non-interactive mode
-      await execAsync(`npx shadcn@latest add ${componentName} --yes`, {
-        cwd: this.projectRoot,
-        timeout: 60000, // 60 second timeout
-      });
+      await actionHistory.runOwnWrites(() =>
+        execAsync(`npx shadcn@latest add ${componentName} --yes`, {
+          cwd: this.projectRoot,
+          timeout: 60000, // 60 second timeout
+        })
+      );
 
       logger.info({
         message: "Component installed successfully",
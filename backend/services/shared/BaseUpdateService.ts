@@ -21,7 +21,6 @@ import type {
   JSXMemberExpression,
 } from "jscodeshift";
 import type { namedTypes } from "ast-types";
-import prettier from "prettier";
 import {
   BaseUpdateResult,
   COMPONENT_MAP,
@@ -38,9 +37,11 @@ import {
 import { resolveFilePath as resolveFilePathUtil } from "../../utils/fileResolver";
 import { normalizeText as normalizeTextUtil } from "./textUtils";
 import { actionHistory } from "../history";
+import { formatSource } from "./sourceFormatter";
 
 const COMPONENT_FILE_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
 const STYLE_PROP_SET = new Set(STYLE_PROPS);
+const LIST_METHODS = new Set(["map", "flatMap"]);
 
 type JSXChildNode =
   | JSXElement
@@ -53,7 +54,17 @@ type JSXChildNode =
   | null
   | undefined;
 
-type ParsedAst = Collection<JSXElement>;
+export type ParsedAst = Collection<JSXElement>;
+
+interface SourceEntry {
+  fullPath: string;
+  name: string;
+  isDirectory: boolean;
+}
+
+function isJsxSourceFile(entry: SourceEntry): boolean {
+  return !entry.isDirectory && /\.(tsx|jsx)$/.test(entry.name);
+}
 
 function resolveJSXElementName(
   nameNode:
@@ -95,6 +106,35 @@ export interface ElementMatchContext {
   usagePropNames: string[];
 }
 
+export interface ListRenderContext {
+  callback:
+    | namedTypes.ArrowFunctionExpression
+    | namedTypes.FunctionExpression;
+  /** Name of the iterated array, e.g. `features` in `features.map()` */
+  sourceName?: string;
+  /** The iterated array literal, when it is declared in the same file */
+  sourceArray: namedTypes.ArrayExpression | null;
+}
+
+export interface ListDataEntry {
+  context: ListRenderContext;
+  /** Position of the item within the source array */
+  index: number;
+  /** Property read by the template, e.g. ["meta", "title"] */
+  propertyPath: string[];
+  valueNode:
+    | namedTypes.StringLiteral
+    | namedTypes.Literal
+    | namedTypes.TemplateLiteral;
+  /** The `{item.prop}` child of the matched element */
+  expressionContainer: JSXExpressionContainer;
+}
+
+export interface RenderedPropSource {
+  componentName: string;
+  propName: string;
+}
+
 export interface ElementMatcherOptions {
   identifier?: string;
   textContent?: string;
@@ -115,7 +155,8 @@ export interface ProjectComponentUsageMatch extends ComponentUsageMatch {
 
 export abstract class BaseUpdateService {
   protected projectRoot: string;
-  private componentResolutionCache = new Map<
+  // Shared by every service so the file watcher can invalidate it in one place
+  private static componentResolutionCache = new Map<
     string,
     { mtimeMs: number; path: string | null }
   >();
@@ -124,6 +165,27 @@ export abstract class BaseUpdateService {
     this.projectRoot = projectRoot;
   }
 
+  /**
+   * Forget the component imports resolved from a changed file. A file being
+   * added or removed can change where any import resolves to, so that
+   * clears every entry.
+   */
+  static invalidateComponentResolution(
+    filePath: string,
+    structural: boolean
+  ): void {
+    if (structural) {
+      BaseUpdateService.componentResolutionCache.clear();
+      return;
+    }
+
+    for (const key of BaseUpdateService.componentResolutionCache.keys()) {
+      if (key.startsWith(`${filePath}:`)) {
+        BaseUpdateService.componentResolutionCache.delete(key);
+      }
+    }
+  }
+
   /**
    * Normalize whitespace in text for reliable comparisons
    */
@@ -205,11 +267,30 @@ export abstract class BaseUpdateService {
       serviceName,
     } = options;
 
-    const candidates = this.collectCandidateElements(
+    const matcherCandidates = this.collectCandidateElements(
       ast,
       possibleNames,
       matcher
     );
+
+    // Matchers fall back to className for dynamic content, which can pick
+    // the wrong node when the text actually lives in a `.map()` source array
+    const normalizedText = this.normalizeText(text);
+    const hasStaticTextMatch = matcherCandidates.some((candidate) => {
+      const textInfo = this.collectNodeTextInfo(
+        (candidate.node.children ?? []) as JSXChildNode[]
+      );
+      return (
+        !textInfo.hasDynamicContent &&
+        this.normalizeText(textInfo.text) === normalizedText
+      );
+    });
+    const listCandidates = hasStaticTextMatch
+      ? []
+      : this.collectListDataCandidates(ast, possibleNames, text);
+    const candidates =
+      listCandidates.length > 0 ? listCandidates : matcherCandidates;
+
     const elementMatch = this.selectBestMatchingElement(
       candidates,
       className,
@@ -303,18 +384,28 @@ export abstract class BaseUpdateService {
     };
   }
 
+  /**
+   * Find where a component is rendered with the text, in the current file
+   * first and then across the project. Pass `componentName` to only consider
+   * usages of that component.
+   */
   protected resolveComponentUsage(
     text: string,
     ast: ParsedAst,
-    filePath: string
+    filePath: string,
+    componentName?: string
   ): {
     localUsage?: ComponentUsageMatch | null;
     externalUsage?: ProjectComponentUsageMatch | null;
   } {
-    const componentMatch = this.findComponentUsageByText(ast, text);
+    const componentMatch = this.findComponentUsageByText(
+      ast,
+      text,
+      componentName
+    );
     const externalMatch = componentMatch
       ? null
-      : this.findComponentUsageInProject(text);
+      : this.findComponentUsageInProject(text, componentName);
 
     return {
       localUsage: componentMatch,
@@ -344,7 +435,7 @@ export abstract class BaseUpdateService {
       return null;
     }
 
-    const source = fs.readFileSync(componentFilePath, "utf8");
+    const source = this.readSourceFile(componentFilePath);
     const { ast, possibleNames } = this.parseAndFindElements(source, tag);
 
     return {
@@ -585,13 +676,16 @@ export abstract class BaseUpdateService {
       ? this.resolveFilePath(options.file)
       : null;
 
-    // Prefer updating the file the user is looking at before falling back to owner hints
-    const localMatch = await this.findFileForText(
-      options.lookupText,
-      options.tag,
-      options.file,
-      options.serviceName
-    );
+    // Prefer updating the file the user is looking at before falling back to
+    // owner hints. Without text there is nothing to search the project for.
+    const localMatch = options.lookupText
+      ? await this.findFileForText(
+          options.lookupText,
+          options.tag,
+          options.file,
+          options.serviceName
+        )
+      : null;
 
     if (localMatch) {
       return localMatch;
@@ -607,9 +701,67 @@ export abstract class BaseUpdateService {
       return hinted;
     }
 
+    if (
+      !options.lookupText &&
+      requestedSourcePath &&
+      fs.existsSync(requestedSourcePath)
+    ) {
+      return requestedSourcePath;
+    }
+
     return null;
   }
 
+  /**
+   * Files to look for an element in, most specific first: the owner
+   * component, the file that contains `lookupText`, then the page itself.
+   * Without `lookupText` the content search is skipped. Files that do not
+   * exist are left out.
+   */
+  protected async resolveCandidateFiles(options: {
+    file: string;
+    tag: string;
+    serviceName: string;
+    lookupText?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+  }): Promise<string[]> {
+    const {
+      file,
+      tag,
+      serviceName,
+      lookupText,
+      ownerComponentName,
+      ownerFilePath,
+    } = options;
+
+    const pageFilePath = this.resolveFilePath(file);
+    const resolvedOwnerPath = this.resolveFileFromOwnerHints({
+      requestedSourcePath: pageFilePath,
+      ownerComponentName,
+      ownerFilePath,
+    });
+    const resolvedByContent = lookupText
+      ? await this.resolveFileUsingMetadata({
+          lookupText,
+          tag,
+          file,
+          serviceName,
+          ownerComponentName,
+          ownerFilePath,
+        })
+      : null;
+
+    return Array.from(
+      new Set(
+        [resolvedOwnerPath, resolvedByContent, pageFilePath].filter(
+          (filePath): filePath is string =>
+            Boolean(filePath) && fs.existsSync(filePath as string)
+        )
+      )
+    );
+  }
+
   protected resolveFileFromOwnerHints(options: {
     requestedSourcePath: string | null;
     ownerComponentName?: string;
@@ -657,6 +809,27 @@ export abstract class BaseUpdateService {
     possibleTags: string[],
     options: { allowDynamicFallback: boolean }
   ): Promise<string | null> {
+    // Only search .tsx and .jsx files (not .ts or .js for performance)
+    for (const entry of this.walkSourceTree(isJsxSourceFile)) {
+      if (
+        await this.fileContainsText(entry.fullPath, text, possibleTags, options)
+      ) {
+        return entry.fullPath; // Early return on first match
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Depth-first walk over the project's source directories, yielding the
+   * entries `include` accepts. Directories are yielded before their contents
+   * so callers can match them too; stop iterating to end the walk early.
+   */
+  private *walkSourceTree(
+    include: (entry: SourceEntry) => boolean,
+    options: { skipHidden?: boolean } = {}
+  ): Generator<SourceEntry> {
     // Build list of directories to search, only include those that exist
     const searchDirs = SEARCH_DIRECTORIES.map((dir) =>
       path.join(this.projectRoot, dir)
@@ -668,56 +841,19 @@ export abstract class BaseUpdateService {
       searchDirs.push(this.projectRoot);
     }
 
-    for (const searchDir of searchDirs) {
-      const result = await this.searchDirectoryForText(
-        searchDir,
-        text,
-        possibleTags,
-        options
-      );
-      if (result) return result; // Early return on first match
+    for (const dir of searchDirs) {
+      yield* this.walkSourceDirectory(dir, include, options);
     }
-
-    return null;
   }
 
-  /**
-   * Recursively search directory for files containing the text
-   */
-  private async searchDirectoryForText(
+  private *walkSourceDirectory(
     dir: string,
-    text: string,
-    possibleTags: string[],
-    options: { allowDynamicFallback: boolean }
-  ): Promise<string | null> {
+    include: (entry: SourceEntry) => boolean,
+    options: { skipHidden?: boolean }
+  ): Generator<SourceEntry> {
+    let entries: fs.Dirent[];
     try {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-
-        // Skip irrelevant directories (performance optimization)
-        if (SKIP_DIRECTORIES.includes(entry.name)) {
-          continue;
-        }
-
-        if (entry.isDirectory()) {
-          const result = await this.searchDirectoryForText(
-            fullPath,
-            text,
-            possibleTags,
-            options
-          );
-          if (result) return result; // Early termination
-        } else if (entry.isFile() && /\.(tsx|jsx)$/.test(entry.name)) {
-          // Only search .tsx and .jsx files (not .ts or .js for performance)
-          if (
-            await this.fileContainsText(fullPath, text, possibleTags, options)
-          ) {
-            return fullPath;
-          }
-        }
-      }
+      entries = fs.readdirSync(dir, { withFileTypes: true });
     } catch (error) {
       logger.warn({
         message: `Error searching directory ${dir}`,
@@ -725,9 +861,33 @@ export abstract class BaseUpdateService {
           error: error instanceof Error ? error.message : String(error),
         },
       });
+      return;
     }
 
-    return null;
+    for (const entry of entries) {
+      // Skip irrelevant directories (performance optimization)
+      if (
+        SKIP_DIRECTORIES.includes(entry.name) ||
+        (options.skipHidden && entry.name.startsWith("."))
+      ) {
+        continue;
+      }
+
+      const sourceEntry: SourceEntry = {
+        fullPath: path.join(dir, entry.name),
+        name: entry.name,
+        isDirectory: entry.isDirectory(),
+      };
+
+      if (sourceEntry.isDirectory) {
+        if (include(sourceEntry)) {
+          yield sourceEntry;
+        }
+        yield* this.walkSourceDirectory(sourceEntry.fullPath, include, options);
+      } else if (entry.isFile() && include(sourceEntry)) {
+        yield sourceEntry;
+      }
+    }
   }
 
   /**
@@ -771,6 +931,15 @@ export abstract class BaseUpdateService {
             hasStaticText = true;
           }
 
+          if (
+            !hasStaticText &&
+            hasDynamicContent &&
+            this.findListDataEntry(path, text)
+          ) {
+            found = true;
+            hasStaticText = true;
+          }
+
           // If allowed, accept dynamic content as fallback, but only when no static match is found
           if (!hasStaticText && hasDynamicContent && allowDynamicFallback) {
             found = true;
@@ -803,6 +972,34 @@ export abstract class BaseUpdateService {
    * Handles both static text (JSXText) and dynamic content (JSXExpressionContainer).
    * Falls back to className matching when content is dynamic.
    */
+  /**
+   * Matcher for the element a style edit targets: by its text or classes,
+   * or, for elements with neither such as an empty spacer, by the line its
+   * JSX starts on. Null when there is nothing to match on.
+   */
+  protected createStyleTargetMatcher(options: {
+    text: string;
+    className: string;
+    classMatch?: string;
+    line?: number;
+  }): ((node: JSXElement, children: JSXChildNode[]) => boolean) | null {
+    const { text, className, classMatch, line } = options;
+    if (this.normalizeText(text) || this.sanitizeClassTokens(className).size) {
+      return this.createTextOrClassNameMatcher(text, className, classMatch);
+    }
+    if (line === undefined) {
+      return null;
+    }
+    return (node: JSXElement) => node.loc?.start.line === line;
+  }
+
+  /** Error for a style edit whose element is not in the file */
+  protected describeMissingElement(text: string, tag: string): string {
+    return text
+      ? `Text "${text}" not found in <${tag}> elements`
+      : `No <${tag}> element found at the selected location`;
+  }
+
   protected createTextOrClassNameMatcher(
     targetText: string,
     targetClassName?: string,
@@ -913,7 +1110,8 @@ export abstract class BaseUpdateService {
 
   protected findComponentUsageByText(
     ast: ParsedAst,
-    text: string
+    text: string,
+    componentName?: string
   ): ComponentUsageMatch | null {
     const normalizedTarget = this.normalizeText(text);
 
@@ -936,6 +1134,10 @@ export abstract class BaseUpdateService {
         return;
       }
 
+      if (componentName && candidateName !== componentName) {
+        return;
+      }
+
       const attributeSet = new Set<string>();
       const attributes: Array<
         JSXAttribute | JSXSpreadAttribute | null | undefined
@@ -988,7 +1190,8 @@ export abstract class BaseUpdateService {
   }
 
   protected findComponentUsageInProject(
-    text: string
+    text: string,
+    componentName?: string
   ): ProjectComponentUsageMatch | null {
     const normalizedTarget = this.normalizeText(text);
 
@@ -996,18 +1199,33 @@ export abstract class BaseUpdateService {
       return null;
     }
 
-    const searchDirs = SEARCH_DIRECTORIES.map((dir) =>
-      path.join(this.projectRoot, dir)
-    ).filter((dir) => fs.existsSync(dir));
+    for (const entry of this.walkSourceTree(isJsxSourceFile)) {
+      const source = fs.readFileSync(entry.fullPath, "utf8");
 
-    if (searchDirs.length === 0) {
-      searchDirs.push(this.projectRoot);
-    }
+      if (!source.includes(text)) {
+        continue;
+      }
 
-    for (const dir of searchDirs) {
-      const match = this.searchDirectoryForComponentUsage(dir, text);
-      if (match) {
-        return match;
+      try {
+        const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+        const ast = j(source) as ParsedAst;
+        const usageMatch = this.findComponentUsageByText(
+          ast,
+          text,
+          componentName
+        );
+
+        if (usageMatch) {
+          return { filePath: entry.fullPath, ...usageMatch };
+        }
+      } catch (error) {
+        logger.warn({
+          message: `[SmartEdit] Failed to parse component file during usage search`,
+          context: {
+            filePath: entry.fullPath,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
       }
     }
 
@@ -1019,75 +1237,26 @@ export abstract class BaseUpdateService {
       return null;
     }
 
-    const searchDirs = SEARCH_DIRECTORIES.map((dir) =>
-      path.join(this.projectRoot, dir)
-    ).filter((dir) => fs.existsSync(dir));
-
-    if (searchDirs.length === 0) {
-      searchDirs.push(this.projectRoot);
-    }
+    const entries = this.walkSourceTree(
+      (entry) =>
+        entry.isDirectory ||
+        (COMPONENT_FILE_EXTENSIONS.some((ext) => entry.name.endsWith(ext)) &&
+          this.matchesComponentBaseName(entry.name, componentName)),
+      { skipHidden: true }
+    );
 
-    for (const dir of searchDirs) {
-      const match = this.searchDirectoryForComponentFile(dir, componentName);
-      if (match) {
-        return match;
+    for (const entry of entries) {
+      if (!entry.isDirectory) {
+        return entry.fullPath;
       }
-    }
 
-    return null;
-  }
-
-  private searchDirectoryForComponentFile(
-    dir: string,
-    componentName: string
-  ): string | null {
-    try {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-      for (const entry of entries) {
-        if (entry.name.startsWith(".")) {
-          continue;
-        }
-
-        const fullPath = path.join(dir, entry.name);
-
-        if (entry.isDirectory()) {
-          if (SKIP_DIRECTORIES.includes(entry.name)) {
-            continue;
-          }
-
-          const indexMatch = this.matchComponentIndexFile(
-            fullPath,
-            componentName
-          );
-          if (indexMatch) {
-            return indexMatch;
-          }
-
-          const nested = this.searchDirectoryForComponentFile(
-            fullPath,
-            componentName
-          );
-          if (nested) {
-            return nested;
-          }
-        } else if (entry.isFile()) {
-          if (
-            COMPONENT_FILE_EXTENSIONS.some((ext) => entry.name.endsWith(ext)) &&
-            this.matchesComponentBaseName(entry.name, componentName)
-          ) {
-            return fullPath;
-          }
-        }
+      const indexMatch = this.matchComponentIndexFile(
+        entry.fullPath,
+        componentName
+      );
+      if (indexMatch) {
+        return indexMatch;
       }
-    } catch (error) {
-      logger.warn({
-        message: `[BaseUpdate] Failed component search`,
-        context: {
-          componentName,
-          dir,
-          error: error instanceof Error ? error.message : String(error),
-        },
-      });
     }
 
     return null;
@@ -1137,70 +1306,6 @@ export abstract class BaseUpdateService {
     return baseName === componentName;
   }
 
-  private searchDirectoryForComponentUsage(
-    dir: string,
-    text: string
-  ): ProjectComponentUsageMatch | null {
-    const normalizedTarget = this.normalizeText(text);
-
-    if (!normalizedTarget) {
-      return null;
-    }
-
-    try {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-
-        if (SKIP_DIRECTORIES.includes(entry.name)) {
-          continue;
-        }
-
-        if (entry.isDirectory()) {
-          const match = this.searchDirectoryForComponentUsage(fullPath, text);
-          if (match) {
-            return match;
-          }
-        } else if (entry.isFile() && /\.(tsx|jsx)$/.test(entry.name)) {
-          const source = fs.readFileSync(fullPath, "utf8");
-
-          if (!source.includes(text)) {
-            continue;
-          }
-
-          try {
-            const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
-            const ast = j(source) as ParsedAst;
-            const usageMatch = this.findComponentUsageByText(ast, text);
-
-            if (usageMatch) {
-              return { filePath: fullPath, ...usageMatch };
-            }
-          } catch (error) {
-            logger.warn({
-              message: `[SmartEdit] Failed to parse component file during usage search`,
-              context: {
-                filePath: fullPath,
-                error: error instanceof Error ? error.message : String(error),
-              },
-            });
-          }
-        }
-      }
-    } catch (error) {
-      logger.warn({
-        message: `[SmartEdit] Error scanning directory for component usage`,
-        context: {
-          directory: dir,
-          error: error instanceof Error ? error.message : String(error),
-        },
-      });
-    }
-
-    return null;
-  }
-
   protected checkSmartEditRisk(options: {
     sourceFilePath: string;
     elementName?: string;
@@ -1454,12 +1559,12 @@ export abstract class BaseUpdateService {
 
     try {
       stats = fs.statSync(sourceFilePath);
-      const cached = this.componentResolutionCache.get(cacheKey);
+      const cached = BaseUpdateService.componentResolutionCache.get(cacheKey);
       if (cached && cached.mtimeMs === stats.mtimeMs) {
         return cached.path;
       }
     } catch (error) {
-      this.componentResolutionCache.delete(cacheKey);
+      BaseUpdateService.componentResolutionCache.delete(cacheKey);
       return null;
     }
 
@@ -1518,7 +1623,7 @@ export abstract class BaseUpdateService {
     }
 
     if (stats) {
-      this.componentResolutionCache.set(cacheKey, {
+      BaseUpdateService.componentResolutionCache.set(cacheKey, {
         mtimeMs: stats.mtimeMs,
         path: resolvedPath,
       });
@@ -1688,6 +1793,373 @@ export abstract class BaseUpdateService {
     return candidates;
   }
 
+  /**
+   * True when the element sits inside the callback of a `.map()` (or
+   * `.flatMap()`), where one JSX template renders many DOM nodes.
+   */
+  protected isRenderedFromList(path: ASTPath<JSXElement>): boolean {
+    return this.getListRenderContext(path) !== null;
+  }
+
+  /**
+   * Describe the closest `.map()` / `.flatMap()` callback around the element,
+   * including the array literal it iterates when that array is written
+   * inline or bound to a `const` in the same file.
+   */
+  protected getListRenderContext(
+    path: ASTPath<JSXElement>
+  ): ListRenderContext | null {
+    let current = path.parent as ASTPath<namedTypes.Node> | null;
+
+    while (current && current.value) {
+      const node = current.value;
+      if (
+        node.type === "ArrowFunctionExpression" ||
+        node.type === "FunctionExpression"
+      ) {
+        const callPath = current.parent as ASTPath<namedTypes.Node> | null;
+        const call = callPath?.value as namedTypes.Node | undefined;
+        if (callPath && call?.type === "CallExpression") {
+          const callee = (call as namedTypes.CallExpression).callee;
+          if (
+            callee.type === "MemberExpression" &&
+            callee.property.type === "Identifier" &&
+            LIST_METHODS.has(callee.property.name)
+          ) {
+            const source = callee.object as namedTypes.Node;
+            return {
+              callback: node as ListRenderContext["callback"],
+              sourceName:
+                source.type === "Identifier"
+                  ? (source as namedTypes.Identifier).name
+                  : undefined,
+              sourceArray: this.resolveListSourceArray(callPath, source),
+            };
+          }
+        }
+      }
+      current = current.parent as ASTPath<namedTypes.Node> | null;
+    }
+
+    return null;
+  }
+
+  /**
+   * When the element renders `{item.prop}` from a `.map()` callback, find the
+   * entry of the source array whose `prop` holds the given text. Only string
+   * literals are considered, so computed or fetched data never matches.
+   */
+  protected findListDataEntry(
+    path: ASTPath<JSXElement>,
+    text: string
+  ): ListDataEntry | null {
+    const normalizedTarget = this.normalizeText(text);
+    if (!normalizedTarget) {
+      return null;
+    }
+
+    const context = this.getListRenderContext(path);
+    if (!context?.sourceArray) {
+      return null;
+    }
+
+    for (const child of (path.node.children ?? []) as JSXChildNode[]) {
+      if (child?.type !== "JSXExpressionContainer") {
+        continue;
+      }
+
+      const container = child as JSXExpressionContainer;
+      const propertyPath = this.resolveParamPropertyPath(
+        container.expression as namedTypes.Node,
+        context.callback.params[0] as namedTypes.Node | undefined
+      );
+      if (!propertyPath) {
+        continue;
+      }
+
+      const { elements } = context.sourceArray;
+      for (let index = 0; index < elements.length; index++) {
+        const valueNode = this.readItemProperty(
+          elements[index] as namedTypes.Node | null,
+          propertyPath
+        );
+        if (
+          valueNode &&
+          this.normalizeText(this.extractStringValue(valueNode)) ===
+            normalizedTarget
+        ) {
+          return {
+            context,
+            index,
+            propertyPath,
+            valueNode,
+            expressionContainer: container,
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * When the element renders one of its component's props (`{title}`,
+   * `{props.title}` or `{children}`), name the component and the prop so the
+   * text can be edited where the component is used.
+   */
+  protected findRenderedPropSource(
+    path: ASTPath<JSXElement>
+  ): RenderedPropSource | null {
+    const component = this.findEnclosingComponent(path);
+    if (!component) {
+      return null;
+    }
+
+    for (const child of (path.node.children ?? []) as JSXChildNode[]) {
+      if (child?.type !== "JSXExpressionContainer") {
+        continue;
+      }
+
+      const propertyPath = this.resolveParamPropertyPath(
+        (child as JSXExpressionContainer).expression as namedTypes.Node,
+        component.params[0]
+      );
+      if (propertyPath?.length === 1) {
+        return { componentName: component.name, propName: propertyPath[0] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Closest function around the element that is named like a component,
+   * including ones wrapped in `memo()` or `forwardRef()`.
+   */
+  private findEnclosingComponent(
+    path: ASTPath<JSXElement>
+  ): { name: string; params: namedTypes.Node[] } | null {
+    let current = path.parent as ASTPath<namedTypes.Node> | null;
+
+    while (current && current.value) {
+      const node = current.value;
+      let name: string | undefined;
+
+      if (node.type === "FunctionDeclaration") {
+        const id = (node as namedTypes.FunctionDeclaration)
+          .id as namedTypes.Identifier | null;
+        name = id?.name;
+      } else if (
+        node.type === "ArrowFunctionExpression" ||
+        node.type === "FunctionExpression"
+      ) {
+        let owner = current.parent as ASTPath<namedTypes.Node> | null;
+        if (owner?.value?.type === "CallExpression") {
+          owner = owner.parent as ASTPath<namedTypes.Node> | null;
+        }
+        const declarator = owner?.value as
+          | namedTypes.VariableDeclarator
+          | undefined;
+        if (
+          declarator?.type === "VariableDeclarator" &&
+          declarator.id.type === "Identifier"
+        ) {
+          name = declarator.id.name;
+        }
+      }
+
+      if (name && /^[A-Z]/.test(name)) {
+        return {
+          name,
+          params: (node as namedTypes.Function).params as namedTypes.Node[],
+        };
+      }
+
+      current = current.parent as ASTPath<namedTypes.Node> | null;
+    }
+
+    return null;
+  }
+
+  private resolveListSourceArray(
+    callPath: ASTPath<namedTypes.Node>,
+    source: namedTypes.Node
+  ): namedTypes.ArrayExpression | null {
+    const expression = this.unwrapTypeAssertions(source);
+    if (expression.type === "ArrayExpression") {
+      return expression as namedTypes.ArrayExpression;
+    }
+    if (expression.type !== "Identifier") {
+      return null;
+    }
+
+    const name = (expression as namedTypes.Identifier).name;
+    const bindings = callPath.scope?.lookup(name)?.getBindings()[name] as
+      | ASTPath<namedTypes.Node>[]
+      | undefined;
+    const declaratorPath = bindings?.[0]?.parent as
+      | ASTPath<namedTypes.Node>
+      | undefined;
+    const declarator = declaratorPath?.value;
+    if (declarator?.type !== "VariableDeclarator") {
+      return null;
+    }
+
+    // A `let` could be reassigned before render, so only trust constants
+    const declaration = declaratorPath?.parent?.value as
+      | namedTypes.VariableDeclaration
+      | undefined;
+    const init = (declarator as namedTypes.VariableDeclarator).init;
+    if (declaration?.kind !== "const" || !init) {
+      return null;
+    }
+
+    const array = this.unwrapTypeAssertions(init);
+    return array.type === "ArrayExpression"
+      ? (array as namedTypes.ArrayExpression)
+      : null;
+  }
+
+  /**
+   * Map a rendered expression back to a property path on a function
+   * parameter, e.g. `item.meta.title` or a destructured `title`.
+   */
+  private resolveParamPropertyPath(
+    expression: namedTypes.Node,
+    param: namedTypes.Node | undefined
+  ): string[] | null {
+    if (!param) {
+      return null;
+    }
+
+    const chain: string[] = [];
+    let current = expression;
+    while (
+      current.type === "MemberExpression" ||
+      current.type === "OptionalMemberExpression"
+    ) {
+      const member = current as namedTypes.MemberExpression;
+      if (member.computed || member.property.type !== "Identifier") {
+        return null;
+      }
+      chain.unshift((member.property as namedTypes.Identifier).name);
+      current = member.object as namedTypes.Node;
+    }
+
+    if (current.type !== "Identifier") {
+      return null;
+    }
+    const rootName = (current as namedTypes.Identifier).name;
+
+    if (param.type === "Identifier") {
+      return (param as namedTypes.Identifier).name === rootName &&
+        chain.length > 0
+        ? chain
+        : null;
+    }
+
+    if (param.type === "ObjectPattern") {
+      for (const property of (param as namedTypes.ObjectPattern).properties) {
+        if (
+          (property.type !== "ObjectProperty" && property.type !== "Property") ||
+          property.computed ||
+          property.key.type !== "Identifier"
+        ) {
+          continue;
+        }
+        const binding =
+          property.value.type === "AssignmentPattern"
+            ? property.value.left
+            : property.value;
+        if (binding.type === "Identifier" && binding.name === rootName) {
+          return [property.key.name, ...chain];
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private readItemProperty(
+    item: namedTypes.Node | null,
+    propertyPath: string[]
+  ): ListDataEntry["valueNode"] | null {
+    let current = item ? this.unwrapTypeAssertions(item) : null;
+
+    for (const key of propertyPath) {
+      if (current?.type !== "ObjectExpression") {
+        return null;
+      }
+      const property = (
+        current as namedTypes.ObjectExpression
+      ).properties.find(
+        (candidate) =>
+          (candidate.type === "ObjectProperty" ||
+            candidate.type === "Property") &&
+          !candidate.computed &&
+          ((candidate.key.type === "Identifier" &&
+            candidate.key.name === key) ||
+            this.extractStringValue(candidate.key) === key)
+      ) as namedTypes.ObjectProperty | undefined;
+      if (!property) {
+        return null;
+      }
+      current = this.unwrapTypeAssertions(property.value);
+    }
+
+    if (
+      current &&
+      (current.type === "StringLiteral" ||
+        current.type === "Literal" ||
+        current.type === "TemplateLiteral") &&
+      this.extractStringValue(current) !== null
+    ) {
+      return current as ListDataEntry["valueNode"];
+    }
+
+    return null;
+  }
+
+  /** Strip `as const`, `satisfies`, `!` and parentheses around an expression */
+  private unwrapTypeAssertions(node: namedTypes.Node): namedTypes.Node {
+    let current = node as namedTypes.Node & { expression?: namedTypes.Node };
+    while (
+      (current.type === "TSAsExpression" ||
+        current.type === "TSSatisfiesExpression" ||
+        current.type === "TSNonNullExpression" ||
+        current.type === "ParenthesizedExpression") &&
+      current.expression
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  /**
+   * Elements whose `.map()` source array holds the text. Text read from item
+   * data never appears in the JSX, so text matchers cannot see these.
+   */
+  private collectListDataCandidates(
+    ast: ParsedAst,
+    possibleNames: string[],
+    text: string
+  ): ElementMatchCandidate[] {
+    const candidates: ElementMatchCandidate[] = [];
+
+    ast.findJSXElements().forEach((path: ASTPath<JSXElement>) => {
+      const nodeName = resolveJSXElementName(path.node.openingElement?.name);
+      if (
+        nodeName &&
+        possibleNames.includes(nodeName) &&
+        this.findListDataEntry(path, text)
+      ) {
+        candidates.push(createCandidate(path.node, path));
+      }
+    });
+
+    return candidates;
+  }
+
   protected removeNodeFromAst(target: ElementMatchContext): boolean {
     const matchedPath = target.matchedPath;
     if (typeof matchedPath?.prune === "function") {
@@ -1764,22 +2236,50 @@ export abstract class BaseUpdateService {
     }
   }
 
+  /**
+   * Read a file for editing, picking up earlier edits from the same dry run
+   * so multi-step previews match what a real run would write.
+   */
+  protected readSourceFile(filePath: string): string {
+    return (
+      actionHistory.getPendingContent(filePath) ??
+      fs.readFileSync(filePath, "utf8")
+    );
+  }
+
   protected async writeFormattedSource(
     filePath: string,
     ast: { toSource(): string },
     originalSource: string
   ): Promise<boolean> {
-    const newSource = ast.toSource();
-    const formattedContent = await prettier.format(newSource, {
-      parser: "typescript",
-    });
+    const formattedContent = await formatSource(
+      filePath,
+      ast.toSource(),
+      this.projectRoot,
+      originalSource
+    );
+
+    return this.writeSource(filePath, formattedContent, originalSource);
+  }
 
-    if (formattedContent === originalSource) {
+  /**
+   * Write content as-is through action history, for files such as JSON
+   * messages that are not formatted as TypeScript
+   */
+  protected async writeSource(
+    filePath: string,
+    content: string,
+    originalSource: string
+  ): Promise<boolean> {
+    if (content === originalSource) {
       return false;
     }
 
-    await fs.promises.writeFile(filePath, formattedContent, "utf8");
-    actionHistory.recordFileChange(filePath, originalSource, formattedContent, {
+    // Dry runs still record the change so the route can return a diff
+    if (!actionHistory.isDryRun()) {
+      await fs.promises.writeFile(filePath, content, "utf8");
+    }
+    actionHistory.recordFileChange(filePath, originalSource, content, {
       existedBefore: originalSource !== null,
       existedAfter: true,
     });
@@ -0,0 +1,33 @@
+import { rewriteClassTokens, type ClassTokenEdit } from "./classNameEditor";
+
+const padding = (tokens: string[]): ClassTokenEdit => ({
+  matches: (token) => /^p[xy]?-/.test(token),
+  tokens,
+});
+
+const weight = (tokens: string[]): ClassTokenEdit => ({
+  matches: (token) => token.startsWith("font-"),
+  tokens,
+});
+
+describe("rewriteClassTokens", () => {
+  it("replaces a group in the position of its first token", () => {
+    expect(
+      rewriteClassTokens("flex px-2 py-4 text-sm", [padding(["p-6"])])
+    ).toBe("flex p-6 text-sm");
+  });
+
+  it("appends groups the value did not have", () => {
+    expect(
+      rewriteClassTokens("flex p-2", [padding(["p-4"]), weight(["font-bold"])])
+    ).toBe("flex p-4 font-bold");
+  });
+
+  it("removes a group replaced with no tokens", () => {
+    expect(rewriteClassTokens("p-2 font-bold", [weight([])])).toBe("p-2");
+  });
+
+  it("collapses stray whitespace between tokens", () => {
+    expect(rewriteClassTokens("  flex\n   p-2 ", [])).toBe("flex p-2");
+  });
+});
@@ -0,0 +1,367 @@
+import jscodeshift, {
+  type JSXAttribute,
+  type JSXExpressionContainer,
+  type JSXSpreadAttribute,
+} from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import { findAttribute } from "./jsxAttributes";
+
+type TemplateExpression = Parameters<typeof jscodeshift.templateLiteral>[1][number];
+type JSXAttributeList = Array<JSXAttribute | JSXSpreadAttribute>;
+
+export type AttributeEditOutcome = "updated" | "unchanged" | "unsupported";
+
+export interface ClassTokenEdit {
+  /** Whether an existing class token belongs to the group being replaced */
+  matches: (token: string) => boolean;
+  /** Tokens that take the group's place; an empty list removes the group */
+  tokens: string[];
+}
+
+export interface InlineStyleEdit {
+  /** CSS properties (camelCase) to drop from the style object */
+  remove: string[];
+  /** CSS properties (camelCase) to set on the style object */
+  set: Record<string, string>;
+}
+
+/**
+ * Replace every token matched by an edit with that edit's tokens.
+ * Replacements keep the position of the first matched token; groups that were
+ * not present are appended.
+ */
+export function rewriteClassTokens(
+  value: string,
+  edits: ClassTokenEdit[]
+): string {
+  const placed = new Set<ClassTokenEdit>();
+  const nextTokens: string[] = [];
+
+  for (const token of value.split(/\s+/).filter(Boolean)) {
+    const edit = edits.find((candidate) => candidate.matches(token));
+    if (!edit) {
+      nextTokens.push(token);
+      continue;
+    }
+
+    if (!placed.has(edit)) {
+      nextTokens.push(...edit.tokens);
+      placed.add(edit);
+    }
+  }
+
+  for (const edit of edits) {
+    if (!placed.has(edit)) {
+      nextTokens.push(...edit.tokens);
+    }
+  }
+
+  return nextTokens.join(" ");
+}
+
+function rewriteTemplateLiteral(
+  template: namedTypes.TemplateLiteral,
+  edits: ClassTokenEdit[]
+): boolean {
+  const quasis = template.quasis ?? [];
+  const placed = new Set<ClassTokenEdit>();
+  let changed = false;
+
+  quasis.forEach((quasi, quasiIndex) => {
+    const cooked = quasi?.value?.cooked ?? "";
+    if (!cooked) {
+      return;
+    }
+
+    const parts = cooked.split(/(\s+)/);
+    const lastPartIndex = parts.length - 1;
+
+    const nextParts = parts.map((part, partIndex) => {
+      // Tokens glued to an interpolation (e.g. `p-${size}`) are left alone
+      const touchesExpression =
+        (partIndex === 0 && quasiIndex > 0) ||
+        (partIndex === lastPartIndex && !quasi.tail);
+      if (!part || /^\s+$/.test(part) || touchesExpression) {
+        return part;
+      }
+
+      const edit = edits.find((candidate) => candidate.matches(part));
+      if (!edit) {
+        return part;
+      }
+
+      if (placed.has(edit)) {
+        return "";
+      }
+      placed.add(edit);
+      return edit.tokens.join(" ");
+    });
+
+    let nextValue = nextParts.join("").replace(/\s{2,}/g, " ");
+    if (quasiIndex === 0) {
+      nextValue = nextValue.replace(/^\s+/, "");
+    }
+    if (quasi.tail) {
+      nextValue = nextValue.replace(/\s+$/, "");
+    }
+
+    if (nextValue !== cooked) {
+      quasi.value.cooked = nextValue;
+      quasi.value.raw = nextValue;
+      changed = true;
+    }
+  });
+
+  const pendingTokens = edits
+    .filter((edit) => !placed.has(edit))
+    .flatMap((edit) => edit.tokens);
+
+  if (pendingTokens.length === 0) {
+    return changed;
+  }
+
+  const lastQuasi = quasis[quasis.length - 1];
+  if (!lastQuasi) {
+    template.quasis = [
+      jscodeshift.templateElement(
+        { cooked: pendingTokens.join(" "), raw: pendingTokens.join(" ") },
+        true
+      ),
+    ];
+    return true;
+  }
+
+  const raw = lastQuasi.value?.raw ?? "";
+  const needsSpace = raw.length > 0 ? /\S$/.test(raw) : quasis.length > 1;
+  const appended = `${raw}${needsSpace ? " " : ""}${pendingTokens.join(" ")}`;
+  lastQuasi.value.raw = appended;
+  lastQuasi.value.cooked = appended;
+  return true;
+}
+
+function rewriteLiteral(
+  literal: namedTypes.StringLiteral | namedTypes.Literal,
+  edits: ClassTokenEdit[]
+): AttributeEditOutcome {
+  const current = typeof literal.value === "string" ? literal.value : "";
+  const nextValue = rewriteClassTokens(current, edits);
+  if (nextValue === current.trim().split(/\s+/).filter(Boolean).join(" ")) {
+    return "unchanged";
+  }
+  literal.value = nextValue;
+  return "updated";
+}
+
+/**
+ * Apply class token edits to an element's className attribute, whatever shape
+ * it has: missing, plain string, template literal or arbitrary expression.
+ */
+export function applyClassTokenEdits(
+  attributes: JSXAttributeList,
+  edits: ClassTokenEdit[]
+): AttributeEditOutcome {
+  const classAttr = findAttribute(attributes, "className");
+  const initialValue = rewriteClassTokens("", edits);
+
+  if (!classAttr || !classAttr.value) {
+    if (!initialValue) {
+      return "unchanged";
+    }
+
+    if (classAttr) {
+      classAttr.value = jscodeshift.stringLiteral(initialValue);
+    } else {
+      attributes.push(
+        jscodeshift.jsxAttribute(
+          jscodeshift.jsxIdentifier("className"),
+          jscodeshift.stringLiteral(initialValue)
+        )
+      );
+    }
+    return "updated";
+  }
+
+  if (
+    classAttr.value.type === "StringLiteral" ||
+    classAttr.value.type === "Literal"
+  ) {
+    return rewriteLiteral(
+      classAttr.value as namedTypes.StringLiteral | namedTypes.Literal,
+      edits
+    );
+  }
+
+  if (classAttr.value.type !== "JSXExpressionContainer") {
+    return "unsupported";
+  }
+
+  const expression = (classAttr.value as JSXExpressionContainer)
+    .expression as namedTypes.Expression | null;
+
+  if (expression?.type === "StringLiteral" || expression?.type === "Literal") {
+    return rewriteLiteral(
+      expression as namedTypes.StringLiteral | namedTypes.Literal,
+      edits
+    );
+  }
+
+  if (expression?.type === "TemplateLiteral") {
+    return rewriteTemplateLiteral(
+      expression as namedTypes.TemplateLiteral,
+      edits
+    )
+      ? "updated"
+      : "unchanged";
+  }
+
+  if (!expression || expression.type === "JSXEmptyExpression") {
+    return "unsupported";
+  }
+
+  if (!initialValue) {
+    // Removing tokens from an opaque expression is not possible statically
+    return "unsupported";
+  }
+
+  classAttr.value = jscodeshift.jsxExpressionContainer(
+    jscodeshift.templateLiteral(
+      [
+        jscodeshift.templateElement({ cooked: "", raw: "" }, false),
+        jscodeshift.templateElement(
+          { cooked: ` ${initialValue}`, raw: ` ${initialValue}` },
+          true
+        ),
+      ],
+      [expression as TemplateExpression] as Parameters<
+        typeof jscodeshift.templateLiteral
+      >[1]
+    )
+  );
+  return "updated";
+}
+
+function getPropertyKey(property: namedTypes.Node): string | null {
+  if (property.type !== "ObjectProperty" && property.type !== "Property") {
+    return null;
+  }
+
+  const { key, computed } = property as namedTypes.ObjectProperty;
+  if (computed) {
+    return null;
+  }
+  if (key.type === "Identifier") {
+    return (key as namedTypes.Identifier).name;
+  }
+  if (key.type === "StringLiteral" || key.type === "Literal") {
+    const value = (key as namedTypes.Literal).value;
+    return typeof value === "string" ? value : null;
+  }
+  return null;
+}
+
+function readStringValue(node: namedTypes.Node): string | null {
+  if (node.type === "StringLiteral" || node.type === "Literal") {
+    const value = (node as namedTypes.Literal).value;
+    return typeof value === "string" ? value : null;
+  }
+  return null;
+}
+
+function buildStyleProperty(name: string, value: string) {
+  return jscodeshift.objectProperty(
+    jscodeshift.identifier(name),
+    jscodeshift.stringLiteral(value)
+  );
+}
+
+/**
+ * Apply CSS property edits to an element's inline `style={{ ... }}` object.
+ * Non-object styles are spread into a new object so existing values survive.
+ */
+export function applyInlineStyleEdit(
+  attributes: JSXAttributeList,
+  edit: InlineStyleEdit
+): AttributeEditOutcome {
+  const styleAttr = findAttribute(attributes, "style");
+  const entries = Object.entries(edit.set);
+
+  if (!styleAttr || !styleAttr.value) {
+    if (entries.length === 0) {
+      return "unchanged";
+    }
+
+    const container = jscodeshift.jsxExpressionContainer(
+      jscodeshift.objectExpression(
+        entries.map(([name, value]) => buildStyleProperty(name, value))
+      )
+    );
+    if (styleAttr) {
+      styleAttr.value = container;
+    } else {
+      attributes.push(
+        jscodeshift.jsxAttribute(jscodeshift.jsxIdentifier("style"), container)
+      );
+    }
+    return "updated";
+  }
+
+  if (styleAttr.value.type !== "JSXExpressionContainer") {
+    return "unsupported";
+  }
+
+  const container = styleAttr.value as JSXExpressionContainer;
+  const expression = container.expression as namedTypes.Node;
+
+  if (expression.type === "ObjectExpression") {
+    const objectExpression = expression as namedTypes.ObjectExpression;
+    const removals = new Set(edit.remove);
+    const placed = new Set<string>();
+    let changed = false;
+
+    const nextProperties = objectExpression.properties.filter((property) => {
+      const key = getPropertyKey(property as namedTypes.Node);
+      if (!key) {
+        return true;
+      }
+
+      if (key in edit.set && !placed.has(key)) {
+        placed.add(key);
+        const objectProperty = property as namedTypes.ObjectProperty;
+        if (readStringValue(objectProperty.value) !== edit.set[key]) {
+          objectProperty.value = jscodeshift.stringLiteral(edit.set[key]);
+          changed = true;
+        }
+        return true;
+      }
+
+      if (removals.has(key) || key in edit.set) {
+        changed = true;
+        return false;
+      }
+
+      return true;
+    });
+
+    for (const [name, value] of entries) {
+      if (!placed.has(name)) {
+        nextProperties.push(buildStyleProperty(name, value));
+        changed = true;
+      }
+    }
+
+    objectExpression.properties = nextProperties;
+    return changed ? "updated" : "unchanged";
+  }
+
+  if (expression.type === "JSXEmptyExpression" || entries.length === 0) {
+    return "unsupported";
+  }
+
+  container.expression = jscodeshift.objectExpression([
+    jscodeshift.spreadElement(
+      expression as Parameters<typeof jscodeshift.spreadElement>[0]
+    ),
+    ...entries.map(([name, value]) => buildStyleProperty(name, value)),
+  ]);
+  return "updated";
+}
@@ -3,6 +3,7 @@ import { promisify } from "util";
 import fs from "fs";
 import path from "path";
 import { logger } from "../../utils/logger";
+import { actionHistory } from "../history";
 
 const execAsync = promisify(exec);
 
@@ -41,9 +42,11 @@ export async function ensurePackagesInstalled(
 
   try {
     const installFlag = options.dev ? "--save-dev" : "--save";
-    await execAsync(`npm install ${missing.join(" ")} ${installFlag}`, {
-      cwd: projectRoot,
-    });
+    await actionHistory.runOwnWrites(() =>
+      execAsync(`npm install ${missing.join(" ")} ${installFlag}`, {
+        cwd: projectRoot,
+      })
+    );
 
     const successMessage = `✅ ${label
       .charAt(0)
@@ -0,0 +1,23 @@
+import { createTwoFilesPatch } from "diff";
+
+/**
+ * Build a git-style unified diff between two versions of a file.
+ * Missing content (file created or deleted) is diffed against an empty string.
+ */
+export function createUnifiedDiff(
+  relativePath: string,
+  beforeContent: string | null,
+  afterContent: string | null
+): string {
+  const normalizedPath = relativePath.replace(/\\/g, "/");
+
+  return createTwoFilesPatch(
+    beforeContent === null ? "/dev/null" : `a/${normalizedPath}`,
+    afterContent === null ? "/dev/null" : `b/${normalizedPath}`,
+    beforeContent ?? "",
+    afterContent ?? "",
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+}
@@ -0,0 +1,305 @@
+import path from "path";
+import { parse, type ParserPlugin } from "@babel/parser";
+import type * as TypeScript from "typescript";
+import type { CurrentFileChange } from "../history";
+import { loadProjectSettings } from "../../utils/projectSettings";
+import { logger } from "../../utils/logger";
+import type { VerificationDiagnostic, VerificationFailure } from "./types";
+
+const SCRIPT_EXTENSIONS = new Set([
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+]);
+const TYPED_EXTENSIONS = new Set([".ts", ".tsx", ".mts", ".cts"]);
+// TypeScript lists up to this many diagnostics per failed edit
+const MAX_DIAGNOSTICS = 10;
+
+/**
+ * Check the files an edit wrote, according to the project's verification
+ * settings. Returns null when every check passes. Problems the files already
+ * had before the edit are not reported, so an edit is only rolled back for
+ * errors it introduced.
+ */
+export function verifyChangedFiles(
+  changes: CurrentFileChange[],
+  projectRoot: string
+): VerificationFailure | null {
+  const { verification } = loadProjectSettings(projectRoot);
+  const written = changes.filter((change) => change.afterContent !== null);
+
+  if (verification.parse) {
+    const diagnostics = written.flatMap((change) => {
+      const after = parseDiagnostic(change.filePath, change.afterContent!);
+      if (!after) {
+        return [];
+      }
+      // A file that was already broken is not the edit's fault
+      if (
+        change.beforeContent !== null &&
+        parseDiagnostic(change.filePath, change.beforeContent)
+      ) {
+        return [];
+      }
+      return [{ ...after, file: change.file }];
+    });
+
+    if (diagnostics.length > 0) {
+      return { stage: "parse", diagnostics };
+    }
+  }
+
+  if (verification.typecheck) {
+    const typed = written.filter((change) =>
+      TYPED_EXTENSIONS.has(path.extname(change.filePath))
+    );
+    const diagnostics =
+      typed.length > 0 ? typecheckChangedFiles(typed, projectRoot) : [];
+
+    if (diagnostics.length > 0) {
+      return { stage: "typecheck", diagnostics };
+    }
+  }
+
+  return null;
+}
+
+function parseDiagnostic(
+  filePath: string,
+  source: string
+): VerificationDiagnostic | null {
+  const extension = path.extname(filePath);
+
+  if (extension === ".json") {
+    try {
+      JSON.parse(source);
+      return null;
+    } catch (error) {
+      return {
+        file: filePath,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  if (!SCRIPT_EXTENSIONS.has(extension)) {
+    return null;
+  }
+
+  // `<T>value` casts in .ts files are not valid JSX
+  const plugins: ParserPlugin[] = TYPED_EXTENSIONS.has(extension)
+    ? extension === ".tsx"
+      ? ["typescript", "jsx"]
+      : ["typescript"]
+    : ["jsx"];
+
+  try {
+    parse(source, {
+      sourceType: "unambiguous",
+      plugins: [...plugins, "decorators-legacy"],
+    });
+    return null;
+  } catch (error) {
+    const loc = (error as { loc?: { line: number; column: number } }).loc;
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      file: filePath,
+      line: loc?.line,
+      column: loc ? loc.column + 1 : undefined,
+      // Babel appends "(line:column)" to its messages
+      message: message.replace(/\s*\(\d+:\d+\)$/, ""),
+      code: (error as { reasonCode?: string }).reasonCode,
+    };
+  }
+}
+
+/**
+ * Type check the changed files with the project's own TypeScript and
+ * tsconfig, then again against their previous content, and keep only the
+ * diagnostics that are new. Skipped when the project has no TypeScript.
+ */
+function typecheckChangedFiles(
+  changes: CurrentFileChange[],
+  projectRoot: string
+): VerificationDiagnostic[] {
+  const ts = loadProjectTypeScript(projectRoot);
+  if (!ts) {
+    return [];
+  }
+
+  const configPath = ts.findConfigFile(
+    projectRoot,
+    ts.sys.fileExists,
+    "tsconfig.json"
+  );
+  let options: TypeScript.CompilerOptions = { jsx: ts.JsxEmit.Preserve };
+  if (configPath) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    options = ts.parseJsonConfigFileContent(
+      config ?? {},
+      ts.sys,
+      path.dirname(configPath)
+    ).options;
+  }
+  options = { ...options, noEmit: true, incremental: false };
+
+  // Both programs share parsed source files, so lib and dependency typings
+  // are only parsed once
+  const sourceFiles = new Map<string, TypeScript.SourceFile | undefined>();
+  const rootNames = changes.map((change) => change.filePath);
+  const afterProgram = ts.createProgram({
+    rootNames,
+    options,
+    host: createCachingHost(ts, options, sourceFiles, new Map()),
+  });
+  const after = collectDiagnostics(ts, afterProgram, rootNames);
+  if (after.length === 0) {
+    return [];
+  }
+
+  const previousContent = new Map(
+    changes.map((change) => [
+      path.resolve(change.filePath),
+      change.beforeContent,
+    ])
+  );
+  const existingRoots = changes
+    .filter((change) => change.beforeContent !== null)
+    .map((change) => change.filePath);
+  const beforeProgram = ts.createProgram({
+    rootNames: existingRoots,
+    options,
+    host: createCachingHost(ts, options, sourceFiles, previousContent),
+  });
+  const before = collectDiagnostics(ts, beforeProgram, existingRoots);
+
+  // Lines move when an edit adds or removes code, so compare by message
+  const remaining = new Map<string, number>();
+  for (const diagnostic of before) {
+    const key = diagnosticKey(diagnostic);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  const introduced = after.filter((diagnostic) => {
+    const key = diagnosticKey(diagnostic);
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return false;
+    }
+    return true;
+  });
+
+  const byPath = new Map(
+    changes.map((change) => [path.resolve(change.filePath), change.file])
+  );
+  return introduced.slice(0, MAX_DIAGNOSTICS).map((diagnostic) => ({
+    ...diagnostic,
+    file: byPath.get(path.resolve(diagnostic.file)) ?? diagnostic.file,
+  }));
+}
+
+/**
+ * Compiler host that serves `overrides` in place of the disk content (null
+ * meaning the file does not exist) and shares every other parsed file
+ * through `cache`.
+ */
+function createCachingHost(
+  ts: typeof TypeScript,
+  options: TypeScript.CompilerOptions,
+  cache: Map<string, TypeScript.SourceFile | undefined>,
+  overrides: Map<string, string | null>
+): TypeScript.CompilerHost {
+  const host = ts.createCompilerHost(options);
+  const readFile = host.readFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  const getSourceFile = host.getSourceFile.bind(host);
+
+  host.readFile = (fileName) => {
+    const resolved = path.resolve(fileName);
+    return overrides.has(resolved)
+      ? (overrides.get(resolved) ?? undefined)
+      : readFile(fileName);
+  };
+  host.fileExists = (fileName) => {
+    const resolved = path.resolve(fileName);
+    return overrides.has(resolved)
+      ? overrides.get(resolved) !== null
+      : fileExists(fileName);
+  };
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const resolved = path.resolve(fileName);
+    if (overrides.has(resolved)) {
+      const content = overrides.get(resolved);
+      return typeof content === "string"
+        ? ts.createSourceFile(fileName, content, languageVersion)
+        : undefined;
+    }
+    if (!cache.has(resolved)) {
+      cache.set(resolved, getSourceFile(fileName, languageVersion, ...rest));
+    }
+    return cache.get(resolved);
+  };
+
+  return host;
+}
+
+function collectDiagnostics(
+  ts: typeof TypeScript,
+  program: TypeScript.Program,
+  fileNames: string[]
+): VerificationDiagnostic[] {
+  return fileNames.flatMap((fileName) => {
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) {
+      return [];
+    }
+
+    return [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile),
+    ]
+      .filter(
+        (diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error
+      )
+      .map((diagnostic) => {
+        const position =
+          diagnostic.start !== undefined
+            ? sourceFile.getLineAndCharacterOfPosition(diagnostic.start)
+            : undefined;
+        return {
+          file: fileName,
+          line: position ? position.line + 1 : undefined,
+          column: position ? position.character + 1 : undefined,
+          message: ts.flattenDiagnosticMessageText(
+            diagnostic.messageText,
+            "\n"
+          ),
+          code: `TS${diagnostic.code}`,
+        };
+      });
+  });
+}
+
+function diagnosticKey(diagnostic: VerificationDiagnostic): string {
+  return `${path.resolve(diagnostic.file)}:${diagnostic.code}:${diagnostic.message}`;
+}
+
+function loadProjectTypeScript(projectRoot: string): typeof TypeScript | null {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    return require(require.resolve("typescript", { paths: [projectRoot] }));
+  } catch {
+    logger.warn({
+      message:
+        "[EditVerifier] Type checking is enabled but the project has no TypeScript installed, skipping",
+      context: { projectRoot },
+    });
+    return null;
+  }
+}
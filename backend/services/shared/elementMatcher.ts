@@ -144,6 +144,86 @@ function extractStringAttributes(node: any): { name: string; value: string }[] {
   return results;
 }
 
+export type LiteralAttributeKind = "string" | "number" | "boolean";
+
+export interface LiteralAttribute {
+  name: string;
+  kind: LiteralAttributeKind;
+  value: string | number | boolean;
+}
+
+function extractLiteralValue(
+  node: any
+): { kind: LiteralAttributeKind; value: string | number | boolean } | null {
+  // Boolean shorthand: <button disabled>
+  if (node === null || node === undefined) {
+    return { kind: "boolean", value: true };
+  }
+
+  const stringValue = extractAttributeValue(node);
+  if (typeof stringValue === "string") {
+    return { kind: "string", value: stringValue };
+  }
+
+  if (node.type !== "JSXExpressionContainer") {
+    return null;
+  }
+
+  const expression = node.expression;
+  if (expression?.type === "BooleanLiteral") {
+    return { kind: "boolean", value: expression.value };
+  }
+  if (expression?.type === "NumericLiteral") {
+    return { kind: "number", value: expression.value };
+  }
+  if (
+    expression?.type === "UnaryExpression" &&
+    expression.operator === "-" &&
+    expression.argument?.type === "NumericLiteral"
+  ) {
+    return { kind: "number", value: -expression.argument.value };
+  }
+
+  return null;
+}
+
+/**
+ * Split a JSX element's props into string, number and boolean literals and
+ * the names of props whose values are computed at runtime
+ */
+export function extractLiteralAttributes(node: any): {
+  literal: LiteralAttribute[];
+  dynamic: string[];
+} {
+  const literal: LiteralAttribute[] = [];
+  const dynamic: string[] = [];
+
+  const attributes: any[] = node?.openingElement?.attributes || [];
+
+  for (const attr of attributes) {
+    if (attr?.type !== "JSXAttribute" || !attr.name) {
+      continue;
+    }
+
+    const name =
+      attr.name.type === "JSXNamespacedName"
+        ? `${attr.name.namespace.name}:${attr.name.name.name}`
+        : attr.name.name;
+    if (!name) {
+      continue;
+    }
+
+    const literalValue = extractLiteralValue(attr.value);
+    if (literalValue) {
+      literal.push({ name, ...literalValue });
+    } else {
+      dynamic.push(name);
+    }
+  }
+
+  return { literal, dynamic };
+}
+
 /**
  * Extract text content from JSX element children
  */
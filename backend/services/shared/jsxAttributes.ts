@@ -0,0 +1,56 @@
+import jscodeshift, {
+  type JSXAttribute,
+  type JSXSpreadAttribute,
+} from "jscodeshift";
+
+export type JSXAttributeList = Array<
+  JSXAttribute | JSXSpreadAttribute | null | undefined
+>;
+
+/**
+ * Find a plain (non-spread) attribute by name on an opening element
+ */
+export function findAttribute(
+  attributes: JSXAttributeList | undefined,
+  name: string
+): JSXAttribute | null {
+  return (
+    (attributes ?? []).find(
+      (attr): attr is JSXAttribute =>
+        attr?.type === "JSXAttribute" && attr.name?.name === name
+    ) ?? null
+  );
+}
+
+/**
+ * Set an attribute's value, adding the attribute when it is missing
+ */
+export function setAttribute(
+  attributes: JSXAttributeList,
+  name: string,
+  value: JSXAttribute["value"]
+): void {
+  const existing = findAttribute(attributes, name);
+  if (existing) {
+    existing.value = value;
+    return;
+  }
+  attributes.push(
+    jscodeshift.jsxAttribute(jscodeshift.jsxIdentifier(name), value)
+  );
+}
+
+/**
+ * Remove an attribute by name; missing attributes are ignored
+ */
+export function removeAttribute(
+  attributes: JSXAttributeList,
+  name: string
+): void {
+  const index = attributes.findIndex(
+    (attr) => attr?.type === "JSXAttribute" && attr.name?.name === name
+  );
+  if (index !== -1) {
+    attributes.splice(index, 1);
+  }
+}
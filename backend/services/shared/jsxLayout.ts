@@ -0,0 +1,55 @@
+import jscodeshift, { type JSXText } from "jscodeshift";
+import type { namedTypes } from "ast-types";
+
+type JSXChild = namedTypes.Node | null | undefined;
+
+/**
+ * Whitespace-only text spanning a line break, i.e. the indentation between
+ * children written on their own lines. JSX drops it when rendering.
+ */
+export function isLineBreak(child: JSXChild): boolean {
+  return (
+    child?.type === "JSXText" &&
+    /^\s*\n\s*$/.test((child as namedTypes.JSXText).value)
+  );
+}
+
+/**
+ * A line break to put between children. Recast prints it as a newline at the
+ * children's indentation, so the value carries no indent of its own.
+ */
+export function createLineBreak(): JSXText {
+  return jscodeshift.jsxText("\n");
+}
+
+/** Whether the children are written one per line rather than inline */
+export function isMultiline(children: JSXChild[]): boolean {
+  return children.some(isLineBreak);
+}
+
+/**
+ * Put each child on its own line, dropping the line breaks already between
+ * them so the children of a new element are laid out like hand-written JSX.
+ */
+export function layOutOnOwnLines(children: JSXChild[]): JSXChild[] {
+  const laidOut: JSXChild[] = [createLineBreak()];
+  for (const child of children) {
+    if (!isLineBreak(child)) {
+      laidOut.push(child, createLineBreak());
+    }
+  }
+  return laidOut;
+}
+
+/**
+ * Prepare an element that stood on its own, such as a parenthesized returned
+ * root, to become a JSX child. Recast would otherwise keep its parentheses,
+ * which JSX renders as text.
+ */
+export function asJsxChild<T extends namedTypes.Node>(node: T): T {
+  const { extra } = node as { extra?: { parenthesized?: boolean } };
+  if (extra?.parenthesized) {
+    extra.parenthesized = false;
+  }
+  return node;
+}
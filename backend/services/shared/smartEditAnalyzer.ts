@@ -49,6 +49,11 @@ export interface EditRiskAnalysis {
   };
 }
 
+/** Drop the cached analysis once the file changed on disk */
+export function invalidateEditRiskAnalysis(filePath: string): void {
+  analysisCache.delete(filePath);
+}
+
 export function analyzeComponentForEditRisk(
   filePath: string
 ): EditRiskAnalysis {
@@ -0,0 +1,94 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { clearFormatterCache, formatSource } from "./sourceFormatter";
+
+describe("formatSource", () => {
+  let workspace: string;
+  let projectRoot: string;
+  let filePath: string;
+
+  const original = [
+    "import   React from 'react'",
+    "export default function Page() {",
+    "  return (",
+    "    <div className='root'>",
+    "      <p>one</p>",
+    "    </div>",
+    "  );",
+    "}",
+    "",
+  ].join("\n");
+  // What recast prints when a sibling is added without surrounding whitespace
+  const edited = original.replace("<p>one</p>", "<p>one</p><p>two</p>");
+
+  beforeEach(async () => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-format-"));
+    projectRoot = path.join(workspace, "project");
+    filePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    await clearFormatterCache();
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  it("formats only the changed code when the project has no config", async () => {
+    const output = await formatSource(filePath, edited, projectRoot, original);
+
+    expect(output).toContain("      <p>one</p>\n      <p>two</p>\n");
+    expect(output).toContain("import   React from 'react'");
+  });
+
+  it("tidies the code around a deletion", async () => {
+    const output = await formatSource(
+      filePath,
+      original.replace("      <p>one</p>\n", "\n"),
+      projectRoot,
+      original
+    );
+
+    expect(output).toContain('  return <div className="root"></div>;\n');
+    expect(output).toContain("import   React from 'react'");
+  });
+
+  it("formats the whole file with the project's config", async () => {
+    fs.writeFileSync(
+      path.join(projectRoot, ".prettierrc"),
+      JSON.stringify({ singleQuote: true, semi: false }),
+      "utf8"
+    );
+
+    const output = await formatSource(filePath, edited, projectRoot, original);
+
+    expect(output).toContain("import React from 'react'\n");
+    expect(output).toContain("      <p>one</p>\n      <p>two</p>\n");
+  });
+
+  it("ignores configs above the project root", async () => {
+    fs.writeFileSync(
+      path.join(workspace, ".prettierrc"),
+      JSON.stringify({ semi: false }),
+      "utf8"
+    );
+
+    const output = await formatSource(filePath, edited, projectRoot, original);
+
+    expect(output).toContain("import   React from 'react'");
+    expect(output).toContain("  );\n");
+  });
+
+  it("keeps recast output when the strategy is recast", async () => {
+    fs.mkdirSync(path.join(projectRoot, ".brakit"));
+    fs.writeFileSync(
+      path.join(projectRoot, ".brakit", "config.json"),
+      JSON.stringify({ formatting: { strategy: "recast" } }),
+      "utf8"
+    );
+
+    expect(await formatSource(filePath, edited, projectRoot, original)).toBe(
+      edited
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import path from "path";
+import prettier from "prettier";
+import { loadProjectSettings } from "../../utils/projectSettings";
+import { logger } from "../../utils/logger";
+
+/**
+ * Format an edited file according to the project's formatting strategy.
+ * Prettier runs with the config it would use for that file on the command
+ * line, and files listed in `.prettierignore` are left as recast printed
+ * them. Without a config inside the project, "auto" formats only the span
+ * recast changed, with Prettier's defaults, so the rest of the file stays
+ * as written. Formatting errors, e.g. a Prettier plugin that cannot be
+ * loaded, fall back to the unformatted source rather than failing the edit.
+ */
+export async function formatSource(
+  filePath: string,
+  source: string,
+  projectRoot: string,
+  originalSource?: string
+): Promise<string> {
+  const { strategy } = loadProjectSettings(projectRoot).formatting;
+  if (strategy === "recast") {
+    return source;
+  }
+
+  try {
+    const fileInfo = await prettier.getFileInfo(filePath, {
+      ignorePath: path.join(projectRoot, ".prettierignore"),
+    });
+    if (fileInfo.ignored) {
+      return source;
+    }
+
+    const configFile = await resolveProjectConfigFile(filePath, projectRoot);
+    if (!configFile) {
+      const range =
+        strategy === "auto" && originalSource !== undefined
+          ? findChangedRange(originalSource, source)
+          : null;
+      if (strategy === "auto" && !range) {
+        return source;
+      }
+      return await prettier.format(source, { filepath: filePath, ...range });
+    }
+
+    const options = await prettier.resolveConfig(filePath, {
+      config: configFile,
+      editorconfig: true,
+    });
+    return await prettier.format(source, { ...options, filepath: filePath });
+  } catch (error) {
+    logger.warn({
+      message: `[SourceFormatter] Prettier failed, keeping unformatted output`,
+      context: {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    return source;
+  }
+}
+
+/**
+ * The Prettier config Prettier would pick for a file, unless it lives above
+ * the project, e.g. in the user's home directory.
+ */
+async function resolveProjectConfigFile(
+  filePath: string,
+  projectRoot: string
+): Promise<string | null> {
+  const configFile = await prettier.resolveConfigFile(filePath);
+  if (!configFile) {
+    return null;
+  }
+
+  const relative = path.relative(path.resolve(projectRoot), configFile);
+  return relative.startsWith("..") || path.isAbsolute(relative)
+    ? null
+    : configFile;
+}
+
+/**
+ * The span of `updated` that differs from `original`, trimmed of the text
+ * both share at the start and end. A pure deletion leaves an empty span,
+ * which Prettier would skip, so it is widened to the characters around it.
+ * Null when nothing changed.
+ */
+function findChangedRange(
+  original: string,
+  updated: string
+): { rangeStart: number; rangeEnd: number } | null {
+  if (original === updated) {
+    return null;
+  }
+
+  const maxLength = Math.min(original.length, updated.length);
+  let prefix = 0;
+  while (prefix < maxLength && original[prefix] === updated[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < maxLength - prefix &&
+    original[original.length - 1 - suffix] ===
+      updated[updated.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const rangeEnd = updated.length - suffix;
+  return rangeEnd > prefix
+    ? { rangeStart: prefix, rangeEnd }
+    : {
+        rangeStart: Math.max(0, prefix - 1),
+        rangeEnd: Math.min(updated.length, prefix + 1),
+      };
+}
+
+/**
+ * Prettier caches resolved configs for the life of the process; drop them
+ * after a config file changed.
+ */
+export async function clearFormatterCache(): Promise<void> {
+  await prettier.clearConfigCache();
+}
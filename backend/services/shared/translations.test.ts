@@ -0,0 +1,92 @@
+import {
+  resolveTranslationEntries,
+  updateMessageSource,
+  type LocaleMessageFile,
+} from "./translations";
+
+describe("resolveTranslationEntries", () => {
+  const read = (sources: Record<string, string>) => (filePath: string) =>
+    sources[filePath];
+
+  it("scopes next-intl keys under the namespace in every locale", () => {
+    const files: LocaleMessageFile[] = [
+      { locale: "en", namespace: null, filePath: "en.json" },
+      { locale: "de", namespace: null, filePath: "de.json" },
+    ];
+    const entries = resolveTranslationEntries(
+      files,
+      { key: "hero.title", namespace: "Home", namespaceFromFile: false },
+      read({
+        "en.json": JSON.stringify({ Home: { hero: { title: "Welcome" } } }),
+        "de.json": JSON.stringify({ Home: { hero: { title: "Willkommen" } } }),
+      })
+    );
+
+    expect(entries).toEqual([
+      {
+        locale: "en",
+        filePath: "en.json",
+        keyPath: ["Home", "hero", "title"],
+        value: "Welcome",
+      },
+      {
+        locale: "de",
+        filePath: "de.json",
+        keyPath: ["Home", "hero", "title"],
+        value: "Willkommen",
+      },
+    ]);
+  });
+
+  it("reads i18next namespaces from their own files and flat dotted keys", () => {
+    const files: LocaleMessageFile[] = [
+      { locale: "en", namespace: "common", filePath: "en/common.json" },
+      { locale: "en", namespace: "home", filePath: "en/home.json" },
+    ];
+    const entries = resolveTranslationEntries(
+      files,
+      { key: "hero.title", namespace: "home", namespaceFromFile: true },
+      read({
+        "en/common.json": JSON.stringify({ "hero.title": "Wrong file" }),
+        "en/home.json": JSON.stringify({ "hero.title": "Welcome" }),
+      })
+    );
+
+    expect(entries).toEqual([
+      {
+        locale: "en",
+        filePath: "en/home.json",
+        keyPath: ["hero.title"],
+        value: "Welcome",
+      },
+    ]);
+  });
+
+  it("skips files that fail to parse or lack the key", () => {
+    const files: LocaleMessageFile[] = [
+      { locale: "en", namespace: null, filePath: "en.json" },
+      { locale: "fr", namespace: null, filePath: "fr.json" },
+    ];
+    const entries = resolveTranslationEntries(
+      files,
+      { key: "title", namespaceFromFile: false },
+      read({ "en.json": "{ not json", "fr.json": JSON.stringify({}) })
+    );
+
+    expect(entries).toEqual([]);
+  });
+});
+
+describe("updateMessageSource", () => {
+  it("keeps the file's indentation and trailing newline", () => {
+    const source = '{\n    "hero": {\n        "title": "Welcome"\n    }\n}\n';
+
+    expect(updateMessageSource(source, ["hero", "title"], "Hello")).toBe(
+      '{\n    "hero": {\n        "title": "Hello"\n    }\n}\n'
+    );
+  });
+
+  it("returns null when the key is missing", () => {
+    expect(updateMessageSource('{"a":"b"}', ["missing"], "x")).toBeNull();
+  });
+});
@@ -0,0 +1,406 @@
+import fs from "fs";
+import path from "path";
+import type { ASTPath, JSXElement } from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import { SKIP_DIRECTORIES } from "./types";
+import { normalizeText } from "./textUtils";
+
+// Where next-intl and i18next projects usually keep their message files
+const LOCALE_DIRECTORIES = [
+  "messages",
+  "locales",
+  "public/locales",
+  "i18n",
+  "i18n/locales",
+  "lang",
+  "translations",
+].flatMap((dir) => [dir, `src/${dir}`]);
+
+const LOCALE_NAME_PATTERN = /^[a-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*$/;
+// ICU arguments, i18next interpolation and rich text tags
+const PLACEHOLDER_PATTERN = /\{[^}]*\}|<\/?[A-Za-z][^>]*>/;
+
+// Hooks returning a translator, and whether their namespace argument names a
+// separate file (i18next) or a key prefix inside one file (next-intl)
+const TRANSLATOR_FACTORIES: Record<string, { namespaceFromFile: boolean }> = {
+  useTranslations: { namespaceFromFile: false },
+  getTranslations: { namespaceFromFile: false },
+  useTranslation: { namespaceFromFile: true },
+  getFixedT: { namespaceFromFile: true },
+};
+
+// `t.rich("key")`, `t.markup("key")` and `i18n.t("key")`
+const TRANSLATOR_METHODS = new Set(["t", "rich", "markup", "raw"]);
+
+export interface TranslationCall {
+  key: string;
+  namespace?: string;
+  namespaceFromFile: boolean;
+}
+
+export interface LocaleMessageFile {
+  locale: string;
+  /** Set for per-namespace layouts such as `locales/en/common.json` */
+  namespace: string | null;
+  filePath: string;
+}
+
+export interface TranslationEntry {
+  locale: string;
+  filePath: string;
+  keyPath: string[];
+  value: string;
+}
+
+/**
+ * Find a `{t("key")}` child on the element and work out the key and
+ * namespace from the hook that created the translator.
+ */
+export function findTranslationCall(
+  elementPath: ASTPath<JSXElement>
+): TranslationCall | null {
+  const children = elementPath.node.children ?? [];
+
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index];
+    if (child.type !== "JSXExpressionContainer") {
+      continue;
+    }
+
+    const expression = child.expression as namedTypes.Node;
+    if (expression.type !== "CallExpression") {
+      continue;
+    }
+
+    const call = expression as namedTypes.CallExpression;
+    const key = readStringArgument(call.arguments[0] as namedTypes.Node);
+    const translatorName = getTranslatorName(call.callee as namedTypes.Node);
+    if (!key || !translatorName) {
+      continue;
+    }
+
+    const callPath = elementPath.get(
+      "children",
+      index,
+      "expression"
+    ) as ASTPath<namedTypes.Node>;
+    const translator = resolveTranslator(callPath, translatorName);
+    if (!translator) {
+      continue;
+    }
+
+    // i18next accepts "ns:key" to pick a namespace per call
+    const separator = key.indexOf(":");
+    if (translator.namespaceFromFile && separator > 0) {
+      return {
+        key: key.slice(separator + 1),
+        namespace: key.slice(0, separator),
+        namespaceFromFile: true,
+      };
+    }
+
+    return { key, ...translator };
+  }
+
+  return null;
+}
+
+export function findLocaleMessageFiles(
+  projectRoot: string
+): LocaleMessageFile[] {
+  const files: LocaleMessageFile[] = [];
+
+  for (const directory of LOCALE_DIRECTORIES) {
+    const fullPath = path.join(projectRoot, directory);
+    if (!fs.existsSync(fullPath)) {
+      continue;
+    }
+
+    for (const entry of fs.readdirSync(fullPath, { withFileTypes: true })) {
+      if (SKIP_DIRECTORIES.includes(entry.name)) {
+        continue;
+      }
+
+      const entryPath = path.join(fullPath, entry.name);
+      const baseName = path.basename(entry.name, ".json");
+
+      if (
+        entry.isFile() &&
+        entry.name.endsWith(".json") &&
+        LOCALE_NAME_PATTERN.test(baseName)
+      ) {
+        files.push({ locale: baseName, namespace: null, filePath: entryPath });
+      } else if (entry.isDirectory() && LOCALE_NAME_PATTERN.test(entry.name)) {
+        for (const namespaceFile of fs.readdirSync(entryPath)) {
+          if (namespaceFile.endsWith(".json")) {
+            files.push({
+              locale: entry.name,
+              namespace: path.basename(namespaceFile, ".json"),
+              filePath: path.join(entryPath, namespaceFile),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Look the call's key up in every locale. Files that fail to parse or do not
+ * define the key are skipped.
+ */
+export function resolveTranslationEntries(
+  files: LocaleMessageFile[],
+  call: TranslationCall,
+  readFile: (filePath: string) => string
+): TranslationEntry[] {
+  const entries: TranslationEntry[] = [];
+  const keySegments = call.key.split(".");
+
+  // next-intl scopes keys under the namespace within one file
+  const segments =
+    call.namespace && !call.namespaceFromFile
+      ? [...call.namespace.split("."), ...keySegments]
+      : keySegments;
+
+  for (const file of files) {
+    // i18next keeps each namespace in its own file
+    if (
+      call.namespaceFromFile &&
+      call.namespace &&
+      file.namespace !== null &&
+      file.namespace !== call.namespace
+    ) {
+      continue;
+    }
+
+    let messages: unknown;
+    try {
+      messages = JSON.parse(readFile(file.filePath));
+    } catch {
+      continue;
+    }
+
+    const keyPath = resolveKeyPath(messages, segments);
+    if (!keyPath) {
+      continue;
+    }
+
+    entries.push({
+      locale: file.locale,
+      filePath: file.filePath,
+      keyPath,
+      value: readKeyPath(messages, keyPath) as string,
+    });
+  }
+
+  return entries;
+}
+
+/** Locale codes match case-insensitively, and `en-US` falls back to `en` */
+export function matchesLocale(candidate: string, requested: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace("_", "-");
+  const a = normalize(candidate);
+  const b = normalize(requested);
+  return a === b || a === b.split("-")[0];
+}
+
+export function messageHasPlaceholders(value: string): boolean {
+  return PLACEHOLDER_PATTERN.test(value);
+}
+
+export function messageMatchesText(value: string, text: string): boolean {
+  return normalizeText(value) === normalizeText(text);
+}
+
+/**
+ * Replace one message value, keeping the file's indentation and trailing
+ * newline. Returns null when the key is missing.
+ */
+export function updateMessageSource(
+  source: string,
+  keyPath: string[],
+  value: string
+): string | null {
+  const messages = JSON.parse(source);
+  const parentPath = keyPath.slice(0, -1);
+  const parent = parentPath.length
+    ? readKeyPath(messages, parentPath)
+    : messages;
+  const lastKey = keyPath[keyPath.length - 1];
+
+  if (
+    !parent ||
+    typeof parent !== "object" ||
+    typeof (parent as Record<string, unknown>)[lastKey] !== "string"
+  ) {
+    return null;
+  }
+
+  (parent as Record<string, unknown>)[lastKey] = value;
+
+  // Single-line files stay on one line
+  const indent = source.trim().includes("\n")
+    ? (source.match(/^[ \t]+(?=")/m)?.[0] ?? 2)
+    : undefined;
+  const trailingNewline = source.endsWith("\n") ? "\n" : "";
+  return JSON.stringify(messages, null, indent) + trailingNewline;
+}
+
+/**
+ * Nested keys first, then flat keys that contain dots, which i18next allows
+ */
+function resolveKeyPath(
+  messages: unknown,
+  segments: string[]
+): string[] | null {
+  if (typeof readKeyPath(messages, segments) === "string") {
+    return segments;
+  }
+
+  for (let split = segments.length - 1; split >= 0; split--) {
+    const keyPath = [
+      ...segments.slice(0, split),
+      segments.slice(split).join("."),
+    ];
+    if (typeof readKeyPath(messages, keyPath) === "string") {
+      return keyPath;
+    }
+  }
+
+  return null;
+}
+
+function readKeyPath(messages: unknown, keyPath: string[]): unknown {
+  let current = messages;
+  for (const key of keyPath) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function readStringArgument(node: namedTypes.Node | undefined): string | null {
+  if (!node) {
+    return null;
+  }
+  if (node.type === "StringLiteral" || node.type === "Literal") {
+    const value = (node as namedTypes.StringLiteral).value;
+    return typeof value === "string" ? value : null;
+  }
+  if (node.type === "TemplateLiteral") {
+    const template = node as namedTypes.TemplateLiteral;
+    return template.expressions.length === 0
+      ? template.quasis.map((quasi) => quasi.value.cooked ?? "").join("")
+      : null;
+  }
+  return null;
+}
+
+function getTranslatorName(callee: namedTypes.Node): string | null {
+  if (callee.type === "Identifier") {
+    return (callee as namedTypes.Identifier).name;
+  }
+
+  if (callee.type === "MemberExpression") {
+    const member = callee as namedTypes.MemberExpression;
+    if (
+      member.object.type === "Identifier" &&
+      member.property.type === "Identifier" &&
+      TRANSLATOR_METHODS.has(member.property.name)
+    ) {
+      return member.object.name;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Follow the translator's binding back to `useTranslations("ns")`,
+ * `useTranslation("ns")` or `await getTranslations("ns")`. A bare `t` that
+ * is imported or passed in as a prop is still treated as a translator, just
+ * without a namespace.
+ */
+function resolveTranslator(
+  callPath: ASTPath<namedTypes.Node>,
+  name: string
+): Omit<TranslationCall, "key"> | null {
+  const bindings = callPath.scope?.lookup(name)?.getBindings()[name] as
+    | ASTPath<namedTypes.Node>[]
+    | undefined;
+
+  let current = bindings?.[0]?.parent as ASTPath<namedTypes.Node> | undefined;
+  while (current && current.value.type !== "VariableDeclarator") {
+    if (
+      current.value.type !== "ObjectPattern" &&
+      current.value.type !== "Property" &&
+      current.value.type !== "ObjectProperty"
+    ) {
+      current = undefined;
+      break;
+    }
+    current = current.parent as ASTPath<namedTypes.Node> | undefined;
+  }
+
+  let init = (current?.value as namedTypes.VariableDeclarator | undefined)
+    ?.init as namedTypes.Node | null | undefined;
+  if (init?.type === "AwaitExpression") {
+    init = (init as namedTypes.AwaitExpression).argument as namedTypes.Node;
+  }
+
+  if (init?.type === "CallExpression") {
+    const factoryCall = init as namedTypes.CallExpression;
+    const factoryName =
+      factoryCall.callee.type === "Identifier"
+        ? (factoryCall.callee as namedTypes.Identifier).name
+        : null;
+    const options = factoryName ? TRANSLATOR_FACTORIES[factoryName] : null;
+
+    if (options) {
+      return {
+        namespace: readNamespaceArgument(
+          factoryCall.arguments[0] as namedTypes.Node
+        ),
+        namespaceFromFile: options.namespaceFromFile,
+      };
+    }
+  }
+
+  return name === "t" ? { namespaceFromFile: true } : null;
+}
+
+/** `"ns"`, `["ns", "fallback"]` or `{ namespace: "ns" }` */
+function readNamespaceArgument(
+  node: namedTypes.Node | undefined
+): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+
+  if (node.type === "ArrayExpression") {
+    const [first] = (node as namedTypes.ArrayExpression).elements;
+    return readStringArgument(first as namedTypes.Node) ?? undefined;
+  }
+
+  if (node.type === "ObjectExpression") {
+    for (const property of (node as namedTypes.ObjectExpression).properties) {
+      if (
+        (property.type === "ObjectProperty" || property.type === "Property") &&
+        property.key.type === "Identifier" &&
+        property.key.name === "namespace"
+      ) {
+        return (
+          readStringArgument(property.value as namedTypes.Node) ?? undefined
+        );
+      }
+    }
+    return undefined;
+  }
+
+  return readStringArgument(node) ?? undefined;
+}
@@ -8,6 +8,43 @@ export interface BaseUpdateResult {
   filePath?: string;
   componentName?: string;
   signals?: string[];
+  dryRun?: boolean;
+  diff?: string;
+  changes?: DryRunChange[];
+  verification?: VerificationReport;
+}
+
+/**
+ * How edits to an element rendered by `.map()` are applied: "item" changes
+ * that item's entry in the source array, "template" changes the JSX shared
+ * by every item.
+ */
+export type ListEditMode = "item" | "template";
+
+export interface DryRunChange {
+  file: string;
+  filePath: string;
+  diff: string;
+}
+
+export type VerificationStage = "parse" | "typecheck";
+
+export interface VerificationDiagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  code?: string;
+}
+
+export interface VerificationFailure {
+  stage: VerificationStage;
+  diagnostics: VerificationDiagnostic[];
+}
+
+/** Sent back when an edit failed verification and was rolled back */
+export interface VerificationReport extends VerificationFailure {
+  rolledBackFiles: string[];
 }
 
 export interface SearchOptions {
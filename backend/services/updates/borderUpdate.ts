@@ -0,0 +1,473 @@
+import fs from "fs";
+import { BaseUpdateService } from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  applyClassTokenEdits,
+  applyInlineStyleEdit,
+  type AttributeEditOutcome,
+  type ClassTokenEdit,
+  type InlineStyleEdit,
+} from "../shared/classNameEditor";
+import { detectFramework } from "../../utils/detectFramework";
+import { logger } from "../../utils/logger";
+
+export type BorderField =
+  | "borderRadius"
+  | "borderWidth"
+  | "borderStyle"
+  | "borderColor"
+  | "boxShadow";
+
+export interface BorderChange {
+  old: string;
+  new: string;
+}
+
+export interface BorderUpdatePayload {
+  borderRadius?: BorderChange;
+  borderWidth?: BorderChange;
+  borderStyle?: BorderChange;
+  borderColor?: BorderChange;
+  boxShadow?: BorderChange;
+  text?: string;
+  tag: string;
+  file: string;
+  forceGlobal?: boolean;
+  className?: string;
+  elementTag?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  /** Line in `ownerFilePath` where the element starts, for elements without text or classes */
+  line?: number;
+}
+
+export type BorderUpdateResult = BaseUpdateResult;
+
+export const BORDER_FIELDS: BorderField[] = [
+  "borderRadius",
+  "borderWidth",
+  "borderStyle",
+  "borderColor",
+  "boxShadow",
+];
+
+const BORDER_SIDE = "(?:-(?<side>x|y|t|r|b|l|s|e))?";
+const RADIUS_CORNER =
+  "(?:-(?<corner>tl|tr|br|bl|ss|se|es|ee|t|r|b|l|s|e))?";
+const PALETTE_COLORS =
+  "slate|gray|zinc|neutral|stone|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose";
+
+const BORDER_TOKEN_REGEX: Record<BorderField, RegExp> = {
+  borderRadius: new RegExp(
+    `^rounded${RADIUS_CORNER}(?:-(?<value>none|sm|md|lg|xl|2xl|3xl|full|\\[[^\\]\\s]+\\]))?$`
+  ),
+  borderWidth: new RegExp(`^border${BORDER_SIDE}(?:-(?<value>0|2|4|8|\\[\\d+px\\]))?$`),
+  borderStyle: /^border-(?<value>solid|dashed|dotted|double|hidden|none)$/,
+  borderColor: new RegExp(
+    `^border${BORDER_SIDE}-(?<value>inherit|current|transparent|black|white|(?:${PALETTE_COLORS})-\\d{2,3}|\\[#[0-9a-fA-F]{3,8}\\]|\\[(?:rgb|hsl)a?\\([^\\]\\s]+\\)\\])(?:\\/\\d+)?$`
+  ),
+  boxShadow: /^shadow(?:-(?<value>sm|md|lg|xl|2xl|inner|none))?$/,
+};
+
+const FIELD_LABELS: Record<BorderField, string> = {
+  borderRadius: "border radius",
+  borderWidth: "border width",
+  borderStyle: "border style",
+  borderColor: "border color",
+  boxShadow: "shadow",
+};
+
+const RADIUS_CSS: Record<string, string> = {
+  "": "0.25rem",
+  none: "0",
+  sm: "0.125rem",
+  md: "0.375rem",
+  lg: "0.5rem",
+  xl: "0.75rem",
+  "2xl": "1rem",
+  "3xl": "1.5rem",
+  full: "9999px",
+};
+
+const SHADOW_CSS: Record<string, string> = {
+  "": "0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)",
+  sm: "0 1px 2px 0 rgb(0 0 0 / 0.05)",
+  md: "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+  lg: "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
+  xl: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+  "2xl": "0 25px 50px -12px rgb(0 0 0 / 0.25)",
+  inner: "inset 0 2px 4px 0 rgb(0 0 0 / 0.05)",
+  none: "none",
+};
+
+const NAMED_BORDER_COLORS: Record<string, string> = {
+  inherit: "inherit",
+  current: "currentColor",
+  transparent: "transparent",
+  black: "#000000",
+  white: "#ffffff",
+};
+
+// Property name infixes for `border-t-2`, `border-x-red-500` and so on
+const SIDE_PROPERTIES: Record<string, string[]> = {
+  "": [""],
+  x: ["Left", "Right"],
+  y: ["Top", "Bottom"],
+  t: ["Top"],
+  r: ["Right"],
+  b: ["Bottom"],
+  l: ["Left"],
+  s: ["InlineStart"],
+  e: ["InlineEnd"],
+};
+
+// Property name infixes for `rounded-t-lg`, `rounded-ss-md` and so on
+const CORNER_PROPERTIES: Record<string, string[]> = {
+  "": [""],
+  t: ["TopLeft", "TopRight"],
+  r: ["TopRight", "BottomRight"],
+  b: ["BottomRight", "BottomLeft"],
+  l: ["TopLeft", "BottomLeft"],
+  tl: ["TopLeft"],
+  tr: ["TopRight"],
+  br: ["BottomRight"],
+  bl: ["BottomLeft"],
+  s: ["StartStart", "EndStart"],
+  e: ["StartEnd", "EndEnd"],
+  ss: ["StartStart"],
+  se: ["StartEnd"],
+  es: ["EndStart"],
+  ee: ["EndEnd"],
+};
+
+const FIELD_STYLE_PROPERTIES: Record<BorderField, string[]> = {
+  borderRadius: Object.values(CORNER_PROPERTIES)
+    .flat()
+    .map((corner) => `border${corner}Radius`),
+  borderWidth: Object.values(SIDE_PROPERTIES)
+    .flat()
+    .map((side) => `border${side}Width`),
+  borderStyle: ["borderStyle"],
+  borderColor: Object.values(SIDE_PROPERTIES)
+    .flat()
+    .map((side) => `border${side}Color`),
+  boxShadow: ["boxShadow"],
+};
+
+function unwrapArbitrary(value: string): string {
+  return value.slice(1, -1).replace(/_/g, " ");
+}
+
+export class BorderUpdateService extends BaseUpdateService {
+  private collectChanges(
+    payload: BorderUpdatePayload
+  ): Array<[BorderField, BorderChange]> {
+    return BORDER_FIELDS.flatMap((field) => {
+      const change = payload[field];
+      return change ? [[field, change] as [BorderField, BorderChange]] : [];
+    });
+  }
+
+  /**
+   * Translate a Tailwind token into the inline style properties it sets, for
+   * projects without Tailwind. Side and corner tokens only set their own
+   * sides and corners. Returns null when the token has no static equivalent.
+   */
+  private tokenToStyle(
+    field: BorderField,
+    token: string
+  ): Record<string, string> | null {
+    const match = BORDER_TOKEN_REGEX[field].exec(token);
+    if (!match) {
+      return null;
+    }
+
+    const value = match.groups?.value ?? "";
+    const cssValue = this.tokenValueToCss(field, value);
+    if (cssValue === undefined || cssValue === null) {
+      return null;
+    }
+
+    let properties: string[];
+    switch (field) {
+      case "borderRadius":
+        properties = CORNER_PROPERTIES[match.groups?.corner ?? ""].map(
+          (corner) => `border${corner}Radius`
+        );
+        break;
+      case "borderWidth":
+      case "borderColor": {
+        const suffix = field === "borderWidth" ? "Width" : "Color";
+        properties = SIDE_PROPERTIES[match.groups?.side ?? ""].map(
+          (side) => `border${side}${suffix}`
+        );
+        break;
+      }
+      default:
+        properties = FIELD_STYLE_PROPERTIES[field];
+    }
+
+    return Object.fromEntries(
+      properties.map((property) => [property, cssValue])
+    );
+  }
+
+  private tokenValueToCss(
+    field: BorderField,
+    value: string
+  ): string | null | undefined {
+    switch (field) {
+      case "borderRadius":
+        return value.startsWith("[") ? unwrapArbitrary(value) : RADIUS_CSS[value];
+      case "borderWidth":
+        if (value.startsWith("[")) {
+          return unwrapArbitrary(value);
+        }
+        return value === "" ? "1px" : `${value}px`;
+      case "borderStyle":
+        return value;
+      case "borderColor":
+        if (value.startsWith("[")) {
+          return unwrapArbitrary(value);
+        }
+        return NAMED_BORDER_COLORS[value] ?? null;
+      case "boxShadow":
+        return SHADOW_CSS[value];
+      default:
+        return null;
+    }
+  }
+
+  private buildClassTokenEdits(
+    changes: Array<[BorderField, BorderChange]>
+  ): ClassTokenEdit[] {
+    return changes.map(([field, change]) => ({
+      matches: (token: string) => BORDER_TOKEN_REGEX[field].test(token),
+      tokens: change.new ? [change.new] : [],
+    }));
+  }
+
+  private buildInlineStyleEdit(
+    changes: Array<[BorderField, BorderChange]>
+  ): InlineStyleEdit | string {
+    const edit: InlineStyleEdit = { remove: [], set: {} };
+    const fields = new Set(changes.map(([field]) => field));
+    let setsWidth = false;
+
+    for (const [field, change] of changes) {
+      // Only clear the sides the previous token covered; one we cannot read
+      // may have covered any of them
+      const previous = change.old ? this.tokenToStyle(field, change.old) : {};
+      edit.remove.push(
+        ...(previous ? Object.keys(previous) : FIELD_STYLE_PROPERTIES[field])
+      );
+      if (!change.new) {
+        continue;
+      }
+
+      const style = this.tokenToStyle(field, change.new);
+      if (style === null) {
+        return `Cannot convert "${change.new}" to an inline style. Pick a custom color instead of a palette color.`;
+      }
+      Object.assign(edit.set, style);
+      setsWidth ||= field === "borderWidth";
+    }
+
+    // Without Tailwind's preflight a width alone renders nothing
+    if (fields.has("borderWidth") && !fields.has("borderStyle") && setsWidth) {
+      edit.set.borderStyle = "solid";
+      edit.remove = edit.remove.filter((property) => property !== "borderStyle");
+    }
+
+    return edit;
+  }
+
+  async updateBorder(payload: BorderUpdatePayload): Promise<BorderUpdateResult> {
+    const {
+      text = "",
+      tag,
+      file,
+      forceGlobal,
+      className = "",
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+      line,
+    } = payload;
+
+    try {
+      const changes = this.collectChanges(payload);
+
+      for (const [field, change] of changes) {
+        if (change.new && !BORDER_TOKEN_REGEX[field].test(change.new)) {
+          return {
+            success: false,
+            error: `Unsupported ${FIELD_LABELS[field]} class "${change.new}"`,
+          };
+        }
+      }
+
+      const lookupText =
+        textContent && textContent.length > 0 ? textContent : text;
+
+      const filePath = await this.resolveFileUsingMetadata({
+        lookupText,
+        tag,
+        file,
+        serviceName: "BorderUpdate",
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+      if (!filePath) {
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      if (!fs.existsSync(filePath)) {
+        return {
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
+      }
+
+      const useInlineStyle = !detectFramework(this.projectRoot).hasTailwind;
+      const source = fs.readFileSync(filePath, "utf8");
+      const { ast, possibleNames } = this.parseAndFindElements(source, tag);
+      const oldTokens = changes
+        .map(([, change]) => change.old)
+        .filter(Boolean)
+        .join(" ");
+
+      const matcher = this.createStyleTargetMatcher({
+        text: lookupText,
+        className,
+        classMatch: oldTokens,
+        line,
+      });
+      if (!matcher) {
+        return {
+          success: false,
+          error: `<${tag}> has no text or classes to find it by`,
+        };
+      }
+
+      const match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher,
+        className,
+        text: lookupText,
+        serviceName: "BorderUpdate",
+      });
+
+      if (!match) {
+        const usageResolution = lookupText
+          ? this.resolveComponentUsage(lookupText, ast, filePath)
+          : null;
+        const componentMatch =
+          usageResolution?.localUsage ?? usageResolution?.externalUsage ?? null;
+
+        if (componentMatch) {
+          const warning = this.checkSmartEditRisk({
+            sourceFilePath:
+              usageResolution?.externalUsage?.filePath ?? filePath,
+            elementName: componentMatch.componentName,
+            hasInlineClassName: componentMatch.hasInlineClassName,
+            usagePropNames: componentMatch.propNames,
+            forceGlobal,
+          });
+
+          if (warning) {
+            return warning;
+          }
+
+          return {
+            success: false,
+            error: `Unable to apply border update automatically for shared component <${componentMatch.componentName}>. Please edit the component manually.`,
+          };
+        }
+
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      const riskWarning = this.checkSmartEditRisk({
+        sourceFilePath: filePath,
+        elementName: match.elementName,
+        hasInlineClassName: match.hasInlineClassName,
+        usagePropNames: match.usagePropNames,
+        forceGlobal,
+      });
+
+      if (riskWarning && !match.hasInlineClassName) {
+        return riskWarning;
+      }
+
+      const attributes =
+        match.matchedNode.openingElement.attributes ||
+        (match.matchedNode.openingElement.attributes = []);
+
+      let outcome: AttributeEditOutcome;
+      if (useInlineStyle) {
+        const inlineEdit = this.buildInlineStyleEdit(changes);
+        if (typeof inlineEdit === "string") {
+          return { success: false, error: inlineEdit };
+        }
+        outcome = applyInlineStyleEdit(attributes, inlineEdit);
+      } else {
+        outcome = applyClassTokenEdits(
+          attributes,
+          this.buildClassTokenEdits(changes)
+        );
+      }
+
+      if (outcome === "unsupported") {
+        return {
+          success: false,
+          error: useInlineStyle
+            ? `Cannot update borders on <${match.elementName || tag}> because its style prop is not an object literal.`
+            : `Cannot update borders on <${match.elementName || tag}> because its className is computed at runtime.`,
+        };
+      }
+
+      if (outcome === "unchanged") {
+        return {
+          success: true,
+          message: `Border styles in <${tag}> already match`,
+        };
+      }
+
+      logger.info({
+        message: `[BorderUpdate] Rewriting border styles`,
+        context: {
+          filePath,
+          mode: useInlineStyle ? "inline-style" : "tailwind",
+          fields: changes.map(([field]) => field),
+        },
+      });
+
+      await this.writeFormattedSource(filePath, ast, source);
+
+      return {
+        success: true,
+        message: `Updated border styles in <${tag}>`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[BorderUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+}
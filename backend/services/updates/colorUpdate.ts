@@ -329,7 +329,7 @@ export class ColorUpdateService extends BaseUpdateService {
         };
       }
 
-      const source = fs.readFileSync(filePath, "utf8");
+      const source = this.readSourceFile(filePath);
       const { ast, possibleNames } = this.parseAndFindElements(source, tag);
 
       let found = false;
@@ -242,7 +242,7 @@ export class FontFamilyUpdateService extends BaseUpdateService {
         };
       }
 
-      const source = fs.readFileSync(filePath, "utf8");
+      const source = this.readSourceFile(filePath);
       const { ast, possibleNames } = this.parseAndFindElements(source, tag);
 
       let updated = false;
@@ -0,0 +1,474 @@
+import fs from "fs";
+import path from "path";
+import jscodeshift from "jscodeshift";
+import type { ASTPath, ImportDeclaration, JSXElement } from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+  type ParsedAst,
+} from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  findAttribute,
+  removeAttribute,
+  setAttribute,
+  type JSXAttributeList,
+} from "../shared/jsxAttributes";
+import { IMAGE_EXTENSIONS, resolvePublicPath } from "../images/publicImages";
+import { logger } from "../../utils/logger";
+
+const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+export type ImageField = "src" | "alt" | "width" | "height";
+
+export interface ImageUpdatePayload {
+  /** The src the browser rendered, with next/image optimizer URLs unwrapped */
+  currentSrc: string;
+  currentAlt?: string;
+  src?: string;
+  alt?: string;
+  /** A number sets the attribute, null removes it */
+  width?: number | null;
+  height?: number | null;
+  tag: string;
+  file: string;
+  forceGlobal?: boolean;
+  className?: string;
+  elementTag?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+export type ImageUpdateResult = BaseUpdateResult;
+
+export const IMAGE_FIELDS: ImageField[] = ["src", "alt", "width", "height"];
+
+export class ImageUpdateService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  async updateImage(payload: ImageUpdatePayload): Promise<ImageUpdateResult> {
+    const {
+      currentSrc,
+      tag,
+      file,
+      forceGlobal,
+      ownerComponentName,
+      ownerFilePath,
+    } = payload;
+
+    try {
+      // Images have no text to search for, so only the owner component and
+      // the page itself are candidates
+      const candidateFiles = await this.resolveCandidateFiles({
+        file,
+        tag,
+        serviceName: "ImageUpdate",
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+      for (const filePath of candidateFiles) {
+        const source = fs.readFileSync(filePath, "utf8");
+        const { ast, possibleNames } = this.parseAndFindElements(source, "img");
+        const match = this.findImageMatch(filePath, ast, possibleNames, payload);
+        if (!match) {
+          continue;
+        }
+
+        const riskWarning = this.checkSmartEditRisk({
+          sourceFilePath: filePath,
+          elementName: match.elementName,
+          hasInlineClassName: match.hasInlineClassName,
+          usagePropNames: match.usagePropNames,
+          forceGlobal,
+        });
+
+        if (riskWarning && !match.hasInlineClassName) {
+          return riskWarning;
+        }
+
+        const editError = this.applyImageEdits(match, payload);
+        if (editError) {
+          return { success: false, error: editError };
+        }
+
+        const updated = await this.writeFormattedSource(filePath, ast, source);
+        if (!updated) {
+          return {
+            success: true,
+            message: `Image in <${match.elementName || tag}> already matches`,
+          };
+        }
+
+        logger.info({
+          message: `[ImageUpdate] Rewrote image attributes`,
+          context: {
+            filePath,
+            fields: IMAGE_FIELDS.filter((field) => payload[field] !== undefined),
+          },
+        });
+
+        return {
+          success: true,
+          message: `Updated image in <${match.elementName || tag}>`,
+          filePath,
+        };
+      }
+
+      return {
+        success: false,
+        error: `Image "${currentSrc}" not found in <${tag}> elements`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[ImageUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Match by src first, narrowing by alt when the same image appears more
+   * than once, then fall back to alt alone for srcs computed at runtime.
+   */
+  private findImageMatch(
+    filePath: string,
+    ast: ParsedAst,
+    possibleNames: string[],
+    payload: ImageUpdatePayload
+  ): ElementMatchContext | null {
+    const { currentSrc, currentAlt, className } = payload;
+    const imports = this.collectStaticImageImports(ast);
+
+    const altMatches = (node: JSXElement) =>
+      Boolean(currentAlt) &&
+      this.getStringAttribute(node.openingElement.attributes, "alt") ===
+        currentAlt;
+
+    let candidates = this.collectCandidateElements(ast, possibleNames, (node) =>
+      this.srcMatches(node, currentSrc, imports)
+    );
+
+    if (candidates.length > 1) {
+      const narrowed = candidates.filter((candidate) =>
+        altMatches(candidate.node as JSXElement)
+      );
+      if (narrowed.length > 0) {
+        candidates = narrowed;
+      }
+    }
+
+    if (candidates.length === 0) {
+      candidates = this.collectCandidateElements(ast, possibleNames, altMatches);
+    }
+
+    const best =
+      candidates.length === 1
+        ? {
+            matchedNode: candidates[0].node as JSXElement,
+            matchedPath: candidates[0].path as ASTPath<JSXElement>,
+          }
+        : this.selectBestMatchingElement(
+            candidates,
+            className ?? "",
+            currentAlt ?? "",
+            "ImageUpdate"
+          );
+
+    if (!best) {
+      return null;
+    }
+
+    return this.buildElementMatchContext(
+      filePath,
+      ast,
+      best.matchedNode,
+      best.matchedPath
+    );
+  }
+
+  private applyImageEdits(
+    match: ElementMatchContext,
+    payload: ImageUpdatePayload
+  ): string | null {
+    const { src, alt, width, height } = payload;
+    const opening = match.matchedNode.openingElement;
+    const attributes: JSXAttributeList =
+      opening.attributes || (opening.attributes = []);
+    const elementLabel = match.elementName ?? "img";
+
+    if (src !== undefined) {
+      const srcError = this.applySrc(match, attributes, src);
+      if (srcError) {
+        return srcError;
+      }
+    }
+
+    if (alt !== undefined) {
+      const altAttr = findAttribute(attributes, "alt");
+      if (altAttr?.value && this.extractStringValue(altAttr.value) === null) {
+        return `Cannot update the alt text of <${elementLabel}> because it is computed at runtime`;
+      }
+      setAttribute(attributes, "alt", j.stringLiteral(alt));
+    }
+
+    for (const [name, value] of [
+      ["width", width],
+      ["height", height],
+    ] as const) {
+      if (value === undefined) {
+        continue;
+      }
+      if (value !== null && findAttribute(attributes, "fill")) {
+        return `<${elementLabel}> uses fill layout, so its ${name} comes from the parent element`;
+      }
+      if (value === null) {
+        removeAttribute(attributes, name);
+      } else {
+        setAttribute(
+          attributes,
+          name,
+          j.jsxExpressionContainer(j.numericLiteral(value))
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Rewrite src the way the element already references its image: string
+   * srcs stay strings, statically imported images get an import for the new
+   * file so the bundler keeps hashing and sizing them.
+   */
+  private applySrc(
+    match: ElementMatchContext,
+    attributes: JSXAttributeList,
+    nextSrc: string
+  ): string | null {
+    const elementLabel = match.elementName ?? "img";
+    const srcAttr = findAttribute(attributes, "src");
+    const isPublicPath = nextSrc.startsWith("/");
+
+    if (isPublicPath) {
+      const publicFile = resolvePublicPath(this.projectRoot, nextSrc);
+      if (!publicFile || !fs.existsSync(publicFile)) {
+        return `"${nextSrc}" does not exist in public/`;
+      }
+    }
+
+    if (!srcAttr || !srcAttr.value || this.extractStringValue(srcAttr.value) !== null) {
+      setAttribute(attributes, "src", j.stringLiteral(nextSrc));
+      return null;
+    }
+
+    const expression =
+      srcAttr.value.type === "JSXExpressionContainer"
+        ? (srcAttr.value.expression as namedTypes.Node)
+        : null;
+    const importName =
+      expression?.type === "Identifier"
+        ? (expression as namedTypes.Identifier).name
+        : null;
+    const existingImport = importName
+      ? this.collectStaticImageImports(match.ast).get(importName)
+      : undefined;
+
+    if (!importName || !existingImport) {
+      return `Cannot update the src of <${elementLabel}> because it is computed at runtime. Edit the value passed in instead.`;
+    }
+
+    if (!isPublicPath) {
+      return `<${elementLabel}> uses a statically imported image, so its replacement must be a file in public/ that can be imported too`;
+    }
+
+    const publicFile = resolvePublicPath(this.projectRoot, nextSrc) as string;
+    let importPath = path
+      .relative(path.dirname(match.filePath), publicFile)
+      .split(path.sep)
+      .join("/");
+    if (!importPath.startsWith(".")) {
+      importPath = `./${importPath}`;
+    }
+
+    const localName = this.ensureImageImport(match.ast, importPath, nextSrc);
+    srcAttr.value = j.jsxExpressionContainer(j.identifier(localName));
+    this.removeUnusedImport(match.ast, importName, existingImport);
+
+    return null;
+  }
+
+  /**
+   * Map of local identifier to import declaration for default imports of
+   * image files, e.g. `import hero from "../public/hero.png"`.
+   */
+  private collectStaticImageImports(
+    ast: ParsedAst
+  ): Map<string, ASTPath<ImportDeclaration>> {
+    const imports = new Map<string, ASTPath<ImportDeclaration>>();
+
+    ast.find(j.ImportDeclaration).forEach((importPath) => {
+      const sourceValue = importPath.node.source.value;
+      if (
+        typeof sourceValue !== "string" ||
+        !IMAGE_EXTENSIONS.has(path.extname(sourceValue).toLowerCase())
+      ) {
+        return;
+      }
+
+      for (const specifier of importPath.node.specifiers ?? []) {
+        if (specifier.type === "ImportDefaultSpecifier" && specifier.local) {
+          imports.set(specifier.local.name as string, importPath);
+        }
+      }
+    });
+
+    return imports;
+  }
+
+  private srcMatches(
+    node: JSXElement,
+    runtimeSrc: string,
+    imports: Map<string, ASTPath<ImportDeclaration>>
+  ): boolean {
+    const srcAttr = findAttribute(node.openingElement.attributes, "src");
+    if (!srcAttr || !srcAttr.value) {
+      return false;
+    }
+
+    const normalizedRuntime = this.stripQuery(runtimeSrc);
+    const literal = this.extractStringValue(srcAttr.value);
+    if (literal !== null) {
+      const normalizedLiteral = this.stripQuery(literal);
+      return (
+        normalizedLiteral.length > 0 &&
+        (normalizedRuntime === normalizedLiteral ||
+          normalizedRuntime.endsWith(
+            normalizedLiteral.startsWith("/")
+              ? normalizedLiteral
+              : `/${normalizedLiteral}`
+          ))
+      );
+    }
+
+    const expression =
+      srcAttr.value.type === "JSXExpressionContainer"
+        ? (srcAttr.value.expression as namedTypes.Node)
+        : null;
+    if (expression?.type !== "Identifier") {
+      return false;
+    }
+
+    const importPath = imports.get((expression as namedTypes.Identifier).name);
+    const importSource = importPath?.node.source.value;
+    if (typeof importSource !== "string") {
+      return false;
+    }
+
+    // Bundlers serve imported images under a hashed name such as
+    // /_next/static/media/hero.3f2a1b.png
+    const runtimeBase = path.posix.basename(normalizedRuntime);
+    const importExt = path.posix.extname(importSource);
+    const importStem = path.posix.basename(importSource, importExt);
+    return (
+      runtimeBase === `${importStem}${importExt}` ||
+      (runtimeBase.startsWith(`${importStem}.`) &&
+        runtimeBase.endsWith(importExt))
+    );
+  }
+
+  private ensureImageImport(
+    ast: ParsedAst,
+    importPath: string,
+    publicSrc: string
+  ): string {
+    const existing = ast
+      .find(j.ImportDeclaration)
+      .filter((declaration) => declaration.node.source.value === importPath)
+      .find(j.ImportDefaultSpecifier);
+    if (existing.size() > 0) {
+      return existing.get().node.local.name as string;
+    }
+
+    const localName = this.createImportName(ast, publicSrc);
+    const declaration = j.importDeclaration(
+      [j.importDefaultSpecifier(j.identifier(localName))],
+      j.stringLiteral(importPath)
+    );
+
+    const program = ast.find(j.Program).get().node as namedTypes.Program;
+    const lastImportIndex = program.body.reduce(
+      (last, statement, index) =>
+        statement.type === "ImportDeclaration" ? index : last,
+      -1
+    );
+    program.body.splice(lastImportIndex + 1, 0, declaration);
+
+    return localName;
+  }
+
+  private createImportName(ast: ParsedAst, publicSrc: string): string {
+    const stem = path.posix.basename(publicSrc, path.posix.extname(publicSrc));
+    const words = stem.split(/[^A-Za-z0-9]+/).filter(Boolean);
+    const camel = words
+      .map((word, index) =>
+        index === 0
+          ? word.charAt(0).toLowerCase() + word.slice(1)
+          : word.charAt(0).toUpperCase() + word.slice(1)
+      )
+      .join("");
+    const base = /^[A-Za-z_$]/.test(camel) ? `${camel}Image` : `image${camel}`;
+
+    let candidate = base;
+    let suffix = 2;
+    while (ast.find(j.Identifier, { name: candidate }).size() > 0) {
+      candidate = `${base}${suffix}`;
+      suffix += 1;
+    }
+    return candidate;
+  }
+
+  private removeUnusedImport(
+    ast: ParsedAst,
+    localName: string,
+    importPath: ASTPath<ImportDeclaration>
+  ): void {
+    // The import specifier itself is the only remaining reference
+    if (ast.find(j.Identifier, { name: localName }).size() > 1) {
+      return;
+    }
+
+    const specifiers = importPath.node.specifiers ?? [];
+    if (specifiers.length <= 1) {
+      importPath.prune();
+      return;
+    }
+    importPath.node.specifiers = specifiers.filter(
+      (specifier) => specifier.local?.name !== localName
+    );
+  }
+
+  private stripQuery(src: string): string {
+    const withoutQuery = src.split(/[?#]/)[0];
+    try {
+      return decodeURI(withoutQuery);
+    } catch {
+      return withoutQuery;
+    }
+  }
+
+  private getStringAttribute(
+    attributes: JSXAttributeList | undefined,
+    name: string
+  ): string | null {
+    const attr = findAttribute(attributes, name);
+    return attr?.value ? this.extractStringValue(attr.value) : null;
+  }
+}
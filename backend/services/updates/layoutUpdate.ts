@@ -0,0 +1,245 @@
+import fs from "fs";
+import { BaseUpdateService } from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  applyClassTokenEdits,
+  type ClassTokenEdit,
+} from "../shared/classNameEditor";
+import { logger } from "../../utils/logger";
+
+export type LayoutField =
+  | "display"
+  | "flexDirection"
+  | "flexWrap"
+  | "justifyContent"
+  | "alignItems"
+  | "gridColumns"
+  | "gap";
+
+export interface LayoutChange {
+  old: string;
+  new: string;
+}
+
+export interface LayoutUpdatePayload {
+  display?: LayoutChange;
+  flexDirection?: LayoutChange;
+  flexWrap?: LayoutChange;
+  justifyContent?: LayoutChange;
+  alignItems?: LayoutChange;
+  gridColumns?: LayoutChange;
+  gap?: LayoutChange;
+  text?: string;
+  tag: string;
+  file: string;
+  forceGlobal?: boolean;
+  className?: string;
+  elementTag?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  /** Line in `ownerFilePath` where the element starts, for elements without text or classes */
+  line?: number;
+}
+
+export type LayoutUpdateResult = BaseUpdateResult;
+
+export const LAYOUT_FIELDS: LayoutField[] = [
+  "display",
+  "flexDirection",
+  "flexWrap",
+  "justifyContent",
+  "alignItems",
+  "gridColumns",
+  "gap",
+];
+
+const LAYOUT_TOKEN_REGEX: Record<LayoutField, RegExp> = {
+  display:
+    /^(?:block|inline-block|inline|flex|inline-flex|grid|inline-grid|contents|hidden)$/,
+  flexDirection: /^flex-(?:row|row-reverse|col|col-reverse)$/,
+  flexWrap: /^flex-(?:wrap|wrap-reverse|nowrap)$/,
+  justifyContent:
+    /^justify-(?:normal|start|end|center|between|around|evenly|stretch)$/,
+  alignItems: /^items-(?:start|end|center|baseline|stretch)$/,
+  gridColumns: /^grid-cols-(?:\d+|none|subgrid|\[[^\]\s]+\])$/,
+  gap: /^gap(?:-[xy])?-(?:\d+(?:\.\d+)?|px|\[[^\]\s]+\])$/,
+};
+
+const FIELD_LABELS: Record<LayoutField, string> = {
+  display: "display",
+  flexDirection: "flex direction",
+  flexWrap: "flex wrap",
+  justifyContent: "justify content",
+  alignItems: "align items",
+  gridColumns: "grid columns",
+  gap: "gap",
+};
+
+export class LayoutUpdateService extends BaseUpdateService {
+  private collectChanges(
+    payload: LayoutUpdatePayload
+  ): Array<[LayoutField, LayoutChange]> {
+    return LAYOUT_FIELDS.flatMap((field) => {
+      const change = payload[field];
+      return change ? [[field, change] as [LayoutField, LayoutChange]] : [];
+    });
+  }
+
+  private buildClassTokenEdits(
+    changes: Array<[LayoutField, LayoutChange]>
+  ): ClassTokenEdit[] {
+    return changes.map(([field, change]) => ({
+      matches: (token: string) => LAYOUT_TOKEN_REGEX[field].test(token),
+      tokens: change.new ? [change.new] : [],
+    }));
+  }
+
+  async updateLayout(
+    payload: LayoutUpdatePayload
+  ): Promise<LayoutUpdateResult> {
+    const {
+      text = "",
+      tag,
+      file,
+      forceGlobal,
+      className = "",
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+      line,
+    } = payload;
+
+    try {
+      const changes = this.collectChanges(payload);
+
+      for (const [field, change] of changes) {
+        if (change.new && !LAYOUT_TOKEN_REGEX[field].test(change.new)) {
+          return {
+            success: false,
+            error: `Unsupported ${FIELD_LABELS[field]} class "${change.new}"`,
+          };
+        }
+      }
+
+      const lookupText =
+        textContent && textContent.length > 0 ? textContent : text;
+
+      const filePath = await this.resolveFileUsingMetadata({
+        lookupText,
+        tag,
+        file,
+        serviceName: "LayoutUpdate",
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+      if (!filePath) {
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      if (!fs.existsSync(filePath)) {
+        return {
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
+      }
+
+      const source = fs.readFileSync(filePath, "utf8");
+      const { ast, possibleNames } = this.parseAndFindElements(source, tag);
+      const oldTokens = changes
+        .map(([, change]) => change.old)
+        .filter(Boolean)
+        .join(" ");
+
+      const matcher = this.createStyleTargetMatcher({
+        text: lookupText,
+        className,
+        classMatch: oldTokens,
+        line,
+      });
+      if (!matcher) {
+        return {
+          success: false,
+          error: `<${tag}> has no text or classes to find it by`,
+        };
+      }
+
+      const match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher,
+        className,
+        text: lookupText,
+        serviceName: "LayoutUpdate",
+      });
+
+      if (!match) {
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      const riskWarning = this.checkSmartEditRisk({
+        sourceFilePath: filePath,
+        elementName: match.elementName,
+        hasInlineClassName: match.hasInlineClassName,
+        usagePropNames: match.usagePropNames,
+        forceGlobal,
+      });
+
+      if (riskWarning && !match.hasInlineClassName) {
+        return riskWarning;
+      }
+
+      const attributes =
+        match.matchedNode.openingElement.attributes ||
+        (match.matchedNode.openingElement.attributes = []);
+
+      const outcome = applyClassTokenEdits(
+        attributes,
+        this.buildClassTokenEdits(changes)
+      );
+
+      if (outcome === "unsupported") {
+        return {
+          success: false,
+          error: `Cannot update layout on <${match.elementName || tag}> because its className is computed at runtime.`,
+        };
+      }
+
+      if (outcome === "unchanged") {
+        return {
+          success: true,
+          message: `Layout of <${tag}> already matches`,
+        };
+      }
+
+      logger.info({
+        message: `[LayoutUpdate] Rewriting layout classes`,
+        context: {
+          filePath,
+          fields: changes.map(([field]) => field),
+        },
+      });
+
+      await this.writeFormattedSource(filePath, ast, source);
+
+      return { success: true, message: "Layout updated successfully" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[LayoutUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+}
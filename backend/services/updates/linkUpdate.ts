@@ -0,0 +1,275 @@
+import fs from "fs";
+import jscodeshift from "jscodeshift";
+import type { ASTPath, JSXElement } from "jscodeshift";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+  type ParsedAst,
+} from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  findAttribute,
+  removeAttribute,
+  setAttribute,
+  type JSXAttributeList,
+} from "../shared/jsxAttributes";
+import {
+  findMatchingRoute,
+  listProjectRoutes,
+  toInternalPathname,
+} from "../project/projectRoutes";
+import { detectFramework } from "../../utils/detectFramework";
+import { logger } from "../../utils/logger";
+
+const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+export type LinkField = "href" | "target" | "rel";
+
+export interface LinkUpdatePayload {
+  /** The href attribute as rendered in the DOM */
+  currentHref: string;
+  text?: string;
+  href?: string;
+  /** A string sets the attribute, null removes it */
+  target?: string | null;
+  rel?: string | null;
+  tag: string;
+  file: string;
+  forceGlobal?: boolean;
+  className?: string;
+  elementTag?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+export interface LinkUpdateResult extends BaseUpdateResult {
+  /** Set when the new href is internal and no page serves it */
+  missingRoute?: string;
+}
+
+export const LINK_FIELDS: LinkField[] = ["href", "target", "rel"];
+
+export class LinkUpdateService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  async updateLink(payload: LinkUpdatePayload): Promise<LinkUpdateResult> {
+    const {
+      currentHref,
+      text,
+      tag,
+      file,
+      forceGlobal,
+      ownerComponentName,
+      ownerFilePath,
+    } = payload;
+
+    try {
+      const candidateFiles = await this.resolveCandidateFiles({
+        file,
+        tag: "a",
+        serviceName: "LinkUpdate",
+        lookupText: text,
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+      for (const filePath of candidateFiles) {
+        const source = fs.readFileSync(filePath, "utf8");
+        const { ast, possibleNames } = this.parseAndFindElements(source, "a");
+        const match = this.findLinkMatch(filePath, ast, possibleNames, payload);
+        if (!match) {
+          continue;
+        }
+
+        const riskWarning = this.checkSmartEditRisk({
+          sourceFilePath: filePath,
+          elementName: match.elementName,
+          hasInlineClassName: match.hasInlineClassName,
+          usagePropNames: match.usagePropNames,
+          forceGlobal,
+        });
+
+        if (riskWarning && !match.hasInlineClassName) {
+          return riskWarning;
+        }
+
+        const editError = this.applyLinkEdits(match, payload);
+        if (editError) {
+          return { success: false, error: editError };
+        }
+
+        const missingRoute = this.findMissingRoute(payload.href);
+        const updated = await this.writeFormattedSource(filePath, ast, source);
+        if (!updated) {
+          return {
+            success: true,
+            message: `Link in <${match.elementName || tag}> already matches`,
+            missingRoute,
+          };
+        }
+
+        logger.info({
+          message: `[LinkUpdate] Rewrote link attributes`,
+          context: {
+            filePath,
+            fields: LINK_FIELDS.filter((field) => payload[field] !== undefined),
+            missingRoute,
+          },
+        });
+
+        return {
+          success: true,
+          message: `Updated link in <${match.elementName || tag}>`,
+          filePath,
+          missingRoute,
+        };
+      }
+
+      return {
+        success: false,
+        error: `Link to "${currentHref}" not found in <${tag}> elements`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[LinkUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Match by literal href, narrowing by text when the same destination is
+   * linked more than once, then fall back to text alone for hrefs built at
+   * runtime.
+   */
+  private findLinkMatch(
+    filePath: string,
+    ast: ParsedAst,
+    possibleNames: string[],
+    payload: LinkUpdatePayload
+  ): ElementMatchContext | null {
+    const { currentHref, text, className } = payload;
+    let candidates = this.collectCandidateElements(ast, possibleNames, (node) =>
+      this.hrefMatches(node, currentHref)
+    );
+
+    if (candidates.length > 1 && text) {
+      const normalizedText = this.normalizeText(text);
+      const narrowed = candidates.filter(
+        (candidate) => this.normalizeText(candidate.text) === normalizedText
+      );
+      if (narrowed.length > 0) {
+        candidates = narrowed;
+      }
+    }
+
+    if (candidates.length === 0 && text) {
+      candidates = this.collectCandidateElements(
+        ast,
+        possibleNames,
+        this.createTextOrClassNameMatcher(text, className)
+      );
+    }
+
+    const best =
+      candidates.length === 1
+        ? {
+            matchedNode: candidates[0].node as JSXElement,
+            matchedPath: candidates[0].path as ASTPath<JSXElement>,
+          }
+        : this.selectBestMatchingElement(
+            candidates,
+            className ?? "",
+            text ?? "",
+            "LinkUpdate"
+          );
+
+    if (!best) {
+      return null;
+    }
+
+    return this.buildElementMatchContext(
+      filePath,
+      ast,
+      best.matchedNode,
+      best.matchedPath
+    );
+  }
+
+  private applyLinkEdits(
+    match: ElementMatchContext,
+    payload: LinkUpdatePayload
+  ): string | null {
+    const opening = match.matchedNode.openingElement;
+    const attributes: JSXAttributeList =
+      opening.attributes || (opening.attributes = []);
+    const elementLabel = match.elementName ?? "a";
+
+    for (const field of LINK_FIELDS) {
+      const value = payload[field];
+      if (value === undefined) {
+        continue;
+      }
+
+      const existing = findAttribute(attributes, field);
+      if (existing?.value && this.extractStringValue(existing.value) === null) {
+        return `Cannot update the ${field} of <${elementLabel}> because it is computed at runtime. Edit the value passed in instead.`;
+      }
+
+      if (value === null) {
+        if (field === "href") {
+          return `<${elementLabel}> needs an href`;
+        }
+        removeAttribute(attributes, field);
+      } else {
+        setAttribute(attributes, field, j.stringLiteral(value));
+      }
+    }
+
+    return null;
+  }
+
+  private findMissingRoute(href: string | undefined): string | undefined {
+    if (href === undefined) {
+      return undefined;
+    }
+
+    const pathname = toInternalPathname(href);
+    if (!pathname) {
+      return undefined;
+    }
+
+    const routes = listProjectRoutes(
+      this.projectRoot,
+      detectFramework(this.projectRoot)
+    );
+    // Without any discovered pages there is nothing to compare against
+    if (routes.length === 0 || findMatchingRoute(routes, pathname)) {
+      return undefined;
+    }
+    return pathname;
+  }
+
+  private hrefMatches(node: JSXElement, runtimeHref: string): boolean {
+    const hrefAttr = findAttribute(node.openingElement.attributes, "href");
+    const literal = hrefAttr?.value
+      ? this.extractStringValue(hrefAttr.value)
+      : null;
+    if (literal === null) {
+      return false;
+    }
+
+    return this.normalizeHref(literal) === this.normalizeHref(runtimeHref);
+  }
+
+  private normalizeHref(href: string): string {
+    const trimmed = href.trim();
+    return trimmed.length > 1 ? trimmed.replace(/\/+(?=$|[?#])/, "") : trimmed;
+  }
+}
@@ -0,0 +1,286 @@
+import fs from "fs";
+import jscodeshift from "jscodeshift";
+import type { JSXAttribute, JSXSpreadAttribute } from "jscodeshift";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+} from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  extractLiteralAttributes,
+  type LiteralAttribute,
+} from "../shared/elementMatcher";
+import { logger } from "../../utils/logger";
+
+const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+export type PropValue = string | number | boolean;
+
+export interface PropTargetPayload {
+  /** Text content, or an identifying attribute value for empty elements */
+  text?: string;
+  tag: string;
+  file: string;
+  className?: string;
+  elementTag?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+export interface PropUpdatePayload extends PropTargetPayload {
+  name: string;
+  /** A literal sets or adds the prop, null removes it */
+  value: PropValue | null;
+  forceGlobal?: boolean;
+}
+
+export interface PropInspectResult {
+  success: boolean;
+  error?: string;
+  filePath?: string;
+  elementName?: string;
+  props?: LiteralAttribute[];
+  /** Props whose values are expressions and can't be edited here */
+  dynamicProps?: string[];
+}
+
+export type PropUpdateResult = BaseUpdateResult;
+
+type JSXAttributeList = Array<
+  JSXAttribute | JSXSpreadAttribute | null | undefined
+>;
+
+// Attribute strings can't escape quotes, so these values need {"..."}
+const UNSAFE_ATTRIBUTE_STRING = /["\\\n\r{}]/;
+
+export class PropUpdateService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  async inspectProps(payload: PropTargetPayload): Promise<PropInspectResult> {
+    try {
+      const located = await this.locateElement(payload);
+      if (!located) {
+        return {
+          success: false,
+          error: `Element <${payload.tag}> "${payload.text ?? ""}" not found`,
+        };
+      }
+
+      const { match } = located;
+      const { literal, dynamic } = extractLiteralAttributes(match.matchedNode);
+      return {
+        success: true,
+        filePath: match.filePath,
+        elementName: match.elementName,
+        props: literal,
+        dynamicProps: dynamic,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[PropInspect] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+
+  async updateProp(payload: PropUpdatePayload): Promise<PropUpdateResult> {
+    const { name, value, tag, forceGlobal } = payload;
+
+    try {
+      const located = await this.locateElement(payload);
+      if (!located) {
+        return {
+          success: false,
+          error: `Element <${tag}> "${payload.text ?? ""}" not found`,
+        };
+      }
+
+      const { match, source } = located;
+
+      const riskWarning = this.checkSmartEditRisk({
+        sourceFilePath: match.filePath,
+        elementName: match.elementName,
+        hasInlineClassName: match.hasInlineClassName,
+        usagePropNames: match.usagePropNames,
+        forceGlobal,
+      });
+
+      if (riskWarning && !match.hasInlineClassName) {
+        return riskWarning;
+      }
+
+      const editError = this.applyPropEdit(match, name, value);
+      if (editError) {
+        return { success: false, error: editError };
+      }
+
+      const updated = await this.writeFormattedSource(
+        match.filePath,
+        match.ast,
+        source
+      );
+      const elementLabel = match.elementName || tag;
+      if (!updated) {
+        return {
+          success: true,
+          message: `${name} on <${elementLabel}> already matches`,
+        };
+      }
+
+      logger.info({
+        message: `[PropUpdate] Rewrote prop`,
+        context: { filePath: match.filePath, name, removed: value === null },
+      });
+
+      return {
+        success: true,
+        message:
+          value === null
+            ? `Removed ${name} from <${elementLabel}>`
+            : `Updated ${name} on <${elementLabel}>`,
+        filePath: match.filePath,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[PropUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+
+  private async locateElement(
+    payload: PropTargetPayload
+  ): Promise<{ match: ElementMatchContext; source: string } | null> {
+    const {
+      text = "",
+      tag,
+      file,
+      className,
+      elementTag,
+      ownerComponentName,
+      ownerFilePath,
+    } = payload;
+
+    const candidateFiles = await this.resolveCandidateFiles({
+      file,
+      tag: elementTag ?? tag,
+      serviceName: "PropUpdate",
+      lookupText: text,
+      ownerComponentName,
+      ownerFilePath,
+    });
+
+    for (const filePath of candidateFiles) {
+      const source = fs.readFileSync(filePath, "utf8");
+      const { ast, possibleNames } = this.parseAndFindElements(
+        source,
+        elementTag ?? tag
+      );
+
+      const match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher: this.createElementMatcher({
+          identifier: text,
+          textContent: text,
+          className,
+          elementTag,
+        }),
+        className: className ?? "",
+        text,
+        serviceName: "PropUpdate",
+      });
+
+      if (match) {
+        return { match, source };
+      }
+    }
+
+    return null;
+  }
+
+  private applyPropEdit(
+    match: ElementMatchContext,
+    name: string,
+    value: PropValue | null
+  ): string | null {
+    const opening = match.matchedNode.openingElement;
+    const attributes: JSXAttributeList =
+      opening.attributes || (opening.attributes = []);
+    const elementLabel = match.elementName ?? "element";
+
+    const index = attributes.findIndex(
+      (attr) =>
+        attr?.type === "JSXAttribute" && this.getAttributeName(attr) === name
+    );
+    const existing = index === -1 ? null : (attributes[index] as JSXAttribute);
+
+    if (existing) {
+      const { dynamic } = extractLiteralAttributes({
+        openingElement: { attributes: [existing] },
+      });
+      if (dynamic.length > 0) {
+        return `Cannot edit ${name} on <${elementLabel}> because its value is computed at runtime`;
+      }
+    }
+
+    if (value === null) {
+      if (existing) {
+        attributes.splice(index, 1);
+      }
+      return null;
+    }
+
+    const nextValue = this.createAttributeValue(value);
+    if (existing) {
+      existing.value = nextValue;
+      return null;
+    }
+
+    attributes.push(j.jsxAttribute(this.createAttributeName(name), nextValue));
+    return null;
+  }
+
+  private createAttributeValue(value: PropValue): JSXAttribute["value"] {
+    if (value === true) {
+      return null;
+    }
+    if (typeof value === "boolean") {
+      return j.jsxExpressionContainer(j.booleanLiteral(value));
+    }
+    if (typeof value === "number") {
+      return j.jsxExpressionContainer(
+        value < 0
+          ? j.unaryExpression("-", j.numericLiteral(-value))
+          : j.numericLiteral(value)
+      );
+    }
+    return UNSAFE_ATTRIBUTE_STRING.test(value)
+      ? j.jsxExpressionContainer(j.stringLiteral(value))
+      : j.stringLiteral(value);
+  }
+
+  private getAttributeName(attr: JSXAttribute): string {
+    return attr.name.type === "JSXNamespacedName"
+      ? `${attr.name.namespace.name}:${attr.name.name.name}`
+      : (attr.name.name as string);
+  }
+
+  private createAttributeName(name: string): JSXAttribute["name"] {
+    const [namespace, local] = name.split(":");
+    return local
+      ? j.jsxNamespacedName(j.jsxIdentifier(namespace), j.jsxIdentifier(local))
+      : j.jsxIdentifier(name);
+  }
+}
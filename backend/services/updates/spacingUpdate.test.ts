@@ -0,0 +1,66 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { SpacingUpdateService } from "./spacingUpdate";
+
+const PAGE = `export default function Page() {
+  return (
+    <main>
+      <div />
+      <p>Body</p>
+      <div />
+    </main>
+  );
+}
+`;
+
+describe("SpacingUpdateService", () => {
+  let projectRoot: string;
+  let pagePath: string;
+  let service: SpacingUpdateService;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-spacing-"));
+    pagePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, PAGE, "utf8");
+    service = new SpacingUpdateService(projectRoot);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("finds an element without text or classes by its line", async () => {
+    const result = await service.updateSpacing({
+      spacing: [{ group: "padding", old: [], new: ["p-4"] }],
+      text: "",
+      className: "",
+      tag: "div",
+      file: "app/page.tsx",
+      ownerFilePath: "app/page.tsx",
+      line: 6,
+    });
+
+    expect(result.success).toBe(true);
+    const updated = fs.readFileSync(pagePath, "utf8");
+    expect(updated).toContain("    <main>\n      <div />\n      <p>Body</p>");
+    expect(updated.indexOf('padding: "1rem"')).toBeGreaterThan(
+      updated.indexOf("<p>Body</p>")
+    );
+  });
+
+  it("asks for a location when there is nothing to match on", async () => {
+    const result = await service.updateSpacing({
+      spacing: [{ group: "padding", old: [], new: ["p-4"] }],
+      tag: "div",
+      file: "app/page.tsx",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("<div> has no text or classes to find it by");
+    expect(fs.readFileSync(pagePath, "utf8")).toBe(PAGE);
+  });
+});
@@ -0,0 +1,348 @@
+import fs from "fs";
+import { BaseUpdateService } from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  applyClassTokenEdits,
+  applyInlineStyleEdit,
+  type AttributeEditOutcome,
+  type ClassTokenEdit,
+  type InlineStyleEdit,
+} from "../shared/classNameEditor";
+import { detectFramework } from "../../utils/detectFramework";
+import { logger } from "../../utils/logger";
+
+export type SpacingGroup = "padding" | "margin" | "gap";
+
+export interface SpacingGroupUpdate {
+  group: SpacingGroup;
+  old: string[];
+  new: string[];
+}
+
+export interface SpacingUpdatePayload {
+  spacing: SpacingGroupUpdate[];
+  text?: string;
+  tag: string;
+  file: string;
+  forceGlobal?: boolean;
+  className?: string;
+  elementTag?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  /** Line in `ownerFilePath` where the element starts, for elements without text or classes */
+  line?: number;
+}
+
+export type SpacingUpdateResult = BaseUpdateResult;
+
+export const SPACING_GROUPS: SpacingGroup[] = ["padding", "margin", "gap"];
+
+const SPACING_VALUE_PATTERN = "(?:\\d+(?:\\.\\d+)?|px|auto|\\[[^\\]\\s]+\\])";
+
+// Longest prefixes first so `gap-x-4` is not read as `gap` with value `x-4`
+const SPACING_PREFIXES: Record<SpacingGroup, string[]> = {
+  padding: ["px", "py", "pt", "pr", "pb", "pl", "ps", "pe", "p"],
+  margin: ["mx", "my", "mt", "mr", "mb", "ml", "ms", "me", "m"],
+  gap: ["gap-x", "gap-y", "gap"],
+};
+
+const STYLE_PROPERTIES: Record<string, string[]> = {
+  p: ["padding"],
+  px: ["paddingLeft", "paddingRight"],
+  py: ["paddingTop", "paddingBottom"],
+  pt: ["paddingTop"],
+  pr: ["paddingRight"],
+  pb: ["paddingBottom"],
+  pl: ["paddingLeft"],
+  ps: ["paddingInlineStart"],
+  pe: ["paddingInlineEnd"],
+  m: ["margin"],
+  mx: ["marginLeft", "marginRight"],
+  my: ["marginTop", "marginBottom"],
+  mt: ["marginTop"],
+  mr: ["marginRight"],
+  mb: ["marginBottom"],
+  ml: ["marginLeft"],
+  ms: ["marginInlineStart"],
+  me: ["marginInlineEnd"],
+  gap: ["gap"],
+  "gap-x": ["columnGap"],
+  "gap-y": ["rowGap"],
+};
+
+const GROUP_STYLE_PROPERTIES: Record<SpacingGroup, string[]> = {
+  padding: [
+    ...new Set(SPACING_PREFIXES.padding.flatMap((p) => STYLE_PROPERTIES[p])),
+    "paddingInline",
+    "paddingBlock",
+  ],
+  margin: [
+    ...new Set(SPACING_PREFIXES.margin.flatMap((p) => STYLE_PROPERTIES[p])),
+    "marginInline",
+    "marginBlock",
+  ],
+  gap: ["gap", "columnGap", "rowGap", "gridGap"],
+};
+
+const SPACING_TOKEN_REGEX: Record<SpacingGroup, RegExp> = {
+  padding: createSpacingTokenRegex("padding"),
+  margin: createSpacingTokenRegex("margin"),
+  gap: createSpacingTokenRegex("gap"),
+};
+
+function createSpacingTokenRegex(group: SpacingGroup): RegExp {
+  const prefixes = SPACING_PREFIXES[group].join("|");
+  const negative = group === "margin" ? "(-)?" : "()";
+  return new RegExp(`^${negative}(${prefixes})-(${SPACING_VALUE_PATTERN})$`);
+}
+
+export function isSpacingGroup(value: unknown): value is SpacingGroup {
+  return (
+    typeof value === "string" &&
+    (SPACING_GROUPS as string[]).includes(value)
+  );
+}
+
+export class SpacingUpdateService extends BaseUpdateService {
+  private isSpacingToken(group: SpacingGroup, token: string): boolean {
+    return SPACING_TOKEN_REGEX[group].test(token);
+  }
+
+  /**
+   * Convert a Tailwind spacing value to CSS using the default 0.25rem scale.
+   */
+  private spacingValueToCss(value: string, negative: boolean): string {
+    let cssValue: string;
+    if (value === "px") {
+      cssValue = "1px";
+    } else if (value === "auto") {
+      return "auto";
+    } else if (value.startsWith("[")) {
+      cssValue = value.slice(1, -1).replace(/_/g, " ");
+    } else {
+      const scale = parseFloat(value);
+      if (scale === 0) {
+        return "0";
+      }
+      cssValue = `${scale * 0.25}rem`;
+    }
+    return negative ? `-${cssValue}` : cssValue;
+  }
+
+  private findInvalidToken(spacing: SpacingGroupUpdate[]): string | null {
+    for (const update of spacing) {
+      const invalid = update.new.find(
+        (token) => !this.isSpacingToken(update.group, token)
+      );
+      if (invalid) {
+        return invalid;
+      }
+    }
+    return null;
+  }
+
+  private buildClassTokenEdits(spacing: SpacingGroupUpdate[]): ClassTokenEdit[] {
+    return spacing.map((update) => ({
+      matches: (token: string) => this.isSpacingToken(update.group, token),
+      tokens: update.new,
+    }));
+  }
+
+  private buildInlineStyleEdit(spacing: SpacingGroupUpdate[]): InlineStyleEdit {
+    const edit: InlineStyleEdit = { remove: [], set: {} };
+
+    for (const update of spacing) {
+      edit.remove.push(...GROUP_STYLE_PROPERTIES[update.group]);
+
+      for (const token of update.new) {
+        const parsed = SPACING_TOKEN_REGEX[update.group].exec(token);
+        if (!parsed) {
+          continue;
+        }
+        const [, negative, prefix, value] = parsed;
+        const cssValue = this.spacingValueToCss(value, negative === "-");
+        for (const property of STYLE_PROPERTIES[prefix] ?? []) {
+          edit.set[property] = cssValue;
+        }
+      }
+    }
+
+    return edit;
+  }
+
+  async updateSpacing(
+    payload: SpacingUpdatePayload
+  ): Promise<SpacingUpdateResult> {
+    const {
+      spacing,
+      text = "",
+      tag,
+      file,
+      forceGlobal,
+      className = "",
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+      line,
+    } = payload;
+
+    try {
+      const invalidToken = this.findInvalidToken(spacing);
+      if (invalidToken) {
+        return {
+          success: false,
+          error: `Unsupported spacing class "${invalidToken}"`,
+        };
+      }
+
+      const lookupText =
+        textContent && textContent.length > 0 ? textContent : text;
+
+      const filePath = await this.resolveFileUsingMetadata({
+        lookupText,
+        tag,
+        file,
+        serviceName: "SpacingUpdate",
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+      if (!filePath) {
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      if (!fs.existsSync(filePath)) {
+        return {
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
+      }
+
+      const useInlineStyle = !detectFramework(this.projectRoot).hasTailwind;
+      const source = fs.readFileSync(filePath, "utf8");
+      const { ast, possibleNames } = this.parseAndFindElements(source, tag);
+      const oldTokens = spacing.flatMap((update) => update.old).join(" ");
+
+      const matcher = this.createStyleTargetMatcher({
+        text: lookupText,
+        className,
+        classMatch: oldTokens,
+        line,
+      });
+      if (!matcher) {
+        return {
+          success: false,
+          error: `<${tag}> has no text or classes to find it by`,
+        };
+      }
+
+      const match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher,
+        className,
+        text: lookupText,
+        serviceName: "SpacingUpdate",
+      });
+
+      if (!match) {
+        const usageResolution = lookupText
+          ? this.resolveComponentUsage(lookupText, ast, filePath)
+          : null;
+        const componentMatch =
+          usageResolution?.localUsage ?? usageResolution?.externalUsage ?? null;
+
+        if (componentMatch) {
+          const warning = this.checkSmartEditRisk({
+            sourceFilePath:
+              usageResolution?.externalUsage?.filePath ?? filePath,
+            elementName: componentMatch.componentName,
+            hasInlineClassName: componentMatch.hasInlineClassName,
+            usagePropNames: componentMatch.propNames,
+            forceGlobal,
+          });
+
+          if (warning) {
+            return warning;
+          }
+
+          return {
+            success: false,
+            error: `Unable to apply spacing update automatically for shared component <${componentMatch.componentName}>. Please edit the component manually.`,
+          };
+        }
+
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      const riskWarning = this.checkSmartEditRisk({
+        sourceFilePath: filePath,
+        elementName: match.elementName,
+        hasInlineClassName: match.hasInlineClassName,
+        usagePropNames: match.usagePropNames,
+        forceGlobal,
+      });
+
+      if (riskWarning && !match.hasInlineClassName) {
+        return riskWarning;
+      }
+
+      const attributes =
+        match.matchedNode.openingElement.attributes ||
+        (match.matchedNode.openingElement.attributes = []);
+
+      const outcome: AttributeEditOutcome = useInlineStyle
+        ? applyInlineStyleEdit(attributes, this.buildInlineStyleEdit(spacing))
+        : applyClassTokenEdits(attributes, this.buildClassTokenEdits(spacing));
+
+      if (outcome === "unsupported") {
+        return {
+          success: false,
+          error: useInlineStyle
+            ? `Cannot update spacing on <${match.elementName || tag}> because its style prop is not an object literal.`
+            : `Cannot update spacing on <${match.elementName || tag}> because its className is computed at runtime.`,
+        };
+      }
+
+      if (outcome === "unchanged") {
+        return {
+          success: true,
+          message: `Spacing in <${tag}> already matches`,
+        };
+      }
+
+      logger.info({
+        message: `[SpacingUpdate] Rewriting spacing`,
+        context: {
+          filePath,
+          mode: useInlineStyle ? "inline-style" : "tailwind",
+          groups: spacing.map((update) => update.group),
+        },
+      });
+
+      await this.writeFormattedSource(filePath, ast, source);
+
+      return {
+        success: true,
+        message: `Updated spacing in <${tag}>`,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[SpacingUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+}
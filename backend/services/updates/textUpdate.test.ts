@@ -0,0 +1,92 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TextUpdateService } from "./textUpdate";
+
+const PAGE = `const features = [
+  { title: "Fast builds", body: "Ship in seconds" },
+  { title: "Type safe", body: "Catch bugs early" },
+];
+
+export default function Page() {
+  return (
+    <ul>
+      {features.map((feature) => (
+        <li key={feature.title}>
+          <h3 className="title">{feature.title}</h3>
+          <span className="badge">New</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+`;
+
+describe("TextUpdateService list edits", () => {
+  let projectRoot: string;
+  let pagePath: string;
+  let service: TextUpdateService;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-text-"));
+    pagePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, PAGE, "utf8");
+    service = new TextUpdateService(projectRoot);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it("edits the data entry of a single item", async () => {
+    const result = await service.updateText({
+      oldText: "Type safe",
+      newText: "Fully typed",
+      tag: "h3",
+      file: "app/page.tsx",
+      className: "title",
+      listEditMode: "item",
+    });
+
+    expect(result.success).toBe(true);
+    const updated = fs.readFileSync(pagePath, "utf8");
+    expect(updated).toContain(
+      '{ title: "Fully typed", body: "Catch bugs early" }'
+    );
+    expect(updated).toContain("{feature.title}</h3>");
+  });
+
+  it("refuses template edits of text bound to the data", async () => {
+    const result = await service.updateText({
+      oldText: "Type safe",
+      newText: "Fully typed",
+      tag: "h3",
+      file: "app/page.tsx",
+      className: "title",
+      listEditMode: "template",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("{feature.title}");
+    expect(fs.readFileSync(pagePath, "utf8")).toBe(PAGE);
+  });
+
+  it("edits static template text for every item", async () => {
+    const result = await service.updateText({
+      oldText: "New",
+      newText: "Beta",
+      tag: "span",
+      file: "app/page.tsx",
+      className: "badge",
+      listEditMode: "template",
+    });
+
+    expect(result.success).toBe(true);
+    const updated = fs.readFileSync(pagePath, "utf8");
+    expect(updated).toContain('<span className="badge">Beta</span>');
+    expect(updated).toContain("{feature.title}</h3>");
+  });
+});
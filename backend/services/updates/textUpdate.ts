@@ -1,7 +1,23 @@
 import fs from "fs";
+import path from "path";
 import jscodeshift from "jscodeshift";
-import { BaseUpdateService, ElementMatchContext } from "../shared/BaseUpdateService";
-import { BaseUpdateResult } from "../shared/types";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+  ListDataEntry,
+} from "../shared/BaseUpdateService";
+import { BaseUpdateResult, ListEditMode } from "../shared/types";
+import {
+  findLocaleMessageFiles,
+  findTranslationCall,
+  matchesLocale,
+  messageHasPlaceholders,
+  messageMatchesText,
+  resolveTranslationEntries,
+  updateMessageSource,
+  type TranslationCall,
+} from "../shared/translations";
+import { createCandidate } from "../shared/elementMatcher";
 import { logger } from "../../utils/logger";
 
 export interface TextUpdatePayload {
@@ -15,10 +31,26 @@ export interface TextUpdatePayload {
   textContent?: string;
   ownerComponentName?: string;
   ownerFilePath?: string;
+  listEditMode?: ListEditMode;
+  /** Locale the page is rendered in, usually `<html lang>` */
+  locale?: string;
+  /** Write translated text to these locales instead of the active one */
+  translationLocales?: string[];
 }
 
 export type TextUpdateResult = BaseUpdateResult;
 
+interface CallSite {
+  filePath: string;
+  line?: number;
+}
+
+interface UsageUpdateResult {
+  updated: boolean;
+  currentFileUpdated: boolean;
+  callSites: CallSite[];
+}
+
 export class TextUpdateService extends BaseUpdateService {
   async updateText(payload: TextUpdatePayload): Promise<TextUpdateResult> {
     const { oldText, newText, tag, file, forceGlobal, className } = payload;
@@ -60,16 +92,38 @@ export class TextUpdateService extends BaseUpdateService {
       let found = false;
       let warningResult: BaseUpdateResult | null = null;
       let currentFileModified = false;
+      let listEditMessage: string | null = null;
+      let callSites: CallSite[] = [];
 
-      const localMatch = this.findLocalElementMatch({
-        filePath,
-        ast,
-        possibleNames,
-        matcher: this.createTextOrClassNameMatcher(lookupText, className),
-        className,
-        text: lookupText,
-        serviceName: "TextUpdate",
-      });
+      const localMatch =
+        this.findTranslatedElement({
+          filePath,
+          ast,
+          possibleNames,
+          className,
+          text: lookupText,
+        }) ??
+        this.findLocalElementMatch({
+          filePath,
+          ast,
+          possibleNames,
+          matcher: this.createTextOrClassNameMatcher(lookupText, className),
+          className,
+          text: lookupText,
+          serviceName: "TextUpdate",
+        });
+
+      const translationCall = localMatch
+        ? findTranslationCall(localMatch.matchedPath)
+        : null;
+      if (translationCall) {
+        return await this.updateTranslation(translationCall, {
+          oldText: lookupText,
+          newText,
+          locale: payload.locale,
+          translationLocales: payload.translationLocales,
+        });
+      }
 
       if (localMatch) {
         const riskWarning = this.checkSmartEditRisk({
@@ -84,22 +138,52 @@ export class TextUpdateService extends BaseUpdateService {
           warningResult = riskWarning;
           found = true;
         } else {
-          const children = localMatch.matchedNode.children || [];
-          for (let i = 0; i < children.length; i++) {
-            const child = children[i];
-            if (child.type === "JSXText" && child.value) {
-              const normalizedChild = this.normalizeText(child.value);
-              if (
-                normalizedOldText.length > 0 &&
-                normalizedChild === normalizedOldText
-              ) {
-                const leadingWhitespace = child.value.match(/^\s*/)?.[0] || "";
-                const trailingWhitespace = child.value.match(/\s*$/)?.[0] || "";
-                child.value = leadingWhitespace + newText + trailingWhitespace;
-
-                found = true;
-                currentFileModified = true;
-                break;
+          const listEntry = this.findListDataEntry(
+            localMatch.matchedPath,
+            lookupText
+          );
+
+          if (listEntry && payload.listEditMode === "template") {
+            const binding = jscodeshift(
+              listEntry.expressionContainer
+            ).toSource();
+            return {
+              success: false,
+              error: `This text comes from ${binding}, so every item shows its own value. Edit this item instead to change its entry in ${this.describeListSource(listEntry)}.`,
+            };
+          } else if (listEntry) {
+            listEditMessage = this.applyListTextEdit(listEntry, newText);
+            found = true;
+            currentFileModified = true;
+          } else if (
+            payload.listEditMode === "item" &&
+            this.isRenderedFromList(localMatch.matchedPath)
+          ) {
+            return {
+              success: false,
+              error: `This text is written in the <${tag}> template shared by every list item, so it cannot be changed for a single item. Edit all items instead.`,
+            };
+          } else {
+            const children = localMatch.matchedNode.children || [];
+            for (let i = 0; i < children.length; i++) {
+              const child = children[i];
+              if (child.type === "JSXText" && child.value) {
+                const normalizedChild = this.normalizeText(child.value);
+                if (
+                  normalizedOldText.length > 0 &&
+                  normalizedChild === normalizedOldText
+                ) {
+                  const leadingWhitespace =
+                    child.value.match(/^\s*/)?.[0] || "";
+                  const trailingWhitespace =
+                    child.value.match(/\s*$/)?.[0] || "";
+                  child.value =
+                    leadingWhitespace + newText + trailingWhitespace;
+
+                  found = true;
+                  currentFileModified = true;
+                  break;
+                }
               }
             }
           }
@@ -115,9 +199,11 @@ export class TextUpdateService extends BaseUpdateService {
           localMatch,
           ownerComponentName: payload.ownerComponentName,
           ownerFilePath: payload.ownerFilePath,
+          requestedFilePath: this.resolveFilePath(file),
         });
 
         if (usageUpdate.updated) {
+          callSites = usageUpdate.callSites;
           found = true;
           if (usageUpdate.currentFileUpdated) {
             currentFileModified = true;
@@ -142,7 +228,11 @@ export class TextUpdateService extends BaseUpdateService {
 
       return {
         success: true,
-        message: `Updated text in <${tag}>`,
+        message:
+          listEditMessage ??
+          (callSites.length > 0
+            ? this.describeCallSites(tag, callSites)
+            : `Updated text in <${tag}>`),
       };
     } catch (error) {
       logger.error({
@@ -158,6 +248,239 @@ export class TextUpdateService extends BaseUpdateService {
     }
   }
 
+  /**
+   * Rewrites the string in the source array entry the `{item.prop}` binding
+   * reads. Template edits only ever change static text, so the binding stays.
+   */
+  private applyListTextEdit(entry: ListDataEntry, newText: string): string {
+    const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+    const { valueNode } = entry;
+    if (valueNode.type === "TemplateLiteral") {
+      const raw = newText.replace(/\\|`|\$\{/g, (token) => `\\${token}`);
+      valueNode.quasis = [j.templateElement({ cooked: newText, raw }, true)];
+      valueNode.expressions = [];
+    } else {
+      valueNode.value = newText;
+    }
+
+    return `Updated ${entry.propertyPath.join(".")} of item ${
+      entry.index + 1
+    } in ${this.describeListSource(entry)}`;
+  }
+
+  private describeListSource(entry: ListDataEntry): string {
+    return entry.context.sourceName
+      ? `"${entry.context.sourceName}"`
+      : "the list";
+  }
+
+  /**
+   * Elements rendering `{t("key")}` whose message equals the text in some
+   * locale. The text never appears in the component, so the regular
+   * matchers can only guess by className.
+   */
+  private findTranslatedElement(options: {
+    filePath: string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ast: any;
+    possibleNames: string[];
+    className: string;
+    text: string;
+  }): ElementMatchContext | null {
+    const { filePath, ast, possibleNames, className, text } = options;
+
+    const files = findLocaleMessageFiles(this.projectRoot);
+    if (files.length === 0) {
+      return null;
+    }
+
+    const sources = new Map<string, string>();
+    const readMessages = (messagesPath: string) => {
+      if (!sources.has(messagesPath)) {
+        sources.set(messagesPath, this.readSourceFile(messagesPath));
+      }
+      return sources.get(messagesPath) as string;
+    };
+
+    const candidates: ReturnType<typeof createCandidate>[] = [];
+    ast
+      .findJSXElements()
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .forEach((elementPath: any) => {
+        const elementName = this.getJsxElementName(
+          elementPath.node.openingElement?.name
+        );
+        if (!elementName || !possibleNames.includes(elementName)) {
+          return;
+        }
+
+        const call = findTranslationCall(elementPath);
+        if (!call) {
+          return;
+        }
+
+        const entries = resolveTranslationEntries(files, call, readMessages);
+        if (entries.some((entry) => messageMatchesText(entry.value, text))) {
+          candidates.push(createCandidate(elementPath.node, elementPath));
+        }
+      });
+
+    const best = this.selectBestMatchingElement(
+      candidates,
+      className,
+      text,
+      "TextUpdate:Translation"
+    );
+    return best
+      ? this.buildElementMatchContext(
+          filePath,
+          ast,
+          best.matchedNode,
+          best.matchedPath
+        )
+      : null;
+  }
+
+  /**
+   * Translated copy lives in the locale message files, so the edit goes to
+   * the key's value there and the component is left untouched. Only the
+   * active locale changes unless the client names other locales.
+   */
+  private async updateTranslation(
+    call: TranslationCall,
+    options: {
+      oldText: string;
+      newText: string;
+      locale?: string;
+      translationLocales?: string[];
+    }
+  ): Promise<TextUpdateResult> {
+    const { oldText, newText, locale, translationLocales } = options;
+    const keyLabel = call.namespace
+      ? `${call.namespace}${call.namespaceFromFile ? ":" : "."}${call.key}`
+      : call.key;
+
+    const files = findLocaleMessageFiles(this.projectRoot);
+    const entries = resolveTranslationEntries(files, call, (messagesPath) =>
+      this.readSourceFile(messagesPath)
+    );
+
+    if (entries.length === 0) {
+      return {
+        success: false,
+        error:
+          files.length === 0
+            ? `Text comes from translation key "${keyLabel}", but no locale message files were found`
+            : `Translation key "${keyLabel}" is not defined in any locale file`,
+      };
+    }
+
+    let targets = entries;
+    if (translationLocales && translationLocales.length > 0) {
+      targets = entries.filter((entry) =>
+        translationLocales.some((requested) =>
+          matchesLocale(entry.locale, requested)
+        )
+      );
+    } else {
+      const matching = entries.filter((entry) =>
+        messageMatchesText(entry.value, oldText)
+      );
+      const active =
+        (locale &&
+          matching.find((entry) => matchesLocale(entry.locale, locale))) ||
+        matching[0];
+      targets = active ? [active] : [];
+    }
+
+    if (targets.length === 0) {
+      return {
+        success: false,
+        error: `No locale defines "${keyLabel}" as "${oldText}". It may use placeholders, so edit the message file directly.`,
+      };
+    }
+
+    const withPlaceholders = targets.find((entry) =>
+      messageHasPlaceholders(entry.value)
+    );
+    if (withPlaceholders) {
+      return {
+        success: false,
+        error: `"${keyLabel}" in ${path.relative(
+          this.projectRoot,
+          withPlaceholders.filePath
+        )} uses placeholders or rich text, so edit it directly to keep them intact.`,
+      };
+    }
+
+    const written: typeof targets = [];
+    const skipped: typeof targets = [];
+    for (const target of targets) {
+      const source = this.readSourceFile(target.filePath);
+      const updated = updateMessageSource(source, target.keyPath, newText);
+      if (updated === null) {
+        skipped.push(target);
+        continue;
+      }
+      await this.writeSource(target.filePath, updated, source);
+      written.push(target);
+    }
+
+    const describeFiles = (files: typeof targets) =>
+      files
+        .map((entry) => path.relative(this.projectRoot, entry.filePath))
+        .join(", ");
+
+    if (written.length === 0) {
+      return {
+        success: false,
+        error: `Could not rewrite "${keyLabel}" in ${describeFiles(
+          skipped
+        )}, so edit the message file directly.`,
+      };
+    }
+
+    const updatedLocales = new Set(written.map((entry) => entry.locale));
+    const otherLocales = Array.from(
+      new Set(
+        entries
+          .map((entry) => entry.locale)
+          .filter((entryLocale) => !updatedLocales.has(entryLocale))
+      )
+    );
+
+    return {
+      success: true,
+      message: `Updated "${keyLabel}" in ${describeFiles(written)}${
+        skipped.length > 0
+          ? `; could not rewrite ${describeFiles(skipped)}, edit it directly`
+          : ""
+      }`,
+      details:
+        otherLocales.length > 0
+          ? `Other locales keep their text: ${otherLocales.join(", ")}`
+          : undefined,
+    };
+  }
+
+  /**
+   * Tell the user which usage was rewritten, since the edit lands in a
+   * different place than the element they clicked.
+   */
+  private describeCallSites(tag: string, callSites: CallSite[]): string {
+    const locations = callSites.map((site) => {
+      const relativePath = path.relative(this.projectRoot, site.filePath);
+      return site.line ? `${relativePath}:${site.line}` : relativePath;
+    });
+
+    return callSites.length === 1
+      ? `Updated text in <${tag}> at its call site in ${locations[0]}`
+      : `Updated text in <${tag}> at ${
+          callSites.length
+        } call sites: ${locations.join(", ")}`;
+  }
+
   private async updateTextThroughUsage(options: {
     lookupText: string;
     newText: string;
@@ -167,10 +490,8 @@ export class TextUpdateService extends BaseUpdateService {
     localMatch: ElementMatchContext;
     ownerComponentName?: string;
     ownerFilePath?: string;
-  }): Promise<{
-    updated: boolean;
-    currentFileUpdated: boolean;
-  }> {
+    requestedFilePath?: string;
+  }): Promise<UsageUpdateResult> {
     const {
       lookupText,
       newText,
@@ -179,8 +500,25 @@ export class TextUpdateService extends BaseUpdateService {
       localMatch,
       ownerComponentName,
       ownerFilePath,
+      requestedFilePath,
     } = options;
 
+    const propSource = this.findRenderedPropSource(localMatch.matchedPath);
+    if (propSource) {
+      const callSiteUpdate = await this.updateTextAtCallSites({
+        componentName: propSource.componentName,
+        propName: propSource.propName,
+        lookupText,
+        newText,
+        filePath,
+        ast,
+        requestedFilePath,
+      });
+      if (callSiteUpdate.updated) {
+        return callSiteUpdate;
+      }
+    }
+
     const usageResolution = this.resolveComponentUsage(
       lookupText,
       ast,
@@ -239,10 +577,10 @@ export class TextUpdateService extends BaseUpdateService {
     }
 
     if (candidates.length === 0) {
-      return { updated: false, currentFileUpdated: false };
+      return { updated: false, currentFileUpdated: false, callSites: [] };
     }
 
-    let updated = false;
+    const callSites: CallSite[] = [];
     let currentFileUpdated = false;
 
     const fallbackPropNames =
@@ -257,31 +595,107 @@ export class TextUpdateService extends BaseUpdateService {
           : fallbackPropNames;
 
       if (candidate.usageFilePath === filePath) {
-        const changed = this.updateComponentUsageInAst(ast, {
+        const lines = this.updateComponentUsageInAst(ast, {
           componentName: candidate.componentName,
           propNames,
           lookupText,
           newText,
         });
-        if (changed) {
-          updated = true;
+        if (lines.length > 0) {
           currentFileUpdated = true;
         }
+        callSites.push(...lines.map((line) => ({ filePath, line })));
       } else {
-        const changed = await this.updateComponentUsageInExternalFile({
+        const lines = await this.updateComponentUsageInExternalFile({
           usageFilePath: candidate.usageFilePath,
           componentName: candidate.componentName,
           propNames,
           lookupText,
           newText,
         });
-        if (changed) {
-          updated = true;
-        }
+        callSites.push(
+          ...lines.map((line) => ({ filePath: candidate.usageFilePath, line }))
+        );
       }
     }
 
-    return { updated, currentFileUpdated };
+    return {
+      updated: callSites.length > 0,
+      currentFileUpdated,
+      callSites,
+    };
+  }
+
+  /**
+   * Rewrite the literal passed as `propName` where the component is used.
+   * Usages in the component's own file win, then the page the user is
+   * viewing, then the first other file rendering the component with the
+   * text. Only the first matching usage is rewritten, so one click edits one
+   * call site rather than every copy.
+   */
+  private async updateTextAtCallSites(options: {
+    componentName: string;
+    propName: string;
+    lookupText: string;
+    newText: string;
+    filePath: string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ast: any;
+    requestedFilePath?: string;
+  }): Promise<UsageUpdateResult> {
+    const { componentName, propName, lookupText, newText, filePath, ast } =
+      options;
+    const usageOptions = {
+      componentName,
+      propNames: [propName],
+      lookupText,
+      newText,
+      firstMatchOnly: true,
+    };
+
+    const usageResolution = this.resolveComponentUsage(
+      lookupText,
+      ast,
+      filePath,
+      componentName
+    );
+
+    if (usageResolution.localUsage) {
+      const localLines = this.updateComponentUsageInAst(ast, usageOptions);
+      if (localLines.length > 0) {
+        return {
+          updated: true,
+          currentFileUpdated: true,
+          callSites: localLines.map((line) => ({ filePath, line })),
+        };
+      }
+    }
+
+    const usageFiles = new Set(
+      [
+        options.requestedFilePath,
+        usageResolution.externalUsage?.filePath,
+      ].filter(
+        (usageFilePath): usageFilePath is string =>
+          Boolean(usageFilePath) && usageFilePath !== filePath
+      )
+    );
+
+    for (const usageFilePath of usageFiles) {
+      const lines = await this.updateComponentUsageInExternalFile({
+        usageFilePath,
+        ...usageOptions,
+      });
+      if (lines.length > 0) {
+        return {
+          updated: true,
+          currentFileUpdated: false,
+          callSites: lines.map((line) => ({ filePath: usageFilePath, line })),
+        };
+      }
+    }
+
+    return { updated: false, currentFileUpdated: false, callSites: [] };
   }
 
   private updateComponentUsageInAst(
@@ -292,16 +706,19 @@ export class TextUpdateService extends BaseUpdateService {
       propNames: string[];
       lookupText: string;
       newText: string;
+      /** Stop after the first usage that was rewritten */
+      firstMatchOnly?: boolean;
     }
-  ): boolean {
-    const { componentName, propNames, lookupText, newText } = options;
+  ): number[] {
+    const { componentName, propNames, lookupText, newText, firstMatchOnly } =
+      options;
     if (!componentName || !lookupText) {
-      return false;
+      return [];
     }
 
     const normalizedLookup = this.normalizeText(lookupText);
     if (!normalizedLookup) {
-      return false;
+      return [];
     }
 
     const propSet =
@@ -310,12 +727,16 @@ export class TextUpdateService extends BaseUpdateService {
         : null;
 
     const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
-    let updated = false;
+    const updatedLines: number[] = [];
 
     root
       .find(j.JSXElement)
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       .forEach((path: any) => {
+        if (firstMatchOnly && updatedLines.length > 0) {
+          return;
+        }
+
         const opening = path.node.openingElement;
         if (!opening) {
           return;
@@ -327,6 +748,7 @@ export class TextUpdateService extends BaseUpdateService {
         }
 
         const attributes = opening.attributes || [];
+        let updated = false;
 
         for (const attr of attributes) {
           if (attr?.type !== "JSXAttribute" || !attr.name?.name) {
@@ -352,27 +774,30 @@ export class TextUpdateService extends BaseUpdateService {
         const shouldCheckChildren =
           !propSet || propSet.has("children") || propSet.size === 0;
 
-        if (!shouldCheckChildren) {
-          return;
-        }
-
-        const children = path.node.children || [];
-        for (const child of children) {
-          if (child.type === "JSXText" && child.value) {
-            const normalizedChild = this.normalizeText(child.value);
-            if (normalizedChild === normalizedLookup) {
-              const leadingWhitespace = child.value.match(/^\s*/)?.[0] || "";
-              const trailingWhitespace =
-                child.value.match(/\s*$/)?.[0] || "";
-              child.value =
-                leadingWhitespace + newText + trailingWhitespace;
-              updated = true;
+        if (shouldCheckChildren) {
+          const children = path.node.children || [];
+          for (const child of children) {
+            if (child.type === "JSXText" && child.value) {
+              const normalizedChild = this.normalizeText(child.value);
+              if (normalizedChild === normalizedLookup) {
+                const leadingWhitespace =
+                  child.value.match(/^\s*/)?.[0] || "";
+                const trailingWhitespace =
+                  child.value.match(/\s*$/)?.[0] || "";
+                child.value =
+                  leadingWhitespace + newText + trailingWhitespace;
+                updated = true;
+              }
             }
           }
         }
+
+        if (updated) {
+          updatedLines.push(opening.loc?.start.line ?? 0);
+        }
       });
 
-    return updated;
+    return updatedLines;
   }
 
   private async updateComponentUsageInExternalFile(options: {
@@ -381,31 +806,26 @@ export class TextUpdateService extends BaseUpdateService {
     propNames: string[];
     lookupText: string;
     newText: string;
-  }): Promise<boolean> {
-    const { usageFilePath, componentName, propNames, lookupText, newText } =
-      options;
+    firstMatchOnly?: boolean;
+  }): Promise<number[]> {
+    const { usageFilePath, ...usageOptions } = options;
 
     if (!fs.existsSync(usageFilePath)) {
-      return false;
+      return [];
     }
 
-    const source = fs.readFileSync(usageFilePath, "utf8");
+    const source = this.readSourceFile(usageFilePath);
     const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
     const root = j(source);
 
-    const updated = this.updateComponentUsageInAst(root, {
-      componentName,
-      propNames,
-      lookupText,
-      newText,
-    });
+    const updatedLines = this.updateComponentUsageInAst(root, usageOptions);
 
-    if (!updated) {
-      return false;
+    if (updatedLines.length === 0) {
+      return [];
     }
 
     await this.writeFormattedSource(usageFilePath, root, source);
-    return true;
+    return updatedLines;
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -0,0 +1,236 @@
+import fs from "fs";
+import { BaseUpdateService } from "../shared/BaseUpdateService";
+import { BaseUpdateResult } from "../shared/types";
+import {
+  applyClassTokenEdits,
+  type ClassTokenEdit,
+} from "../shared/classNameEditor";
+import { logger } from "../../utils/logger";
+
+export type TypographyField =
+  | "fontWeight"
+  | "lineHeight"
+  | "letterSpacing"
+  | "textAlign"
+  | "textTransform";
+
+export interface TypographyChange {
+  old: string;
+  new: string;
+}
+
+export interface TypographyUpdatePayload {
+  fontWeight?: TypographyChange;
+  lineHeight?: TypographyChange;
+  letterSpacing?: TypographyChange;
+  textAlign?: TypographyChange;
+  textTransform?: TypographyChange;
+  text?: string;
+  tag: string;
+  file: string;
+  forceGlobal?: boolean;
+  className?: string;
+  elementTag?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  /** Line in `ownerFilePath` where the element starts, for elements without text or classes */
+  line?: number;
+}
+
+export type TypographyUpdateResult = BaseUpdateResult;
+
+export const TYPOGRAPHY_FIELDS: TypographyField[] = [
+  "fontWeight",
+  "lineHeight",
+  "letterSpacing",
+  "textAlign",
+  "textTransform",
+];
+
+const TYPOGRAPHY_TOKEN_REGEX: Record<TypographyField, RegExp> = {
+  fontWeight:
+    /^font-(?:thin|extralight|light|normal|medium|semibold|bold|extrabold|black|\[\d+\])$/,
+  lineHeight:
+    /^leading-(?:none|tight|snug|normal|relaxed|loose|\d+|\[[^\]\s]+\])$/,
+  letterSpacing:
+    /^tracking-(?:tighter|tight|normal|wide|wider|widest|\[[^\]\s]+\])$/,
+  textAlign: /^text-(?:left|center|right|justify|start|end)$/,
+  textTransform: /^(?:uppercase|lowercase|capitalize|normal-case)$/,
+};
+
+const FIELD_LABELS: Record<TypographyField, string> = {
+  fontWeight: "font weight",
+  lineHeight: "line height",
+  letterSpacing: "letter spacing",
+  textAlign: "text alignment",
+  textTransform: "text transform",
+};
+
+export class TypographyUpdateService extends BaseUpdateService {
+  private collectChanges(
+    payload: TypographyUpdatePayload
+  ): Array<[TypographyField, TypographyChange]> {
+    return TYPOGRAPHY_FIELDS.flatMap((field) => {
+      const change = payload[field];
+      return change ? [[field, change] as [TypographyField, TypographyChange]] : [];
+    });
+  }
+
+  private buildClassTokenEdits(
+    changes: Array<[TypographyField, TypographyChange]>
+  ): ClassTokenEdit[] {
+    return changes.map(([field, change]) => ({
+      matches: (token: string) => TYPOGRAPHY_TOKEN_REGEX[field].test(token),
+      tokens: change.new ? [change.new] : [],
+    }));
+  }
+
+  async updateTypography(
+    payload: TypographyUpdatePayload
+  ): Promise<TypographyUpdateResult> {
+    const {
+      text = "",
+      tag,
+      file,
+      forceGlobal,
+      className = "",
+      textContent,
+      ownerComponentName,
+      ownerFilePath,
+      line,
+    } = payload;
+
+    try {
+      const changes = this.collectChanges(payload);
+
+      for (const [field, change] of changes) {
+        if (change.new && !TYPOGRAPHY_TOKEN_REGEX[field].test(change.new)) {
+          return {
+            success: false,
+            error: `Unsupported ${FIELD_LABELS[field]} class "${change.new}"`,
+          };
+        }
+      }
+
+      const lookupText =
+        textContent && textContent.length > 0 ? textContent : text;
+
+      const filePath = await this.resolveFileUsingMetadata({
+        lookupText,
+        tag,
+        file,
+        serviceName: "TypographyUpdate",
+        ownerComponentName,
+        ownerFilePath,
+      });
+
+      if (!filePath) {
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      if (!fs.existsSync(filePath)) {
+        return {
+          success: false,
+          error: `File not found: ${filePath}`,
+        };
+      }
+
+      const source = fs.readFileSync(filePath, "utf8");
+      const { ast, possibleNames } = this.parseAndFindElements(source, tag);
+      const oldTokens = changes
+        .map(([, change]) => change.old)
+        .filter(Boolean)
+        .join(" ");
+
+      const matcher = this.createStyleTargetMatcher({
+        text: lookupText,
+        className,
+        classMatch: oldTokens,
+        line,
+      });
+      if (!matcher) {
+        return {
+          success: false,
+          error: `<${tag}> has no text or classes to find it by`,
+        };
+      }
+
+      const match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher,
+        className,
+        text: lookupText,
+        serviceName: "TypographyUpdate",
+      });
+
+      if (!match) {
+        return {
+          success: false,
+          error: this.describeMissingElement(text, tag),
+        };
+      }
+
+      const riskWarning = this.checkSmartEditRisk({
+        sourceFilePath: filePath,
+        elementName: match.elementName,
+        hasInlineClassName: match.hasInlineClassName,
+        usagePropNames: match.usagePropNames,
+        forceGlobal,
+      });
+
+      if (riskWarning && !match.hasInlineClassName) {
+        return riskWarning;
+      }
+
+      const attributes =
+        match.matchedNode.openingElement.attributes ||
+        (match.matchedNode.openingElement.attributes = []);
+
+      const outcome = applyClassTokenEdits(
+        attributes,
+        this.buildClassTokenEdits(changes)
+      );
+
+      if (outcome === "unsupported") {
+        return {
+          success: false,
+          error: `Cannot update typography on <${match.elementName || tag}> because its className is computed at runtime.`,
+        };
+      }
+
+      if (outcome === "unchanged") {
+        return {
+          success: true,
+          message: `Typography in <${tag}> already matches`,
+        };
+      }
+
+      logger.info({
+        message: `[TypographyUpdate] Rewriting typography classes`,
+        context: {
+          filePath,
+          fields: changes.map(([field]) => field),
+        },
+      });
+
+      await this.writeFormattedSource(filePath, ast, source);
+
+      return { success: true, message: "Typography updated successfully" };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({
+        message: `[TypographyUpdate] Error`,
+        context: {
+          error: message,
+        },
+      });
+      return { success: false, error: message };
+    }
+  }
+}
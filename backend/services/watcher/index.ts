@@ -0,0 +1,23 @@
+import config from "../../config";
+import { actionHistory } from "../history";
+import { BaseUpdateService } from "../shared/BaseUpdateService";
+import { invalidateEditRiskAnalysis } from "../shared/smartEditAnalyzer";
+import { clearFormatterCache } from "../shared/sourceFormatter";
+import { isFormatterConfig, ProjectWatcher } from "./projectWatcher";
+
+export const projectWatcher = new ProjectWatcher(config.project.root);
+
+projectWatcher.subscribe((change) => {
+  invalidateEditRiskAnalysis(change.filePath);
+  BaseUpdateService.invalidateComponentResolution(
+    change.filePath,
+    change.type !== "change"
+  );
+  if (isFormatterConfig(change.filePath)) {
+    void clearFormatterCache();
+  }
+
+  actionHistory.noteFileChange(change.filePath);
+});
+
+export type { ProjectFileChange } from "./projectWatcher";
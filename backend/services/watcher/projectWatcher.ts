@@ -0,0 +1,146 @@
+import path from "path";
+import { watch, type FSWatcher } from "chokidar";
+import { SKIP_DIRECTORIES } from "../shared/types";
+import { logger } from "../../utils/logger";
+
+export interface ProjectFileChange {
+  type: "add" | "change" | "unlink";
+  filePath: string;
+  /** Relative to the project root */
+  file: string;
+}
+
+type FileChangeListener = (change: ProjectFileChange) => void;
+
+// Source files edits read or write, plus the JSON they touch (locale
+// messages, package.json)
+const WATCHED_EXTENSIONS = new Set([
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".css",
+  ".scss",
+  ".json",
+]);
+
+const FORMATTER_CONFIG_PATTERN =
+  /^(?:\.prettierrc(?:\..+)?|prettier\.config\..+|\.prettierignore|\.editorconfig)$/;
+
+// Brakit's own state lives in the project root
+const IGNORED_NAMES = new Set([".brakit", ".brakit-history.json"]);
+
+// Editors save in several steps; report once the file stopped changing
+const WRITE_SETTLE_MS = 100;
+
+export function isFormatterConfig(filePath: string): boolean {
+  return FORMATTER_CONFIG_PATTERN.test(path.basename(filePath));
+}
+
+/**
+ * Watches the project's source files and tells subscribers when one is
+ * added, changed or removed, whether by Brakit or by anything else.
+ */
+export class ProjectWatcher {
+  private watcher: FSWatcher | null = null;
+  private listeners = new Set<FileChangeListener>();
+
+  constructor(private readonly projectRoot: string) {}
+
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    this.watcher = watch(this.projectRoot, {
+      ignoreInitial: true,
+      ignored: (filePath, stats) => this.isIgnored(filePath, stats?.isFile()),
+      awaitWriteFinish: { stabilityThreshold: WRITE_SETTLE_MS },
+    });
+
+    for (const type of ["add", "change", "unlink"] as const) {
+      this.watcher.on(type, (filePath: string) => this.emit(type, filePath));
+    }
+
+    this.watcher.on("error", (error) => {
+      logger.warn({
+        message: "[ProjectWatcher] Watcher error",
+        context: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    });
+
+    logger.info({
+      message: "[ProjectWatcher] Watching project files",
+      context: { projectRoot: this.projectRoot },
+    });
+  }
+
+  async stop(): Promise<void> {
+    const watcher = this.watcher;
+    this.watcher = null;
+    await watcher?.close();
+  }
+
+  subscribe(listener: FileChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isIgnored(filePath: string, isFile: boolean | undefined): boolean {
+    const relative = path.relative(this.projectRoot, filePath);
+    if (!relative) {
+      return false;
+    }
+
+    const segments = relative.split(path.sep);
+    if (
+      segments.some(
+        (segment) =>
+          SKIP_DIRECTORIES.includes(segment) || IGNORED_NAMES.has(segment)
+      )
+    ) {
+      return true;
+    }
+
+    // Directories are only known to be files once stats are available
+    return (
+      isFile === true &&
+      !WATCHED_EXTENSIONS.has(path.extname(filePath)) &&
+      !isFormatterConfig(filePath)
+    );
+  }
+
+  private emit(type: ProjectFileChange["type"], filePath: string) {
+    const absolutePath = path.resolve(filePath);
+    const change: ProjectFileChange = {
+      type,
+      filePath: absolutePath,
+      file: path
+        .relative(this.projectRoot, absolutePath)
+        .split(path.sep)
+        .join("/"),
+    };
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        logger.warn({
+          message: "[ProjectWatcher] Listener failed",
+          context: {
+            file: change.file,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    });
+  }
+}
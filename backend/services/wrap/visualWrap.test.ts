@@ -0,0 +1,97 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { VisualWrapService } from "./visualWrap";
+
+const PAGE = `export default function Page() {
+  return (
+    <main>
+      <h1>Title</h1>
+      <p>First</p>
+      <p>Second</p>
+    </main>
+  );
+}
+`;
+
+describe("VisualWrapService", () => {
+  let projectRoot: string;
+  let pagePath: string;
+  let service: VisualWrapService;
+
+  const read = () => fs.readFileSync(pagePath, "utf8");
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "brakit-wrap-"));
+    pagePath = path.join(projectRoot, "app", "page.tsx");
+    fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+    fs.writeFileSync(pagePath, PAGE, "utf8");
+    // Check recast's own output, without Prettier tidying it up
+    fs.mkdirSync(path.join(projectRoot, ".brakit"));
+    fs.writeFileSync(
+      path.join(projectRoot, ".brakit", "config.json"),
+      JSON.stringify({ formatting: { strategy: "recast" } }),
+      "utf8"
+    );
+    service = new VisualWrapService(projectRoot);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const paragraph = (text: string) => ({
+    componentName: "p",
+    elementIdentifier: text,
+    elementTag: "p",
+    textContent: text,
+  });
+
+  it("indents wrapped siblings one level deeper", async () => {
+    const result = await service.wrapElements({
+      sourceFile: "app/page.tsx",
+      elements: [paragraph("First"), paragraph("Second")],
+      wrapperTag: "section",
+      wrapperClassName: "stack",
+    });
+
+    expect(result.success).toBe(true);
+    expect(read()).toContain(`      <h1>Title</h1>
+      <section className="stack">
+        <p>First</p>
+        <p>Second</p>
+      </section>
+    </main>
+`);
+  });
+
+  it("wraps a returned root without stray parentheses", async () => {
+    const result = await service.wrapElements({
+      sourceFile: "app/page.tsx",
+      elements: [
+        {
+          componentName: "main",
+          elementIdentifier: "main",
+          elementTag: "main",
+        },
+      ],
+      wrapperTag: "div",
+    });
+
+    expect(result.success).toBe(true);
+    expect(read()).toBe(`export default function Page() {
+  return (
+    <div>
+      <main>
+        <h1>Title</h1>
+        <p>First</p>
+        <p>Second</p>
+      </main>
+    </div>
+  );
+}
+`);
+  });
+});
@@ -0,0 +1,320 @@
+import jscodeshift from "jscodeshift";
+import type { ASTPath, JSXElement } from "jscodeshift";
+import type { namedTypes } from "ast-types";
+import {
+  BaseUpdateService,
+  ElementMatchContext,
+} from "../shared/BaseUpdateService";
+import {
+  createCandidate,
+  type ElementMatchCandidate,
+} from "../shared/elementMatcher";
+import { safeReadFile } from "../shared/fileUtils";
+import { asJsxChild, isMultiline, layOutOnOwnLines } from "../shared/jsxLayout";
+import { WrapElementHints, WrapPayload, WrapResult } from "../../types/wrap";
+import { logger } from "../../utils/logger";
+
+const j = jscodeshift.withParser("tsx") as typeof jscodeshift;
+
+type JSXChild = namedTypes.Node | null | undefined;
+type JSXMatcher = (node: JSXElement, children: JSXChild[]) => boolean;
+
+export class VisualWrapService extends BaseUpdateService {
+  constructor(projectRoot: string) {
+    super(projectRoot);
+  }
+
+  async wrapElements(payload: WrapPayload): Promise<WrapResult> {
+    const { sourceFile, elements, ownerComponentName, ownerFilePath } = payload;
+    const [first] = elements;
+
+    try {
+      const lookupText =
+        first.textContent && first.textContent.length > 0
+          ? first.textContent
+          : first.elementIdentifier;
+
+      const candidateFiles = await this.resolveCandidateFiles({
+        file: sourceFile,
+        tag: first.elementTag ?? first.componentName,
+        serviceName: "Wrap",
+        lookupText,
+        ownerComponentName,
+        ownerFilePath,
+      });
+      if (candidateFiles.length === 0) {
+        return {
+          success: false,
+          error: `Source file "${sourceFile}" not found`,
+        };
+      }
+
+      let lastError: string | null = null;
+
+      for (const filePath of candidateFiles) {
+        const result = await this.tryWrapInFile(filePath, payload);
+        if (!result) {
+          continue;
+        }
+        if (result.success) {
+          return result;
+        }
+        lastError = result.error ?? lastError;
+      }
+
+      logger.warn(
+        `[VisualWrap] Unable to wrap ${elements.length} element(s) starting at "${first.elementIdentifier}"`
+      );
+      return {
+        success: false,
+        error:
+          lastError ??
+          `Element "${first.elementIdentifier}" not found or could not be wrapped`,
+      };
+    } catch (error) {
+      logger.error(`[VisualWrap] Wrap operation failed: ${error}`);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown wrap error",
+      };
+    }
+  }
+
+  /**
+   * Returns null when the first element is not in the file, and a failed
+   * result when it is but the selection cannot be wrapped.
+   */
+  private async tryWrapInFile(
+    filePath: string,
+    payload: WrapPayload
+  ): Promise<WrapResult | null> {
+    const { elements, wrapperTag, wrapperClassName } = payload;
+    const [first, ...rest] = elements;
+
+    const source = await safeReadFile(filePath);
+    if (!source) {
+      return null;
+    }
+
+    const { ast, possibleNames } = this.parseAndFindElements(
+      source,
+      first.elementTag ?? first.componentName
+    );
+
+    let match: ElementMatchContext | null = null;
+    for (const matcher of this.createMatchers(first)) {
+      match = this.findLocalElementMatch({
+        filePath,
+        ast,
+        possibleNames,
+        matcher,
+        className: first.className ?? "",
+        text: first.textContent ?? first.elementIdentifier,
+        serviceName: "Wrap",
+      });
+      if (match) {
+        break;
+      }
+    }
+
+    if (!match) {
+      return null;
+    }
+
+    const wrapError = this.wrapSiblings(
+      match,
+      rest,
+      wrapperTag,
+      wrapperClassName
+    );
+    if (wrapError) {
+      return { success: false, error: wrapError };
+    }
+
+    const updated = await this.writeFormattedSource(filePath, ast, source);
+    if (!updated) {
+      return null;
+    }
+
+    logger.info({
+      message: "[VisualWrap] Wrapped sibling elements",
+      context: {
+        filePath,
+        count: elements.length,
+        wrapperTag,
+      },
+    });
+
+    return {
+      success: true,
+      message:
+        elements.length === 1
+          ? `Wrapped <${first.componentName}> in <${wrapperTag}>`
+          : `Wrapped ${elements.length} elements in <${wrapperTag}>`,
+      updatedFile: filePath,
+    };
+  }
+
+  /**
+   * Exact text matching first, so siblings sharing the same classes stay
+   * distinguishable, then the looser matching used for deletes.
+   */
+  private createMatchers(hints: WrapElementHints): JSXMatcher[] {
+    return [
+      this.createTextOrClassNameMatcher(
+        hints.textContent || hints.elementIdentifier,
+        hints.className
+      ),
+      this.createElementMatcher({
+        identifier: hints.elementIdentifier,
+        textContent: hints.textContent,
+        className: hints.className,
+        elementTag: hints.elementTag,
+      }),
+    ];
+  }
+
+  /**
+   * Find the remaining selected elements among the matched node's JSX
+   * siblings and replace the run they span with a single wrapper element.
+   * Returns an error message when the selection is not one contiguous run of
+   * siblings.
+   */
+  private wrapSiblings(
+    match: ElementMatchContext,
+    others: WrapElementHints[],
+    wrapperTag: string,
+    wrapperClassName: string | undefined
+  ): string | null {
+    const elementLabel = match.elementName ?? "element";
+    const parentPath = match.matchedPath
+      .parent as ASTPath<namedTypes.Node> | null;
+    const parentNode = parentPath?.value as
+      | (namedTypes.Node & { children?: JSXChild[] })
+      | undefined;
+
+    if (
+      !parentPath ||
+      !parentNode ||
+      (parentNode.type !== "JSXElement" && parentNode.type !== "JSXFragment")
+    ) {
+      if (others.length > 0) {
+        return `<${elementLabel}> is not a direct child of a JSX element, so it cannot be wrapped together with other elements`;
+      }
+      match.matchedPath.replace(
+        this.createWrapper(
+          wrapperTag,
+          wrapperClassName,
+          layOutOnOwnLines([asJsxChild(match.matchedNode)])
+        )
+      );
+      return null;
+    }
+
+    const children = parentNode.children ?? [];
+    const selected = new Set<JSXChild>([match.matchedNode]);
+
+    for (const hints of others) {
+      const sibling = this.findSibling(parentPath, children, hints, selected);
+      if (!sibling) {
+        return `Could not find "${hints.elementIdentifier}" next to <${elementLabel}> in the same JSX parent. Only siblings written side by side in one file can be wrapped together.`;
+      }
+      selected.add(sibling);
+    }
+
+    const indexes = children
+      .map((child, index) => (selected.has(child) ? index : -1))
+      .filter((index) => index !== -1);
+    const start = Math.min(...indexes);
+    const end = Math.max(...indexes);
+
+    const gap = children
+      .slice(start, end + 1)
+      .find((child) => !selected.has(child) && !this.isInsignificant(child));
+    if (gap) {
+      return "The selected elements are not adjacent. Select a continuous run of siblings to wrap.";
+    }
+
+    // Siblings written one per line move one level deeper inside the wrapper
+    const wrapped = children.slice(start, end + 1);
+    const wrapper = this.createWrapper(
+      wrapperTag,
+      wrapperClassName,
+      isMultiline(children) ? layOutOnOwnLines(wrapped) : wrapped
+    );
+    children.splice(start, end - start + 1, wrapper);
+    parentNode.children = children;
+
+    return null;
+  }
+
+  private findSibling(
+    parentPath: ASTPath<namedTypes.Node>,
+    children: JSXChild[],
+    hints: WrapElementHints,
+    exclude: Set<JSXChild>
+  ): JSXElement | null {
+    for (const matcher of this.createMatchers(hints)) {
+      const siblingCandidates: ElementMatchCandidate[] = [];
+      children.forEach((child, index) => {
+        if (!child || child.type !== "JSXElement" || exclude.has(child)) {
+          return;
+        }
+        const sibling = child as JSXElement;
+        if (matcher(sibling, (sibling.children ?? []) as JSXChild[])) {
+          siblingCandidates.push(
+            createCandidate(sibling, parentPath.get("children", index))
+          );
+        }
+      });
+
+      const best = this.selectBestMatchingElement(
+        siblingCandidates,
+        hints.className ?? "",
+        hints.textContent ?? hints.elementIdentifier,
+        "Wrap:Sibling"
+      );
+      if (best) {
+        return best.matchedNode;
+      }
+    }
+
+    return null;
+  }
+
+  /** Whitespace and JSX comments between selected siblings */
+  private isInsignificant(child: JSXChild): boolean {
+    if (!child) {
+      return true;
+    }
+    if (child.type === "JSXText") {
+      return (child as namedTypes.JSXText).value.trim() === "";
+    }
+    return (
+      child.type === "JSXExpressionContainer" &&
+      (child as namedTypes.JSXExpressionContainer).expression.type ===
+        "JSXEmptyExpression"
+    );
+  }
+
+  private createWrapper(
+    tag: string,
+    className: string | undefined,
+    children: JSXChild[]
+  ): JSXElement {
+    const attributes = className
+      ? [
+          j.jsxAttribute(
+            j.jsxIdentifier("className"),
+            j.stringLiteral(className)
+          ),
+        ]
+      : [];
+
+    return j.jsxElement(
+      j.jsxOpeningElement(j.jsxIdentifier(tag), attributes),
+      j.jsxClosingElement(j.jsxIdentifier(tag)),
+      children as JSXElement["children"]
+    );
+  }
+}
@@ -1,3 +1,5 @@
+import type { VerificationReport } from "../services/shared/types";
+
 export interface CanvasComponent {
   id: string;
   type: string;
@@ -14,14 +16,55 @@ export interface GenerateCanvasCodePayload {
   components: CanvasComponent[];
   containerWidth?: number;
   containerHeight?: number;
+  dryRun?: boolean;
+}
+
+export type InsertPosition = "before" | "after" | "inside";
+
+const INSERT_POSITIONS: InsertPosition[] = ["before", "after", "inside"];
+
+/** The rendered element the snippet is inserted next to or into */
+export interface InsertTarget {
+  componentName: string;
+  elementIdentifier: string;
+  elementTag?: string;
+  className?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
 }
 
 export interface InsertComponentPayload {
   filePath: string;
   componentTemplate: string;
+  /** Child position used when inserting inside an element */
   insertIndex: number;
   targetSelector?: string;
   componentType?: string;
+  target?: InsertTarget;
+  position?: InsertPosition;
+  dryRun?: boolean;
+}
+
+export interface InsertComponentResult {
+  success: boolean;
+  warning?: boolean;
+  message?: string;
+  details?: string;
+  error?: string;
+  filePath?: string;
+  /** shadcn components installed to satisfy the snippet's imports */
+  installedComponents?: string[];
+  dryRun?: boolean;
+  diff?: string;
+  changes?: Array<{ file: string; filePath: string; diff: string }>;
+  /** Diagnostics when the edit failed verification and was rolled back */
+  verification?: VerificationReport;
+}
+
+export interface GenerateCanvasCodeResult extends InsertComponentResult {
+  /** shadcn setup and install steps, in order */
+  progressMessages?: string[];
 }
 
 export interface ValidationFailure {
@@ -88,6 +131,7 @@ export function validateGenerateCanvasCodePayload(
     components,
     containerWidth,
     containerHeight,
+    dryRun: body.dryRun === true,
   });
 }
 
@@ -130,6 +174,19 @@ export function validateInsertComponentPayload(
     errors
   );
 
+  const target =
+    body.target === undefined || body.target === null
+      ? undefined
+      : parseInsertTarget(body.target, errors);
+
+  const position = getOptionalString(body.position, "position", errors);
+  if (
+    position !== undefined &&
+    !(INSERT_POSITIONS as string[]).includes(position)
+  ) {
+    errors.push(`position must be one of: ${INSERT_POSITIONS.join(", ")}`);
+  }
+
   if (errors.length > 0) {
     return failure(formatErrors(errors), errors);
   }
@@ -140,9 +197,55 @@ export function validateInsertComponentPayload(
     insertIndex,
     targetSelector,
     componentType: componentType ?? undefined,
+    target,
+    position: position as InsertPosition | undefined,
+    dryRun: body.dryRun === true,
   });
 }
 
+function parseInsertTarget(
+  value: unknown,
+  errors: string[]
+): InsertTarget | undefined {
+  if (!isRecord(value)) {
+    errors.push("target must be an object if provided");
+    return undefined;
+  }
+
+  const componentName = getString(
+    value.componentName,
+    "target.componentName",
+    errors
+  );
+  const elementIdentifier = getString(
+    value.elementIdentifier,
+    "target.elementIdentifier",
+    errors
+  );
+
+  return {
+    componentName,
+    elementIdentifier,
+    elementTag: getOptionalString(value.elementTag, "target.elementTag", errors),
+    className: getOptionalString(value.className, "target.className", errors),
+    textContent: getOptionalString(
+      value.textContent,
+      "target.textContent",
+      errors
+    ),
+    ownerComponentName: getOptionalString(
+      value.ownerComponentName,
+      "target.ownerComponentName",
+      errors
+    ),
+    ownerFilePath: getOptionalString(
+      value.ownerFilePath,
+      "target.ownerFilePath",
+      errors
+    ),
+  };
+}
+
 function parseCanvasComponent(
   value: unknown,
   index: number
@@ -0,0 +1,39 @@
+import type { VerificationReport } from "../services/shared/types";
+
+export type BatchUpdateKind = "color" | "fontSize" | "fontFamily";
+
+export interface BatchUpdateItem {
+  kind: BatchUpdateKind;
+  /** Same body the single-element route for this kind accepts */
+  payload: Record<string, unknown>;
+}
+
+export interface BatchUpdatePayload {
+  updates: BatchUpdateItem[];
+  dryRun?: boolean;
+}
+
+export interface BatchItemResult {
+  index: number;
+  kind: BatchUpdateKind;
+  file?: string;
+  success: boolean;
+  /** The service asked for confirmation (smart edit warning) instead of editing */
+  skipped?: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface BatchUpdateResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  appliedCount?: number;
+  results?: BatchItemResult[];
+  filePath?: string;
+  dryRun?: boolean;
+  diff?: string;
+  changes?: Array<{ file: string; filePath: string; diff: string }>;
+  /** Diagnostics when the edit failed verification and was rolled back */
+  verification?: VerificationReport;
+}
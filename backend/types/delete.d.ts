@@ -1,3 +1,5 @@
+import type { VerificationReport } from "../services/shared/types";
+
 export interface DeletePayload {
   sourceFile: string;
   componentName: string;
@@ -7,6 +9,7 @@ export interface DeletePayload {
   textContent?: string;
   ownerComponentName?: string;
   ownerFilePath?: string;
+  dryRun?: boolean;
 }
 
 export interface DeleteResult {
@@ -17,4 +20,9 @@ export interface DeleteResult {
   previousContent?: string;
   matchKind?: "local" | "component" | "usage" | "data";
   updatedFile?: string;
+  dryRun?: boolean;
+  diff?: string;
+  changes?: Array<{ file: string; filePath: string; diff: string }>;
+  /** Diagnostics when the edit failed verification and was rolled back */
+  verification?: VerificationReport;
 }
@@ -0,0 +1,22 @@
+import type { ActionSummary } from "../services/history";
+
+/** A compile error the CLI read from the user's dev server output */
+export interface CompileError {
+  message: string;
+  /** Relative to the project root when the error names a project file */
+  file?: string;
+  line?: number;
+  column?: number;
+  framework: "next" | "vite";
+  output: string;
+}
+
+export interface DevServerStatus {
+  error: CompileError | null;
+  /**
+   * The most recent Brakit edit, when it touched the failing file or was
+   * applied just before the error appeared
+   */
+  relatedAction: ActionSummary | null;
+  reportedAt: string;
+}
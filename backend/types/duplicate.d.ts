@@ -0,0 +1,28 @@
+import type { VerificationReport } from "../services/shared/types";
+
+export interface DuplicatePayload {
+  sourceFile: string;
+  componentName: string;
+  elementIdentifier: string;
+  elementTag?: string;
+  className?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  dryRun?: boolean;
+}
+
+export interface DuplicateResult {
+  success: boolean;
+  warning?: boolean;
+  message?: string;
+  details?: string;
+  error?: string;
+  filePath?: string;
+  updatedFile?: string;
+  dryRun?: boolean;
+  diff?: string;
+  changes?: Array<{ file: string; filePath: string; diff: string }>;
+  /** Diagnostics when the edit failed verification and was rolled back */
+  verification?: VerificationReport;
+}
@@ -0,0 +1,18 @@
+import type { HistoryEvent } from "../services/history";
+import type { DevServerStatus } from "./devServer";
+
+/** Events pushed to the overlay over the `/api/events` WebSocket */
+export type BackendEvent =
+  | HistoryEvent
+  | {
+      type: "install:progress";
+      /** What is being installed: a page template's or a component's dependencies */
+      source: "page" | "component";
+      message: string;
+    }
+  | {
+      type: "dev-server:status";
+      status: DevServerStatus;
+    };
+
+export type BackendEventType = BackendEvent["type"];
@@ -0,0 +1,38 @@
+import type { VerificationReport } from "../services/shared/types";
+
+export type MovePosition = "before" | "after";
+
+export interface MoveTargetHints {
+  elementIdentifier: string;
+  elementTag?: string;
+  className?: string;
+  textContent?: string;
+}
+
+export interface MovePayload {
+  sourceFile: string;
+  componentName: string;
+  elementIdentifier: string;
+  elementTag?: string;
+  className?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  /** Sibling the element is dropped next to */
+  target: MoveTargetHints;
+  position: MovePosition;
+  dryRun?: boolean;
+}
+
+export interface MoveResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  filePath?: string;
+  updatedFile?: string;
+  dryRun?: boolean;
+  diff?: string;
+  changes?: Array<{ file: string; filePath: string; diff: string }>;
+  /** Diagnostics when the edit failed verification and was rolled back */
+  verification?: VerificationReport;
+}
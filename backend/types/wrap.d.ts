@@ -0,0 +1,34 @@
+import type { VerificationReport } from "../services/shared/types";
+
+export interface WrapElementHints {
+  componentName: string;
+  elementIdentifier: string;
+  elementTag?: string;
+  className?: string;
+  textContent?: string;
+}
+
+export interface WrapPayload {
+  sourceFile: string;
+  /** Selected elements; they must be adjacent children of one JSX parent */
+  elements: WrapElementHints[];
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  /** Tag of the new container, e.g. div or section */
+  wrapperTag: string;
+  wrapperClassName?: string;
+  dryRun?: boolean;
+}
+
+export interface WrapResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+  filePath?: string;
+  updatedFile?: string;
+  dryRun?: boolean;
+  diff?: string;
+  changes?: Array<{ file: string; filePath: string; diff: string }>;
+  /** Diagnostics when the edit failed verification and was rolled back */
+  verification?: VerificationReport;
+}
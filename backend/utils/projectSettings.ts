@@ -0,0 +1,108 @@
+import fs from "fs";
+import path from "path";
+import { logger } from "./logger";
+
+/**
+ * How edited files are written back:
+ * - "auto": format with the project's Prettier config when it has one,
+ *   otherwise format only the code the edit changed, with Prettier defaults
+ * - "prettier": always run Prettier, falling back to its defaults
+ * - "recast": never run Prettier
+ */
+export type FormattingStrategy = "auto" | "prettier" | "recast";
+
+export interface ProjectSettings {
+  formatting: {
+    strategy: FormattingStrategy;
+  };
+  /**
+   * Checks run on every file an edit writes. A failing check rolls the edit
+   * back. Type checking loads the project's own TypeScript and is off by
+   * default because it is slow on large projects.
+   */
+  verification: {
+    parse: boolean;
+    typecheck: boolean;
+  };
+}
+
+const FORMATTING_STRATEGIES: FormattingStrategy[] = [
+  "auto",
+  "prettier",
+  "recast",
+];
+
+const DEFAULT_SETTINGS: ProjectSettings = {
+  formatting: { strategy: "auto" },
+  verification: { parse: true, typecheck: false },
+};
+
+const settingsCache = new Map<
+  string,
+  { mtimeMs: number; settings: ProjectSettings }
+>();
+
+/**
+ * Read Brakit's settings from `.brakit/config.json`, the same file the CLI
+ * reads its ports from. Missing or invalid values fall back to defaults.
+ */
+export function loadProjectSettings(projectRoot: string): ProjectSettings {
+  const configPath = path.join(projectRoot, ".brakit", "config.json");
+
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(configPath);
+  } catch {
+    settingsCache.delete(configPath);
+    return DEFAULT_SETTINGS;
+  }
+
+  const cached = settingsCache.get(configPath);
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.settings;
+  }
+
+  let settings = DEFAULT_SETTINGS;
+  try {
+    const raw = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    const strategy = raw?.formatting?.strategy;
+    const verification = raw?.verification ?? {};
+
+    if (strategy !== undefined && !FORMATTING_STRATEGIES.includes(strategy)) {
+      logger.warn({
+        message: `[ProjectSettings] Unknown formatting strategy "${strategy}", using "auto"`,
+        context: { configPath },
+      });
+    }
+
+    settings = {
+      formatting: {
+        strategy: FORMATTING_STRATEGIES.includes(strategy) ? strategy : "auto",
+      },
+      verification: {
+        parse: readBoolean(
+          verification.parse,
+          DEFAULT_SETTINGS.verification.parse
+        ),
+        typecheck: readBoolean(
+          verification.typecheck,
+          DEFAULT_SETTINGS.verification.typecheck
+        ),
+      },
+    };
+  } catch (error) {
+    logger.warn({
+      message: `[ProjectSettings] Failed to parse .brakit/config.json`,
+      context: {
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+  }
+
+  settingsCache.set(configPath, { mtimeMs: stats.mtimeMs, settings });
+  return settings;
+}
+
+function readBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === "boolean" ? value : fallback;
+}
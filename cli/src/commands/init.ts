@@ -44,6 +44,13 @@ async function ensureConfigFile(projectRoot: string): Promise<void> {
     overlay: {
       enabled: true,
     },
+    formatting: {
+      strategy: "auto",
+    },
+    verification: {
+      parse: true,
+      typecheck: false,
+    },
   };
 
   fs.writeFileSync(configPath, JSON.stringify(configContent, null, 2), "utf8");
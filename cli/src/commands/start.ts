@@ -15,11 +15,17 @@ import type { Socket } from "net";
 
 import { allocatePorts, AllocatedPorts } from "../utils/portAllocator";
 import { checkForUpdates } from "../utils/updateChecker";
+import { CompileErrorParser, CompileError } from "../utils/compileErrorParser";
 import { PluginScanner } from "../plugins/pluginScanner";
 import { PluginInjector } from "../plugins/pluginInjector";
 
 const packageJson = require(path.resolve(__dirname, "../../../package.json"));
 
+// WebSocket path the overlay connects to on the proxy, and where the backend
+// serves it
+const OVERLAY_EVENTS_PATH = "/__brakit/events";
+const BACKEND_EVENTS_PATH = "/api/events";
+
 interface BrakitConfig {
   backend?: {
     host?: string;
@@ -46,6 +52,7 @@ interface ProxyOptions {
 
 let userAppProcess: ChildProcess | null = null;
 let backendProcess: ChildProcess | null = null;
+let compileErrorParser: CompileErrorParser | null = null;
 let proxyServer: http.Server | null = null;
 let runtimePorts: AllocatedPorts | null = null;
 let runtimeHost = "localhost";
@@ -194,22 +201,36 @@ async function startUserApp(
     ["run", "dev", "--", "--port", String(appPort)],
     {
       cwd: projectDir,
-      stdio: isVerbose
-        ? ["ignore", "inherit", "inherit"]
-        : ["ignore", "ignore", "pipe"],
+      // Output is always piped so compile errors can be forwarded to the overlay
+      stdio: ["ignore", "pipe", "pipe"],
       shell: true,
       env: { ...process.env, PORT: String(appPort) },
     }
   );
 
-  if (!isVerbose && userAppProcess.stderr) {
-    userAppProcess.stderr.on("data", (data: Buffer) => {
-      const message = data.toString();
-      if (message.toLowerCase().includes("error")) {
-        process.stderr.write(data);
-      }
-    });
-  }
+  compileErrorParser = new CompileErrorParser(projectDir, {
+    onError: (error) => void reportCompileError(error),
+    onRecovered: () => void reportCompileError(null),
+  });
+
+  userAppProcess.stdout?.on("data", (data: Buffer) => {
+    compileErrorParser?.push(data, "stdout");
+    if (isVerbose) {
+      process.stdout.write(data);
+    }
+  });
+
+  userAppProcess.stderr?.on("data", (data: Buffer) => {
+    compileErrorParser?.push(data, "stderr");
+    if (isVerbose) {
+      process.stderr.write(data);
+      return;
+    }
+    const message = data.toString();
+    if (message.toLowerCase().includes("error")) {
+      process.stderr.write(data);
+    }
+  });
 
   userAppProcess.on("error", (err) => {
     console.log("");
@@ -219,6 +240,34 @@ async function startUserApp(
   });
 }
 
+/**
+ * Send the app's current compile error to the backend, which relays it to the
+ * overlay. `null` reports that the app compiles again. Failures are ignored:
+ * the backend may still be starting, and the terminal shows the error anyway.
+ */
+async function reportCompileError(error: CompileError | null): Promise<void> {
+  if (!runtimePorts) {
+    return;
+  }
+
+  const backendClientHost =
+    runtimeHost === "0.0.0.0" ? "localhost" : runtimeHost;
+
+  try {
+    await fetch(
+      `http://${backendClientHost}:${runtimePorts.backendPort}/api/dev-server/errors`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ error }),
+        signal: AbortSignal.timeout(2000),
+      }
+    );
+  } catch {
+    // Backend may still be starting; the terminal shows the error anyway
+  }
+}
+
 async function startBackend(
   projectDir: string,
   host: string,
@@ -346,6 +395,16 @@ async function startProxy(options: ProxyOptions): Promise<void> {
   });
 
   proxyServer.on("upgrade", (req, socket, head) => {
+    // The overlay's event channel goes to the backend, everything else
+    // (HMR sockets included) to the app
+    if (req.url?.startsWith(OVERLAY_EVENTS_PATH)) {
+      req.url = BACKEND_EVENTS_PATH + req.url.slice(OVERLAY_EVENTS_PATH.length);
+      proxy.ws(req, socket as unknown as Socket, head, {
+        target: backendOrigin,
+      });
+      return;
+    }
+
     proxy.ws(req, socket as unknown as Socket, head);
   });
 
@@ -407,6 +466,11 @@ function cleanup(): void {
     console.log(chalk.gray("  Stopping Brakit..."));
   }
 
+  if (compileErrorParser) {
+    compileErrorParser.dispose();
+    compileErrorParser = null;
+  }
+
   if (userAppProcess) {
     killProcessCrossPlatform(userAppProcess);
     userAppProcess = null;
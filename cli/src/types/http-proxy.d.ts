@@ -11,7 +11,12 @@ declare module "http-proxy" {
 
   interface ProxyServer {
     web(req: IncomingMessage, res: ServerResponse): void;
-    ws(req: IncomingMessage, socket: Socket, head: Buffer): void;
+    ws(
+      req: IncomingMessage,
+      socket: Socket,
+      head: Buffer,
+      options?: Partial<ProxyOptions>
+    ): void;
     listen(port: number, cb?: (err?: Error) => void): void;
     close(callback?: () => void): void;
     on(event: "proxyRes", listener: (proxyRes: IncomingMessage, req: IncomingMessage, res: ServerResponse) => void): ProxyServer;
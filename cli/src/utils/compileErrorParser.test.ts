@@ -0,0 +1,73 @@
+import { CompileError, CompileErrorParser } from "./compileErrorParser";
+
+describe("CompileErrorParser", () => {
+  let errors: CompileError[];
+  let recovered: number;
+  let parser: CompileErrorParser;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    errors = [];
+    recovered = 0;
+    parser = new CompileErrorParser("/project", {
+      onError: (error) => errors.push(error),
+      onRecovered: () => {
+        recovered += 1;
+      },
+    });
+  });
+
+  afterEach(() => {
+    parser.dispose();
+    jest.useRealTimers();
+  });
+
+  it("reads a Next.js error with its location", () => {
+    parser.push(
+      " ⨯ ./app/page.tsx:5:10\nError:   x Unexpected token `div`. Expected jsx identifier\n",
+      "stdout"
+    );
+    jest.runAllTimers();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      framework: "next",
+      file: "app/page.tsx",
+      line: 5,
+      column: 10,
+      message: "Unexpected token `div`. Expected jsx identifier",
+    });
+  });
+
+  it("keeps a line split across chunks whole while the other stream writes", () => {
+    parser.push(" ⨯ ./app/pa", "stderr");
+    parser.push("- ready started server\n", "stdout");
+    parser.push("ge.tsx:3:1\nError: Missing semicolon\n", "stderr");
+    jest.runAllTimers();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      file: "app/page.tsx",
+      line: 3,
+      column: 1,
+      message: "Missing semicolon",
+    });
+  });
+
+  it("reports recovery after the next successful compile", () => {
+    parser.push(
+      "[vite] Internal server error: /project/src/App.tsx: Unexpected token (4:2)\n",
+      "stderr"
+    );
+    jest.runAllTimers();
+    parser.push("✓ Compiled in 120ms\n", "stdout");
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      framework: "vite",
+      file: "src/App.tsx",
+      message: "Unexpected token",
+    });
+    expect(recovered).toBe(1);
+  });
+});
@@ -0,0 +1,221 @@
+import path from "path";
+
+export interface CompileError {
+  message: string;
+  /** Relative to the project root when the error names a project file */
+  file?: string;
+  line?: number;
+  column?: number;
+  framework: "next" | "vite";
+  /** The raw block of output the error was read from, without colors */
+  output: string;
+}
+
+export type OutputStream = "stdout" | "stderr";
+
+interface CompileErrorHandlers {
+  onError: (error: CompileError) => void;
+  onRecovered: () => void;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+// `⨯ ./app/page.tsx:5:10` (Next 13+), `error - ./app/page.tsx` (Next 12)
+const NEXT_ERROR_START = /^\s*(?:⨯|error\s+-)\s*(.*)$/;
+const NEXT_FAILED = /^\s*Failed to compile/;
+const VITE_ERROR_START =
+  /\[vite\]\s*(?:Internal server error|Pre-transform error):\s*(.*)$/;
+
+const RECOVERED_PATTERNS = [
+  /✓ Compiled/,
+  /compiled successfully/i,
+  /\[vite\]\s*(?:\(client\)\s*)?(?:hmr update|page reload)/,
+];
+
+const LOCATION_PATTERN =
+  /((?:\.{0,2}\/|[A-Za-z]:\\)?[\w@./\\-]+\.(?:[cm]?[jt]sx?|css|scss|json|mdx?)):(\d+)(?::(\d+))?/;
+const FILE_PATTERN =
+  /((?:\.{0,2}\/|[A-Za-z]:\\)?[\w@./\\-]+\.(?:[cm]?[jt]sx?|css|scss|json|mdx?))/;
+
+// Code frames, carets and stack lines carry no message of their own
+const NOISE_PATTERN =
+  /^\s*(?:>?\s*\d+\s*\||[,|`:]|\^|at\s|Import trace|Caused by|Plugin:|File:|-{3,}|\.\/)/;
+
+// Output arrives in chunks; a block is complete after this much silence
+const BLOCK_SETTLE_MS = 150;
+const MAX_BLOCK_LINES = 60;
+
+/**
+ * Reads a dev server's terminal output line by line and reports compile
+ * errors from Next.js and Vite, and the next successful compile after one.
+ */
+export class CompileErrorParser {
+  // Each stream splits its own lines; a chunk can end mid-line on one
+  // while the other keeps writing
+  private pending: Record<OutputStream, string> = { stdout: "", stderr: "" };
+  private block: {
+    framework: CompileError["framework"];
+    lines: string[];
+  } | null = null;
+  private settleTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasError = false;
+
+  constructor(
+    private readonly projectDir: string,
+    private readonly handlers: CompileErrorHandlers
+  ) {}
+
+  push(chunk: Buffer | string, stream: OutputStream): void {
+    const text =
+      this.pending[stream] + chunk.toString().replace(ANSI_PATTERN, "");
+    const lines = text.split(/\r?\n/);
+    this.pending[stream] = lines.pop() ?? "";
+
+    for (const line of lines) {
+      this.readLine(line);
+    }
+
+    if (this.block) {
+      this.scheduleFlush();
+    }
+  }
+
+  dispose(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+  }
+
+  private readLine(line: string): void {
+    if (RECOVERED_PATTERNS.some((pattern) => pattern.test(line))) {
+      this.flush();
+      if (this.hasError) {
+        this.hasError = false;
+        this.handlers.onRecovered();
+      }
+      return;
+    }
+
+    const viteStart = line.match(VITE_ERROR_START);
+    if (viteStart) {
+      this.flush();
+      this.block = { framework: "vite", lines: [viteStart[1]] };
+      return;
+    }
+
+    const nextStart = line.match(NEXT_ERROR_START);
+    if (nextStart || NEXT_FAILED.test(line)) {
+      // "Failed to compile" is followed by the file header; keep one block
+      if (this.block?.framework === "next" && this.block.lines.length <= 1) {
+        this.block.lines.push(nextStart ? nextStart[1] : line.trim());
+        return;
+      }
+      this.flush();
+      this.block = {
+        framework: "next",
+        lines: [nextStart ? nextStart[1] : line.trim()],
+      };
+      return;
+    }
+
+    if (this.block && this.block.lines.length < MAX_BLOCK_LINES) {
+      this.block.lines.push(line);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+    }
+    this.settleTimer = setTimeout(() => this.flush(), BLOCK_SETTLE_MS);
+    this.settleTimer.unref?.();
+  }
+
+  private flush(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+
+    const block = this.block;
+    this.block = null;
+    if (!block) {
+      return;
+    }
+
+    const error = this.buildError(block.framework, block.lines);
+    if (error) {
+      this.hasError = true;
+      this.handlers.onError(error);
+    }
+  }
+
+  private buildError(
+    framework: CompileError["framework"],
+    lines: string[]
+  ): CompileError | null {
+    const output = lines.join("\n").trim();
+    if (!output) {
+      return null;
+    }
+
+    const location = output.match(LOCATION_PATTERN);
+    const fileOnly = location ? null : output.match(FILE_PATTERN);
+    const rawFile = location?.[1] ?? fileOnly?.[1];
+
+    return {
+      message: this.findMessage(lines, rawFile) ?? lines[0].trim(),
+      file: rawFile ? this.toProjectPath(rawFile) : undefined,
+      line: location ? Number(location[2]) : undefined,
+      column: location?.[3] ? Number(location[3]) : undefined,
+      framework,
+      output,
+    };
+  }
+
+  /**
+   * The first line that reads like a sentence: Next prefixes SWC errors with
+   * "Error:   x", Vite puts "path: message (line:col)" on the first line.
+   */
+  private findMessage(lines: string[], file?: string): string | null {
+    for (const rawLine of lines) {
+      let line = rawLine
+        .trim()
+        .replace(/^Error:\s*(?:x\s+)?/, "")
+        .replace(/^x\s+/, "");
+
+      if (file && line.startsWith(file)) {
+        line = line
+          .slice(file.length)
+          .replace(/^(?::\d+){0,2}:?\s*/, "")
+          .replace(/^ERROR:\s*/, "");
+      }
+      line = line.replace(/^Transform failed with \d+ errors?:?\s*/, "");
+
+      if (
+        !line ||
+        NOISE_PATTERN.test(line) ||
+        /^Failed to compile\.?$/.test(line) ||
+        (line.split(/\s/).length === 1 && FILE_PATTERN.test(line))
+      ) {
+        continue;
+      }
+
+      return line.replace(/\s*\(\d+:\d+\)$/, "");
+    }
+
+    return null;
+  }
+
+  private toProjectPath(rawFile: string): string {
+    const absolute = path.isAbsolute(rawFile)
+      ? rawFile
+      : path.resolve(this.projectDir, rawFile);
+    const relative = path.relative(this.projectDir, absolute);
+    return relative.startsWith("..")
+      ? absolute
+      : relative.split(path.sep).join("/");
+  }
+}
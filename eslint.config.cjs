@@ -44,4 +44,10 @@ module.exports = [
       ],
     },
   },
+  {
+    files: ["**/*.test.ts"],
+    languageOptions: {
+      globals: globals.jest,
+    },
+  },
 ];
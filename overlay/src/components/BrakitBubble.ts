@@ -18,6 +18,7 @@ export class BrakitBubble extends LitElement {
     position: { type: Object },
     hasError: { type: Boolean },
     errorMessage: { type: String },
+    revertLabel: { type: String },
   };
 
   isDragging = false;
@@ -25,6 +26,8 @@ export class BrakitBubble extends LitElement {
   position: Point = { x: 20, y: 20 };
   hasError = false;
   errorMessage = "";
+  /** Set when the error looks caused by the last edit, which can be reverted */
+  revertLabel = "";
 
   private dragOffset: Point = { x: 0, y: 0 };
   private dragStart: Point | null = null;
@@ -150,6 +153,44 @@ export class BrakitBubble extends LitElement {
       }
     }
 
+    .error-actions {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      max-width: 260px;
+      background: rgba(255, 255, 255, 0.95);
+      border-radius: 14px;
+      padding: 8px 10px;
+      box-shadow:
+        0 6px 18px rgba(15, 23, 42, 0.16),
+        inset 0 0 0 0.5px rgba(239, 68, 68, 0.4);
+      font-size: 12px;
+      color: #1f2937;
+      cursor: default;
+    }
+
+    .error-actions-label {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .revert-button {
+      flex-shrink: 0;
+      border: none;
+      border-radius: 8px;
+      padding: 6px 10px;
+      background: #ef4444;
+      color: white;
+      font-size: 12px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .revert-button:hover {
+      background: #dc2626;
+    }
+
     .tool-panel {
       display: flex;
       gap: 6px;
@@ -251,7 +292,7 @@ export class BrakitBubble extends LitElement {
     if (event.pointerType === "mouse" && event.button !== 0) return;
 
     const target = event.target as HTMLElement | null;
-    if (target?.closest(".tool-panel")) return;
+    if (target?.closest(".tool-panel, .error-actions")) return;
 
     const container = this.getBubbleContainer();
     if (!container) return;
@@ -343,6 +384,7 @@ export class BrakitBubble extends LitElement {
   clearError() {
     this.hasError = false;
     this.errorMessage = "";
+    this.revertLabel = "";
     this.requestUpdate();
   }
 
@@ -425,6 +467,21 @@ export class BrakitBubble extends LitElement {
           </div>
           ${this.hasError ? html`<div class="error-badge">!</div>` : ""}
         </div>
+        ${this.hasError && this.revertLabel
+          ? html`
+              <div class="error-actions">
+                <span class="error-actions-label" title=${this.revertLabel}>
+                  Broken by “${this.revertLabel}”
+                </span>
+                <button
+                  class="revert-button"
+                  @click=${(event: Event) => this.handleRevertEdit(event)}
+                >
+                  Revert last edit
+                </button>
+              </div>
+            `
+          : ""}
         <div class="tool-panel">
           <button
             class="tool-button toolbar-button"
@@ -449,6 +506,16 @@ export class BrakitBubble extends LitElement {
     `;
   }
 
+  private handleRevertEdit(event: Event) {
+    event.stopPropagation();
+    this.dispatchEvent(
+      new CustomEvent(OverlayEvents.BubbleRevertEdit, {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
   private handleToggleToolbar(event: Event) {
     event.stopPropagation();
     document.dispatchEvent(new CustomEvent("brakit:toggle-toolbar"));
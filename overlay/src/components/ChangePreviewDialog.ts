@@ -0,0 +1,238 @@
+import { LitElement, html, css, PropertyValues } from "lit";
+import { OverlayEvents } from "../core/events";
+import type { PreviewFileChange } from "../services/backendClient";
+import { diffStyles, renderUnifiedDiff } from "./diffView";
+
+export interface ChangePreviewOptions {
+  title: string;
+  changes: PreviewFileChange[];
+  confirmLabel?: string;
+}
+
+export class ChangePreviewDialog extends LitElement {
+  static properties = {
+    open: { type: Boolean, reflect: true },
+    heading: { type: String },
+    confirmLabel: { type: String },
+  };
+
+  open = false;
+  heading = "";
+  confirmLabel = "Apply";
+  private changes: PreviewFileChange[] = [];
+
+  private syncVisibility() {
+    if (this.open) {
+      this.style.display = "block";
+      this.style.pointerEvents = "auto";
+      this.removeAttribute("aria-hidden");
+    } else {
+      this.style.display = "none";
+      this.style.pointerEvents = "none";
+      this.setAttribute("aria-hidden", "true");
+    }
+  }
+
+  private keydownHandler = (event: KeyboardEvent) => {
+    if (!this.open) return;
+    if (event.key === "Escape") {
+      event.stopPropagation();
+      this.handleCancel();
+    }
+  };
+
+  static styles = [
+    diffStyles,
+    css`
+      :host {
+        position: fixed;
+        inset: 0;
+        pointer-events: none;
+        display: block;
+        z-index: 2147483647;
+        font-family:
+          -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto,
+          "Helvetica Neue", Arial, sans-serif;
+      }
+
+      .backdrop {
+        position: absolute;
+        inset: 0;
+        background: rgba(15, 23, 42, 0.35);
+        backdrop-filter: blur(4px);
+        -webkit-backdrop-filter: blur(4px);
+      }
+
+      .panel {
+        position: absolute;
+        top: 50%;
+        left: 50%;
+        transform: translate(-50%, -50%);
+        width: min(560px, calc(100vw - 32px));
+        max-height: calc(100vh - 64px);
+        display: flex;
+        flex-direction: column;
+        background: rgba(255, 255, 255, 0.98);
+        border-radius: 16px;
+        box-shadow:
+          0 20px 40px rgba(15, 23, 42, 0.18),
+          0 8px 16px rgba(15, 23, 42, 0.12);
+        color: #0f172a;
+      }
+
+      .content {
+        padding: 18px 20px 12px;
+        display: flex;
+        flex-direction: column;
+        gap: 12px;
+        overflow-y: auto;
+      }
+
+      h2 {
+        margin: 0;
+        font-size: 15px;
+        font-weight: 600;
+        letter-spacing: -0.01em;
+      }
+
+      .hint {
+        font-size: 12.5px;
+        color: rgba(15, 23, 42, 0.6);
+      }
+
+      .file {
+        display: flex;
+        flex-direction: column;
+        gap: 6px;
+      }
+
+      .file-name {
+        font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+        font-size: 12px;
+        font-weight: 600;
+        word-break: break-all;
+      }
+
+      .actions {
+        display: flex;
+        justify-content: flex-end;
+        gap: 10px;
+        padding: 12px 20px 16px;
+        border-top: 1px solid rgba(15, 23, 42, 0.08);
+        background: rgba(248, 250, 252, 0.9);
+        border-radius: 0 0 16px 16px;
+      }
+
+      button {
+        border: none;
+        border-radius: 9px;
+        padding: 8px 14px;
+        font-size: 13px;
+        font-weight: 600;
+        cursor: pointer;
+      }
+
+      .cancel {
+        background: rgba(15, 23, 42, 0.05);
+        color: rgba(15, 23, 42, 0.75);
+      }
+
+      .confirm {
+        background: #0ea5e9;
+        color: #ffffff;
+        box-shadow: 0 10px 18px rgba(14, 165, 233, 0.22);
+      }
+    `,
+  ];
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    window.addEventListener("keydown", this.keydownHandler, true);
+    this.syncVisibility();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    window.removeEventListener("keydown", this.keydownHandler, true);
+  }
+
+  openPreview(options: ChangePreviewOptions) {
+    this.heading = options.title;
+    this.confirmLabel = options.confirmLabel ?? "Apply";
+    this.changes = options.changes;
+    this.open = true;
+    this.requestUpdate();
+  }
+
+  closePreview() {
+    this.open = false;
+    this.changes = [];
+  }
+
+  private handleCancel = () => {
+    this.closePreview();
+    this.dispatchEvent(
+      new CustomEvent(OverlayEvents.ChangePreviewCancel, {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  };
+
+  private handleConfirm = () => {
+    this.closePreview();
+    this.dispatchEvent(
+      new CustomEvent(OverlayEvents.ChangePreviewConfirm, {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  };
+
+  protected updated(changedProperties: PropertyValues<this>): void {
+    if (changedProperties.has("open")) {
+      this.syncVisibility();
+    }
+    super.updated(changedProperties);
+  }
+
+  render() {
+    if (!this.open) {
+      return html``;
+    }
+
+    const fileCount = this.changes.length;
+
+    return html`
+      <div class="backdrop" @click=${this.handleCancel}></div>
+      <div class="panel">
+        <div class="content">
+          <h2>${this.heading}</h2>
+          <div class="hint">
+            ${fileCount === 1
+              ? "Brakit will write the following change:"
+              : `Brakit will write changes to ${fileCount} files:`}
+          </div>
+          ${this.changes.map(
+            (change) => html`
+              <div class="file">
+                <div class="file-name" title=${change.filePath}>
+                  ${change.file}
+                </div>
+                ${renderUnifiedDiff(change.diff)}
+              </div>
+            `
+          )}
+        </div>
+        <div class="actions">
+          <button class="cancel" @click=${this.handleCancel}>Cancel</button>
+          <button class="confirm" @click=${this.handleConfirm}>
+            ${this.confirmLabel}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+}
+
+customElements.define("brakit-change-preview", ChangePreviewDialog);
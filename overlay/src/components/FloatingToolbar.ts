@@ -11,6 +11,7 @@ export class FloatingToolbar {
   private readonly document: Document;
   private undoButton: HTMLButtonElement | null = null;
   private undoMetaLabel: HTMLElement | null = null;
+  private redoButton: HTMLButtonElement | null = null;
   private undoState: UndoUiState = {
     available: false,
     busy: false,
@@ -53,13 +54,65 @@ export class FloatingToolbar {
           <span class="brakit-tool-label">Font</span>
         </button>
 
+        <button data-tool="typography" title="Typography" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">¶</span>
+          <span class="brakit-tool-label">Type</span>
+        </button>
+
         <button data-tool="color" title="Colors (C)" class="brakit-tool-btn">
           <span class="brakit-tool-icon">🎨</span>
           <span class="brakit-tool-label">Color</span>
         </button>
 
+        <button data-tool="spacing" title="Spacing" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">⊡</span>
+          <span class="brakit-tool-label">Spacing</span>
+        </button>
+
+        <button data-tool="border" title="Border & Shadow" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">▢</span>
+          <span class="brakit-tool-label">Border</span>
+        </button>
+
+        <button data-tool="layout" title="Layout" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">▦</span>
+          <span class="brakit-tool-label">Layout</span>
+        </button>
+        <button data-tool="image" title="Image" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">🖼</span>
+          <span class="brakit-tool-label">Image</span>
+        </button>
+        <button data-tool="link" title="Link" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">🔗</span>
+          <span class="brakit-tool-label">Link</span>
+        </button>
+        <button data-tool="prop" title="Props" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">⚙</span>
+          <span class="brakit-tool-label">Props</span>
+        </button>
+
         <div class="brakit-toolbar-divider"></div>
 
+        <button data-tool="move" title="Move" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">✥</span>
+          <span class="brakit-tool-label">Move</span>
+        </button>
+
+        <button data-tool="duplicate" title="Duplicate" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">⧉</span>
+          <span class="brakit-tool-label">Duplicate</span>
+        </button>
+
+        <button data-tool="insert" title="Insert component" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">⊕</span>
+          <span class="brakit-tool-label">Insert</span>
+        </button>
+
+        <button data-tool="wrap" title="Wrap selection" class="brakit-tool-btn">
+          <span class="brakit-tool-icon">⬚</span>
+          <span class="brakit-tool-label">Wrap</span>
+        </button>
+
         <button data-tool="delete" title="Delete (Del)" class="brakit-tool-btn">
           <span class="brakit-tool-icon">🗑</span>
           <span class="brakit-tool-label">Delete</span>
@@ -82,6 +135,16 @@ export class FloatingToolbar {
             <span class="brakit-tool-meta"></span>
           </span>
         </button>
+
+        <button data-action="redo" class="brakit-tool-btn brakit-redo-btn" title="Redo last undone change" disabled>
+          <span class="brakit-tool-icon">↻</span>
+          <span class="brakit-tool-label">Redo</span>
+        </button>
+
+        <button data-action="history" class="brakit-tool-btn brakit-history-btn" title="Session history">
+          <span class="brakit-tool-icon">🕘</span>
+          <span class="brakit-tool-label">History</span>
+        </button>
       </div>
 
       <button class="brakit-toolbar-close" data-action="close" title="Close (Esc)">
@@ -97,6 +160,9 @@ export class FloatingToolbar {
     this.undoMetaLabel = this.undoButton?.querySelector(
       ".brakit-tool-meta"
     ) as HTMLElement | null;
+    this.redoButton = toolbar.querySelector(
+      "[data-action='redo']"
+    ) as HTMLButtonElement | null;
 
     this.applyStyles(toolbar);
     this.applyInternalStyles(toolbar);
@@ -255,6 +321,26 @@ export class FloatingToolbar {
 
     const shouldDisable = !state.available || state.busy;
     this.undoButton.disabled = shouldDisable;
+
+    this.updateRedoButton(state);
+  }
+
+  private updateRedoButton(state: UndoUiState) {
+    if (!this.redoButton) {
+      return;
+    }
+
+    const ready = Boolean(state.redoAvailable) && !state.busy;
+    this.redoButton.classList.toggle("is-available", ready);
+    this.redoButton.disabled = !ready;
+    this.redoButton.setAttribute(
+      "title",
+      state.redoAvailable
+        ? state.redoLabel
+          ? `Redo "${state.redoLabel}"`
+          : "Redo last undone change"
+        : "Redo unavailable. Undo a change to enable it."
+    );
   }
 
   private buildUndoMeta(
@@ -349,6 +435,24 @@ export class FloatingToolbar {
         }
       }
 
+      if (target.closest("[data-action='redo']")) {
+        if (!this.redoButton?.disabled && !this.undoState.busy) {
+          this.document.dispatchEvent(
+            new CustomEvent(OverlayEvents.RedoRequest, {
+              detail: {},
+            })
+          );
+        }
+      }
+
+      if (target.closest("[data-action='history']")) {
+        this.document.dispatchEvent(
+          new CustomEvent("brakit:open-history", {
+            detail: {},
+          })
+        );
+      }
+
       if (target.closest("[data-action='close']")) {
         this.hide();
       }
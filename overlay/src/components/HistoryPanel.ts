@@ -0,0 +1,397 @@
+import { LitElement, html, css } from "lit";
+import type { HistoryLogEntry } from "../services/backendClient";
+import { diffStyles, renderUnifiedDiff } from "./diffView";
+
+interface HistoryRevertDetail {
+  actionId: string;
+}
+
+export class HistoryPanel extends LitElement {
+  static properties = {
+    open: { type: Boolean, reflect: true },
+  };
+
+  open = false;
+  private entries: HistoryLogEntry[] = [];
+  private loading = false;
+  private error: string | null = null;
+  private pendingActionId: string | null = null;
+  private expandedEntries: Set<string> = new Set();
+  private expandedFiles: Set<string> = new Set();
+
+  static styles = css`
+    ${diffStyles}
+
+    :host {
+      position: fixed;
+      top: 0;
+      right: 0;
+      bottom: 0;
+      display: none;
+      z-index: 2147483646;
+      font-family:
+        -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue",
+        Arial, sans-serif;
+    }
+
+    :host([open]) {
+      display: block;
+    }
+
+    .panel {
+      width: min(420px, 100vw);
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      background: rgba(255, 255, 255, 0.98);
+      border-left: 1px solid rgba(15, 23, 42, 0.08);
+      box-shadow: -12px 0 32px rgba(15, 23, 42, 0.12);
+      color: #0f172a;
+    }
+
+    .panel-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 12px;
+      padding: 16px 18px;
+      border-bottom: 1px solid rgba(15, 23, 42, 0.06);
+    }
+
+    .panel-title {
+      font-size: 15px;
+      font-weight: 600;
+      letter-spacing: -0.01em;
+    }
+
+    .header-actions {
+      display: flex;
+      gap: 8px;
+    }
+
+    .panel-body {
+      flex: 1;
+      overflow-y: auto;
+      padding: 12px 14px 20px;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+
+    .state {
+      font-size: 13px;
+      color: rgba(15, 23, 42, 0.6);
+      padding: 12px 4px;
+    }
+
+    .state--error {
+      color: #b91c1c;
+    }
+
+    .entry {
+      border: 1px solid rgba(15, 23, 42, 0.08);
+      border-radius: 12px;
+      background: #ffffff;
+      overflow: hidden;
+    }
+
+    .entry--undone {
+      opacity: 0.6;
+    }
+
+    .entry-header {
+      display: flex;
+      align-items: flex-start;
+      justify-content: space-between;
+      gap: 10px;
+      padding: 10px 12px;
+      cursor: pointer;
+    }
+
+    .entry-label {
+      font-size: 13px;
+      font-weight: 600;
+    }
+
+    .entry-meta {
+      margin-top: 2px;
+      font-size: 11.5px;
+      color: rgba(15, 23, 42, 0.55);
+    }
+
+    .badge {
+      display: inline-block;
+      margin-left: 6px;
+      padding: 1px 6px;
+      border-radius: 999px;
+      font-size: 10.5px;
+      font-weight: 600;
+      background: rgba(148, 163, 184, 0.2);
+      color: rgba(15, 23, 42, 0.65);
+    }
+
+    .badge--stale {
+      background: rgba(245, 158, 11, 0.18);
+      color: #b45309;
+    }
+
+    .files {
+      border-top: 1px solid rgba(15, 23, 42, 0.06);
+      padding: 6px 12px 10px;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+
+    .file-row {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      font-size: 12px;
+      cursor: pointer;
+      padding: 4px 0;
+    }
+
+    .file-name {
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .file-status {
+      font-size: 11px;
+      color: rgba(15, 23, 42, 0.5);
+      flex-shrink: 0;
+    }
+
+    button {
+      border: none;
+      border-radius: 8px;
+      padding: 6px 10px;
+      font-size: 12px;
+      font-weight: 600;
+      cursor: pointer;
+      background: rgba(15, 23, 42, 0.05);
+      color: rgba(15, 23, 42, 0.75);
+      flex-shrink: 0;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    button.revert {
+      background: rgba(239, 68, 68, 0.1);
+      color: #b91c1c;
+    }
+  `;
+
+  render() {
+    if (!this.open) {
+      return html``;
+    }
+
+    return html`
+      <div class="panel">
+        <div class="panel-header">
+          <div class="panel-title">Session history</div>
+          <div class="header-actions">
+            <button ?disabled=${this.loading} @click=${this.handleRefresh}>
+              Refresh
+            </button>
+            <button @click=${this.handleClose}>Close</button>
+          </div>
+        </div>
+        <div class="panel-body">${this.renderBody()}</div>
+      </div>
+    `;
+  }
+
+  openPanel() {
+    this.open = true;
+  }
+
+  closePanel() {
+    this.open = false;
+    this.pendingActionId = null;
+  }
+
+  setEntries(entries: HistoryLogEntry[]) {
+    this.entries = Array.isArray(entries) ? entries : [];
+    this.error = null;
+    this.requestUpdate();
+  }
+
+  setLoading(loading: boolean) {
+    this.loading = loading;
+    if (loading) {
+      this.error = null;
+    }
+    this.requestUpdate();
+  }
+
+  setError(message: string | null) {
+    this.error = message;
+    this.requestUpdate();
+  }
+
+  setRevertPending(actionId: string | null) {
+    this.pendingActionId = actionId;
+    this.requestUpdate();
+  }
+
+  private renderBody() {
+    if (this.loading && this.entries.length === 0) {
+      return html`<div class="state">Loading history…</div>`;
+    }
+
+    const errorBlock = this.error
+      ? html`<div class="state state--error">${this.error}</div>`
+      : null;
+
+    if (this.entries.length === 0) {
+      return html`
+        ${errorBlock}
+        <div class="state">No edits recorded in this session yet.</div>
+      `;
+    }
+
+    return html`
+      ${errorBlock} ${this.entries.map((entry) => this.renderEntry(entry))}
+    `;
+  }
+
+  private renderEntry(entry: HistoryLogEntry) {
+    const expanded = this.expandedEntries.has(entry.id);
+    const fileCount = entry.changes.length;
+    const fileText = fileCount === 1 ? "1 file" : `${fileCount} files`;
+    const isPending = this.pendingActionId === entry.id;
+
+    return html`
+      <div class="entry ${entry.state === "undone" ? "entry--undone" : ""}">
+        <div class="entry-header" @click=${() => this.toggleEntry(entry.id)}>
+          <div>
+            <div class="entry-label">
+              ${entry.label || entry.type}
+              ${entry.state === "undone"
+                ? html`<span class="badge">Undone</span>`
+                : null}
+              ${entry.staleFiles?.length
+                ? html`<span
+                    class="badge badge--stale"
+                    title="Edited outside Brakit: ${entry.staleFiles.join(", ")}"
+                    >Edited since</span
+                  >`
+                : null}
+            </div>
+            <div class="entry-meta">
+              ${this.formatTimestamp(entry.timestamp)} · ${fileText}
+            </div>
+          </div>
+          ${entry.state === "applied"
+            ? html`
+                <button
+                  class="revert"
+                  ?disabled=${Boolean(this.pendingActionId)}
+                  @click=${(event: Event) => this.handleRevert(event, entry.id)}
+                >
+                  ${isPending ? "Reverting…" : "Revert"}
+                </button>
+              `
+            : null}
+        </div>
+        ${expanded
+          ? html`
+              <div class="files">
+                ${entry.changes.map((change) => {
+                  const key = `${entry.id}::${change.file}`;
+                  const showDiff = this.expandedFiles.has(key);
+                  return html`
+                    <div
+                      class="file-row"
+                      @click=${() => this.toggleFile(key)}
+                      title=${change.file}
+                    >
+                      <span class="file-name">${change.file}</span>
+                      <span class="file-status">${change.status}</span>
+                    </div>
+                    ${showDiff ? renderUnifiedDiff(change.diff) : null}
+                  `;
+                })}
+              </div>
+            `
+          : null}
+      </div>
+    `;
+  }
+
+  private formatTimestamp(timestamp: string): string {
+    const parsed = Date.parse(timestamp);
+    if (Number.isNaN(parsed)) {
+      return timestamp;
+    }
+    return new Date(parsed).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  }
+
+  private toggleEntry(id: string) {
+    if (this.expandedEntries.has(id)) {
+      this.expandedEntries.delete(id);
+    } else {
+      this.expandedEntries.add(id);
+    }
+    this.requestUpdate();
+  }
+
+  private toggleFile(key: string) {
+    if (this.expandedFiles.has(key)) {
+      this.expandedFiles.delete(key);
+    } else {
+      this.expandedFiles.add(key);
+    }
+    this.requestUpdate();
+  }
+
+  private handleRevert(event: Event, actionId: string) {
+    event.stopPropagation();
+    if (this.pendingActionId) {
+      return;
+    }
+
+    this.setRevertPending(actionId);
+    this.dispatchEvent(
+      new CustomEvent<HistoryRevertDetail>("history-panel:revert", {
+        detail: { actionId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private handleRefresh = () => {
+    this.dispatchEvent(
+      new CustomEvent("history-panel:refresh", {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  };
+
+  private handleClose = () => {
+    this.closePanel();
+    this.dispatchEvent(
+      new CustomEvent("history-panel:close", {
+        bubbles: true,
+        composed: true,
+      })
+    );
+  };
+}
+
+customElements.define("brakit-history-panel", HistoryPanel);
@@ -1,5 +1,6 @@
 import { LitElement, html, css } from "lit";
 import { customElement, property } from "lit/decorators.js";
+import type { BackendClient } from "../services/backendClient";
 
 @customElement("brakit-loading-overlay")
 export class BrakitLoadingOverlay extends LitElement {
@@ -18,6 +19,8 @@ export class BrakitLoadingOverlay extends LitElement {
   @property({ type: Boolean })
   accessor showDoneButton = false;
 
+  private unsubscribeProgress: (() => void) | null = null;
+
   static styles = css`
     :host {
       position: fixed;
@@ -170,6 +173,22 @@ export class BrakitLoadingOverlay extends LitElement {
     `;
   }
 
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribeProgress?.();
+    this.unsubscribeProgress = null;
+  }
+
+  /** Lists dependency install output as the backend reports it */
+  attachBackend(backend: BackendClient) {
+    this.unsubscribeProgress?.();
+    this.unsubscribeProgress = backend.subscribe("install:progress", (event) => {
+      if (this.visible) {
+        this.addProgressStep(event.message);
+      }
+    });
+  }
+
   show() {
     this.visible = true;
     this.message = "Generating Code";
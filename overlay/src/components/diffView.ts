@@ -0,0 +1,61 @@
+import { html, css } from "lit";
+
+/**
+ * Shared rendering for unified diffs returned by the backend
+ * (history log entries and dry-run previews).
+ */
+export const diffStyles = css`
+  .diff {
+    margin: 0;
+    max-height: 260px;
+    overflow: auto;
+    border-radius: 8px;
+    background: #0f172a;
+    color: #e2e8f0;
+    font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+    font-size: 11px;
+    line-height: 1.5;
+    padding: 8px 0;
+  }
+
+  .diff-line {
+    display: block;
+    padding: 0 10px;
+    white-space: pre;
+  }
+
+  .diff-line--add {
+    background: rgba(34, 197, 94, 0.18);
+    color: #bbf7d0;
+  }
+
+  .diff-line--remove {
+    background: rgba(239, 68, 68, 0.18);
+    color: #fecaca;
+  }
+
+  .diff-line--hunk {
+    color: #7dd3fc;
+  }
+`;
+
+export function renderUnifiedDiff(diff: string) {
+  // Skip the "Index:" and "===" preamble that precedes the file headers
+  const lines = diff
+    .split("\n")
+    .filter((line) => !line.startsWith("Index:") && !/^=+$/.test(line));
+
+  return html`
+    <pre class="diff">${lines.map((line) => {
+      let variant = "";
+      if (line.startsWith("@@")) {
+        variant = "diff-line--hunk";
+      } else if (line.startsWith("+") && !line.startsWith("+++")) {
+        variant = "diff-line--add";
+      } else if (line.startsWith("-") && !line.startsWith("---")) {
+        variant = "diff-line--remove";
+      }
+      return html`<span class="diff-line ${variant}">${line || " "}</span>`;
+    })}</pre>
+  `;
+}
@@ -263,7 +263,7 @@ function collectSiblingSnapshots(
   };
 }
 
-function summarizeLayout(style: CSSStyleDeclaration): LayoutSummary {
+export function summarizeLayout(style: CSSStyleDeclaration): LayoutSummary {
   const summary: LayoutSummary = {};
 
   const assign = (key: keyof LayoutSummary, value: string | null) => {
@@ -1,13 +1,17 @@
 export const OverlayEvents = {
   BubbleClicked: "bubble-clicked",
   BubbleFixError: "bubble-fix-error",
+  BubbleRevertEdit: "bubble-revert-edit",
   ModalSubmit: "brakit-modal-submit",
   ModalClose: "brakit-modal-close",
   ModalUndo: "brakit-modal-undo",
   UndoRequest: "brakit-undo-request",
+  RedoRequest: "brakit-redo-request",
   ToolChange: "brakit-tool-change",
   SmartEditConfirm: "brakit-smart-edit-confirm",
   SmartEditCancel: "brakit-smart-edit-cancel",
+  ChangePreviewConfirm: "brakit-change-preview-confirm",
+  ChangePreviewCancel: "brakit-change-preview-cancel",
 } as const;
 
 type OverlayEventMap = typeof OverlayEvents;
@@ -3,8 +3,29 @@ import { FontSizeTool, FontSizeUpdateData } from "../tools/fontSizeTool";
 import { FontFamilyTool, FontFamilyUpdateData } from "../tools/fontFamilyTool";
 import { ColorTool, ColorUpdateData } from "../tools/colorTool";
 import { DeleteTool, DeleteElementData } from "../tools/deleteTool";
+import { SpacingTool, SpacingUpdateData } from "../tools/spacingTool";
+import { BorderTool, BorderUpdateData } from "../tools/borderTool";
+import { LayoutTool, LayoutUpdateData } from "../tools/layoutTool";
+import { ImageTool, ImageUpdateData } from "../tools/imageTool";
+import { LinkTool, LinkUpdateData } from "../tools/linkTool";
+import { PropTool, PropUpdateData } from "../tools/propTool";
+import { MoveTool, MoveElementData } from "../tools/moveTool";
+import { DuplicateTool, DuplicateElementData } from "../tools/duplicateTool";
+import { InsertTool, InsertComponentData } from "../tools/insertTool";
+import { WrapTool, WrapElementsData } from "../tools/wrapTool";
+import type { BatchEditData } from "../tools/batchEdit";
+import {
+  TypographyTool,
+  TypographyUpdateData,
+} from "../tools/typographyTool";
 import { logger } from "../../utils/logger";
 import { ElementPayloadService } from "../../payload/ElementPayloadService";
+import type {
+  ProjectRoute,
+  PropInspectResponse,
+  PropTargetPayload,
+  PublicImage,
+} from "../../services/backendClient";
 import { getElementInfo } from "../../utils/reactSource";
 import {
   sanitizeElementDetails,
@@ -15,7 +36,18 @@ export enum Tool {
   Text = "text",
   FontSize = "fontSize",
   FontFamily = "fontFamily",
+  Typography = "typography",
   Color = "color",
+  Spacing = "spacing",
+  Border = "border",
+  Layout = "layout",
+  Image = "image",
+  Link = "link",
+  Prop = "prop",
+  Move = "move",
+  Duplicate = "duplicate",
+  Insert = "insert",
+  Wrap = "wrap",
   Delete = "delete",
 }
 
@@ -25,9 +57,26 @@ interface ToolManagerOptions {
   document: Document;
   payloadService: ElementPayloadService;
   onTextUpdate?: (data: TextUpdateData) => void;
+  listLocales?: () => Promise<string[]>;
   onFontSizeUpdate?: (data: FontSizeUpdateData) => void;
   onFontFamilyUpdate?: (data: FontFamilyUpdateData) => void;
+  onTypographyUpdate?: (data: TypographyUpdateData) => void;
   onColorUpdate?: (data: ColorUpdateData) => void;
+  onBatchUpdate?: (data: BatchEditData) => void;
+  onSpacingUpdate?: (data: SpacingUpdateData) => void;
+  onBorderUpdate?: (data: BorderUpdateData) => void;
+  onLayoutUpdate?: (data: LayoutUpdateData) => void;
+  onImageUpdate?: (data: ImageUpdateData) => void;
+  listImages?: () => Promise<PublicImage[]>;
+  uploadImage?: (file: File) => Promise<PublicImage>;
+  onLinkUpdate?: (data: LinkUpdateData) => void;
+  listRoutes?: () => Promise<ProjectRoute[]>;
+  onPropUpdate?: (data: PropUpdateData) => void;
+  inspectProps?: (target: PropTargetPayload) => Promise<PropInspectResponse>;
+  onMoveElement?: (data: MoveElementData) => void;
+  onDuplicateElement?: (data: DuplicateElementData) => void;
+  onInsertComponent?: (data: InsertComponentData) => void;
+  onWrapElements?: (data: WrapElementsData) => void;
   onDeleteElement?: (data: DeleteElementData) => void;
 }
 
@@ -39,7 +88,18 @@ export class ToolManager {
   private textEditTool: TextEditTool;
   private fontSizeTool: FontSizeTool;
   private fontFamilyTool: FontFamilyTool;
+  private typographyTool: TypographyTool;
   private colorTool: ColorTool;
+  private spacingTool: SpacingTool;
+  private borderTool: BorderTool;
+  private layoutTool: LayoutTool;
+  private imageTool: ImageTool;
+  private linkTool: LinkTool;
+  private propTool: PropTool;
+  private moveTool: MoveTool;
+  private duplicateTool: DuplicateTool;
+  private insertTool: InsertTool;
+  private wrapTool: WrapTool;
   private deleteTool: DeleteTool;
   private currentTool: ToolKind | null = null;
   private toolActive = false;
@@ -58,6 +118,7 @@ export class ToolManager {
           this.options.onTextUpdate(data);
         }
       },
+      listLocales: options.listLocales,
     });
     this.fontSizeTool = new FontSizeTool({
       document: this.document,
@@ -66,6 +127,11 @@ export class ToolManager {
           this.options.onFontSizeUpdate(data);
         }
       },
+      onBatchUpdate: (data) => {
+        if (this.options.onBatchUpdate) {
+          this.options.onBatchUpdate(data);
+        }
+      },
     });
     this.fontFamilyTool = new FontFamilyTool({
       document: this.document,
@@ -74,6 +140,19 @@ export class ToolManager {
           this.options.onFontFamilyUpdate(data);
         }
       },
+      onBatchUpdate: (data) => {
+        if (this.options.onBatchUpdate) {
+          this.options.onBatchUpdate(data);
+        }
+      },
+    });
+    this.typographyTool = new TypographyTool({
+      document: this.document,
+      onTypographyUpdate: (data) => {
+        if (this.options.onTypographyUpdate) {
+          this.options.onTypographyUpdate(data);
+        }
+      },
     });
     this.colorTool = new ColorTool({
       document: this.document,
@@ -82,6 +161,95 @@ export class ToolManager {
           this.options.onColorUpdate(data);
         }
       },
+      onBatchUpdate: (data) => {
+        if (this.options.onBatchUpdate) {
+          this.options.onBatchUpdate(data);
+        }
+      },
+    });
+    this.spacingTool = new SpacingTool({
+      document: this.document,
+      onSpacingUpdate: (data) => {
+        if (this.options.onSpacingUpdate) {
+          this.options.onSpacingUpdate(data);
+        }
+      },
+    });
+    this.borderTool = new BorderTool({
+      document: this.document,
+      onBorderUpdate: (data) => {
+        if (this.options.onBorderUpdate) {
+          this.options.onBorderUpdate(data);
+        }
+      },
+    });
+    this.layoutTool = new LayoutTool({
+      document: this.document,
+      onLayoutUpdate: (data) => {
+        if (this.options.onLayoutUpdate) {
+          this.options.onLayoutUpdate(data);
+        }
+      },
+    });
+    this.imageTool = new ImageTool({
+      document: this.document,
+      onImageUpdate: (data) => {
+        if (this.options.onImageUpdate) {
+          this.options.onImageUpdate(data);
+        }
+      },
+      listImages: options.listImages,
+      uploadImage: options.uploadImage,
+    });
+    this.linkTool = new LinkTool({
+      document: this.document,
+      onLinkUpdate: (data) => {
+        if (this.options.onLinkUpdate) {
+          this.options.onLinkUpdate(data);
+        }
+      },
+      listRoutes: options.listRoutes,
+    });
+    this.propTool = new PropTool({
+      document: this.document,
+      onPropUpdate: (data) => {
+        if (this.options.onPropUpdate) {
+          this.options.onPropUpdate(data);
+        }
+      },
+      inspectProps: options.inspectProps,
+    });
+    this.moveTool = new MoveTool({
+      document: this.document,
+      onMoveElement: (data) => {
+        if (this.options.onMoveElement) {
+          this.options.onMoveElement(data);
+        }
+      },
+    });
+    this.duplicateTool = new DuplicateTool({
+      document: this.document,
+      onDuplicateElement: (data) => {
+        if (this.options.onDuplicateElement) {
+          this.options.onDuplicateElement(data);
+        }
+      },
+    });
+    this.insertTool = new InsertTool({
+      document: this.document,
+      onInsertComponent: (data) => {
+        if (this.options.onInsertComponent) {
+          this.options.onInsertComponent(data);
+        }
+      },
+    });
+    this.wrapTool = new WrapTool({
+      document: this.document,
+      onWrapElements: (data) => {
+        if (this.options.onWrapElements) {
+          this.options.onWrapElements(data);
+        }
+      },
     });
     this.deleteTool = new DeleteTool({
       document: this.document,
@@ -180,6 +348,28 @@ export class ToolManager {
           this.colorTool.deactivate();
         } else if (this.currentTool === Tool.FontFamily) {
           this.fontFamilyTool.deactivate();
+        } else if (this.currentTool === Tool.Typography) {
+          this.typographyTool.deactivate();
+        } else if (this.currentTool === Tool.Spacing) {
+          this.spacingTool.deactivate();
+        } else if (this.currentTool === Tool.Border) {
+          this.borderTool.deactivate();
+        } else if (this.currentTool === Tool.Layout) {
+          this.layoutTool.deactivate();
+        } else if (this.currentTool === Tool.Image) {
+          this.imageTool.deactivate();
+        } else if (this.currentTool === Tool.Link) {
+          this.linkTool.deactivate();
+        } else if (this.currentTool === Tool.Prop) {
+          this.propTool.deactivate();
+        } else if (this.currentTool === Tool.Move) {
+          this.moveTool.deactivate();
+        } else if (this.currentTool === Tool.Duplicate) {
+          this.duplicateTool.deactivate();
+        } else if (this.currentTool === Tool.Insert) {
+          this.insertTool.deactivate();
+        } else if (this.currentTool === Tool.Wrap) {
+          this.wrapTool.deactivate();
         } else if (this.currentTool === Tool.Delete) {
           this.deleteTool.deactivate();
         }
@@ -200,11 +390,33 @@ export class ToolManager {
           ? Tool.FontSize
           : requestedTool === "fontFamily"
             ? Tool.FontFamily
-            : requestedTool === "color"
-              ? Tool.Color
-              : requestedTool === "delete"
-                ? Tool.Delete
-                : Tool.Text;
+            : requestedTool === "typography"
+              ? Tool.Typography
+              : requestedTool === "color"
+                ? Tool.Color
+                : requestedTool === "spacing"
+                  ? Tool.Spacing
+                  : requestedTool === "border"
+                    ? Tool.Border
+                    : requestedTool === "layout"
+                      ? Tool.Layout
+                      : requestedTool === "image"
+                        ? Tool.Image
+                        : requestedTool === "link"
+                          ? Tool.Link
+                          : requestedTool === "prop"
+                            ? Tool.Prop
+                            : requestedTool === "move"
+                              ? Tool.Move
+                              : requestedTool === "duplicate"
+                                ? Tool.Duplicate
+                                : requestedTool === "insert"
+                                  ? Tool.Insert
+                                  : requestedTool === "wrap"
+                                    ? Tool.Wrap
+                                    : requestedTool === "delete"
+                                      ? Tool.Delete
+                                      : Tool.Text;
 
     if (this.currentTool === tool && this.toolActive) {
       return;
@@ -219,6 +431,28 @@ export class ToolManager {
         this.colorTool.deactivate();
       } else if (this.currentTool === Tool.FontFamily) {
         this.fontFamilyTool.deactivate();
+      } else if (this.currentTool === Tool.Typography) {
+        this.typographyTool.deactivate();
+      } else if (this.currentTool === Tool.Spacing) {
+        this.spacingTool.deactivate();
+      } else if (this.currentTool === Tool.Border) {
+        this.borderTool.deactivate();
+      } else if (this.currentTool === Tool.Layout) {
+        this.layoutTool.deactivate();
+      } else if (this.currentTool === Tool.Image) {
+        this.imageTool.deactivate();
+      } else if (this.currentTool === Tool.Link) {
+        this.linkTool.deactivate();
+      } else if (this.currentTool === Tool.Prop) {
+        this.propTool.deactivate();
+      } else if (this.currentTool === Tool.Move) {
+        this.moveTool.deactivate();
+      } else if (this.currentTool === Tool.Duplicate) {
+        this.duplicateTool.deactivate();
+      } else if (this.currentTool === Tool.Insert) {
+        this.insertTool.deactivate();
+      } else if (this.currentTool === Tool.Wrap) {
+        this.wrapTool.deactivate();
       } else if (this.currentTool === Tool.Delete) {
         this.deleteTool.deactivate();
       }
@@ -232,36 +466,296 @@ export class ToolManager {
         this.fontSizeTool.deactivate();
         this.fontFamilyTool.deactivate();
         this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
         this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
         this.textEditTool.activate();
         break;
       case Tool.FontSize:
         this.textEditTool.deactivate();
         this.fontFamilyTool.deactivate();
         this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
         this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
         this.fontSizeTool.activate();
         break;
       case Tool.FontFamily:
         this.textEditTool.deactivate();
         this.fontSizeTool.deactivate();
         this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
         this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
         this.fontFamilyTool.activate();
         break;
+      case Tool.Typography:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.typographyTool.activate();
+        break;
       case Tool.Color:
         this.textEditTool.deactivate();
         this.fontSizeTool.deactivate();
         this.fontFamilyTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
         this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
         this.colorTool.activate();
         break;
+      case Tool.Spacing:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.spacingTool.activate();
+        break;
+      case Tool.Border:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.layoutTool.deactivate();
+        this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.borderTool.activate();
+        break;
+      case Tool.Layout:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.typographyTool.deactivate();
+        this.colorTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.deleteTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.layoutTool.activate();
+        break;
+
+      case Tool.Image:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.deleteTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.imageTool.activate();
+        break;
+
+      case Tool.Link:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.imageTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.deleteTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.linkTool.activate();
+        break;
+
+      case Tool.Prop:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.deleteTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.propTool.activate();
+        break;
+
+      case Tool.Move:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.deleteTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.moveTool.activate();
+        break;
+
+      case Tool.Duplicate:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.moveTool.deactivate();
+        this.deleteTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
+        this.duplicateTool.activate();
+        break;
+
+      case Tool.Insert:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.deleteTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.wrapTool.deactivate();
+        this.insertTool.activate();
+        break;
+
+      case Tool.Wrap:
+        this.textEditTool.deactivate();
+        this.fontSizeTool.deactivate();
+        this.fontFamilyTool.deactivate();
+        this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.deleteTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.activate();
+        break;
 
       case Tool.Delete:
         this.textEditTool.deactivate();
         this.fontSizeTool.deactivate();
         this.fontFamilyTool.deactivate();
         this.colorTool.deactivate();
+        this.typographyTool.deactivate();
+        this.spacingTool.deactivate();
+        this.borderTool.deactivate();
+        this.layoutTool.deactivate();
+        this.moveTool.deactivate();
+        this.duplicateTool.deactivate();
+        this.imageTool.deactivate();
+        this.linkTool.deactivate();
+        this.propTool.deactivate();
+        this.insertTool.deactivate();
+        this.wrapTool.deactivate();
         this.deleteTool.activate();
         break;
     }
@@ -279,6 +773,17 @@ export class ToolManager {
     }
     this.fontSizeTool.destroy();
     this.fontFamilyTool.destroy();
+    this.typographyTool.destroy();
+    this.spacingTool.destroy();
+    this.borderTool.destroy();
+    this.layoutTool.destroy();
+    this.imageTool.destroy();
+    this.linkTool.destroy();
+    this.propTool.destroy();
+    this.moveTool.destroy();
+    this.duplicateTool.destroy();
+    this.insertTool.destroy();
+    this.wrapTool.destroy();
     this.toolActive = false;
   }
 
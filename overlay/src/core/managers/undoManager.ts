@@ -1,4 +1,10 @@
-import { BackendClient, UndoActionResponse } from "../../services/backendClient";
+import {
+  BackendClient,
+  HistoryApplyOptions,
+  HistoryJumpResponse,
+  HistorySnapshot,
+  UndoActionResponse,
+} from "../../services/backendClient";
 import { logger } from "../../utils/logger";
 
 export interface UndoUiState {
@@ -8,6 +14,8 @@ export interface UndoUiState {
   timestamp?: string;
   fileCount?: number;
   attention?: boolean;
+  redoAvailable?: boolean;
+  redoLabel?: string;
 }
 
 interface UndoManagerOptions {
@@ -29,8 +37,23 @@ export class UndoManager {
     this.backend = options.backend;
     this.onStateChange = options.onStateChange;
 
+    // Pushed history events carry the new state, so polling is only needed
+    // while the event stream is down or after it missed events
+    this.backend.subscribe("action:committed", (event) =>
+      this.applySnapshot(event.history)
+    );
+    this.backend.subscribe("history:changed", (event) =>
+      this.applySnapshot(event.history)
+    );
+    this.backend.onEventStreamChange((connected) => {
+      if (connected && this.initialized) {
+        void this.refreshState();
+      }
+    });
     this.backend.onHistoryChange(() => {
-      void this.refreshState();
+      if (!this.backend.isEventStreamConnected()) {
+        void this.refreshState();
+      }
     });
   }
 
@@ -54,29 +77,16 @@ export class UndoManager {
         return;
       }
 
-      if (!status.hasAction || !status.action) {
-        this.updateState({
-          available: false,
-          label: undefined,
-          timestamp: undefined,
-          fileCount: undefined,
-          attention: false,
-        });
-        return;
-      }
-
-      this.updateState({
-        available: true,
-        label: status.action.label,
-        timestamp: status.action.timestamp,
-        fileCount: status.action.fileCount,
+      this.applySnapshot({
+        action: status.hasAction ? (status.action ?? null) : null,
+        redoAction: status.hasRedo ? (status.redoAction ?? null) : null,
       });
     } catch (error) {
       logger.warn("Failed to refresh undo status", error);
     }
   }
 
-  async undo(): Promise<UndoActionResponse> {
+  async undo(options?: HistoryApplyOptions): Promise<UndoActionResponse> {
     if (this.state.busy) {
       return {
         success: false,
@@ -87,7 +97,7 @@ export class UndoManager {
     this.updateState({ busy: true });
 
     try {
-      const response = await this.backend.undoLastAction();
+      const response = await this.backend.undoLastAction(options);
       if (response.success) {
         await this.refreshState();
       }
@@ -103,6 +113,89 @@ export class UndoManager {
     }
   }
 
+  async redo(options?: HistoryApplyOptions): Promise<UndoActionResponse> {
+    if (this.state.busy) {
+      return {
+        success: false,
+        error: "Another history operation is in progress",
+      };
+    }
+
+    this.updateState({ busy: true });
+
+    try {
+      const response = await this.backend.redoLastAction(options);
+      if (response.success) {
+        await this.refreshState();
+      }
+      return response;
+    } catch (error) {
+      logger.error("Redo manager error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to redo changes",
+      };
+    } finally {
+      this.updateState({ busy: false });
+    }
+  }
+
+  async jumpTo(
+    actionId: string,
+    options?: HistoryApplyOptions
+  ): Promise<HistoryJumpResponse> {
+    if (this.state.busy) {
+      return {
+        success: false,
+        error: "Another history operation is in progress",
+      };
+    }
+
+    this.updateState({ busy: true });
+
+    try {
+      const response = await this.backend.jumpToHistoryEntry(actionId, options);
+      await this.refreshState();
+      return response;
+    } catch (error) {
+      logger.error("History jump manager error", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Failed to jump to action",
+      };
+    } finally {
+      this.updateState({ busy: false });
+    }
+  }
+
+  private applySnapshot(history: HistorySnapshot) {
+    const redoState: Partial<UndoUiState> = {
+      redoAvailable: Boolean(history.redoAction),
+      redoLabel: history.redoAction?.label,
+    };
+
+    if (!history.action) {
+      this.updateState({
+        ...redoState,
+        available: false,
+        label: undefined,
+        timestamp: undefined,
+        fileCount: undefined,
+        attention: false,
+      });
+      return;
+    }
+
+    this.updateState({
+      ...redoState,
+      available: true,
+      label: history.action.label,
+      timestamp: history.action.timestamp,
+      fileCount: history.action.fileCount,
+    });
+  }
+
   private updateState(
     patch: Partial<UndoUiState>,
     options?: { skipAttentionCheck?: boolean }
@@ -1,13 +1,55 @@
 import {
   BackendClient,
+  BatchUpdatePayload,
   SmartEditUpdateResponse,
   DeletePayload,
   DeleteResponse,
+  DuplicatePayload,
+  ImageUpdatePayload,
+  InsertComponentPayload,
+  LinkUpdatePayload,
+  PropUpdatePayload,
+  MovePayload,
+  WrapPayload,
+  PreviewFileChange,
+  SpacingGroupUpdate,
 } from "../../services/backendClient";
 import { logger } from "../../utils/logger";
 import type { SmartEditWarningOptions } from "../../components/SmartEditWarning";
+import { ChangePreviewDialog } from "../../components/ChangePreviewDialog";
+import { DialogInitializer } from "../../utils/dialogInitializer";
+import { OverlayEvents } from "../events";
+import type { MoveElementData } from "../tools/moveTool";
+import type { DuplicateElementData } from "../tools/duplicateTool";
+import type { InsertComponentData } from "../tools/insertTool";
+import type { WrapElementsData } from "../tools/wrapTool";
+import type { ColorUpdateData } from "../tools/colorTool";
+import type { FontSizeUpdateData } from "../tools/fontSizeTool";
+import type { FontFamilyUpdateData } from "../tools/fontFamilyTool";
+import type { BatchEditData } from "../tools/batchEdit";
+import type { ImageUpdateData } from "../tools/imageTool";
+import type { LinkUpdateData } from "../tools/linkTool";
+import type { PropUpdateData } from "../tools/propTool";
 
-export type SmartEditKind = "text" | "fontSize" | "fontFamily" | "color";
+export type SmartEditKind =
+  | "text"
+  | "fontSize"
+  | "fontFamily"
+  | "color"
+  | "spacing"
+  | "typography"
+  | "border"
+  | "layout"
+  | "image"
+  | "link"
+  | "prop";
+
+type StructuralEditKind =
+  | "delete"
+  | "move"
+  | "duplicate"
+  | "insert"
+  | "wrap";
 
 type SmartEditWarningElement = HTMLElement & {
   openWarning: (options: SmartEditWarningOptions) => void;
@@ -29,7 +71,7 @@ interface SmartEditCallbacks {
 }
 
 /**
- * Handles smart edit operations (text, font size, color updates) with
+ * Handles smart edit operations (text, font size, color, spacing updates) with
  * shared component detection and confirmation workflows
  */
 export class SmartEditOrchestrator {
@@ -37,6 +79,7 @@ export class SmartEditOrchestrator {
   private readonly callbacks: SmartEditCallbacks;
   private smartEditWarning: SmartEditWarningElement | null = null;
   private pendingSmartEdit: PendingSmartEdit | null = null;
+  private changePreview: ChangePreviewDialog | null = null;
 
   constructor(backend: BackendClient, callbacks: SmartEditCallbacks) {
     this.backend = backend;
@@ -87,10 +130,21 @@ export class SmartEditOrchestrator {
       textContent: data.textContent ?? data.oldText,
       ownerComponentName: data.ownerComponentName,
       ownerFilePath: data.ownerFilePath,
+      listEditMode: data.listEditMode,
+      locale: data.locale,
+      translationLocales: data.translationLocales,
     };
 
     try {
-      const response = await this.backend.updateText(payload);
+      const response = await this.applyWithPreview(
+        "text",
+        payload,
+        (nextPayload) =>
+          this.backend.updateText(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
 
       if (response.warning) {
         logger.warn("Smart edit warning for text update", {
@@ -136,37 +190,625 @@ export class SmartEditOrchestrator {
       return;
     }
 
-    const payload = {
-      oldSize: data.oldSize,
-      newSize: data.newSize,
-      text: data.text,
+    const payload = this.buildFontSizePayload(data);
+
+    try {
+      const response = await this.applyWithPreview(
+        "fontSize",
+        payload,
+        (nextPayload) =>
+          this.backend.updateFontSize(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for font size update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "fontSize",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateFontSize(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Font size update failed";
+        logger.warn("Font size update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Font size update error", error);
+      this.callbacks.showToast("Unexpected error updating font size", "error");
+    }
+  }
+
+  async handleFontFamilyUpdate(data: any): Promise<void> {
+    if (data.oldFont === data.newFont) {
+      this.callbacks.showToast(
+        "Font already set to the requested family.",
+        "info"
+      );
+      return;
+    }
+
+    const payload = this.buildFontFamilyPayload(data);
+
+    try {
+      const response = await this.applyWithPreview(
+        "fontFamily",
+        payload,
+        (nextPayload) =>
+          this.backend.updateFontFamily(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for font family update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "fontFamily",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateFontFamily(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Font update failed";
+        logger.warn("Font family update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Font family update error", error);
+      this.callbacks.showToast("Unexpected error updating font family", "error");
+    }
+  }
+
+  async handleColorUpdate(data: any): Promise<void> {
+    if (!this.hasColorChange(data)) {
+      this.callbacks.showToast(
+        "Colors already match the requested values.",
+        "info"
+      );
+      return;
+    }
+
+    const payload = this.buildColorPayload(data);
+
+    logger.info("Submitting color update", payload);
+
+    try {
+      const response = await this.applyWithPreview(
+        "color",
+        payload,
+        (nextPayload) =>
+          this.backend.updateColor(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for color update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "color",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateColor(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Color update failed";
+        logger.warn("Color update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Color update error", error);
+      this.callbacks.showToast("Unexpected error updating color", "error");
+    }
+  }
+
+  /**
+   * Applies one color or font edit to a shift-click selection as a single
+   * request, so the backend records it as one undoable action.
+   */
+  async handleBatchUpdate(data: BatchEditData): Promise<void> {
+    const updates: BatchUpdatePayload["updates"] =
+      data.kind === "color"
+        ? data.updates
+            .filter((update) => this.hasColorChange(update))
+            .map((update) => ({
+              kind: data.kind,
+              payload: this.buildColorPayload(update),
+            }))
+        : data.kind === "fontSize"
+          ? data.updates
+              .filter((update) => update.oldSize !== update.newSize)
+              .map((update) => ({
+                kind: data.kind,
+                payload: this.buildFontSizePayload(update),
+              }))
+          : data.updates
+              .filter((update) => update.oldFont !== update.newFont)
+              .map((update) => ({
+                kind: data.kind,
+                payload: this.buildFontFamilyPayload(update),
+              }));
+
+    if (updates.length === 0) {
+      this.callbacks.showToast(
+        "Selected elements already match the requested values.",
+        "info"
+      );
+      return;
+    }
+
+    const payload: BatchUpdatePayload = { updates };
+    const label = this.getSmartEditLabel(data.kind);
+
+    try {
+      const response = await this.applyWithPreview(
+        data.kind,
+        payload,
+        (nextPayload) =>
+          this.backend.batchUpdate(nextPayload as BatchUpdatePayload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.success) {
+        const notApplied =
+          response.results?.filter((result) => !result.success) ?? [];
+        if (notApplied.length > 0) {
+          logger.warn("Batch update partially applied", {
+            kind: data.kind,
+            notApplied,
+          });
+          this.callbacks.showToast(
+            response.message ||
+              `${notApplied.length} element(s) could not be updated`,
+            "warning",
+            6000
+          );
+        } else {
+          this.callbacks.showToast(
+            response.message || `Updated ${updates.length} elements`,
+            "success"
+          );
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Batch update failed";
+        logger.warn("Batch update failed", {
+          kind: data.kind,
+          error: errorMessage,
+        });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Batch update error", error);
+      this.callbacks.showToast(
+        `Unexpected error applying ${label} to the selection`,
+        "error"
+      );
+    }
+  }
+
+  async handleSpacingUpdate(data: any): Promise<void> {
+    const spacing: SpacingGroupUpdate[] = Array.isArray(data.spacing)
+      ? data.spacing.filter(
+          (update: SpacingGroupUpdate) =>
+            update.old.join(" ") !== update.new.join(" ")
+        )
+      : [];
+
+    if (spacing.length === 0) {
+      this.callbacks.showToast(
+        "Spacing already matches the requested values.",
+        "info"
+      );
+      return;
+    }
+
+    const payload = {
+      spacing,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+      line: data.line,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "spacing",
+        payload,
+        (nextPayload) =>
+          this.backend.updateSpacing(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for spacing update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "spacing",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateSpacing(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Spacing update failed";
+        logger.warn("Spacing update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Spacing update error", error);
+      this.callbacks.showToast("Unexpected error updating spacing", "error");
+    }
+  }
+
+  async handleTypographyUpdate(data: any): Promise<void> {
+    const fields = [
+      "fontWeight",
+      "lineHeight",
+      "letterSpacing",
+      "textAlign",
+      "textTransform",
+    ] as const;
+    const changes = Object.fromEntries(
+      fields
+        .filter((field) => data[field] && data[field].old !== data[field].new)
+        .map((field) => [field, data[field]])
+    );
+
+    if (Object.keys(changes).length === 0) {
+      this.callbacks.showToast(
+        "Typography already matches the requested values.",
+        "info"
+      );
+      return;
+    }
+
+    const payload = {
+      ...changes,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+      line: data.line,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "typography",
+        payload,
+        (nextPayload) =>
+          this.backend.updateTypography(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for typography update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "typography",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateTypography(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Typography update failed";
+        logger.warn("Typography update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Typography update error", error);
+      this.callbacks.showToast("Unexpected error updating typography", "error");
+    }
+  }
+
+  async handleBorderUpdate(data: any): Promise<void> {
+    const fields = [
+      "borderRadius",
+      "borderWidth",
+      "borderStyle",
+      "borderColor",
+      "boxShadow",
+    ] as const;
+    const changes = Object.fromEntries(
+      fields
+        .filter((field) => data[field] && data[field].old !== data[field].new)
+        .map((field) => [field, data[field]])
+    );
+
+    if (Object.keys(changes).length === 0) {
+      this.callbacks.showToast(
+        "Border styles already match the requested values.",
+        "info"
+      );
+      return;
+    }
+
+    const payload = {
+      ...changes,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+      line: data.line,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "border",
+        payload,
+        (nextPayload) =>
+          this.backend.updateBorder(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for border update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "border",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateBorder(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Border update failed";
+        logger.warn("Border update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Border update error", error);
+      this.callbacks.showToast("Unexpected error updating border styles", "error");
+    }
+  }
+
+  async handleLayoutUpdate(data: any): Promise<void> {
+    const fields = [
+      "display",
+      "flexDirection",
+      "flexWrap",
+      "justifyContent",
+      "alignItems",
+      "gridColumns",
+      "gap",
+    ] as const;
+    const changes = Object.fromEntries(
+      fields
+        .filter((field) => data[field] && data[field].old !== data[field].new)
+        .map((field) => [field, data[field]])
+    );
+
+    if (Object.keys(changes).length === 0) {
+      this.callbacks.showToast(
+        "Layout already matches the requested values.",
+        "info"
+      );
+      return;
+    }
+
+    const payload = {
+      ...changes,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+      line: data.line,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "layout",
+        payload,
+        (nextPayload) =>
+          this.backend.updateLayout(nextPayload as typeof payload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        logger.warn("Smart edit warning for layout update", {
+          message: response.message,
+          details: response.details,
+          detectedProps: response.detectedProps,
+        });
+
+        this.promptSmartEditWarning(
+          "layout",
+          payload,
+          response,
+          (retryPayload: Record<string, any>) =>
+            this.backend.updateLayout(
+              retryPayload as typeof payload & { forceGlobal?: boolean }
+            )
+        );
+        return;
+      }
+
+      if (response.success) {
+        if (response.message) {
+          this.callbacks.showToast(response.message, "success");
+        }
+      } else {
+        const errorMessage =
+          response.error || response.message || "Layout update failed";
+        logger.warn("Layout update failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Layout update error", error);
+      this.callbacks.showToast("Unexpected error updating layout", "error");
+    }
+  }
+
+  async handleImageUpdate(data: ImageUpdateData): Promise<void> {
+    const changes: Partial<ImageUpdatePayload> = {};
+    if (data.src !== undefined) changes.src = data.src;
+    if (data.alt !== undefined) changes.alt = data.alt;
+    if (data.width !== undefined) changes.width = data.width;
+    if (data.height !== undefined) changes.height = data.height;
+
+    if (Object.keys(changes).length === 0) {
+      this.callbacks.showToast("Image already matches.", "info");
+      return;
+    }
+
+    const payload: ImageUpdatePayload = {
+      ...changes,
+      currentSrc: data.currentSrc,
+      currentAlt: data.currentAlt,
       tag: data.tag,
       file: data.file,
       className: data.className,
       elementTag: data.elementTag ?? data.tag,
-      textContent: data.textContent ?? data.text,
       ownerComponentName: data.ownerComponentName,
       ownerFilePath: data.ownerFilePath,
     };
 
     try {
-      const response = await this.backend.updateFontSize(payload);
+      const response = await this.applyWithPreview(
+        "image",
+        payload,
+        (nextPayload) =>
+          this.backend.updateImage(nextPayload as ImageUpdatePayload)
+      );
+      if (!response) {
+        return;
+      }
 
       if (response.warning) {
-        logger.warn("Smart edit warning for font size update", {
+        logger.warn("Smart edit warning for image update", {
           message: response.message,
           details: response.details,
           detectedProps: response.detectedProps,
         });
 
         this.promptSmartEditWarning(
-          "fontSize",
+          "image",
           payload,
           response,
           (retryPayload: Record<string, any>) =>
-            this.backend.updateFontSize(
-              retryPayload as typeof payload & { forceGlobal?: boolean }
-            )
+            this.backend.updateImage(retryPayload as ImageUpdatePayload)
         );
         return;
       }
@@ -177,132 +819,126 @@ export class SmartEditOrchestrator {
         }
       } else {
         const errorMessage =
-          response.error || response.message || "Font size update failed";
-        logger.warn("Font size update failed", { error: errorMessage });
+          response.error || response.message || "Image update failed";
+        logger.warn("Image update failed", { error: errorMessage });
         this.callbacks.showToast(errorMessage, "error");
       }
     } catch (error) {
-      logger.error("Font size update error", error);
-      this.callbacks.showToast("Unexpected error updating font size", "error");
+      logger.error("Image update error", error);
+      this.callbacks.showToast("Unexpected error updating image", "error");
     }
   }
 
-  async handleFontFamilyUpdate(data: any): Promise<void> {
-    if (data.oldFont === data.newFont) {
-      this.callbacks.showToast(
-        "Font already set to the requested family.",
-        "info"
-      );
+  async handleLinkUpdate(data: LinkUpdateData): Promise<void> {
+    const changes: Partial<LinkUpdatePayload> = {};
+    if (data.href !== undefined) changes.href = data.href;
+    if (data.target !== undefined) changes.target = data.target;
+    if (data.rel !== undefined) changes.rel = data.rel;
+
+    if (Object.keys(changes).length === 0) {
+      this.callbacks.showToast("Link already matches.", "info");
       return;
     }
 
-    const payload = {
-      oldFont: data.oldFont,
-      newFont: data.newFont,
+    const payload: LinkUpdatePayload = {
+      ...changes,
+      currentHref: data.currentHref,
       text: data.text,
       tag: data.tag,
       file: data.file,
       className: data.className,
       elementTag: data.elementTag ?? data.tag,
-      textContent: data.textContent ?? data.text,
       ownerComponentName: data.ownerComponentName,
       ownerFilePath: data.ownerFilePath,
     };
 
     try {
-      const response = await this.backend.updateFontFamily(payload);
+      const response = await this.applyWithPreview(
+        "link",
+        payload,
+        (nextPayload) =>
+          this.backend.updateLink(nextPayload as LinkUpdatePayload)
+      );
+      if (!response) {
+        return;
+      }
 
       if (response.warning) {
-        logger.warn("Smart edit warning for font family update", {
+        logger.warn("Smart edit warning for link update", {
           message: response.message,
           details: response.details,
           detectedProps: response.detectedProps,
         });
 
         this.promptSmartEditWarning(
-          "fontFamily",
+          "link",
           payload,
           response,
           (retryPayload: Record<string, any>) =>
-            this.backend.updateFontFamily(
-              retryPayload as typeof payload & { forceGlobal?: boolean }
-            )
+            this.backend.updateLink(retryPayload as LinkUpdatePayload)
         );
         return;
       }
 
       if (response.success) {
-        if (response.message) {
+        if (response.missingRoute) {
+          this.callbacks.showToast(
+            `${response.message ?? "Link updated"}, but no page serves "${response.missingRoute}" yet.`,
+            "warning",
+            6000
+          );
+        } else if (response.message) {
           this.callbacks.showToast(response.message, "success");
         }
       } else {
         const errorMessage =
-          response.error || response.message || "Font update failed";
-        logger.warn("Font family update failed", { error: errorMessage });
+          response.error || response.message || "Link update failed";
+        logger.warn("Link update failed", { error: errorMessage });
         this.callbacks.showToast(errorMessage, "error");
       }
     } catch (error) {
-      logger.error("Font family update error", error);
-      this.callbacks.showToast("Unexpected error updating font family", "error");
+      logger.error("Link update error", error);
+      this.callbacks.showToast("Unexpected error updating link", "error");
     }
   }
 
-  async handleColorUpdate(data: any): Promise<void> {
-    const noTextColorChange =
-      !data.textColor || data.textColor.old === data.textColor.new;
-    const noBackgroundChange =
-      !data.backgroundColor ||
-      data.backgroundColor.old === data.backgroundColor.new;
-    const noHoverBackgroundChange =
-      !data.hoverBackgroundColor ||
-      data.hoverBackgroundColor.old === data.hoverBackgroundColor.new;
-
-    if (
-      noTextColorChange &&
-      noBackgroundChange &&
-      noHoverBackgroundChange
-    ) {
-      this.callbacks.showToast(
-        "Colors already match the requested values.",
-        "info"
-      );
-      return;
-    }
-
-    const payload = {
-      textColor: data.textColor,
-      backgroundColor: data.backgroundColor,
-      hoverBackgroundColor: data.hoverBackgroundColor,
+  async handlePropUpdate(data: PropUpdateData): Promise<void> {
+    const payload: PropUpdatePayload = {
+      name: data.name,
+      value: data.value,
       text: data.text,
       tag: data.tag,
       file: data.file,
       className: data.className,
       elementTag: data.elementTag ?? data.tag,
-      textContent: data.textContent ?? data.text,
       ownerComponentName: data.ownerComponentName,
       ownerFilePath: data.ownerFilePath,
     };
 
-    logger.info("Submitting color update", payload);
-
     try {
-      const response = await this.backend.updateColor(payload);
+      const response = await this.applyWithPreview(
+        "prop",
+        payload,
+        (nextPayload) =>
+          this.backend.updateProp(nextPayload as PropUpdatePayload)
+      );
+      if (!response) {
+        return;
+      }
 
       if (response.warning) {
-        logger.warn("Smart edit warning for color update", {
+        logger.warn("Smart edit warning for prop update", {
           message: response.message,
           details: response.details,
           detectedProps: response.detectedProps,
         });
 
         this.promptSmartEditWarning(
-          "color",
+          "prop",
           payload,
           response,
           (retryPayload: Record<string, any>) =>
-            this.backend.updateColor(
-              retryPayload as typeof payload & { forceGlobal?: boolean }
-            )
+            this.backend.updateProp(retryPayload as PropUpdatePayload)
         );
         return;
       }
@@ -313,16 +949,68 @@ export class SmartEditOrchestrator {
         }
       } else {
         const errorMessage =
-          response.error || response.message || "Color update failed";
-        logger.warn("Color update failed", { error: errorMessage });
+          response.error || response.message || "Prop update failed";
+        logger.warn("Prop update failed", { error: errorMessage });
         this.callbacks.showToast(errorMessage, "error");
       }
     } catch (error) {
-      logger.error("Color update error", error);
-      this.callbacks.showToast("Unexpected error updating color", "error");
+      logger.error("Prop update error", error);
+      this.callbacks.showToast("Unexpected error updating prop", "error");
     }
   }
 
+  private hasColorChange(data: ColorUpdateData): boolean {
+    return (["textColor", "backgroundColor", "hoverBackgroundColor"] as const)
+      .map((key) => data[key])
+      .some((change) => change !== undefined && change.old !== change.new);
+  }
+
+  private buildColorPayload(data: ColorUpdateData) {
+    return {
+      textColor: data.textColor,
+      backgroundColor: data.backgroundColor,
+      hoverBackgroundColor: data.hoverBackgroundColor,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+    };
+  }
+
+  private buildFontSizePayload(data: FontSizeUpdateData) {
+    return {
+      oldSize: data.oldSize,
+      newSize: data.newSize,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+    };
+  }
+
+  private buildFontFamilyPayload(data: FontFamilyUpdateData) {
+    return {
+      oldFont: data.oldFont,
+      newFont: data.newFont,
+      text: data.text,
+      tag: data.tag,
+      file: data.file,
+      className: data.className,
+      elementTag: data.elementTag ?? data.tag,
+      textContent: data.textContent ?? data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+    };
+  }
+
   private promptSmartEditWarning(
     kind: SmartEditKind,
     payload: Record<string, any>,
@@ -385,7 +1073,14 @@ export class SmartEditOrchestrator {
     }
 
     try {
-      const response = await pending.executor(retryPayload);
+      const response = await this.applyWithPreview(
+        pending.kind,
+        retryPayload,
+        pending.executor
+      );
+      if (!response) {
+        return;
+      }
 
       if (response.warning) {
         logger.warn("Smart edit still flagged after force override", {
@@ -445,6 +1140,94 @@ export class SmartEditOrchestrator {
     this.pendingSmartEdit = null;
   };
 
+  /**
+   * Runs the update as a dry run, shows the resulting diff and only writes once
+   * the user confirms. Resolves to null when the change is discarded.
+   */
+  private async applyWithPreview<
+    TResponse extends {
+      success: boolean;
+      warning?: boolean;
+      changes?: PreviewFileChange[];
+    },
+  >(
+    kind: SmartEditKind | StructuralEditKind,
+    payload: Record<string, any>,
+    executor: (payload: Record<string, any>) => Promise<TResponse>
+  ): Promise<TResponse | null> {
+    const preview = await executor({ ...payload, dryRun: true });
+
+    // Warnings and failures are handled by the caller exactly as before
+    if (!preview.success || preview.warning || !preview.changes?.length) {
+      return preview;
+    }
+
+    const confirmed = await this.confirmChanges(kind, preview.changes);
+    if (!confirmed) {
+      this.callbacks.showToast(
+        `Discarded ${this.isStructuralEdit(kind) ? kind : this.getSmartEditLabel(kind)}`,
+        "info"
+      );
+      return null;
+    }
+
+    return executor(payload);
+  }
+
+  private confirmChanges(
+    kind: SmartEditKind | StructuralEditKind,
+    changes: PreviewFileChange[]
+  ): Promise<boolean> {
+    const dialog = this.ensureChangePreview();
+
+    return new Promise<boolean>((resolve) => {
+      const finish = (confirmed: boolean) => {
+        dialog.removeEventListener(OverlayEvents.ChangePreviewConfirm, onConfirm);
+        dialog.removeEventListener(OverlayEvents.ChangePreviewCancel, onCancel);
+        resolve(confirmed);
+      };
+      const onConfirm = () => finish(true);
+      const onCancel = () => finish(false);
+
+      dialog.addEventListener(OverlayEvents.ChangePreviewConfirm, onConfirm);
+      dialog.addEventListener(OverlayEvents.ChangePreviewCancel, onCancel);
+
+      dialog.openPreview({
+        title: this.isStructuralEdit(kind)
+          ? `Review ${kind}`
+          : `Review ${this.getSmartEditLabel(kind)}`,
+        confirmLabel: this.isStructuralEdit(kind)
+          ? `${kind.charAt(0).toUpperCase()}${kind.slice(1)}`
+          : "Apply",
+        changes,
+      });
+    });
+  }
+
+  private isStructuralEdit(
+    kind: SmartEditKind | StructuralEditKind
+  ): kind is StructuralEditKind {
+    return (
+      kind === "delete" ||
+      kind === "move" ||
+      kind === "duplicate" ||
+      kind === "insert" ||
+      kind === "wrap"
+    );
+  }
+
+  private ensureChangePreview(): ChangePreviewDialog {
+    if (!this.changePreview) {
+      this.changePreview = new ChangePreviewDialog();
+      DialogInitializer.appendToBodySafe(
+        document,
+        this.changePreview,
+        "ChangePreviewDialog"
+      );
+    }
+    return this.changePreview;
+  }
+
   private getSmartEditLabel(kind: SmartEditKind): string {
     switch (kind) {
       case "text":
@@ -455,6 +1238,20 @@ export class SmartEditOrchestrator {
         return "font edit";
       case "color":
         return "color edit";
+      case "spacing":
+        return "spacing edit";
+      case "typography":
+        return "typography edit";
+      case "border":
+        return "border edit";
+      case "layout":
+        return "layout edit";
+      case "image":
+        return "image edit";
+      case "link":
+        return "link edit";
+      case "prop":
+        return "prop edit";
       default:
         return "edit";
     }
@@ -470,6 +1267,20 @@ export class SmartEditOrchestrator {
         return "Font family updated globally.";
       case "color":
         return "Color updated globally.";
+      case "spacing":
+        return "Spacing updated globally.";
+      case "typography":
+        return "Typography updated globally.";
+      case "border":
+        return "Border styles updated globally.";
+      case "layout":
+        return "Layout updated globally.";
+      case "image":
+        return "Image updated globally.";
+      case "link":
+        return "Link updated globally.";
+      case "prop":
+        return "Prop updated globally.";
       default:
         return "Update applied globally.";
     }
@@ -498,7 +1309,14 @@ export class SmartEditOrchestrator {
     };
 
     try {
-      const response = await this.backend.deleteElement(payload);
+      const response = await this.applyWithPreview(
+        "delete",
+        payload,
+        (nextPayload) => this.backend.deleteElement(nextPayload as DeletePayload)
+      );
+      if (!response) {
+        return;
+      }
 
       if (response.success) {
         const message =
@@ -516,4 +1334,205 @@ export class SmartEditOrchestrator {
       this.callbacks.showToast("Unexpected error deleting element", "error");
     }
   }
+
+  async handleMoveElement(data: MoveElementData): Promise<void> {
+    const payload: MovePayload = {
+      sourceFile: data.file,
+      componentName: data.tag,
+      elementIdentifier: data.text || data.identifier,
+      className: data.className,
+      elementTag: data.elementTag || data.tag,
+      textContent: data.textContent || data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+      target: {
+        elementIdentifier: data.target.identifier,
+        elementTag: data.target.elementTag,
+        className: data.target.className,
+        textContent: data.target.textContent,
+      },
+      position: data.position,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "move",
+        payload,
+        (nextPayload) => this.backend.moveElement(nextPayload as MovePayload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.success) {
+        const message =
+          response.message || `Element "${data.tag}" moved successfully`;
+
+        this.callbacks.showToast(message, "success");
+      } else {
+        const errorMessage =
+          response.error || response.message || "Move failed";
+        logger.warn("Move failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Move error", error);
+      this.callbacks.showToast("Unexpected error moving element", "error");
+    }
+  }
+
+  async handleDuplicateElement(data: DuplicateElementData): Promise<void> {
+    const payload: DuplicatePayload = {
+      sourceFile: data.file,
+      componentName: data.tag,
+      elementIdentifier: data.text || data.identifier,
+      className: data.className,
+      elementTag: data.elementTag || data.tag,
+      textContent: data.textContent || data.text,
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "duplicate",
+        payload,
+        (nextPayload) =>
+          this.backend.duplicateElement(nextPayload as DuplicatePayload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        const message = [response.message, response.details]
+          .filter(Boolean)
+          .join(" ");
+        logger.warn("Duplicate refused", { message });
+        this.callbacks.showToast(
+          message || "This element cannot be duplicated",
+          "warning",
+          6000
+        );
+        return;
+      }
+
+      if (response.success) {
+        const message =
+          response.message || `Element "${data.tag}" duplicated successfully`;
+
+        this.callbacks.showToast(message, "success");
+      } else {
+        const errorMessage =
+          response.error || response.message || "Duplicate failed";
+        logger.warn("Duplicate failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Duplicate error", error);
+      this.callbacks.showToast("Unexpected error duplicating element", "error");
+    }
+  }
+
+  async handleInsertComponent(data: InsertComponentData): Promise<void> {
+    const payload: InsertComponentPayload = {
+      filePath: data.file,
+      componentType: data.componentType,
+      componentTemplate: data.componentTemplate,
+      insertIndex: data.insertIndex,
+      position: data.position,
+      target: {
+        componentName: data.tag,
+        elementIdentifier: data.text || data.identifier,
+        elementTag: data.elementTag || data.tag,
+        className: data.className,
+        textContent: data.textContent || data.text,
+        ownerComponentName: data.ownerComponentName,
+        ownerFilePath: data.ownerFilePath,
+      },
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "insert",
+        payload,
+        (nextPayload) =>
+          this.backend.insertComponent(nextPayload as InsertComponentPayload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.warning) {
+        const message = [response.message, response.details]
+          .filter(Boolean)
+          .join(" ");
+        logger.warn("Insert refused", { message });
+        this.callbacks.showToast(
+          message || "A component can't be inserted here",
+          "warning",
+          6000
+        );
+        return;
+      }
+
+      if (response.success) {
+        const message = response.message || "Component inserted successfully";
+
+        this.callbacks.showToast(message, "success");
+      } else {
+        const errorMessage =
+          response.error || response.message || "Insert failed";
+        logger.warn("Insert failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Insert error", error);
+      this.callbacks.showToast("Unexpected error inserting component", "error");
+    }
+  }
+
+  async handleWrapElements(data: WrapElementsData): Promise<void> {
+    const payload: WrapPayload = {
+      sourceFile: data.file,
+      elements: data.elements.map((element) => ({
+        componentName: element.tag,
+        elementIdentifier: element.text || element.identifier,
+        elementTag: element.elementTag || element.tag,
+        className: element.className,
+        textContent: element.textContent || element.text,
+      })),
+      ownerComponentName: data.ownerComponentName,
+      ownerFilePath: data.ownerFilePath,
+      wrapperTag: data.wrapperTag,
+      wrapperClassName: data.wrapperClassName,
+    };
+
+    try {
+      const response = await this.applyWithPreview(
+        "wrap",
+        payload,
+        (nextPayload) => this.backend.wrapElements(nextPayload as WrapPayload)
+      );
+      if (!response) {
+        return;
+      }
+
+      if (response.success) {
+        const message =
+          response.message ||
+          `Wrapped ${data.elements.length} element(s) in <${data.wrapperTag}>`;
+
+        this.callbacks.showToast(message, "success");
+      } else {
+        const errorMessage =
+          response.error || response.message || "Wrap failed";
+        logger.warn("Wrap failed", { error: errorMessage });
+        this.callbacks.showToast(errorMessage, "error");
+      }
+    } catch (error) {
+      logger.error("Wrap error", error);
+      this.callbacks.showToast("Unexpected error wrapping elements", "error");
+    }
+  }
 }
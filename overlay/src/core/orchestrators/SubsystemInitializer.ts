@@ -63,11 +63,32 @@ export class SubsystemInitializer {
       document,
       payloadService,
       onTextUpdate: (data) => smartEditOrchestrator.handleTextUpdate(data),
+      listLocales: () => backend.listLocales(),
       onFontSizeUpdate: (data) =>
         smartEditOrchestrator.handleFontSizeUpdate(data),
       onFontFamilyUpdate: (data) =>
         smartEditOrchestrator.handleFontFamilyUpdate(data),
+      onTypographyUpdate: (data) =>
+        smartEditOrchestrator.handleTypographyUpdate(data),
       onColorUpdate: (data) => smartEditOrchestrator.handleColorUpdate(data),
+      onBatchUpdate: (data) => smartEditOrchestrator.handleBatchUpdate(data),
+      onSpacingUpdate: (data) =>
+        smartEditOrchestrator.handleSpacingUpdate(data),
+      onBorderUpdate: (data) => smartEditOrchestrator.handleBorderUpdate(data),
+      onLayoutUpdate: (data) => smartEditOrchestrator.handleLayoutUpdate(data),
+      onImageUpdate: (data) => smartEditOrchestrator.handleImageUpdate(data),
+      listImages: () => backend.listPublicImages(),
+      uploadImage: (file) => backend.uploadImage(file),
+      onLinkUpdate: (data) => smartEditOrchestrator.handleLinkUpdate(data),
+      listRoutes: () => backend.listRoutes(),
+      onPropUpdate: (data) => smartEditOrchestrator.handlePropUpdate(data),
+      inspectProps: (target) => backend.inspectProps(target),
+      onMoveElement: (data) => smartEditOrchestrator.handleMoveElement(data),
+      onDuplicateElement: (data) =>
+        smartEditOrchestrator.handleDuplicateElement(data),
+      onInsertComponent: (data) =>
+        smartEditOrchestrator.handleInsertComponent(data),
+      onWrapElements: (data) => smartEditOrchestrator.handleWrapElements(data),
       onDeleteElement: (data) =>
         smartEditOrchestrator.handleDeleteElement(data),
     });
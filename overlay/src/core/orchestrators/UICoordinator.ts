@@ -1,6 +1,8 @@
 type BubbleElement = HTMLElement & {
   hasError?: boolean;
   errorMessage?: string;
+  revertLabel?: string;
+  clearError?: () => void;
   requestUpdate?: () => void;
   position?: { x: number; y: number };
   activeTool?: string;
@@ -49,6 +51,18 @@ export class UICoordinator {
     }
   }
 
+  /** Offer reverting the edit that caused the bubble's current error */
+  updateBubbleRevert(label: string | null): void {
+    if (this.bubble) {
+      this.bubble.revertLabel = label ?? "";
+      this.bubble.requestUpdate && this.bubble.requestUpdate();
+    }
+  }
+
+  clearBubbleError(): void {
+    this.bubble?.clearError?.();
+  }
+
   updateBubbleToolState(activeTool: string | null): void {
     if (this.bubble) {
       this.bubble.activeTool =
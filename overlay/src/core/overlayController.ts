@@ -109,6 +109,10 @@ export class OverlayController {
     this.document.addEventListener(OverlayEvents.UndoRequest, () => {
       void this.subsystems.instructionProcessor.onToolbarUndo();
     });
+
+    this.document.addEventListener(OverlayEvents.RedoRequest, () => {
+      void this.subsystems.instructionProcessor.onToolbarRedo();
+    });
   }
 
   attachBubbleElement(bubble: HTMLElement): void {
@@ -1,4 +1,8 @@
-import { BackendClient, EditRequestPayload } from "../../services/backendClient";
+import {
+  BackendClient,
+  EditRequestPayload,
+  UndoActionResponse,
+} from "../../services/backendClient";
 import {
   ModalManager,
   ModalMode,
@@ -475,7 +479,10 @@ export class InstructionProcessor {
       logger.debug("Undo response", response);
 
       if (!response.success) {
-        const errorMessage = response.error || "Failed to undo changes";
+        const errorMessage = this.describeHistoryFailure(
+          response,
+          "Failed to undo changes"
+        );
         if (source === "modal") {
           this.modalManager.updateState({
             isSubmitting: false,
@@ -509,8 +516,11 @@ export class InstructionProcessor {
         const label = response.action?.label
           ? ` (${response.action.label})`
           : "";
+        const mergedSuffix = response.mergedFiles?.length
+          ? " Your manual edits were kept."
+          : "";
         this.options.showToast(
-          `Last change reverted${label}.`,
+          `Last change reverted${label}.${mergedSuffix}`,
           "success",
           2500
         );
@@ -533,6 +543,56 @@ export class InstructionProcessor {
     }
   }
 
+  private async handleRedoRequest() {
+    if (this.isSubmittingState) {
+      logger.info("Cannot redo while another submission is in progress");
+      return;
+    }
+
+    this.isSubmittingState = true;
+    this.options.onSubmissionStateChanged(true);
+
+    try {
+      const response = await this.undoManager.redo();
+      logger.debug("Redo response", response);
+
+      if (!response.success) {
+        this.options.showToast(
+          this.describeHistoryFailure(response, "Failed to redo changes"),
+          "error"
+        );
+        return;
+      }
+
+      this.options.removeSelection();
+      this.options.clearDrawSelection();
+
+      const label = response.action?.label ? ` (${response.action.label})` : "";
+      this.options.showToast(`Change reapplied${label}.`, "success", 2500);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to redo changes";
+      logger.error("Redo failed", error);
+      this.options.showToast(message, "error");
+    } finally {
+      this.isSubmittingState = false;
+      this.options.onSubmissionStateChanged(false);
+    }
+  }
+
+  private describeHistoryFailure(
+    response: UndoActionResponse,
+    fallback: string
+  ): string {
+    const conflicts = response.conflicts ?? [];
+    if (conflicts.length === 0) {
+      return response.error || fallback;
+    }
+
+    const files = conflicts.map((conflict) => conflict.file).join(", ");
+    return `${files} changed outside Brakit since this edit. Resolve it in your editor, then try again.`;
+  }
+
   private extractResultSummary(output: string): string {
     if (!output) return "Changes applied successfully.";
 
@@ -580,4 +640,5 @@ export class InstructionProcessor {
 
   onModalUndo = () => this.handleUndoRequest("modal");
   onToolbarUndo = () => this.handleUndoRequest("toolbar");
+  onToolbarRedo = () => this.handleRedoRequest();
 }
@@ -8,6 +8,7 @@ export abstract class BaseTool {
   protected readonly document: Document;
   protected active = false;
   protected hoveredElement: HTMLElement | null = null;
+  protected batchElements: HTMLElement[] = [];
 
   constructor(document: Document) {
     this.document = document;
@@ -32,6 +33,9 @@ export abstract class BaseTool {
     this.detachListeners();
     this.clearHover();
     this.onDeactivate(options);
+    if (!options?.preserveSelection) {
+      this.clearBatchSelection();
+    }
   }
 
   /**
@@ -71,6 +75,8 @@ export abstract class BaseTool {
         element.closest("brakit-smart-edit-warning") ||
         element.closest("brakit-page-builder") ||
         element.closest("brakit-delete-confirmation") ||
+        element.closest("brakit-history-panel") ||
+        element.closest("brakit-change-preview") ||
         element.closest(".brakit-floating-toolbar") ||
         element.closest(".brakit-toolbar-handle") ||
         element.closest(".brakit-toolbar-tools") ||
@@ -123,6 +129,52 @@ export abstract class BaseTool {
     }
   }
 
+  /**
+   * Add or remove an element from the shift-click batch selection
+   */
+  protected toggleBatchElement(element: HTMLElement): void {
+    if (this.hoveredElement === element) {
+      this.clearHover();
+    }
+
+    const index = this.batchElements.indexOf(element);
+    if (index === -1) {
+      this.batchElements.push(element);
+      element.classList.add("brakit-batch-selected");
+    } else {
+      this.batchElements.splice(index, 1);
+      element.classList.remove("brakit-batch-selected");
+    }
+  }
+
+  /**
+   * Shift-click toggles the candidate in the batch selection. Returns true when
+   * the click was consumed so the tool skips its normal selection.
+   */
+  protected handleBatchClick(
+    event: MouseEvent,
+    candidate: HTMLElement | null,
+    primary: HTMLElement | null
+  ): boolean {
+    if (!event.shiftKey || !candidate) return false;
+
+    this.preventEvent(event);
+    if (candidate !== primary) {
+      this.toggleBatchElement(candidate);
+    }
+    return true;
+  }
+
+  /**
+   * Clear the shift-click batch selection
+   */
+  protected clearBatchSelection(): void {
+    this.batchElements.forEach((element) =>
+      element.classList.remove("brakit-batch-selected")
+    );
+    this.batchElements = [];
+  }
+
   /**
    * Resolve the target element at given coordinates
    */
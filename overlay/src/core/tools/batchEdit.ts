@@ -0,0 +1,12 @@
+import type { ColorUpdateData } from "./colorTool";
+import type { FontSizeUpdateData } from "./fontSizeTool";
+import type { FontFamilyUpdateData } from "./fontFamilyTool";
+
+/**
+ * One edit applied to every element in a shift-click selection. Each entry
+ * carries its own element's current classes; the new value is shared.
+ */
+export type BatchEditData =
+  | { kind: "color"; updates: ColorUpdateData[] }
+  | { kind: "fontSize"; updates: FontSizeUpdateData[] }
+  | { kind: "fontFamily"; updates: FontFamilyUpdateData[] };
@@ -0,0 +1,762 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type { BorderChange, BorderField } from "../../services/backendClient";
+
+interface BorderToolOptions {
+  document: Document;
+  onBorderUpdate?: (data: BorderUpdateData) => void;
+}
+
+export interface BorderUpdateData {
+  element: HTMLElement;
+  borderRadius?: BorderChange;
+  borderWidth?: BorderChange;
+  borderStyle?: BorderChange;
+  borderColor?: BorderChange;
+  boxShadow?: BorderChange;
+  text: string;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  line?: number;
+}
+
+interface BorderOption {
+  class: string;
+  label: string;
+  css: string;
+}
+
+interface BorderFieldConfig {
+  label: string;
+  cssProperty: string;
+  control: "slider" | "buttons" | "color";
+  options: BorderOption[];
+  /** Matches any existing class of the field, including side and corner variants */
+  classPattern: RegExp;
+}
+
+const FIELD_ORDER: BorderField[] = [
+  "borderRadius",
+  "borderWidth",
+  "borderStyle",
+  "borderColor",
+  "boxShadow",
+];
+
+const FIELD_CONFIG: Record<BorderField, BorderFieldConfig> = {
+  borderRadius: {
+    label: "Radius",
+    cssProperty: "border-radius",
+    control: "slider",
+    options: [
+      { class: "rounded-none", label: "None", css: "0px" },
+      { class: "rounded-sm", label: "SM", css: "2px" },
+      { class: "rounded", label: "Base", css: "4px" },
+      { class: "rounded-md", label: "MD", css: "6px" },
+      { class: "rounded-lg", label: "LG", css: "8px" },
+      { class: "rounded-xl", label: "XL", css: "12px" },
+      { class: "rounded-2xl", label: "2XL", css: "16px" },
+      { class: "rounded-3xl", label: "3XL", css: "24px" },
+      { class: "rounded-full", label: "Full", css: "9999px" },
+    ],
+    classPattern:
+      /^rounded(?:-(?:t|r|b|l|s|e|tl|tr|br|bl|ss|se|es|ee))?(?:-(?:none|sm|md|lg|xl|2xl|3xl|full|\[[^\]\s]+\]))?$/,
+  },
+  borderWidth: {
+    label: "Width",
+    cssProperty: "border-width",
+    control: "slider",
+    options: [
+      { class: "border-0", label: "0px", css: "0px" },
+      { class: "border", label: "1px", css: "1px" },
+      { class: "border-2", label: "2px", css: "2px" },
+      { class: "border-4", label: "4px", css: "4px" },
+      { class: "border-8", label: "8px", css: "8px" },
+    ],
+    classPattern: /^border(?:-(?:x|y|t|r|b|l|s|e))?(?:-(?:0|2|4|8|\[\d+px\]))?$/,
+  },
+  borderStyle: {
+    label: "Style",
+    cssProperty: "border-style",
+    control: "buttons",
+    options: [
+      { class: "border-solid", label: "Solid", css: "solid" },
+      { class: "border-dashed", label: "Dashed", css: "dashed" },
+      { class: "border-dotted", label: "Dotted", css: "dotted" },
+      { class: "border-none", label: "None", css: "none" },
+    ],
+    classPattern: /^border-(?:solid|dashed|dotted|double|hidden|none)$/,
+  },
+  borderColor: {
+    label: "Color",
+    cssProperty: "border-color",
+    control: "color",
+    options: [],
+    classPattern:
+      /^border(?:-(?:x|y|t|r|b|l|s|e))?-(?:inherit|current|transparent|black|white|[a-z]+-\d{2,3}|\[#[0-9a-fA-F]{3,8}\]|\[(?:rgb|hsl)a?\([^\]\s]+\)\])(?:\/\d+)?$/,
+  },
+  boxShadow: {
+    label: "Shadow",
+    cssProperty: "box-shadow",
+    control: "slider",
+    options: [
+      { class: "shadow-none", label: "None", css: "none" },
+      { class: "shadow-sm", label: "SM", css: "0 1px 2px 0 rgb(0 0 0 / 0.05)" },
+      {
+        class: "shadow",
+        label: "Base",
+        css: "0 1px 3px 0 rgb(0 0 0 / 0.1), 0 1px 2px -1px rgb(0 0 0 / 0.1)",
+      },
+      {
+        class: "shadow-md",
+        label: "MD",
+        css: "0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)",
+      },
+      {
+        class: "shadow-lg",
+        label: "LG",
+        css: "0 10px 15px -3px rgb(0 0 0 / 0.1), 0 4px 6px -4px rgb(0 0 0 / 0.1)",
+      },
+      {
+        class: "shadow-xl",
+        label: "XL",
+        css: "0 20px 25px -5px rgb(0 0 0 / 0.1), 0 8px 10px -6px rgb(0 0 0 / 0.1)",
+      },
+      {
+        class: "shadow-2xl",
+        label: "2XL",
+        css: "0 25px 50px -12px rgb(0 0 0 / 0.25)",
+      },
+    ],
+    classPattern: /^shadow(?:-(?:sm|md|lg|xl|2xl|inner|none))?$/,
+  },
+};
+
+export class BorderTool extends BaseTool {
+  private readonly onBorderUpdate?: (data: BorderUpdateData) => void;
+  private selectedElement: HTMLElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private sliderStyleElement: HTMLStyleElement | null = null;
+  private originalClassName = "";
+  private originalInlineStyle: string | null = null;
+  private originalClasses: Partial<Record<BorderField, string>> = {};
+  private selectedClasses: Partial<Record<BorderField, string>> = {};
+  private touchedFields: Set<BorderField> = new Set();
+
+  constructor(options: BorderToolOptions) {
+    super(options.document);
+    this.onBorderUpdate = options.onBorderUpdate;
+  }
+
+  protected onActivate(): void {
+    logger.info("Border mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Border mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const candidate = this.resolveBorderElementAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveBorderElementAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cleanup();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  private resolveBorderElementAt(x: number, y: number): HTMLElement | null {
+    const element = this.resolveElementAt(x, y);
+    if (!element || element.closest(".brakit-border-panel")) {
+      return null;
+    }
+    return element;
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #0ea5e9";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(14, 165, 233, 0.08)";
+  }
+
+  private selectElement(element: HTMLElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.originalClassName = element.className;
+    this.originalInlineStyle = element.getAttribute("style");
+    this.touchedFields.clear();
+
+    const classes = Array.from(element.classList);
+    for (const field of FIELD_ORDER) {
+      const existing = classes.find((token) =>
+        FIELD_CONFIG[field].classPattern.test(token)
+      );
+      if (existing) {
+        this.originalClasses[field] = existing;
+        this.selectedClasses[field] = existing;
+      }
+    }
+
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+
+    logger.info("Selected element for border editing", {
+      tag: element.tagName,
+      classes: this.originalClasses,
+    });
+  }
+
+  private findClosestOption(field: BorderField): BorderOption {
+    const config = FIELD_CONFIG[field];
+    const selectedClass = this.selectedClasses[field];
+    const classOption = config.options.find(
+      (option) => option.class === selectedClass
+    );
+    if (classOption || !this.selectedElement) {
+      return classOption ?? config.options[0];
+    }
+
+    const computed = window.getComputedStyle(this.selectedElement);
+    if (field === "boxShadow") {
+      return (
+        config.options.find((option) => option.css === computed.boxShadow) ??
+        config.options[0]
+      );
+    }
+
+    const target =
+      field === "borderRadius"
+        ? parseFloat(computed.borderTopLeftRadius)
+        : parseFloat(computed.borderTopWidth);
+    let closest = config.options[0];
+    let minDiff = Number.POSITIVE_INFINITY;
+    for (const option of config.options) {
+      const diff = Math.abs(parseFloat(option.css) - (target || 0));
+      if (diff < minDiff) {
+        minDiff = diff;
+        closest = option;
+      }
+    }
+    return closest;
+  }
+
+  private applyPreview(field: BorderField, className: string, css: string) {
+    if (!this.selectedElement) return;
+
+    this.selectedClasses[field] = className;
+    this.touchedFields.add(field);
+    this.selectedElement.style.setProperty(FIELD_CONFIG[field].cssProperty, css);
+
+    // A width is invisible while the computed border style is still none
+    if (
+      field === "borderWidth" &&
+      !this.touchedFields.has("borderStyle") &&
+      window.getComputedStyle(this.selectedElement).borderTopStyle === "none"
+    ) {
+      this.selectedElement.style.setProperty("border-style", "solid");
+    }
+  }
+
+  private showPanel(element: HTMLElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-border-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      min-width: 300px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "⋮⋮  Border & Shadow";
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    this.ensureSliderStyles();
+
+    for (const field of FIELD_ORDER) {
+      const control = FIELD_CONFIG[field].control;
+      container.appendChild(
+        control === "slider"
+          ? this.createSliderRow(field)
+          : control === "buttons"
+            ? this.createButtonRow(field)
+            : this.createColorRow(field)
+      );
+    }
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 4px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #0ea5e9;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveBorder();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(rect.bottom + 10, window.innerHeight - container.offsetHeight - 10);
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createFieldRow(text: string): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = text;
+    label.style.cssText = `
+      width: 60px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+    row.appendChild(label);
+    return row;
+  }
+
+  private createSliderRow(field: BorderField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.createFieldRow(config.label);
+    const current = this.findClosestOption(field);
+
+    const slider = this.document.createElement("input");
+    slider.type = "range";
+    slider.min = "0";
+    slider.max = String(config.options.length - 1);
+    slider.value = String(Math.max(0, config.options.indexOf(current)));
+    slider.style.cssText = `
+      flex: 1;
+      height: 6px;
+      border-radius: 3px;
+      background: linear-gradient(to right, #e0f2fe 0%, #0ea5e9 100%);
+      outline: none;
+      -webkit-appearance: none;
+      cursor: pointer;
+    `;
+
+    const display = this.document.createElement("div");
+    display.style.cssText = `
+      min-width: 48px;
+      text-align: right;
+      font-size: 12px;
+      font-weight: 600;
+      color: #0ea5e9;
+    `;
+    display.textContent = current.label;
+
+    slider.addEventListener("input", () => {
+      const option = config.options[parseInt(slider.value)];
+      display.textContent = option.label;
+      this.applyPreview(field, option.class, option.css);
+    });
+
+    row.appendChild(slider);
+    row.appendChild(display);
+    return row;
+  }
+
+  private createButtonRow(field: BorderField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.createFieldRow(config.label);
+
+    const group = this.document.createElement("div");
+    group.style.cssText = `
+      display: flex;
+      flex: 1;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      overflow: hidden;
+    `;
+
+    const buttons: HTMLButtonElement[] = [];
+    const paint = () => {
+      buttons.forEach((button, index) => {
+        const selected =
+          this.selectedClasses[field] === config.options[index].class;
+        button.style.background = selected ? "#0ea5e9" : "white";
+        button.style.color = selected ? "white" : "#374151";
+      });
+    };
+
+    for (const option of config.options) {
+      const button = this.document.createElement("button");
+      button.textContent = option.label;
+      button.title = option.class;
+      button.style.cssText = `
+        flex: 1;
+        padding: 5px 0;
+        border: none;
+        font-size: 12px;
+        cursor: pointer;
+      `;
+      button.onclick = (e) => {
+        e.stopPropagation();
+        this.applyPreview(field, option.class, option.css);
+        paint();
+      };
+      buttons.push(button);
+      group.appendChild(button);
+    }
+    paint();
+
+    row.appendChild(group);
+    return row;
+  }
+
+  private createColorRow(field: BorderField): HTMLElement {
+    const row = this.createFieldRow(FIELD_CONFIG[field].label);
+    const initialHex = this.getInitialColorHex(field);
+
+    const colorInput = this.document.createElement("input");
+    colorInput.type = "color";
+    colorInput.value = initialHex;
+    colorInput.style.cssText = `
+      width: 32px;
+      height: 28px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      padding: 0;
+      cursor: pointer;
+      background: none;
+    `;
+
+    const hexInput = this.document.createElement("input");
+    hexInput.type = "text";
+    hexInput.value = initialHex;
+    hexInput.spellcheck = false;
+    hexInput.style.cssText = `
+      flex: 1;
+      padding: 5px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      color: #374151;
+      outline: none;
+    `;
+
+    colorInput.addEventListener("input", () => {
+      hexInput.value = colorInput.value;
+      this.applyPreview(field, `border-[${colorInput.value}]`, colorInput.value);
+    });
+
+    hexInput.addEventListener("input", () => {
+      const normalized = this.normalizeHex(hexInput.value);
+      if (!normalized) return;
+      colorInput.value = normalized;
+      this.applyPreview(field, `border-[${normalized}]`, normalized);
+    });
+
+    row.appendChild(colorInput);
+    row.appendChild(hexInput);
+    return row;
+  }
+
+  private getInitialColorHex(field: BorderField): string {
+    const arbitraryMatch = this.originalClasses[field]?.match(
+      /\[(#[A-Fa-f0-9]{3,6})\]$/
+    );
+    const fromClass = arbitraryMatch
+      ? this.normalizeHex(arbitraryMatch[1])
+      : null;
+    if (fromClass || !this.selectedElement) {
+      return fromClass ?? "#000000";
+    }
+
+    const computed = window.getComputedStyle(this.selectedElement).borderTopColor;
+    const channels = computed.match(/\d+(\.\d+)?/g);
+    if (!channels || channels.length < 3) {
+      return "#000000";
+    }
+    return `#${channels
+      .slice(0, 3)
+      .map((channel) => Math.round(Number(channel)).toString(16).padStart(2, "0"))
+      .join("")}`;
+  }
+
+  private normalizeHex(hex: string): string | null {
+    if (!hex) return null;
+    const match = hex.trim().match(/^#?([A-Fa-f0-9]{3}|[A-Fa-f0-9]{6})$/);
+    if (!match) return null;
+    const value = match[1];
+    const expanded =
+      value.length === 3
+        ? value
+            .split("")
+            .map((char) => char + char)
+            .join("")
+        : value;
+    return `#${expanded.toLowerCase()}`;
+  }
+
+  private ensureSliderStyles() {
+    if (this.sliderStyleElement) {
+      return;
+    }
+
+    const thumbStyle = `
+      -webkit-appearance: none;
+      appearance: none;
+      width: 16px;
+      height: 16px;
+      border-radius: 50%;
+      background: #0ea5e9;
+      cursor: pointer;
+      border: 3px solid white;
+      box-shadow: 0 2px 6px rgba(0,0,0,0.2);
+    `;
+    const styleEl = this.document.createElement("style");
+    styleEl.textContent = `
+      .brakit-border-panel input[type="range"]::-webkit-slider-thumb { ${thumbStyle} }
+      .brakit-border-panel input[type="range"]::-moz-range-thumb { ${thumbStyle} }
+    `;
+    this.document.head.appendChild(styleEl);
+    this.sliderStyleElement = styleEl;
+  }
+
+  private saveBorder() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const changes: Partial<Record<BorderField, BorderChange>> = {};
+    for (const field of this.touchedFields) {
+      const nextClass = this.selectedClasses[field];
+      const oldClass = this.originalClasses[field] ?? "";
+      if (nextClass && nextClass !== oldClass) {
+        changes[field] = { old: oldClass, new: nextClass };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      logger.info("Border styles unchanged, skipping save");
+      this.cleanup();
+      return;
+    }
+
+    logger.info("Saving border change", changes);
+
+    if (this.onBorderUpdate) {
+      const metadata = buildSmartEditMetadata(element, this.originalClassName);
+
+      this.onBorderUpdate({
+        element,
+        ...changes,
+        text: metadata.textContent || element.innerText.trim(),
+        tag: metadata.elementTag || element.tagName.toLowerCase(),
+        file: metadata.filePath,
+        className: metadata.className,
+        elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+        textContent: metadata.textContent || element.innerText.trim(),
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+        line: metadata.line,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Border edit cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      const element = this.selectedElement;
+      element.classList.remove("brakit-text-editing");
+      if (this.originalInlineStyle === null) {
+        element.removeAttribute("style");
+      } else {
+        element.setAttribute("style", this.originalInlineStyle);
+      }
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    if (this.sliderStyleElement) {
+      this.sliderStyleElement.remove();
+      this.sliderStyleElement = null;
+    }
+
+    this.originalClassName = "";
+    this.originalInlineStyle = null;
+    this.originalClasses = {};
+    this.selectedClasses = {};
+    this.touchedFields.clear();
+  }
+}
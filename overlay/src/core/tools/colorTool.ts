@@ -1,6 +1,7 @@
 import { BaseTool } from "./BaseTool";
 import { buildSmartEditMetadata } from "../../utils/elementMetadata";
 import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type { BatchEditData } from "./batchEdit";
 
 type ColorFieldKey = "textColor" | "backgroundColor" | "hoverBackgroundColor";
 
@@ -16,6 +17,7 @@ const COLOR_FIELD_CONFIG: Record<
 interface ColorToolOptions {
   document: Document;
   onColorUpdate?: (data: ColorUpdateData) => void;
+  onBatchUpdate?: (data: BatchEditData) => void;
 }
 
 export interface ColorUpdateData {
@@ -50,6 +52,7 @@ interface ColorState {
 
 export class ColorTool extends BaseTool {
   private readonly onColorUpdate?: (data: ColorUpdateData) => void;
+  private readonly onBatchUpdate?: (data: BatchEditData) => void;
   private selectedElement: HTMLElement | null = null;
   private pickerContainer: HTMLElement | null = null;
   private pickerDragController: DraggableOverlay | null = null;
@@ -75,6 +78,7 @@ export class ColorTool extends BaseTool {
   constructor(options: ColorToolOptions) {
     super(options.document);
     this.onColorUpdate = options.onColorUpdate;
+    this.onBatchUpdate = options.onBatchUpdate;
   }
 
   protected attachListeners(): void {
@@ -139,6 +143,9 @@ export class ColorTool extends BaseTool {
       event.clientX,
       event.clientY
     );
+    if (this.handleBatchClick(event, candidate, this.selectedElement)) {
+      return;
+    }
     if (!candidate) {
       return; // Don't close on random clicks
     }
@@ -192,6 +199,9 @@ export class ColorTool extends BaseTool {
     if (this.pickerContainer) {
       this.cleanup();
     }
+    if (this.batchElements.includes(element)) {
+      this.toggleBatchElement(element);
+    }
 
     this.selectedElement = element;
     this.originalClasses = element.className;
@@ -911,58 +921,69 @@ export class ColorTool extends BaseTool {
       return;
     }
 
-    if (this.onColorUpdate) {
-      const metadata = buildSmartEditMetadata(
-        this.selectedElement,
-        this.originalClasses
-      );
-
-      const data: ColorUpdateData = {
-        element: this.selectedElement,
-        text: metadata.textContent || this.selectedElement.innerText.trim(),
-        tag: metadata.elementTag || this.selectedElement.tagName.toLowerCase(),
-        file: metadata.filePath,
-        className: metadata.className,
-        elementTag: metadata.elementTag || this.selectedElement.tagName.toLowerCase(),
-        textContent: metadata.textContent || this.selectedElement.innerText.trim(),
-        ownerComponentName: metadata.ownerComponentName,
-        ownerFilePath: metadata.ownerFilePath,
-      };
-
-      if (textChanged) {
-        data.textColor = {
-          old: originalState.textColor || "",
-          new: this.formatColorClass(this.currentState.textColor || "", "textColor"),
-        };
-      }
-
-      if (bgChanged) {
-        data.backgroundColor = {
-          old: originalState.backgroundColor || "",
-          new: this.formatColorClass(
-            this.currentState.backgroundColor || "",
-            "backgroundColor"
-          ),
-        };
-      }
+    const changedFields = {
+      textColor: textChanged,
+      backgroundColor: bgChanged,
+      hoverBackgroundColor: hoverBgChanged,
+    };
+    const primaryUpdate = this.buildUpdateData(
+      this.selectedElement,
+      this.originalClasses,
+      changedFields
+    );
 
-      if (hoverBgChanged) {
-        data.hoverBackgroundColor = {
-          old: originalState.hoverBackgroundColor || "",
-          new: this.formatColorClass(
-            this.currentState.hoverBackgroundColor || "",
-            "hoverBackgroundColor"
+    // Batch elements take the colors that changed on the primary element
+    if (this.batchElements.length > 0 && this.onBatchUpdate) {
+      this.onBatchUpdate({
+        kind: "color",
+        updates: [
+          primaryUpdate,
+          ...this.batchElements.map((element) =>
+            this.buildUpdateData(element, element.className, changedFields)
           ),
-        };
-      }
-
-      this.onColorUpdate(data);
+        ],
+      });
+    } else if (this.onColorUpdate) {
+      this.onColorUpdate(primaryUpdate);
     }
 
     this.clearInlineStyles();
     this.cleanup();
   }
 
+  private buildUpdateData(
+    element: HTMLElement,
+    className: string,
+    changedFields: Record<ColorFieldKey, boolean>
+  ): ColorUpdateData {
+    const metadata = buildSmartEditMetadata(element, className);
+    const originalState = this.detectCurrentColors({
+      className,
+    } as HTMLElement);
+
+    const data: ColorUpdateData = {
+      element,
+      text: metadata.textContent || element.innerText.trim(),
+      tag: metadata.elementTag || element.tagName.toLowerCase(),
+      file: metadata.filePath,
+      className: metadata.className,
+      elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+      textContent: metadata.textContent || element.innerText.trim(),
+      ownerComponentName: metadata.ownerComponentName,
+      ownerFilePath: metadata.ownerFilePath,
+    };
+
+    (Object.keys(COLOR_FIELD_CONFIG) as ColorFieldKey[]).forEach((key) => {
+      if (!changedFields[key]) return;
+      data[key] = {
+        old: originalState[key] || "",
+        new: this.formatColorClass(this.currentState[key] || "", key),
+      };
+    });
+
+    return data;
+  }
+
   private clearInlineStyles() {
     if (!this.selectedElement) return;
     this.selectedElement.style.color = "";
@@ -978,6 +999,7 @@ export class ColorTool extends BaseTool {
   }
 
   private cleanup() {
+    this.clearBatchSelection();
     if (this.selectedElement) {
       this.selectedElement.classList.remove("brakit-color-editing");
       this.selectedElement.style.color = "";
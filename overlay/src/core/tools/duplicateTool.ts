@@ -0,0 +1,141 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+
+export interface DuplicateElementData {
+  file: string;
+  tag: string;
+  text: string;
+  identifier: string;
+  element: HTMLElement;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+interface DuplicateToolOptions {
+  document: Document;
+  onDuplicateElement?: (data: DuplicateElementData) => void;
+}
+
+export class DuplicateTool extends BaseTool {
+  private readonly options: DuplicateToolOptions;
+
+  constructor(options: DuplicateToolOptions) {
+    super(options.document);
+    this.options = options;
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected onActivate(): void {
+    logger.debug("Duplicate mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.clearHover();
+    logger.debug("Duplicate mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.clearHover();
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active) return;
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      this.clearHover();
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.clearHover();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.clearHover();
+    this.emitDuplicate(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active) return;
+
+    this.handleEscapeKey(event, () => {
+      this.deactivate();
+    });
+  };
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #10b981";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(16, 185, 129, 0.08)";
+  }
+
+  private emitDuplicate(element: HTMLElement) {
+    if (!this.options.onDuplicateElement) return;
+
+    const metadata = buildSmartEditMetadata(element);
+    const componentName = metadata.elementTag || element.tagName.toLowerCase();
+
+    const primaryText =
+      metadata.textContent || element.textContent?.trim() || "";
+    const identifier =
+      primaryText.length > 50
+        ? `${primaryText.substring(0, 50)}...`
+        : primaryText;
+
+    logger.info("Duplicating element", { tag: componentName });
+
+    this.options.onDuplicateElement({
+      file: metadata.filePath || "unknown",
+      tag: componentName,
+      text: identifier,
+      identifier,
+      element,
+      className: metadata.className,
+      elementTag: componentName,
+      textContent: metadata.textContent || identifier,
+      ownerComponentName: metadata.ownerComponentName,
+      ownerFilePath: metadata.ownerFilePath,
+    });
+  }
+}
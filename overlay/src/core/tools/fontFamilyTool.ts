@@ -8,10 +8,12 @@ import {
   getDefaultFontOption,
 } from "../../shared/fontFamilies";
 import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type { BatchEditData } from "./batchEdit";
 
 interface FontFamilyToolOptions {
   document: Document;
   onFontFamilyUpdate?: (data: FontFamilyUpdateData) => void;
+  onBatchUpdate?: (data: BatchEditData) => void;
 }
 
 export interface FontFamilyUpdateData {
@@ -30,6 +32,7 @@ export interface FontFamilyUpdateData {
 
 export class FontFamilyTool extends BaseTool {
   private readonly onFontFamilyUpdate?: (data: FontFamilyUpdateData) => void;
+  private readonly onBatchUpdate?: (data: BatchEditData) => void;
   private selectedElement: HTMLElement | null = null;
   private panel: HTMLElement | null = null;
   private panelDragController: DraggableOverlay | null = null;
@@ -43,6 +46,7 @@ export class FontFamilyTool extends BaseTool {
   constructor(options: FontFamilyToolOptions) {
     super(options.document);
     this.onFontFamilyUpdate = options.onFontFamilyUpdate;
+    this.onBatchUpdate = options.onBatchUpdate;
   }
 
   protected onActivate(): void {
@@ -100,6 +104,9 @@ export class FontFamilyTool extends BaseTool {
     }
 
     const candidate = this.resolveTextElementAt(event.clientX, event.clientY);
+    if (this.handleBatchClick(event, candidate, this.selectedElement)) {
+      return;
+    }
     if (!candidate) {
       this.cleanup();
       return;
@@ -112,7 +119,13 @@ export class FontFamilyTool extends BaseTool {
   };
 
   private handleKeyDown = (event: KeyboardEvent) => {
-    if (!this.active || !this.selectedElement) return;
+    if (!this.active) return;
+    if (!this.selectedElement) {
+      if (this.batchElements.length > 0) {
+        this.handleEscapeKey(event, () => this.clearBatchSelection());
+      }
+      return;
+    }
 
     if (event.key === "Escape") {
       event.preventDefault();
@@ -154,6 +167,9 @@ export class FontFamilyTool extends BaseTool {
     if (this.panel) {
       this.cleanup();
     }
+    if (this.batchElements.includes(element)) {
+      this.toggleBatchElement(element);
+    }
 
     this.selectedElement = element;
     this.originalClassName = element.className;
@@ -489,7 +505,7 @@ export class FontFamilyTool extends BaseTool {
     const newClass = this.activeOption.className;
     const oldClass = this.originalFontOption?.className ?? "";
 
-    if (newClass === oldClass) {
+    if (newClass === oldClass && this.batchElements.length === 0) {
       logger.info("Font family unchanged, skipping save");
       this.cleanup();
       return;
@@ -500,32 +516,58 @@ export class FontFamilyTool extends BaseTool {
       new: newClass,
     });
 
-    if (this.onFontFamilyUpdate) {
-      const metadata = buildSmartEditMetadata(
-        this.selectedElement,
-        this.originalClassName
-      );
-
-      this.onFontFamilyUpdate({
-        element: this.selectedElement,
-        oldFont: oldClass,
-        newFont: newClass,
-        text: metadata.textContent || this.selectedElement.innerText.trim(),
-        tag: metadata.elementTag || this.selectedElement.tagName.toLowerCase(),
-        file: metadata.filePath,
-        className: metadata.className,
-        elementTag:
-          metadata.elementTag || this.selectedElement.tagName.toLowerCase(),
-        textContent:
-          metadata.textContent || this.selectedElement.innerText.trim(),
-        ownerComponentName: metadata.ownerComponentName,
-        ownerFilePath: metadata.ownerFilePath,
+    const primaryUpdate = this.buildUpdateData(
+      this.selectedElement,
+      this.originalClassName,
+      oldClass,
+      newClass
+    );
+
+    if (this.batchElements.length > 0 && this.onBatchUpdate) {
+      this.onBatchUpdate({
+        kind: "fontFamily",
+        updates: [
+          primaryUpdate,
+          ...this.batchElements.map((element) =>
+            this.buildUpdateData(
+              element,
+              element.className,
+              findFontOptionByClass(element.classList)?.className ?? "",
+              newClass
+            )
+          ),
+        ],
       });
+    } else if (this.onFontFamilyUpdate) {
+      this.onFontFamilyUpdate(primaryUpdate);
     }
 
     this.cleanup();
   }
 
+  private buildUpdateData(
+    element: HTMLElement,
+    className: string,
+    oldFont: string,
+    newFont: string
+  ): FontFamilyUpdateData {
+    const metadata = buildSmartEditMetadata(element, className);
+
+    return {
+      element,
+      oldFont,
+      newFont,
+      text: metadata.textContent || element.innerText.trim(),
+      tag: metadata.elementTag || element.tagName.toLowerCase(),
+      file: metadata.filePath,
+      className: metadata.className,
+      elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+      textContent: metadata.textContent || element.innerText.trim(),
+      ownerComponentName: metadata.ownerComponentName,
+      ownerFilePath: metadata.ownerFilePath,
+    };
+  }
+
   private cancelEdit() {
     if (!this.selectedElement) return;
 
@@ -536,6 +578,7 @@ export class FontFamilyTool extends BaseTool {
   }
 
   private cleanup() {
+    this.clearBatchSelection();
     if (this.selectedElement) {
       this.selectedElement.classList.remove("brakit-text-editing");
       this.selectedElement.style.fontFamily = this.originalInlineFontFamily;
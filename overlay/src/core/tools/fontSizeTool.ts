@@ -1,10 +1,12 @@
 import { logger } from "../../utils/logger";
 import { BaseTool } from "./BaseTool";
 import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import type { BatchEditData } from "./batchEdit";
 
 interface FontSizeToolOptions {
   document: Document;
   onFontSizeUpdate?: (data: FontSizeUpdateData) => void;
+  onBatchUpdate?: (data: BatchEditData) => void;
 }
 
 export interface FontSizeUpdateData {
@@ -30,6 +32,7 @@ interface FontSizeOption {
 
 export class FontSizeTool extends BaseTool {
   private readonly onFontSizeUpdate?: (data: FontSizeUpdateData) => void;
+  private readonly onBatchUpdate?: (data: BatchEditData) => void;
   private selectedElement: HTMLElement | null = null;
   private sliderContainer: HTMLElement | null = null;
   private originalFontSize: string = "";
@@ -58,6 +61,7 @@ export class FontSizeTool extends BaseTool {
   constructor(options: FontSizeToolOptions) {
     super(options.document);
     this.onFontSizeUpdate = options.onFontSizeUpdate;
+    this.onBatchUpdate = options.onBatchUpdate;
   }
 
   protected onActivate(): void {
@@ -122,6 +126,9 @@ export class FontSizeTool extends BaseTool {
     }
 
     const candidate = this.resolveTextElementAt(event.clientX, event.clientY);
+    if (this.handleBatchClick(event, candidate, this.selectedElement)) {
+      return;
+    }
     if (!candidate) {
       this.cleanup();
       return;
@@ -134,7 +141,13 @@ export class FontSizeTool extends BaseTool {
   };
 
   private handleKeyDown = (event: KeyboardEvent) => {
-    if (!this.active || !this.selectedElement) return;
+    if (!this.active) return;
+    if (!this.selectedElement) {
+      if (this.batchElements.length > 0) {
+        this.handleEscapeKey(event, () => this.clearBatchSelection());
+      }
+      return;
+    }
 
     if (event.key === "Escape") {
       event.preventDefault();
@@ -183,6 +196,9 @@ export class FontSizeTool extends BaseTool {
     if (this.sliderContainer) {
       this.cleanup();
     }
+    if (this.batchElements.includes(element)) {
+      this.toggleBatchElement(element);
+    }
 
     this.selectedElement = element;
     this.originalFontSize = this.getCurrentFontSizeClass(element);
@@ -603,7 +619,10 @@ export class FontSizeTool extends BaseTool {
         this.selectedElement?.classList.contains(s.class)
       )?.class || "text-base";
 
-    if (newSizeClass === this.originalFontSize) {
+    if (
+      newSizeClass === this.originalFontSize &&
+      this.batchElements.length === 0
+    ) {
       logger.info("Font size unchanged, skipping save");
       this.cleanup();
       return;
@@ -614,25 +633,30 @@ export class FontSizeTool extends BaseTool {
       new: newSizeClass,
     });
 
-    if (this.onFontSizeUpdate) {
-      const metadata = buildSmartEditMetadata(
-        this.selectedElement,
-        this.originalClassName
-      );
+    const primaryUpdate = this.buildUpdateData(
+      this.selectedElement,
+      this.originalClassName,
+      this.originalFontSize,
+      newSizeClass
+    );
 
-      this.onFontSizeUpdate({
-        element: this.selectedElement,
-        oldSize: this.originalFontSize,
-        newSize: newSizeClass,
-        text: metadata.textContent || this.selectedElement.innerText.trim(),
-        tag: metadata.elementTag || this.selectedElement.tagName.toLowerCase(),
-        file: metadata.filePath,
-        className: metadata.className,
-        elementTag: metadata.elementTag || this.selectedElement.tagName.toLowerCase(),
-        textContent: metadata.textContent || this.selectedElement.innerText.trim(),
-        ownerComponentName: metadata.ownerComponentName,
-        ownerFilePath: metadata.ownerFilePath,
+    if (this.batchElements.length > 0 && this.onBatchUpdate) {
+      this.onBatchUpdate({
+        kind: "fontSize",
+        updates: [
+          primaryUpdate,
+          ...this.batchElements.map((element) =>
+            this.buildUpdateData(
+              element,
+              element.className,
+              this.getCurrentFontSizeClass(element),
+              newSizeClass
+            )
+          ),
+        ],
       });
+    } else if (this.onFontSizeUpdate) {
+      this.onFontSizeUpdate(primaryUpdate);
     }
 
     const element = this.selectedElement;
@@ -650,6 +674,29 @@ export class FontSizeTool extends BaseTool {
     this.cleanup({ preserveInline: fallbackActive });
   }
 
+  private buildUpdateData(
+    element: HTMLElement,
+    className: string,
+    oldSize: string,
+    newSize: string
+  ): FontSizeUpdateData {
+    const metadata = buildSmartEditMetadata(element, className);
+
+    return {
+      element,
+      oldSize,
+      newSize,
+      text: metadata.textContent || element.innerText.trim(),
+      tag: metadata.elementTag || element.tagName.toLowerCase(),
+      file: metadata.filePath,
+      className: metadata.className,
+      elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+      textContent: metadata.textContent || element.innerText.trim(),
+      ownerComponentName: metadata.ownerComponentName,
+      ownerFilePath: metadata.ownerFilePath,
+    };
+  }
+
   private cancelEdit() {
     if (!this.selectedElement) return;
 
@@ -666,6 +713,7 @@ export class FontSizeTool extends BaseTool {
   }
 
   private cleanup(options?: { preserveInline?: boolean }) {
+    this.clearBatchSelection();
     if (this.selectedElement) {
       const element = this.selectedElement;
       element.classList.remove("brakit-text-editing");
@@ -0,0 +1,620 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type { PublicImage } from "../../services/backendClient";
+
+interface ImageToolOptions {
+  document: Document;
+  onImageUpdate?: (data: ImageUpdateData) => void;
+  listImages?: () => Promise<PublicImage[]>;
+  uploadImage?: (file: File) => Promise<PublicImage>;
+}
+
+export interface ImageUpdateData {
+  element: HTMLElement;
+  currentSrc: string;
+  currentAlt: string;
+  src?: string;
+  alt?: string;
+  width?: number | null;
+  height?: number | null;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+type DimensionField = "width" | "height";
+
+const CURRENT_SOURCE_VALUE = "";
+
+export class ImageTool extends BaseTool {
+  private readonly options: ImageToolOptions;
+  private selectedElement: HTMLImageElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private originalAttributes: Record<"src" | "srcset" | "alt", string | null> =
+    {
+      src: null,
+      srcset: null,
+      alt: null,
+    };
+  private sourceSrc = "";
+  private originalAlt = "";
+  private originalDimensions: Record<DimensionField, string> = {
+    width: "",
+    height: "",
+  };
+  private selectedSrc: string | null = null;
+  private altInput: HTMLInputElement | null = null;
+  private dimensionInputs: Partial<Record<DimensionField, HTMLInputElement>> =
+    {};
+
+  constructor(options: ImageToolOptions) {
+    super(options.document);
+    this.options = options;
+  }
+
+  protected onActivate(): void {
+    logger.info("Image mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Image mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const candidate = this.resolveImageAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveImageAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cleanup();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  private resolveImageAt(x: number, y: number): HTMLImageElement | null {
+    const element = this.resolveElementAt(x, y);
+    if (!element || element.closest(".brakit-image-panel")) {
+      return null;
+    }
+    return element instanceof HTMLImageElement ? element : null;
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #ec4899";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(236, 72, 153, 0.08)";
+  }
+
+  /**
+   * The src as written in source: next/image routes files through its
+   * optimizer, so unwrap /_next/image?url=... and drop same-origin prefixes.
+   */
+  private resolveSourceSrc(element: HTMLImageElement): string {
+    const raw = element.getAttribute("src") || element.currentSrc || "";
+    try {
+      const url = new URL(raw, this.document.baseURI);
+      if (url.pathname === "/_next/image") {
+        const inner = url.searchParams.get("url");
+        if (inner) return inner;
+      }
+      return url.origin === window.location.origin
+        ? `${url.pathname}${url.search}`
+        : url.href;
+    } catch {
+      return raw;
+    }
+  }
+
+  private selectElement(element: HTMLImageElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.originalAttributes = {
+      src: element.getAttribute("src"),
+      srcset: element.getAttribute("srcset"),
+      alt: element.getAttribute("alt"),
+    };
+    this.sourceSrc = this.resolveSourceSrc(element);
+    this.originalAlt = element.getAttribute("alt") ?? "";
+    this.originalDimensions = {
+      width: element.getAttribute("width") ?? "",
+      height: element.getAttribute("height") ?? "",
+    };
+    this.selectedSrc = null;
+
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+
+    logger.info("Selected image for editing", { src: this.sourceSrc });
+  }
+
+  private previewSource(src: string | null) {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    this.selectedSrc = src;
+    if (src === null) {
+      this.restoreSourceAttributes(element);
+      return;
+    }
+
+    // srcset wins over src, so clear it while previewing
+    element.removeAttribute("srcset");
+    element.setAttribute("src", src);
+  }
+
+  private restoreSourceAttributes(element: HTMLImageElement) {
+    for (const name of ["src", "srcset"] as const) {
+      const value = this.originalAttributes[name];
+      if (value === null) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+      }
+    }
+  }
+
+  private showPanel(element: HTMLImageElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-image-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: 320px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "⋮⋮  Image";
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    container.appendChild(this.createSourceRow());
+    container.appendChild(this.createAltRow());
+    container.appendChild(this.createDimensionRow());
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 4px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #ec4899;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveImage();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(
+        rect.bottom + 10,
+        window.innerHeight - container.offsetHeight - 10
+      );
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createFieldRow(text: string): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = text;
+    label.style.cssText = `
+      width: 60px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+    row.appendChild(label);
+    return row;
+  }
+
+  private createInput(type: "text" | "number", value: string) {
+    const input = this.document.createElement("input");
+    input.type = type;
+    input.value = value;
+    input.spellcheck = false;
+    input.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      outline: none;
+    `;
+    return input;
+  }
+
+  private createSourceRow(): HTMLElement {
+    const row = this.createFieldRow("Source");
+
+    const select = this.document.createElement("select");
+    select.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 6px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      background: white;
+    `;
+    select.title = this.sourceSrc;
+
+    const addOption = (value: string, text: string) => {
+      const option = this.document.createElement("option");
+      option.value = value;
+      option.textContent = text;
+      select.appendChild(option);
+      return option;
+    };
+
+    addOption(CURRENT_SOURCE_VALUE, `Current: ${this.sourceSrc || "none"}`);
+    const loadingOption = addOption("__loading", "Loading public/ images…");
+    loadingOption.disabled = true;
+
+    select.addEventListener("change", () => {
+      this.previewSource(
+        select.value === CURRENT_SOURCE_VALUE ? null : select.value
+      );
+    });
+
+    if (this.options.listImages) {
+      this.options
+        .listImages()
+        .then((images) => {
+          loadingOption.remove();
+          for (const image of images) {
+            if (image.src !== this.sourceSrc) {
+              addOption(image.src, image.src);
+            }
+          }
+        })
+        .catch((error) => {
+          loadingOption.textContent = "Could not load public/ images";
+          logger.warn("Failed to list public images", error);
+        });
+    } else {
+      loadingOption.remove();
+    }
+
+    const fileInput = this.document.createElement("input");
+    fileInput.type = "file";
+    fileInput.accept = "image/*";
+    fileInput.style.display = "none";
+
+    const uploadBtn = this.document.createElement("button");
+    uploadBtn.textContent = "Upload";
+    uploadBtn.title = "Copy an image into public/uploads";
+    uploadBtn.style.cssText = `
+      padding: 5px 10px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 12px;
+      cursor: pointer;
+    `;
+    uploadBtn.disabled = !this.options.uploadImage;
+    uploadBtn.onclick = (e) => {
+      e.stopPropagation();
+      fileInput.click();
+    };
+
+    fileInput.addEventListener("change", () => {
+      const file = fileInput.files?.[0];
+      if (!file || !this.options.uploadImage) return;
+
+      uploadBtn.disabled = true;
+      uploadBtn.textContent = "Uploading…";
+      this.options
+        .uploadImage(file)
+        .then((image) => {
+          const option = addOption(image.src, image.src);
+          select.value = option.value;
+          this.previewSource(image.src);
+          uploadBtn.textContent = "Upload";
+        })
+        .catch((error) => {
+          logger.warn("Image upload failed", error);
+          uploadBtn.textContent = "Retry";
+          uploadBtn.title =
+            error instanceof Error ? error.message : "Upload failed";
+        })
+        .finally(() => {
+          uploadBtn.disabled = false;
+          fileInput.value = "";
+        });
+    });
+
+    row.appendChild(select);
+    row.appendChild(uploadBtn);
+    row.appendChild(fileInput);
+    return row;
+  }
+
+  private createAltRow(): HTMLElement {
+    const row = this.createFieldRow("Alt text");
+    const input = this.createInput("text", this.originalAlt);
+    input.placeholder = "Describe the image";
+    input.addEventListener("input", () => {
+      this.selectedElement?.setAttribute("alt", input.value);
+    });
+    this.altInput = input;
+    row.appendChild(input);
+    return row;
+  }
+
+  private createDimensionRow(): HTMLElement {
+    const row = this.createFieldRow("Size");
+
+    for (const field of ["width", "height"] as const) {
+      const input = this.createInput("number", this.originalDimensions[field]);
+      input.min = "1";
+      input.placeholder = field === "width" ? "W" : "H";
+      input.title = `${field} in pixels, leave empty to remove`;
+      this.dimensionInputs[field] = input;
+      row.appendChild(input);
+    }
+
+    return row;
+  }
+
+  private readDimension(field: DimensionField): number | null | undefined {
+    const input = this.dimensionInputs[field];
+    if (!input) return undefined;
+
+    const value = input.value.trim();
+    if (value === this.originalDimensions[field]) {
+      return undefined;
+    }
+    if (value === "") {
+      return null;
+    }
+
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+  }
+
+  private saveImage() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const data: Partial<ImageUpdateData> = {};
+    if (this.selectedSrc !== null && this.selectedSrc !== this.sourceSrc) {
+      data.src = this.selectedSrc;
+    }
+    if (this.altInput && this.altInput.value !== this.originalAlt) {
+      data.alt = this.altInput.value;
+    }
+    for (const field of ["width", "height"] as const) {
+      const value = this.readDimension(field);
+      if (value !== undefined) {
+        data[field] = value;
+      }
+    }
+
+    if (Object.keys(data).length === 0) {
+      logger.info("Image unchanged, skipping save");
+      this.cleanup();
+      return;
+    }
+
+    logger.info("Saving image change", data);
+
+    if (this.options.onImageUpdate) {
+      const metadata = buildSmartEditMetadata(element);
+      const tag = metadata.elementTag || element.tagName.toLowerCase();
+
+      this.options.onImageUpdate({
+        element,
+        ...data,
+        currentSrc: this.sourceSrc,
+        currentAlt: this.originalAlt,
+        tag,
+        file: metadata.filePath,
+        className: metadata.className,
+        elementTag: tag,
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Image edit cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      const element = this.selectedElement;
+      element.classList.remove("brakit-text-editing");
+      this.restoreSourceAttributes(element);
+      if (this.originalAttributes.alt === null) {
+        element.removeAttribute("alt");
+      } else {
+        element.setAttribute("alt", this.originalAttributes.alt);
+      }
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    this.originalAttributes = { src: null, srcset: null, alt: null };
+    this.sourceSrc = "";
+    this.originalAlt = "";
+    this.originalDimensions = { width: "", height: "" };
+    this.selectedSrc = null;
+    this.altInput = null;
+    this.dimensionInputs = {};
+  }
+}
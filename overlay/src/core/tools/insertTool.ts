@@ -0,0 +1,408 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import {
+  COMPONENT_PALETTE_OPTIONS,
+  type ComponentPaletteOption,
+} from "../../shared/componentPalette";
+import type { InsertPosition } from "../../services/backendClient";
+
+interface InsertToolOptions {
+  document: Document;
+  onInsertComponent?: (data: InsertComponentData) => void;
+}
+
+export interface InsertComponentData {
+  element: HTMLElement;
+  componentType: string;
+  componentTemplate: string;
+  position: InsertPosition;
+  insertIndex: number;
+  file: string;
+  tag: string;
+  text: string;
+  identifier: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+interface PlacementOption {
+  id: string;
+  label: string;
+  position: InsertPosition;
+  insertIndex: number;
+}
+
+// The backend clamps the index, so this always lands after the last child
+const APPEND_INDEX = Number.MAX_SAFE_INTEGER;
+
+const PLACEMENT_OPTIONS: PlacementOption[] = [
+  { id: "after", label: "After", position: "after", insertIndex: 0 },
+  { id: "before", label: "Before", position: "before", insertIndex: 0 },
+  {
+    id: "inside-end",
+    label: "Inside, at the end",
+    position: "inside",
+    insertIndex: APPEND_INDEX,
+  },
+  {
+    id: "inside-start",
+    label: "Inside, at the start",
+    position: "inside",
+    insertIndex: 0,
+  },
+];
+
+const VOID_TAGS = new Set(["img", "input", "br", "hr", "source", "track"]);
+
+export class InsertTool extends BaseTool {
+  private readonly options: InsertToolOptions;
+  private selectedElement: HTMLElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private placementSelect: HTMLSelectElement | null = null;
+
+  constructor(options: InsertToolOptions) {
+    super(options.document);
+    this.options = options;
+  }
+
+  protected onActivate(): void {
+    logger.info("Insert mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Insert mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      this.clearHover();
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (!candidate || candidate.closest(".brakit-insert-panel")) {
+      this.cleanup();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelInsert());
+  };
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #14b8a6";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(20, 184, 166, 0.08)";
+  }
+
+  private selectElement(element: HTMLElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+
+    logger.info("Selected element for insert", {
+      tag: element.tagName.toLowerCase(),
+    });
+  }
+
+  private showPanel(element: HTMLElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-insert-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: 300px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "⋮⋮  Insert";
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelInsert();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    container.appendChild(this.createPlacementRow(element));
+    container.appendChild(this.createPaletteGrid());
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(
+        rect.bottom + 10,
+        window.innerHeight - container.offsetHeight - 10
+      );
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createPlacementRow(element: HTMLElement): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "Place";
+    label.style.cssText = `
+      width: 44px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+
+    const select = this.document.createElement("select");
+    select.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 6px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      background: white;
+    `;
+
+    const canHoldChildren = !VOID_TAGS.has(element.tagName.toLowerCase());
+    for (const placement of PLACEMENT_OPTIONS) {
+      if (placement.position === "inside" && !canHoldChildren) continue;
+
+      const option = this.document.createElement("option");
+      option.value = placement.id;
+      option.textContent = placement.label;
+      select.appendChild(option);
+    }
+
+    this.placementSelect = select;
+    row.appendChild(label);
+    row.appendChild(select);
+    return row;
+  }
+
+  private createPaletteGrid(): HTMLElement {
+    const grid = this.document.createElement("div");
+    grid.style.cssText = `
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 6px;
+    `;
+
+    for (const option of COMPONENT_PALETTE_OPTIONS) {
+      const button = this.document.createElement("button");
+      button.textContent = option.label;
+      button.title = option.description ?? option.label;
+      button.style.cssText = `
+        padding: 8px 10px;
+        border: 1px solid #e5e7eb;
+        background: white;
+        color: #374151;
+        border-radius: 6px;
+        font-size: 12px;
+        font-weight: 500;
+        text-align: left;
+        cursor: pointer;
+      `;
+      button.onmouseenter = () => {
+        button.style.borderColor = "#14b8a6";
+        button.style.background = "rgba(20, 184, 166, 0.06)";
+      };
+      button.onmouseleave = () => {
+        button.style.borderColor = "#e5e7eb";
+        button.style.background = "white";
+      };
+      button.onclick = (e) => {
+        e.stopPropagation();
+        this.insertOption(option);
+      };
+      grid.appendChild(button);
+    }
+
+    return grid;
+  }
+
+  private insertOption(option: ComponentPaletteOption) {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const placement =
+      PLACEMENT_OPTIONS.find(
+        (candidate) => candidate.id === this.placementSelect?.value
+      ) ?? PLACEMENT_OPTIONS[0];
+
+    logger.info("Inserting component", {
+      componentType: option.componentType,
+      position: placement.position,
+    });
+
+    if (this.options.onInsertComponent) {
+      const metadata = buildSmartEditMetadata(element);
+      const tag = metadata.elementTag || element.tagName.toLowerCase();
+      const primaryText =
+        metadata.textContent || element.textContent?.trim() || "";
+      const identifier =
+        primaryText.length > 50
+          ? `${primaryText.substring(0, 50)}...`
+          : primaryText;
+
+      this.options.onInsertComponent({
+        element,
+        componentType: option.componentType,
+        componentTemplate: option.template,
+        position: placement.position,
+        insertIndex: placement.insertIndex,
+        file: metadata.filePath || "unknown",
+        tag,
+        text: identifier,
+        identifier,
+        className: metadata.className,
+        elementTag: tag,
+        textContent: metadata.textContent || identifier,
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelInsert() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Insert cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      this.selectedElement.classList.remove("brakit-text-editing");
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    this.placementSelect = null;
+  }
+}
@@ -0,0 +1,784 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import { summarizeLayout } from "../draw/drawContextBuilder";
+import type { LayoutSummary } from "../draw/drawContext";
+import type { LayoutChange, LayoutField } from "../../services/backendClient";
+
+interface LayoutToolOptions {
+  document: Document;
+  onLayoutUpdate?: (data: LayoutUpdateData) => void;
+}
+
+export interface LayoutUpdateData {
+  element: HTMLElement;
+  display?: LayoutChange;
+  flexDirection?: LayoutChange;
+  flexWrap?: LayoutChange;
+  justifyContent?: LayoutChange;
+  alignItems?: LayoutChange;
+  gridColumns?: LayoutChange;
+  gap?: LayoutChange;
+  text: string;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  line?: number;
+}
+
+interface LayoutOption {
+  class: string;
+  label: string;
+  css: string;
+}
+
+type LayoutMode = "flex" | "grid" | "block";
+
+interface LayoutFieldConfig {
+  label: string;
+  cssProperty: string;
+  control: "buttons" | "select" | "slider";
+  options: LayoutOption[];
+  /** Display modes in which the field has an effect */
+  modes: LayoutMode[];
+  classPattern: RegExp;
+  /** Computed layout value used when the element has no class for the field */
+  summaryKey?: keyof LayoutSummary;
+}
+
+const FIELD_ORDER: LayoutField[] = [
+  "display",
+  "flexDirection",
+  "flexWrap",
+  "gridColumns",
+  "justifyContent",
+  "alignItems",
+  "gap",
+];
+
+const GAP_SCALE = [0, 1, 2, 3, 4, 5, 6, 8, 10, 12, 16];
+
+const FIELD_CONFIG: Record<LayoutField, LayoutFieldConfig> = {
+  display: {
+    label: "Display",
+    cssProperty: "display",
+    control: "buttons",
+    options: [
+      { class: "flex", label: "Flex", css: "flex" },
+      { class: "grid", label: "Grid", css: "grid" },
+      { class: "block", label: "Block", css: "block" },
+    ],
+    modes: ["flex", "grid", "block"],
+    classPattern:
+      /^(?:block|inline-block|inline|flex|inline-flex|grid|inline-grid|contents|hidden)$/,
+    summaryKey: "display",
+  },
+  flexDirection: {
+    label: "Direction",
+    cssProperty: "flex-direction",
+    control: "buttons",
+    options: [
+      { class: "flex-row", label: "→", css: "row" },
+      { class: "flex-col", label: "↓", css: "column" },
+      { class: "flex-row-reverse", label: "←", css: "row-reverse" },
+      { class: "flex-col-reverse", label: "↑", css: "column-reverse" },
+    ],
+    modes: ["flex"],
+    classPattern: /^flex-(?:row|row-reverse|col|col-reverse)$/,
+    summaryKey: "flexDirection",
+  },
+  flexWrap: {
+    label: "Wrap",
+    cssProperty: "flex-wrap",
+    control: "buttons",
+    options: [
+      { class: "flex-nowrap", label: "No wrap", css: "nowrap" },
+      { class: "flex-wrap", label: "Wrap", css: "wrap" },
+    ],
+    modes: ["flex"],
+    classPattern: /^flex-(?:wrap|wrap-reverse|nowrap)$/,
+    summaryKey: "flexWrap",
+  },
+  gridColumns: {
+    label: "Columns",
+    cssProperty: "grid-template-columns",
+    control: "slider",
+    options: Array.from({ length: 12 }, (_, index) => ({
+      class: `grid-cols-${index + 1}`,
+      label: String(index + 1),
+      css: `repeat(${index + 1}, minmax(0, 1fr))`,
+    })),
+    modes: ["grid"],
+    classPattern: /^grid-cols-(?:\d+|none|subgrid|\[[^\]\s]+\])$/,
+  },
+  justifyContent: {
+    label: "Justify",
+    cssProperty: "justify-content",
+    control: "select",
+    options: [
+      { class: "justify-start", label: "Start", css: "flex-start" },
+      { class: "justify-center", label: "Center", css: "center" },
+      { class: "justify-end", label: "End", css: "flex-end" },
+      { class: "justify-between", label: "Space between", css: "space-between" },
+      { class: "justify-around", label: "Space around", css: "space-around" },
+      { class: "justify-evenly", label: "Space evenly", css: "space-evenly" },
+    ],
+    modes: ["flex", "grid"],
+    classPattern:
+      /^justify-(?:normal|start|end|center|between|around|evenly|stretch)$/,
+    summaryKey: "justifyContent",
+  },
+  alignItems: {
+    label: "Align",
+    cssProperty: "align-items",
+    control: "select",
+    options: [
+      { class: "items-stretch", label: "Stretch", css: "stretch" },
+      { class: "items-start", label: "Start", css: "flex-start" },
+      { class: "items-center", label: "Center", css: "center" },
+      { class: "items-end", label: "End", css: "flex-end" },
+      { class: "items-baseline", label: "Baseline", css: "baseline" },
+    ],
+    modes: ["flex", "grid"],
+    classPattern: /^items-(?:start|end|center|baseline|stretch)$/,
+    summaryKey: "alignItems",
+  },
+  gap: {
+    label: "Gap",
+    cssProperty: "gap",
+    control: "slider",
+    options: GAP_SCALE.map((step) => ({
+      class: `gap-${step}`,
+      label: `${step * 4}px`,
+      css: `${step * 0.25}rem`,
+    })),
+    modes: ["flex", "grid"],
+    classPattern: /^gap(?:-[xy])?-(?:\d+(?:\.\d+)?|px|\[[^\]\s]+\])$/,
+  },
+};
+
+function resolveMode(display: string | undefined): LayoutMode {
+  if (display?.includes("grid")) return "grid";
+  if (display?.includes("flex")) return "flex";
+  return "block";
+}
+
+export class LayoutTool extends BaseTool {
+  private readonly onLayoutUpdate?: (data: LayoutUpdateData) => void;
+  private selectedElement: HTMLElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private sliderStyleElement: HTMLStyleElement | null = null;
+  private fieldRows: Partial<Record<LayoutField, HTMLElement>> = {};
+  private originalClassName = "";
+  private originalInlineStyle: string | null = null;
+  private originalClasses: Partial<Record<LayoutField, string>> = {};
+  private selectedOptions: Partial<Record<LayoutField, LayoutOption>> = {};
+  private touchedFields: Set<LayoutField> = new Set();
+  private mode: LayoutMode = "block";
+
+  constructor(options: LayoutToolOptions) {
+    super(options.document);
+    this.onLayoutUpdate = options.onLayoutUpdate;
+  }
+
+  protected onActivate(): void {
+    logger.info("Layout mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Layout mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const candidate = this.resolveContainerAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveContainerAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cleanup();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  /**
+   * Layout only matters for elements with children, so leaf elements resolve
+   * to their parent container.
+   */
+  private resolveContainerAt(x: number, y: number): HTMLElement | null {
+    let element = this.resolveElementAt(x, y);
+    if (!element || element.closest(".brakit-layout-panel")) {
+      return null;
+    }
+
+    if (element.children.length === 0 && element.parentElement) {
+      const parent = element.parentElement;
+      if (parent !== this.document.body && !this.shouldIgnoreClick(parent)) {
+        element = parent;
+      }
+    }
+    return element;
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px dashed #f59e0b";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(245, 158, 11, 0.08)";
+  }
+
+  private selectElement(element: HTMLElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.originalClassName = element.className;
+    this.originalInlineStyle = element.getAttribute("style");
+    this.touchedFields.clear();
+
+    const summary = summarizeLayout(window.getComputedStyle(element));
+    const classes = Array.from(element.classList);
+
+    for (const field of FIELD_ORDER) {
+      const config = FIELD_CONFIG[field];
+      const existing = classes.find((token) => config.classPattern.test(token));
+      if (existing) {
+        this.originalClasses[field] = existing;
+      }
+
+      const summaryValue = config.summaryKey
+        ? summary[config.summaryKey]
+        : undefined;
+      this.selectedOptions[field] =
+        config.options.find((option) => option.class === existing) ??
+        config.options.find((option) => option.css === summaryValue) ??
+        this.findClosestOption(field, element);
+    }
+
+    this.mode = resolveMode(summary.display);
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+
+    logger.info("Selected element for layout editing", {
+      tag: element.tagName,
+      layout: summary,
+      classes: this.originalClasses,
+    });
+  }
+
+  private findClosestOption(
+    field: LayoutField,
+    element: HTMLElement
+  ): LayoutOption {
+    const config = FIELD_CONFIG[field];
+    const computed = window.getComputedStyle(element);
+
+    if (field === "gridColumns") {
+      const columns = computed.gridTemplateColumns
+        .split(" ")
+        .filter(Boolean).length;
+      return config.options[Math.min(Math.max(columns, 1), 12) - 1];
+    }
+
+    if (field === "gap") {
+      const gapPx = parseFloat(computed.columnGap) || 0;
+      let closest = config.options[0];
+      let minDiff = Number.POSITIVE_INFINITY;
+      for (const option of config.options) {
+        const diff = Math.abs(parseFloat(option.css) * 16 - gapPx);
+        if (diff < minDiff) {
+          minDiff = diff;
+          closest = option;
+        }
+      }
+      return closest;
+    }
+
+    return config.options[0];
+  }
+
+  private applyPreview(field: LayoutField, option: LayoutOption) {
+    if (!this.selectedElement) return;
+
+    this.selectedOptions[field] = option;
+    this.touchedFields.add(field);
+    this.selectedElement.style.setProperty(
+      FIELD_CONFIG[field].cssProperty,
+      option.css
+    );
+
+    if (field === "display") {
+      this.mode = resolveMode(option.css);
+      this.refreshRowVisibility();
+    }
+  }
+
+  private refreshRowVisibility() {
+    for (const field of FIELD_ORDER) {
+      const row = this.fieldRows[field];
+      if (row) {
+        row.style.display = FIELD_CONFIG[field].modes.includes(this.mode)
+          ? "flex"
+          : "none";
+      }
+    }
+  }
+
+  private showPanel(element: HTMLElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-layout-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      min-width: 320px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "⋮⋮  Layout";
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    this.ensureSliderStyles();
+
+    for (const field of FIELD_ORDER) {
+      const control = FIELD_CONFIG[field].control;
+      const row =
+        control === "buttons"
+          ? this.createButtonRow(field)
+          : control === "select"
+            ? this.createSelectRow(field)
+            : this.createSliderRow(field);
+      this.fieldRows[field] = row;
+      container.appendChild(row);
+    }
+    this.refreshRowVisibility();
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 4px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #f59e0b;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveLayout();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(rect.bottom + 10, window.innerHeight - container.offsetHeight - 10);
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createFieldRow(text: string): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = text;
+    label.style.cssText = `
+      width: 72px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+    row.appendChild(label);
+    return row;
+  }
+
+  private createButtonRow(field: LayoutField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.createFieldRow(config.label);
+
+    const group = this.document.createElement("div");
+    group.style.cssText = `
+      display: flex;
+      flex: 1;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      overflow: hidden;
+    `;
+
+    const buttons: HTMLButtonElement[] = [];
+    const paint = () => {
+      buttons.forEach((button, index) => {
+        const selected =
+          this.selectedOptions[field]?.class === config.options[index].class;
+        button.style.background = selected ? "#f59e0b" : "white";
+        button.style.color = selected ? "white" : "#374151";
+      });
+    };
+
+    for (const option of config.options) {
+      const button = this.document.createElement("button");
+      button.textContent = option.label;
+      button.title = option.class;
+      button.style.cssText = `
+        flex: 1;
+        padding: 5px 0;
+        border: none;
+        font-size: 12px;
+        cursor: pointer;
+      `;
+      button.onclick = (e) => {
+        e.stopPropagation();
+        this.applyPreview(field, option);
+        paint();
+      };
+      buttons.push(button);
+      group.appendChild(button);
+    }
+    paint();
+
+    row.appendChild(group);
+    return row;
+  }
+
+  private createSelectRow(field: LayoutField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.createFieldRow(config.label);
+
+    const select = this.document.createElement("select");
+    select.style.cssText = `
+      flex: 1;
+      padding: 5px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      background: white;
+      cursor: pointer;
+    `;
+
+    for (const option of config.options) {
+      const optionEl = this.document.createElement("option");
+      optionEl.value = option.class;
+      optionEl.textContent = option.label;
+      select.appendChild(optionEl);
+    }
+    select.value = this.selectedOptions[field]?.class ?? config.options[0].class;
+
+    select.addEventListener("change", () => {
+      const option = config.options.find((item) => item.class === select.value);
+      if (option) {
+        this.applyPreview(field, option);
+      }
+    });
+
+    row.appendChild(select);
+    return row;
+  }
+
+  private createSliderRow(field: LayoutField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.createFieldRow(config.label);
+    const current = this.selectedOptions[field] ?? config.options[0];
+
+    const slider = this.document.createElement("input");
+    slider.type = "range";
+    slider.min = "0";
+    slider.max = String(config.options.length - 1);
+    slider.value = String(Math.max(0, config.options.indexOf(current)));
+    slider.style.cssText = `
+      flex: 1;
+      height: 6px;
+      border-radius: 3px;
+      background: linear-gradient(to right, #fef3c7 0%, #f59e0b 100%);
+      outline: none;
+      -webkit-appearance: none;
+      cursor: pointer;
+    `;
+
+    const display = this.document.createElement("div");
+    display.style.cssText = `
+      min-width: 40px;
+      text-align: right;
+      font-size: 12px;
+      font-weight: 600;
+      color: #d97706;
+    `;
+    display.textContent = current.label;
+
+    slider.addEventListener("input", () => {
+      const option = config.options[parseInt(slider.value)];
+      display.textContent = option.label;
+      this.applyPreview(field, option);
+    });
+
+    row.appendChild(slider);
+    row.appendChild(display);
+    return row;
+  }
+
+  private ensureSliderStyles() {
+    if (this.sliderStyleElement) {
+      return;
+    }
+
+    const thumbStyle = `
+      -webkit-appearance: none;
+      appearance: none;
+      width: 16px;
+      height: 16px;
+      border-radius: 50%;
+      background: #f59e0b;
+      cursor: pointer;
+      border: 3px solid white;
+      box-shadow: 0 2px 6px rgba(0,0,0,0.2);
+    `;
+    const styleEl = this.document.createElement("style");
+    styleEl.textContent = `
+      .brakit-layout-panel input[type="range"]::-webkit-slider-thumb { ${thumbStyle} }
+      .brakit-layout-panel input[type="range"]::-moz-range-thumb { ${thumbStyle} }
+    `;
+    this.document.head.appendChild(styleEl);
+    this.sliderStyleElement = styleEl;
+  }
+
+  private saveLayout() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const changes: Partial<Record<LayoutField, LayoutChange>> = {};
+    for (const field of FIELD_ORDER) {
+      const oldClass = this.originalClasses[field] ?? "";
+      const applies = FIELD_CONFIG[field].modes.includes(this.mode);
+
+      // Switching display drops classes that only made sense for the old mode
+      if (!applies) {
+        if (oldClass && this.touchedFields.has("display")) {
+          changes[field] = { old: oldClass, new: "" };
+        }
+        continue;
+      }
+
+      const nextClass = this.selectedOptions[field]?.class;
+      if (this.touchedFields.has(field) && nextClass && nextClass !== oldClass) {
+        changes[field] = { old: oldClass, new: nextClass };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      logger.info("Layout unchanged, skipping save");
+      this.cleanup();
+      return;
+    }
+
+    logger.info("Saving layout change", changes);
+
+    if (this.onLayoutUpdate) {
+      const metadata = buildSmartEditMetadata(element, this.originalClassName);
+
+      this.onLayoutUpdate({
+        element,
+        ...changes,
+        text: metadata.textContent || element.innerText.trim(),
+        tag: metadata.elementTag || element.tagName.toLowerCase(),
+        file: metadata.filePath,
+        className: metadata.className,
+        elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+        textContent: metadata.textContent || element.innerText.trim(),
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+        line: metadata.line,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Layout edit cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      const element = this.selectedElement;
+      element.classList.remove("brakit-text-editing");
+      if (this.originalInlineStyle === null) {
+        element.removeAttribute("style");
+      } else {
+        element.setAttribute("style", this.originalInlineStyle);
+      }
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    if (this.sliderStyleElement) {
+      this.sliderStyleElement.remove();
+      this.sliderStyleElement = null;
+    }
+
+    this.fieldRows = {};
+    this.originalClassName = "";
+    this.originalInlineStyle = null;
+    this.originalClasses = {};
+    this.selectedOptions = {};
+    this.touchedFields.clear();
+    this.mode = "block";
+  }
+}
@@ -0,0 +1,629 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type { ProjectRoute } from "../../services/backendClient";
+
+interface LinkToolOptions {
+  document: Document;
+  onLinkUpdate?: (data: LinkUpdateData) => void;
+  listRoutes?: () => Promise<ProjectRoute[]>;
+}
+
+export interface LinkUpdateData {
+  element: HTMLElement;
+  currentHref: string;
+  text: string;
+  href?: string;
+  target?: string | null;
+  rel?: string | null;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+const MISSING_ROUTE_CLASS = "brakit-link-missing";
+const SAME_TAB_VALUE = "";
+const NEW_TAB_VALUE = "_blank";
+const NEW_TAB_REL = "noopener noreferrer";
+
+export class LinkTool extends BaseTool {
+  private readonly options: LinkToolOptions;
+  private selectedElement: HTMLAnchorElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private routes: ProjectRoute[] = [];
+  private routesLoaded = false;
+  private flaggedLinks = new Set<HTMLAnchorElement>();
+  private flagStyleElement: HTMLStyleElement | null = null;
+  private originalValues: { href: string; target: string; rel: string } = {
+    href: "",
+    target: "",
+    rel: "",
+  };
+  private hrefInput: HTMLInputElement | null = null;
+  private targetSelect: HTMLSelectElement | null = null;
+  private relInput: HTMLInputElement | null = null;
+  private routeStatus: HTMLElement | null = null;
+
+  constructor(options: LinkToolOptions) {
+    super(options.document);
+    this.options = options;
+  }
+
+  protected onActivate(): void {
+    this.loadRoutes();
+    logger.info("Link mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    this.clearMissingRouteFlags();
+    logger.info("Link mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+    this.clearMissingRouteFlags();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const candidate = this.resolveLinkAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveLinkAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cleanup();
+      return;
+    }
+
+    // Always swallow the click so the link doesn't navigate away
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  private resolveLinkAt(x: number, y: number): HTMLAnchorElement | null {
+    const element = this.resolveElementAt(x, y);
+    if (!element || element.closest(".brakit-link-panel")) {
+      return null;
+    }
+    return element.closest<HTMLAnchorElement>("a[href]");
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #06b6d4";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(6, 182, 212, 0.08)";
+  }
+
+  private loadRoutes() {
+    if (!this.options.listRoutes) return;
+
+    this.options
+      .listRoutes()
+      .then((routes) => {
+        this.routes = routes;
+        this.routesLoaded = true;
+        if (this.active) {
+          this.flagMissingRoutes();
+          this.updateRouteStatus();
+        }
+      })
+      .catch((error) => {
+        logger.warn("Failed to list project routes", error);
+      });
+  }
+
+  /**
+   * The route serving an internal href, null when no page matches, or
+   * undefined when the href leaves the app or routes are unknown.
+   */
+  private matchRoute(href: string): ProjectRoute | null | undefined {
+    const trimmed = href.trim();
+    if (
+      !this.routesLoaded ||
+      this.routes.length === 0 ||
+      !trimmed.startsWith("/") ||
+      trimmed.startsWith("//")
+    ) {
+      return undefined;
+    }
+
+    let pathname = trimmed.split(/[?#]/)[0];
+    try {
+      pathname = decodeURI(pathname);
+    } catch {
+      // Keep the raw pathname when it isn't valid URI encoding
+    }
+
+    return (
+      this.routes.find((route) => new RegExp(route.pattern).test(pathname)) ??
+      null
+    );
+  }
+
+  /**
+   * Outline every link on the page whose internal href has no page behind
+   * it, so broken navigation is visible before anything is clicked.
+   */
+  private flagMissingRoutes() {
+    this.clearMissingRouteFlags();
+    this.ensureFlagStyles();
+
+    const links = this.document.querySelectorAll<HTMLAnchorElement>("a[href]");
+    links.forEach((link) => {
+      if (this.shouldIgnoreClick(link)) return;
+
+      const href = link.getAttribute("href") ?? "";
+      if (this.matchRoute(href) === null) {
+        link.classList.add(MISSING_ROUTE_CLASS);
+        this.flaggedLinks.add(link);
+      }
+    });
+
+    if (this.flaggedLinks.size > 0) {
+      logger.info("Links pointing at missing routes", {
+        count: this.flaggedLinks.size,
+      });
+    }
+  }
+
+  private clearMissingRouteFlags() {
+    this.flaggedLinks.forEach((link) =>
+      link.classList.remove(MISSING_ROUTE_CLASS)
+    );
+    this.flaggedLinks.clear();
+
+    if (this.flagStyleElement) {
+      this.flagStyleElement.remove();
+      this.flagStyleElement = null;
+    }
+  }
+
+  private ensureFlagStyles() {
+    if (this.flagStyleElement) return;
+
+    const styleEl = this.document.createElement("style");
+    styleEl.textContent = `
+      .${MISSING_ROUTE_CLASS} {
+        outline: 2px dashed #ef4444;
+        outline-offset: 2px;
+      }
+    `;
+    this.document.head.appendChild(styleEl);
+    this.flagStyleElement = styleEl;
+  }
+
+  private selectElement(element: HTMLAnchorElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.originalValues = {
+      href: element.getAttribute("href") ?? "",
+      target: element.getAttribute("target") ?? "",
+      rel: element.getAttribute("rel") ?? "",
+    };
+
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+
+    logger.info("Selected link for editing", {
+      href: this.originalValues.href,
+    });
+  }
+
+  private showPanel(element: HTMLAnchorElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-link-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: 320px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "⋮⋮  Link";
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    container.appendChild(this.createHrefRow());
+
+    const status = this.document.createElement("div");
+    status.style.cssText = `
+      margin: -6px 0 0 70px;
+      font-size: 11px;
+      color: #6b7280;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    `;
+    this.routeStatus = status;
+    container.appendChild(status);
+
+    container.appendChild(this.createTargetRow());
+    container.appendChild(this.createRelRow());
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 4px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #06b6d4;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveLink();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+    this.updateRouteStatus();
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(
+        rect.bottom + 10,
+        window.innerHeight - container.offsetHeight - 10
+      );
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createFieldRow(text: string): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = text;
+    label.style.cssText = `
+      width: 60px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+    row.appendChild(label);
+    return row;
+  }
+
+  private createInput(value: string) {
+    const input = this.document.createElement("input");
+    input.type = "text";
+    input.value = value;
+    input.spellcheck = false;
+    input.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      outline: none;
+    `;
+    return input;
+  }
+
+  private createHrefRow(): HTMLElement {
+    const row = this.createFieldRow("URL");
+    const input = this.createInput(this.originalValues.href);
+    input.placeholder = "/about or https://…";
+
+    // A datalist keeps free-form URLs possible while suggesting known pages
+    const datalist = this.document.createElement("datalist");
+    datalist.id = `brakit-link-routes-${Date.now()}`;
+    for (const route of this.routes) {
+      const option = this.document.createElement("option");
+      option.value = route.path;
+      option.textContent = route.filePath;
+      datalist.appendChild(option);
+    }
+    input.setAttribute("list", datalist.id);
+
+    input.addEventListener("input", () => this.updateRouteStatus());
+
+    this.hrefInput = input;
+    row.appendChild(input);
+    row.appendChild(datalist);
+    return row;
+  }
+
+  private createTargetRow(): HTMLElement {
+    const row = this.createFieldRow("Open in");
+
+    const select = this.document.createElement("select");
+    select.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 6px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      background: white;
+    `;
+
+    const options: Array<[string, string]> = [
+      [SAME_TAB_VALUE, "Same tab"],
+      [NEW_TAB_VALUE, "New tab"],
+    ];
+    const currentTarget = this.originalValues.target;
+    if (currentTarget && currentTarget !== NEW_TAB_VALUE) {
+      options.push([currentTarget, currentTarget]);
+    }
+    for (const [value, text] of options) {
+      const option = this.document.createElement("option");
+      option.value = value;
+      option.textContent = text;
+      select.appendChild(option);
+    }
+    select.value = currentTarget;
+
+    select.addEventListener("change", () => {
+      // New tabs should not get a handle back to this page
+      if (
+        select.value === NEW_TAB_VALUE &&
+        this.relInput &&
+        this.relInput.value.trim() === ""
+      ) {
+        this.relInput.value = NEW_TAB_REL;
+      }
+    });
+
+    this.targetSelect = select;
+    row.appendChild(select);
+    return row;
+  }
+
+  private createRelRow(): HTMLElement {
+    const row = this.createFieldRow("Rel");
+    const input = this.createInput(this.originalValues.rel);
+    input.placeholder = "e.g. noopener noreferrer";
+    this.relInput = input;
+    row.appendChild(input);
+    return row;
+  }
+
+  private updateRouteStatus() {
+    const status = this.routeStatus;
+    if (!status || !this.hrefInput) return;
+
+    const href = this.hrefInput.value.trim();
+    const route = this.matchRoute(href);
+
+    if (route === null) {
+      status.textContent = `No page found for ${href}`;
+      status.style.color = "#dc2626";
+    } else if (route) {
+      status.textContent = `→ ${route.filePath}`;
+      status.style.color = "#6b7280";
+    } else if (/^[a-z][a-z0-9+.-]*:|^\/\//i.test(href)) {
+      status.textContent = "External link";
+      status.style.color = "#6b7280";
+    } else {
+      status.textContent = "";
+    }
+  }
+
+  private saveLink() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const data: Partial<LinkUpdateData> = {};
+    const href = this.hrefInput?.value.trim() ?? this.originalValues.href;
+    if (!href) {
+      this.hrefInput?.focus();
+      return;
+    }
+    if (href !== this.originalValues.href) {
+      data.href = href;
+    }
+
+    const target = this.targetSelect?.value ?? this.originalValues.target;
+    if (target !== this.originalValues.target) {
+      data.target = target === SAME_TAB_VALUE ? null : target;
+    }
+
+    const rel = this.relInput?.value.trim() ?? this.originalValues.rel;
+    if (rel !== this.originalValues.rel) {
+      data.rel = rel === "" ? null : rel;
+    }
+
+    if (Object.keys(data).length === 0) {
+      logger.info("Link unchanged, skipping save");
+      this.cleanup();
+      return;
+    }
+
+    logger.info("Saving link change", data);
+
+    if (this.options.onLinkUpdate) {
+      const metadata = buildSmartEditMetadata(element);
+      const tag = metadata.elementTag || element.tagName.toLowerCase();
+      const text = metadata.textContent || element.textContent?.trim() || "";
+
+      this.options.onLinkUpdate({
+        element,
+        ...data,
+        currentHref: this.originalValues.href,
+        text,
+        tag,
+        file: metadata.filePath,
+        className: metadata.className,
+        elementTag: tag,
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Link edit cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      this.selectedElement.classList.remove("brakit-text-editing");
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    this.originalValues = { href: "", target: "", rel: "" };
+    this.hrefInput = null;
+    this.targetSelect = null;
+    this.relInput = null;
+    this.routeStatus = null;
+  }
+}
@@ -0,0 +1,375 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import type { MovePosition } from "../../services/backendClient";
+
+interface MoveToolOptions {
+  document: Document;
+  onMoveElement?: (data: MoveElementData) => void;
+}
+
+export interface MoveTargetData {
+  identifier: string;
+  elementTag: string;
+  className: string;
+  textContent: string;
+}
+
+export interface MoveElementData {
+  element: HTMLElement;
+  file: string;
+  tag: string;
+  text: string;
+  identifier: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  target: MoveTargetData;
+  position: MovePosition;
+}
+
+interface DropSlot {
+  sibling: HTMLElement;
+  position: MovePosition;
+  horizontal: boolean;
+}
+
+const DRAG_THRESHOLD_PX = 4;
+
+export class MoveTool extends BaseTool {
+  private readonly onMoveElement?: (data: MoveElementData) => void;
+  private dragElement: HTMLElement | null = null;
+  private dragOrigin: { x: number; y: number } | null = null;
+  private dragging = false;
+  private dropSlot: DropSlot | null = null;
+  private indicator: HTMLElement | null = null;
+  private originalInlineStyle: string | null = null;
+  private suppressNextClick = false;
+
+  constructor(options: MoveToolOptions) {
+    super(options.document);
+    this.onMoveElement = options.onMoveElement;
+  }
+
+  protected onActivate(): void {
+    logger.info("Move mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Move mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("pointerdown", this.handlePointerDown, true);
+    this.document.addEventListener("pointerup", this.handlePointerUp, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener(
+      "pointerdown",
+      this.handlePointerDown,
+      true
+    );
+    this.document.removeEventListener("pointerup", this.handlePointerUp, true);
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (!this.active || event.button !== 0) return;
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveMovableElementAt(
+      event.clientX,
+      event.clientY
+    );
+    if (!candidate) {
+      return;
+    }
+
+    this.preventEvent(event);
+    this.clearHover();
+    this.dragElement = candidate;
+    this.dragOrigin = { x: event.clientX, y: event.clientY };
+    this.dragging = false;
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active) return;
+
+    if (!this.dragElement || !this.dragOrigin) {
+      const candidate = this.resolveMovableElementAt(
+        event.clientX,
+        event.clientY
+      );
+      if (candidate !== this.hoveredElement) {
+        this.clearHover();
+        this.hoveredElement = candidate;
+        this.highlightElement(candidate);
+      }
+      return;
+    }
+
+    if (!this.dragging) {
+      const distance = Math.hypot(
+        event.clientX - this.dragOrigin.x,
+        event.clientY - this.dragOrigin.y
+      );
+      if (distance < DRAG_THRESHOLD_PX) {
+        return;
+      }
+      this.startDrag(this.dragElement);
+    }
+
+    this.preventEvent(event);
+    this.dropSlot = this.resolveDropSlot(event.clientX, event.clientY);
+    this.renderIndicator();
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (!this.active || !this.dragElement) return;
+
+    const element = this.dragElement;
+    const slot = this.dragging ? this.dropSlot : null;
+    if (this.dragging) {
+      this.preventEvent(event);
+    }
+    this.suppressNextClick = true;
+
+    this.cleanup();
+
+    if (slot) {
+      this.emitMove(element, slot);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active || !this.suppressNextClick) return;
+
+    // Presses on movable elements must not trigger links or buttons
+    this.suppressNextClick = false;
+    this.preventEvent(event);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.dragElement) return;
+    this.handleEscapeKey(event, () => {
+      this.cleanup();
+      logger.info("Move cancelled");
+    });
+  };
+
+  private resolveMovableElementAt(x: number, y: number): HTMLElement | null {
+    const element = this.resolveElementAt(x, y);
+    if (!element || !element.parentElement) {
+      return null;
+    }
+
+    const siblings = this.getSiblings(element);
+    return siblings.length > 0 ? element : null;
+  }
+
+  private getSiblings(element: HTMLElement): HTMLElement[] {
+    const parent = element.parentElement;
+    if (!parent) {
+      return [];
+    }
+
+    return Array.from(parent.children).filter(
+      (child): child is HTMLElement =>
+        child instanceof HTMLElement &&
+        child !== element &&
+        !this.shouldIgnoreOverlayElement(child)
+    );
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px dashed #6366f1";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(99, 102, 241, 0.08)";
+  }
+
+  private startDrag(element: HTMLElement) {
+    this.dragging = true;
+    this.originalInlineStyle = element.getAttribute("style");
+    element.style.opacity = "0.45";
+    element.style.outline = "2px solid #6366f1";
+    element.style.outlineOffset = "2px";
+    this.document.body.style.cursor = "grabbing";
+
+    logger.info("Started dragging element", { tag: element.tagName });
+  }
+
+  /**
+   * Pick the sibling closest to the pointer and which side of it to drop on.
+   * Rows (flex-row, grid) compare horizontally, everything else vertically.
+   */
+  private resolveDropSlot(x: number, y: number): DropSlot | null {
+    const element = this.dragElement;
+    const parent = element?.parentElement;
+    if (!element || !parent) {
+      return null;
+    }
+
+    const parentStyle = window.getComputedStyle(parent);
+    const horizontal =
+      parentStyle.display.includes("grid") ||
+      (parentStyle.display.includes("flex") &&
+        parentStyle.flexDirection.startsWith("row"));
+
+    let closest: HTMLElement | null = null;
+    let minDistance = Number.POSITIVE_INFINITY;
+    for (const sibling of this.getSiblings(element)) {
+      const rect = sibling.getBoundingClientRect();
+      const dx = Math.max(rect.left - x, 0, x - rect.right);
+      const dy = Math.max(rect.top - y, 0, y - rect.bottom);
+      const distance = Math.hypot(dx, dy);
+      if (distance < minDistance) {
+        minDistance = distance;
+        closest = sibling;
+      }
+    }
+
+    if (!closest) {
+      return null;
+    }
+
+    const rect = closest.getBoundingClientRect();
+    const position: MovePosition = horizontal
+      ? x < rect.left + rect.width / 2
+        ? "before"
+        : "after"
+      : y < rect.top + rect.height / 2
+        ? "before"
+        : "after";
+
+    // Dropping right next to where the element already is changes nothing
+    if (
+      (position === "before" && closest.previousElementSibling === element) ||
+      (position === "after" && closest.nextElementSibling === element)
+    ) {
+      return null;
+    }
+
+    return { sibling: closest, position, horizontal };
+  }
+
+  private renderIndicator() {
+    if (!this.dropSlot) {
+      this.indicator?.remove();
+      this.indicator = null;
+      return;
+    }
+
+    if (!this.indicator) {
+      const indicator = this.document.createElement("div");
+      indicator.setAttribute("data-brakit-overlay", "true");
+      indicator.style.cssText = `
+        position: fixed;
+        background: #6366f1;
+        border-radius: 2px;
+        box-shadow: 0 0 0 2px rgba(99, 102, 241, 0.25);
+        pointer-events: none;
+        z-index: 999999;
+      `;
+      this.document.body.appendChild(indicator);
+      this.indicator = indicator;
+    }
+
+    const { sibling, position, horizontal } = this.dropSlot;
+    const rect = sibling.getBoundingClientRect();
+    const thickness = 3;
+
+    if (horizontal) {
+      const left = position === "before" ? rect.left : rect.right;
+      this.indicator.style.left = `${left - thickness / 2}px`;
+      this.indicator.style.top = `${rect.top}px`;
+      this.indicator.style.width = `${thickness}px`;
+      this.indicator.style.height = `${rect.height}px`;
+    } else {
+      const top = position === "before" ? rect.top : rect.bottom;
+      this.indicator.style.left = `${rect.left}px`;
+      this.indicator.style.top = `${top - thickness / 2}px`;
+      this.indicator.style.width = `${rect.width}px`;
+      this.indicator.style.height = `${thickness}px`;
+    }
+  }
+
+  private emitMove(element: HTMLElement, slot: DropSlot) {
+    if (!this.onMoveElement) return;
+
+    const metadata = buildSmartEditMetadata(element);
+    const targetMetadata = buildSmartEditMetadata(slot.sibling);
+    const text = metadata.textContent || element.innerText?.trim() || "";
+    const targetText =
+      targetMetadata.textContent || slot.sibling.innerText?.trim() || "";
+    const tag = metadata.elementTag || element.tagName.toLowerCase();
+
+    logger.info("Moving element", {
+      tag,
+      position: slot.position,
+      target: targetMetadata.elementTag,
+    });
+
+    this.onMoveElement({
+      element,
+      file: metadata.filePath,
+      tag,
+      text,
+      identifier: text,
+      className: metadata.className,
+      elementTag: tag,
+      textContent: text,
+      ownerComponentName: metadata.ownerComponentName,
+      ownerFilePath: metadata.ownerFilePath,
+      target: {
+        identifier: targetText,
+        elementTag:
+          targetMetadata.elementTag || slot.sibling.tagName.toLowerCase(),
+        className: targetMetadata.className,
+        textContent: targetText,
+      },
+      position: slot.position,
+    });
+  }
+
+  private cleanup() {
+    if (this.dragElement && this.dragging) {
+      if (this.originalInlineStyle === null) {
+        this.dragElement.removeAttribute("style");
+      } else {
+        this.dragElement.setAttribute("style", this.originalInlineStyle);
+      }
+      this.document.body.style.cursor = "";
+    }
+
+    this.indicator?.remove();
+    this.indicator = null;
+    this.dragElement = null;
+    this.dragOrigin = null;
+    this.dragging = false;
+    this.dropSlot = null;
+    this.originalInlineStyle = null;
+  }
+}
@@ -0,0 +1,677 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type {
+  LiteralProp,
+  PropInspectResponse,
+  PropTargetPayload,
+  PropValue,
+} from "../../services/backendClient";
+
+interface PropToolOptions {
+  document: Document;
+  onPropUpdate?: (data: PropUpdateData) => void;
+  inspectProps?: (target: PropTargetPayload) => Promise<PropInspectResponse>;
+}
+
+export interface PropUpdateData {
+  element: HTMLElement;
+  name: string;
+  /** null removes the prop */
+  value: PropValue | null;
+  text: string;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+type PropKind = LiteralProp["kind"];
+
+interface PendingPropChange {
+  name: string;
+  value: PropValue | null;
+}
+
+// Attributes that identify elements without visible text, e.g. inputs
+const IDENTIFYING_ATTRIBUTES = [
+  "placeholder",
+  "aria-label",
+  "title",
+  "alt",
+  "name",
+];
+
+export class PropTool extends BaseTool {
+  private readonly options: PropToolOptions;
+  private selectedElement: HTMLElement | null = null;
+  private target: PropTargetPayload | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private propList: HTMLElement | null = null;
+  private rowControls = new Map<string, HTMLElement[]>();
+  private pendingChange: PendingPropChange | null = null;
+  private addNameInput: HTMLInputElement | null = null;
+  private addKindSelect: HTMLSelectElement | null = null;
+  private addValueInput: HTMLInputElement | null = null;
+  private inspectRequest = 0;
+
+  constructor(options: PropToolOptions) {
+    super(options.document);
+    this.options = options;
+  }
+
+  protected onActivate(): void {
+    logger.info("Prop inspector enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Prop inspector disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const target = event.target as HTMLElement;
+    if (
+      this.shouldIgnoreClick(target) ||
+      target.closest(".brakit-prop-panel")
+    ) {
+      this.clearHover();
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cleanup();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #84cc16";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(132, 204, 22, 0.08)";
+  }
+
+  private buildTarget(element: HTMLElement): PropTargetPayload {
+    const metadata = buildSmartEditMetadata(element);
+    const tag = metadata.elementTag || element.tagName.toLowerCase();
+    const identifyingAttribute = IDENTIFYING_ATTRIBUTES.map((name) =>
+      element.getAttribute(name)
+    ).find((value): value is string => Boolean(value && value.trim()));
+    const text =
+      metadata.textContent ||
+      element.textContent?.trim() ||
+      identifyingAttribute ||
+      "";
+
+    return {
+      text: text.length > 100 ? text.substring(0, 100) : text,
+      tag,
+      file: metadata.filePath,
+      className: metadata.className,
+      elementTag: tag,
+      ownerComponentName: metadata.ownerComponentName,
+      ownerFilePath: metadata.ownerFilePath,
+    };
+  }
+
+  private selectElement(element: HTMLElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.target = this.buildTarget(element);
+
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+    this.loadProps();
+
+    logger.info("Selected element for prop inspection", {
+      tag: this.target.tag,
+    });
+  }
+
+  private loadProps() {
+    const list = this.propList;
+    const target = this.target;
+    if (!list || !target) return;
+
+    if (!this.options.inspectProps) {
+      this.showListMessage("Prop inspection is unavailable");
+      return;
+    }
+
+    const requestId = ++this.inspectRequest;
+    this.showListMessage("Loading props…");
+
+    this.options
+      .inspectProps(target)
+      .then((result) => {
+        if (requestId !== this.inspectRequest || !this.propList) return;
+
+        if (!result.success) {
+          this.showListMessage(result.error || "Could not read props");
+          return;
+        }
+        this.renderProps(result.props, result.dynamicProps);
+      })
+      .catch((error) => {
+        logger.warn("Prop inspection failed", error);
+        if (requestId === this.inspectRequest) {
+          this.showListMessage("Could not read props");
+        }
+      });
+  }
+
+  private showListMessage(message: string) {
+    if (!this.propList) return;
+
+    this.propList.innerHTML = "";
+    const note = this.document.createElement("div");
+    note.textContent = message;
+    note.style.cssText = `
+      font-size: 12px;
+      color: #6b7280;
+      padding: 4px 0;
+    `;
+    this.propList.appendChild(note);
+  }
+
+  private showPanel(element: HTMLElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-prop-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: 340px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = `⋮⋮  Props · <${this.target?.tag ?? element.tagName.toLowerCase()}>`;
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    const list = this.document.createElement("div");
+    list.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      max-height: 280px;
+      overflow-y: auto;
+    `;
+    this.propList = list;
+    container.appendChild(list);
+
+    container.appendChild(this.createAddRow());
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 4px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #65a30d;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveProp();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.bottom + 10;
+    if (top + container.offsetHeight > window.innerHeight - 10) {
+      top = Math.max(10, rect.top - container.offsetHeight - 10);
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${top}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createRow(name: string): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 8px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = name;
+    label.title = name;
+    label.style.cssText = `
+      width: 96px;
+      flex-shrink: 0;
+      font-size: 12px;
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      color: #374151;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    `;
+    row.appendChild(label);
+    return row;
+  }
+
+  private createInput(type: "text" | "number", value: string) {
+    const input = this.document.createElement("input");
+    input.type = type;
+    input.value = value;
+    input.spellcheck = false;
+    input.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      outline: none;
+    `;
+    return input;
+  }
+
+  private renderProps(props: LiteralProp[], dynamicProps: string[]) {
+    const list = this.propList;
+    if (!list) return;
+
+    list.innerHTML = "";
+    this.rowControls.clear();
+
+    if (props.length === 0 && dynamicProps.length === 0) {
+      this.showListMessage("No props set on this element");
+      return;
+    }
+
+    for (const prop of props) {
+      list.appendChild(this.createPropRow(prop));
+    }
+
+    for (const name of dynamicProps) {
+      const row = this.createRow(name);
+      const value = this.document.createElement("span");
+      value.textContent = "{…} computed at runtime";
+      value.title =
+        "Edit the value in source; only literals can be changed here";
+      value.style.cssText = `
+        flex: 1;
+        font-size: 12px;
+        color: #9ca3af;
+        font-style: italic;
+      `;
+      row.appendChild(value);
+      list.appendChild(row);
+    }
+  }
+
+  private createPropRow(prop: LiteralProp): HTMLElement {
+    const row = this.createRow(prop.name);
+    const controls: HTMLElement[] = [];
+
+    if (prop.kind === "boolean") {
+      const checkbox = this.document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.checked = prop.value === true;
+      checkbox.style.cssText = `
+        margin: 0 auto 0 0;
+        height: 16px;
+        accent-color: #65a30d;
+      `;
+      checkbox.addEventListener("change", () => {
+        this.setPendingChange(
+          prop.name,
+          checkbox.checked === prop.value ? undefined : checkbox.checked
+        );
+      });
+      controls.push(checkbox);
+      row.appendChild(checkbox);
+    } else {
+      const input = this.createInput(
+        prop.kind === "number" ? "number" : "text",
+        String(prop.value)
+      );
+      input.addEventListener("input", () => {
+        const next =
+          prop.kind === "number" ? this.parseNumber(input.value) : input.value;
+        this.setPendingChange(
+          prop.name,
+          next === undefined || next === prop.value ? undefined : next
+        );
+      });
+      controls.push(input);
+      row.appendChild(input);
+    }
+
+    const removeBtn = this.document.createElement("button");
+    removeBtn.textContent = "×";
+    removeBtn.title = `Remove ${prop.name}`;
+    removeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 16px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0 2px;
+      line-height: 1;
+    `;
+    removeBtn.onclick = (e) => {
+      e.stopPropagation();
+      const removing =
+        this.pendingChange?.name !== prop.name ||
+        this.pendingChange.value !== null;
+      this.setPendingChange(prop.name, removing ? null : undefined);
+      (controls[0] as HTMLInputElement).disabled = removing;
+      row.style.textDecoration = removing ? "line-through" : "";
+      row.style.opacity = removing ? "0.5" : "";
+    };
+    controls.push(removeBtn);
+    row.appendChild(removeBtn);
+
+    this.rowControls.set(prop.name, controls);
+    return row;
+  }
+
+  private createAddRow(): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      padding-top: 10px;
+      border-top: 1px solid #f3f4f6;
+    `;
+
+    const nameInput = this.createInput("text", "");
+    nameInput.placeholder = "new prop";
+    nameInput.style.flex = "0 0 96px";
+
+    const kindSelect = this.document.createElement("select");
+    kindSelect.style.cssText = `
+      padding: 5px 4px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      background: white;
+    `;
+    for (const kind of ["string", "number", "boolean"] as const) {
+      const option = this.document.createElement("option");
+      option.value = kind;
+      option.textContent = kind;
+      kindSelect.appendChild(option);
+    }
+
+    const valueInput = this.createInput("text", "");
+    valueInput.placeholder = "value";
+
+    kindSelect.addEventListener("change", () => {
+      valueInput.type = kindSelect.value === "number" ? "number" : "text";
+      valueInput.placeholder =
+        kindSelect.value === "boolean" ? "true / false" : "value";
+    });
+
+    this.addNameInput = nameInput;
+    this.addKindSelect = kindSelect;
+    this.addValueInput = valueInput;
+
+    row.appendChild(nameInput);
+    row.appendChild(kindSelect);
+    row.appendChild(valueInput);
+    return row;
+  }
+
+  /**
+   * The backend edits one prop per request, so once a row changes every
+   * other row is locked until that change is reverted.
+   */
+  private setPendingChange(name: string, value: PropValue | null | undefined) {
+    this.pendingChange = value === undefined ? null : { name, value };
+
+    const lockedName = this.pendingChange?.name ?? null;
+    this.rowControls.forEach((controls, rowName) => {
+      const disabled = lockedName !== null && rowName !== lockedName;
+      controls.forEach((control) => {
+        (control as HTMLInputElement | HTMLButtonElement).disabled = disabled;
+      });
+    });
+
+    for (const control of [
+      this.addNameInput,
+      this.addKindSelect,
+      this.addValueInput,
+    ]) {
+      if (control) control.disabled = lockedName !== null;
+    }
+  }
+
+  private parseNumber(value: string): number | undefined {
+    if (value.trim() === "") return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  private readAddedProp(): PendingPropChange | null {
+    const name = this.addNameInput?.value.trim() ?? "";
+    if (!name) return null;
+
+    const kind = (this.addKindSelect?.value ?? "string") as PropKind;
+    const raw = this.addValueInput?.value ?? "";
+
+    if (kind === "boolean") {
+      return { name, value: raw.trim().toLowerCase() !== "false" };
+    }
+    if (kind === "number") {
+      const parsed = this.parseNumber(raw);
+      return parsed === undefined ? null : { name, value: parsed };
+    }
+    return { name, value: raw };
+  }
+
+  private saveProp() {
+    const element = this.selectedElement;
+    const target = this.target;
+    if (!element || !target) return;
+
+    const change = this.pendingChange ?? this.readAddedProp();
+    if (!change) {
+      logger.info("No prop changes, skipping save");
+      this.cleanup();
+      return;
+    }
+
+    logger.info("Saving prop change", change);
+
+    if (this.options.onPropUpdate) {
+      this.options.onPropUpdate({
+        element,
+        name: change.name,
+        value: change.value,
+        text: target.text ?? "",
+        tag: target.tag,
+        file: target.file,
+        className: target.className ?? "",
+        elementTag: target.elementTag ?? target.tag,
+        ownerComponentName: target.ownerComponentName,
+        ownerFilePath: target.ownerFilePath,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Prop edit cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      this.selectedElement.classList.remove("brakit-text-editing");
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    this.inspectRequest += 1;
+    this.target = null;
+    this.propList = null;
+    this.rowControls.clear();
+    this.pendingChange = null;
+    this.addNameInput = null;
+    this.addKindSelect = null;
+    this.addValueInput = null;
+  }
+}
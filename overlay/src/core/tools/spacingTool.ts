@@ -0,0 +1,919 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type {
+  SpacingGroup,
+  SpacingGroupUpdate,
+} from "../../services/backendClient";
+
+type BoxSide = "top" | "right" | "bottom" | "left";
+type BoxGroup = Exclude<SpacingGroup, "gap">;
+type SideValues = Record<BoxSide, string | null>;
+
+interface SpacingState {
+  padding: SideValues;
+  margin: SideValues;
+  gap: string | null;
+}
+
+interface SpacingToolOptions {
+  document: Document;
+  onSpacingUpdate?: (data: SpacingUpdateData) => void;
+}
+
+export interface SpacingUpdateData {
+  element: HTMLElement;
+  spacing: SpacingGroupUpdate[];
+  text: string;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  line?: number;
+}
+
+const BOX_SIDES: BoxSide[] = ["top", "right", "bottom", "left"];
+
+const SPACING_SCALE = [
+  "0", "0.5", "1", "1.5", "2", "2.5", "3", "3.5", "4", "5", "6", "7", "8",
+  "9", "10", "11", "12", "14", "16", "20", "24", "28", "32", "36", "40",
+  "44", "48", "52", "56", "60", "64", "72", "80", "96",
+];
+
+const SPACING_TOKEN_PATTERN =
+  /^(-?)(p|px|py|pt|pr|pb|pl|m|mx|my|mt|mr|mb|ml|gap|gap-x|gap-y)-(\d+(?:\.\d+)?|px|auto)$/;
+
+const PREFIX_SIDES: Record<string, BoxSide[]> = {
+  "": ["top", "right", "bottom", "left"],
+  x: ["left", "right"],
+  y: ["top", "bottom"],
+  t: ["top"],
+  r: ["right"],
+  b: ["bottom"],
+  l: ["left"],
+};
+
+const GROUP_COLORS: Record<BoxGroup, { fill: string; handle: string }> = {
+  margin: { fill: "rgba(249, 115, 22, 0.18)", handle: "#f97316" },
+  padding: { fill: "rgba(34, 197, 94, 0.2)", handle: "#16a34a" },
+};
+
+function emptySides(): SideValues {
+  return { top: null, right: null, bottom: null, left: null };
+}
+
+function cssPropertyFor(group: BoxGroup, side: BoxSide): string {
+  return `${group}-${side}`;
+}
+
+/**
+ * Read Tailwind spacing tokens into per-side values. Side-specific tokens win
+ * over axis tokens, which win over the shorthand, mirroring Tailwind's CSS order.
+ */
+function readSpacingState(classList: DOMTokenList): SpacingState {
+  const state: SpacingState = {
+    padding: emptySides(),
+    margin: emptySides(),
+    gap: null,
+  };
+  const ranked: Array<{ rank: number; apply: () => void }> = [];
+
+  classList.forEach((token) => {
+    const match = SPACING_TOKEN_PATTERN.exec(token);
+    if (!match) {
+      return;
+    }
+
+    const [, negative, prefix, value] = match;
+    if (negative) {
+      return;
+    }
+
+    if (prefix.startsWith("gap")) {
+      if (prefix === "gap") {
+        state.gap = value;
+      }
+      return;
+    }
+
+    const group: BoxGroup = prefix.startsWith("p") ? "padding" : "margin";
+    const sideKey = prefix.slice(1);
+    const sides = PREFIX_SIDES[sideKey] ?? [];
+    ranked.push({
+      rank: sideKey === "" ? 0 : sideKey === "x" || sideKey === "y" ? 1 : 2,
+      apply: () => sides.forEach((side) => (state[group][side] = value)),
+    });
+  });
+
+  ranked.sort((a, b) => a.rank - b.rank).forEach((entry) => entry.apply());
+  return state;
+}
+
+/**
+ * Collapse per-side values into the shortest equivalent token list.
+ */
+function buildGroupTokens(prefix: "p" | "m", sides: SideValues): string[] {
+  const { top, right, bottom, left } = sides;
+
+  if (top !== null && top === right && top === bottom && top === left) {
+    return [`${prefix}-${top}`];
+  }
+
+  const tokens: string[] = [];
+  if (top !== null && top === bottom) {
+    tokens.push(`${prefix}y-${top}`);
+  } else {
+    if (top !== null) tokens.push(`${prefix}t-${top}`);
+    if (bottom !== null) tokens.push(`${prefix}b-${bottom}`);
+  }
+
+  if (left !== null && left === right) {
+    tokens.push(`${prefix}x-${left}`);
+  } else {
+    if (right !== null) tokens.push(`${prefix}r-${right}`);
+    if (left !== null) tokens.push(`${prefix}l-${left}`);
+  }
+
+  return tokens;
+}
+
+function collectGroupTokens(
+  classList: DOMTokenList,
+  group: SpacingGroup
+): string[] {
+  const tokens: string[] = [];
+  classList.forEach((token) => {
+    const match = SPACING_TOKEN_PATTERN.exec(token);
+    if (!match) {
+      return;
+    }
+    const prefix = match[2];
+    const tokenGroup: SpacingGroup = prefix.startsWith("gap")
+      ? "gap"
+      : prefix.startsWith("p")
+        ? "padding"
+        : "margin";
+    if (tokenGroup === group) {
+      tokens.push(token);
+    }
+  });
+  return tokens;
+}
+
+export class SpacingTool extends BaseTool {
+  private readonly onSpacingUpdate?: (data: SpacingUpdateData) => void;
+  private selectedElement: HTMLElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private boxOverlay: HTMLElement | null = null;
+  private originalClassName = "";
+  private originalInlineStyle: string | null = null;
+  private currentState: SpacingState | null = null;
+  private dirtyGroups: Set<SpacingGroup> = new Set();
+  private supportsGap = false;
+  private sideSelects: Partial<Record<`${BoxGroup}-${BoxSide}`, HTMLSelectElement>> = {};
+  private gapSelect: HTMLSelectElement | null = null;
+  private activeHandle: {
+    group: BoxGroup;
+    side: BoxSide;
+    startX: number;
+    startY: number;
+    startPx: number;
+  } | null = null;
+
+  constructor(options: SpacingToolOptions) {
+    super(options.document);
+    this.onSpacingUpdate = options.onSpacingUpdate;
+  }
+
+  protected onActivate(): void {
+    logger.info("Spacing mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cancelEdit();
+    logger.info("Spacing mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+    window.addEventListener("scroll", this.handleViewportChange, true);
+    window.addEventListener("resize", this.handleViewportChange);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+    window.removeEventListener("scroll", this.handleViewportChange, true);
+    window.removeEventListener("resize", this.handleViewportChange);
+    this.stopHandleDrag();
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const candidate = this.resolveCandidateAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    const target = event.target as HTMLElement;
+    if (
+      (this.panel && this.panel.contains(target)) ||
+      (this.boxOverlay && this.boxOverlay.contains(target))
+    ) {
+      return;
+    }
+
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveCandidateAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cancelEdit();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  private handleViewportChange = () => {
+    this.renderBoxOverlay();
+  };
+
+  private resolveCandidateAt(x: number, y: number): HTMLElement | null {
+    const element = this.resolveElementAt(x, y);
+    if (!element || element.closest(".brakit-spacing-panel")) {
+      return null;
+    }
+    return element;
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px dashed #16a34a";
+    element.style.outlineOffset = "0px";
+  }
+
+  private selectElement(element: HTMLElement) {
+    if (this.selectedElement) {
+      this.cancelEdit();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.originalClassName = element.className;
+    this.originalInlineStyle = element.getAttribute("style");
+    this.currentState = readSpacingState(element.classList);
+    this.dirtyGroups.clear();
+
+    const display = window.getComputedStyle(element).display;
+    this.supportsGap = /flex|grid/.test(display);
+
+    element.setAttribute("data-brakit-editing", "true");
+
+    this.showPanel(element);
+    this.renderBoxOverlay();
+
+    logger.info("Selected element for spacing editing", {
+      tag: element.tagName,
+      className: this.originalClassName,
+    });
+  }
+
+  private getRootFontSizePx(): number {
+    const root = this.document.documentElement;
+    const computed = root ? window.getComputedStyle(root).fontSize : null;
+    const parsed = computed ? parseFloat(computed) : NaN;
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : 16;
+  }
+
+  private scaleToCss(value: string): string {
+    if (value === "auto") {
+      return "auto";
+    }
+    if (value === "px") {
+      return "1px";
+    }
+    const scale = parseFloat(value);
+    return scale === 0 ? "0" : `${scale * 0.25}rem`;
+  }
+
+  private pxToScale(px: number): string {
+    const unit = this.getRootFontSizePx() / 4;
+    let closest = SPACING_SCALE[0];
+    let minDiff = Number.POSITIVE_INFINITY;
+    for (const value of SPACING_SCALE) {
+      const diff = Math.abs(parseFloat(value) * unit - px);
+      if (diff < minDiff) {
+        minDiff = diff;
+        closest = value;
+      }
+    }
+    return closest;
+  }
+
+  private setSideValue(group: BoxGroup, side: BoxSide, value: string | null) {
+    if (!this.currentState || !this.selectedElement) return;
+
+    this.currentState[group][side] = value;
+    this.dirtyGroups.add(group);
+
+    const property = cssPropertyFor(group, side);
+    if (value === null) {
+      this.selectedElement.style.removeProperty(property);
+    } else {
+      this.selectedElement.style.setProperty(property, this.scaleToCss(value));
+    }
+
+    const select = this.sideSelects[`${group}-${side}`];
+    if (select) {
+      select.value = value ?? "";
+    }
+
+    this.renderBoxOverlay();
+  }
+
+  private setGapValue(value: string | null) {
+    if (!this.currentState || !this.selectedElement) return;
+
+    this.currentState.gap = value;
+    this.dirtyGroups.add("gap");
+
+    if (value === null) {
+      this.selectedElement.style.removeProperty("gap");
+    } else {
+      this.selectedElement.style.setProperty("gap", this.scaleToCss(value));
+    }
+
+    if (this.gapSelect) {
+      this.gapSelect.value = value ?? "";
+    }
+  }
+
+  private createValueSelect(
+    current: string | null,
+    allowAuto: boolean,
+    onChange: (value: string | null) => void
+  ): HTMLSelectElement {
+    const select = this.document.createElement("select");
+    select.style.cssText = `
+      width: 52px;
+      padding: 2px 4px;
+      border: 1px solid #e5e7eb;
+      border-radius: 4px;
+      background: white;
+      font-size: 11px;
+      color: #374151;
+      cursor: pointer;
+    `;
+
+    const options = ["", ...SPACING_SCALE, ...(allowAuto ? ["auto"] : [])];
+    for (const value of options) {
+      const option = this.document.createElement("option");
+      option.value = value;
+      option.textContent = value === "" ? "–" : value;
+      select.appendChild(option);
+    }
+    select.value = current ?? "";
+
+    select.addEventListener("change", () => {
+      onChange(select.value === "" ? null : select.value);
+    });
+
+    return select;
+  }
+
+  private createBoxDiagram(state: SpacingState): HTMLElement {
+    const createBox = (group: BoxGroup, inner: HTMLElement | null) => {
+      const box = this.document.createElement("div");
+      box.style.cssText = `
+        position: relative;
+        display: grid;
+        grid-template-columns: auto 1fr auto;
+        grid-template-rows: auto 1fr auto;
+        align-items: center;
+        justify-items: center;
+        gap: 4px;
+        padding: 6px;
+        border: 1px dashed ${GROUP_COLORS[group].handle};
+        border-radius: 6px;
+        background: ${GROUP_COLORS[group].fill};
+      `;
+
+      const label = this.document.createElement("span");
+      label.textContent = group;
+      label.style.cssText = `
+        position: absolute;
+        top: 3px;
+        left: 6px;
+        font-size: 10px;
+        text-transform: uppercase;
+        letter-spacing: 0.04em;
+        color: ${GROUP_COLORS[group].handle};
+      `;
+      box.appendChild(label);
+
+      const placements: Record<BoxSide, string> = {
+        top: "grid-column: 2; grid-row: 1;",
+        right: "grid-column: 3; grid-row: 2;",
+        bottom: "grid-column: 2; grid-row: 3;",
+        left: "grid-column: 1; grid-row: 2;",
+      };
+
+      for (const side of BOX_SIDES) {
+        const select = this.createValueSelect(
+          state[group][side],
+          group === "margin",
+          (value) => this.setSideValue(group, side, value)
+        );
+        select.style.cssText += placements[side];
+        select.title = `${group}-${side}`;
+        this.sideSelects[`${group}-${side}`] = select;
+        box.appendChild(select);
+      }
+
+      const center =
+        inner ??
+        (() => {
+          const content = this.document.createElement("div");
+          content.style.cssText = `
+            width: 56px;
+            height: 24px;
+            border-radius: 4px;
+            background: rgba(59, 130, 246, 0.15);
+            border: 1px solid rgba(59, 130, 246, 0.4);
+          `;
+          return content;
+        })();
+      center.style.gridColumn = "2";
+      center.style.gridRow = "2";
+      box.appendChild(center);
+
+      return box;
+    };
+
+    return createBox("margin", createBox("padding", null));
+  }
+
+  private showPanel(element: HTMLElement) {
+    const state = this.currentState;
+    if (!state) return;
+
+    const container = this.document.createElement("div");
+    container.className = "brakit-spacing-panel";
+    container.setAttribute("data-brakit-overlay", "true");
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 14px 16px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      min-width: 260px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const title = this.document.createElement("span");
+    title.textContent = "⋮⋮  Spacing";
+    title.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.textContent = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 22px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(title);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    container.appendChild(this.createBoxDiagram(state));
+
+    if (this.supportsGap) {
+      const gapRow = this.document.createElement("label");
+      gapRow.style.cssText = `
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        font-size: 12px;
+        color: #374151;
+      `;
+      gapRow.textContent = "Gap";
+      this.gapSelect = this.createValueSelect(state.gap, false, (value) =>
+        this.setGapValue(value)
+      );
+      gapRow.appendChild(this.gapSelect);
+      container.appendChild(gapRow);
+    }
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #16a34a;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveSpacing();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    const top =
+      rect.bottom + 16 + container.offsetHeight < window.innerHeight
+        ? rect.bottom + 16
+        : Math.max(10, rect.top - container.offsetHeight - 16);
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${top}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  /**
+   * Draw the margin and padding bands over the selected element, with a drag
+   * handle on every side.
+   */
+  private renderBoxOverlay() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    if (!this.boxOverlay) {
+      this.boxOverlay = this.document.createElement("div");
+      this.boxOverlay.className = "brakit-spacing-overlay";
+      this.boxOverlay.setAttribute("data-brakit-overlay", "true");
+      this.boxOverlay.style.cssText = `
+        position: fixed;
+        inset: 0;
+        pointer-events: none;
+        z-index: 999998;
+      `;
+      this.document.body.appendChild(this.boxOverlay);
+    }
+
+    this.boxOverlay.replaceChildren();
+
+    const rect = element.getBoundingClientRect();
+    const computed = window.getComputedStyle(element);
+    const read = (property: string) => parseFloat(computed.getPropertyValue(property)) || 0;
+
+    const margin = {
+      top: read("margin-top"),
+      right: read("margin-right"),
+      bottom: read("margin-bottom"),
+      left: read("margin-left"),
+    };
+    const border = {
+      top: read("border-top-width"),
+      right: read("border-right-width"),
+      bottom: read("border-bottom-width"),
+      left: read("border-left-width"),
+    };
+    const padding = {
+      top: read("padding-top"),
+      right: read("padding-right"),
+      bottom: read("padding-bottom"),
+      left: read("padding-left"),
+    };
+
+    const marginBox = {
+      top: rect.top - margin.top,
+      left: rect.left - margin.left,
+      width: rect.width + margin.left + margin.right,
+      height: rect.height + margin.top + margin.bottom,
+    };
+    const paddingBox = {
+      top: rect.top + border.top,
+      left: rect.left + border.left,
+      width: rect.width - border.left - border.right,
+      height: rect.height - border.top - border.bottom,
+    };
+
+    this.drawBands("margin", marginBox, margin);
+    this.drawBands("padding", paddingBox, padding);
+  }
+
+  private drawBands(
+    group: BoxGroup,
+    box: { top: number; left: number; width: number; height: number },
+    sizes: Record<BoxSide, number>
+  ) {
+    if (!this.boxOverlay) return;
+
+    const bands: Record<BoxSide, { top: number; left: number; width: number; height: number }> = {
+      top: { top: box.top, left: box.left, width: box.width, height: sizes.top },
+      bottom: {
+        top: box.top + box.height - sizes.bottom,
+        left: box.left,
+        width: box.width,
+        height: sizes.bottom,
+      },
+      left: {
+        top: box.top + sizes.top,
+        left: box.left,
+        width: sizes.left,
+        height: box.height - sizes.top - sizes.bottom,
+      },
+      right: {
+        top: box.top + sizes.top,
+        left: box.left + box.width - sizes.right,
+        width: sizes.right,
+        height: box.height - sizes.top - sizes.bottom,
+      },
+    };
+
+    for (const side of BOX_SIDES) {
+      const band = bands[side];
+      const fill = this.document.createElement("div");
+      fill.style.cssText = `
+        position: fixed;
+        top: ${band.top}px;
+        left: ${band.left}px;
+        width: ${Math.max(0, band.width)}px;
+        height: ${Math.max(0, band.height)}px;
+        background: ${GROUP_COLORS[group].fill};
+      `;
+      this.boxOverlay.appendChild(fill);
+
+      // Margin handles sit on the outer edge, padding handles on the inner edge
+      const vertical = side === "top" || side === "bottom";
+      const outer = group === "margin";
+      const edge =
+        side === "top"
+          ? outer ? band.top : band.top + band.height
+          : side === "bottom"
+            ? outer ? band.top + band.height : band.top
+            : side === "left"
+              ? outer ? band.left : band.left + band.width
+              : outer ? band.left + band.width : band.left;
+
+      const handle = this.document.createElement("div");
+      handle.setAttribute("data-brakit-overlay", "true");
+      handle.title = `${group}-${side}`;
+      handle.style.cssText = `
+        position: fixed;
+        ${vertical ? `top: ${edge - 3}px; left: ${box.left + box.width / 2 - 12}px; width: 24px; height: 6px; cursor: ns-resize;` : `left: ${edge - 3}px; top: ${box.top + box.height / 2 - 12}px; width: 6px; height: 24px; cursor: ew-resize;`}
+        border-radius: 3px;
+        background: ${GROUP_COLORS[group].handle};
+        border: 1px solid white;
+        pointer-events: auto;
+      `;
+      handle.addEventListener("pointerdown", (event) =>
+        this.startHandleDrag(event, group, side, sizes[side])
+      );
+      this.boxOverlay.appendChild(handle);
+    }
+  }
+
+  private startHandleDrag(
+    event: PointerEvent,
+    group: BoxGroup,
+    side: BoxSide,
+    startPx: number
+  ) {
+    this.preventEvent(event);
+    this.activeHandle = {
+      group,
+      side,
+      startX: event.clientX,
+      startY: event.clientY,
+      startPx,
+    };
+    window.addEventListener("pointermove", this.handleHandleDragMove, true);
+    window.addEventListener("pointerup", this.stopHandleDrag, true);
+  }
+
+  private handleHandleDragMove = (event: PointerEvent) => {
+    const handle = this.activeHandle;
+    if (!handle) return;
+
+    const dx = event.clientX - handle.startX;
+    const dy = event.clientY - handle.startY;
+    // Positive deltas grow the margin outward and the padding inward
+    const outward =
+      handle.side === "top" ? -dy : handle.side === "bottom" ? dy : handle.side === "left" ? -dx : dx;
+    const delta = handle.group === "margin" ? outward : -outward;
+
+    const nextPx = Math.max(0, handle.startPx + delta);
+    const nextValue = this.pxToScale(nextPx);
+    if (this.currentState?.[handle.group][handle.side] !== nextValue) {
+      this.setSideValue(handle.group, handle.side, nextValue);
+    }
+  };
+
+  private stopHandleDrag = () => {
+    if (!this.activeHandle) return;
+    this.activeHandle = null;
+    window.removeEventListener("pointermove", this.handleHandleDragMove, true);
+    window.removeEventListener("pointerup", this.stopHandleDrag, true);
+  };
+
+  private buildSpacingUpdates(): SpacingGroupUpdate[] {
+    const element = this.selectedElement;
+    const state = this.currentState;
+    if (!element || !state) return [];
+
+    const originalClasses = this.document.createElement("div").classList;
+    this.originalClassName
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((token) => originalClasses.add(token));
+
+    const updates: SpacingGroupUpdate[] = [];
+    for (const group of this.dirtyGroups) {
+      const next =
+        group === "gap"
+          ? state.gap !== null
+            ? [`gap-${state.gap}`]
+            : []
+          : buildGroupTokens(group === "padding" ? "p" : "m", state[group]);
+      updates.push({
+        group,
+        old: collectGroupTokens(originalClasses, group),
+        new: next,
+      });
+    }
+    return updates;
+  }
+
+  private saveSpacing() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const spacing = this.buildSpacingUpdates();
+    if (spacing.length === 0) {
+      logger.info("Spacing unchanged, skipping save");
+      this.cancelEdit();
+      return;
+    }
+
+    logger.info("Saving spacing change", { spacing });
+
+    if (this.onSpacingUpdate) {
+      const metadata = buildSmartEditMetadata(element, this.originalClassName);
+      const fallbackText = element.innerText?.trim() ?? "";
+
+      this.onSpacingUpdate({
+        element,
+        spacing,
+        text: metadata.textContent || fallbackText,
+        tag: metadata.elementTag || element.tagName.toLowerCase(),
+        file: metadata.filePath,
+        className: metadata.className,
+        elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+        textContent: metadata.textContent || fallbackText,
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+        line: metadata.line,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    const hadSelection = Boolean(this.selectedElement);
+    this.cleanup();
+    if (hadSelection) {
+      logger.info("Spacing edit cancelled");
+    }
+  }
+
+  private cleanup() {
+    this.stopHandleDrag();
+
+    if (this.selectedElement) {
+      const element = this.selectedElement;
+      element.removeAttribute("data-brakit-editing");
+      if (this.originalInlineStyle === null) {
+        element.removeAttribute("style");
+      } else {
+        element.setAttribute("style", this.originalInlineStyle);
+      }
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    if (this.boxOverlay) {
+      this.boxOverlay.remove();
+      this.boxOverlay = null;
+    }
+
+    this.sideSelects = {};
+    this.gapSelect = null;
+    this.originalClassName = "";
+    this.originalInlineStyle = null;
+    this.currentState = null;
+    this.dirtyGroups.clear();
+    this.supportsGap = false;
+  }
+}
@@ -4,10 +4,12 @@ import {
   buildSmartEditMetadata,
   type SmartEditMetadata,
 } from "../../utils/elementMetadata";
+import type { ListEditMode } from "../../services/backendClient";
 
 interface TextEditToolOptions {
   document: Document;
   onTextUpdate?: (data: TextUpdateData) => void;
+  listLocales?: () => Promise<string[]>;
 }
 
 export interface TextUpdateData {
@@ -22,22 +24,45 @@ export interface TextUpdateData {
   textContent: string;
   ownerComponentName?: string;
   ownerFilePath?: string;
+  listEditMode?: ListEditMode;
+  locale?: string;
+  /** Locales to write translated text to, when not just the active one */
+  translationLocales?: string[];
 }
 
+// Lists rendered by .map() repeat the same markup, so an element counts as a
+// list item when it or a close ancestor has a sibling with the same tag and
+// classes
+const LIST_ITEM_SEARCH_DEPTH = 3;
+
+const LIST_MODE_OPTIONS: Array<{ mode: ListEditMode; label: string }> = [
+  { mode: "item", label: "This item" },
+  { mode: "template", label: "All items" },
+];
+
 export class TextEditTool extends BaseTool {
   private readonly onTextUpdate?: (data: TextUpdateData) => void;
+  private readonly listLocales?: () => Promise<string[]>;
   private editingElement: HTMLElement | null = null;
   private originalText: string = "";
   private originalRawText: string = "";
   private originalClassName: string = "";
   private originalMetadata: SmartEditMetadata | null = null;
+  private listEditMode: ListEditMode | null = null;
+  private listModeToggle: HTMLElement | null = null;
+  private locales: string[] = [];
+  private activeLocale: string | null = null;
+  private targetLocales = new Set<string>();
+  private localePicker: HTMLElement | null = null;
 
   constructor(options: TextEditToolOptions) {
     super(options.document);
     this.onTextUpdate = options.onTextUpdate;
+    this.listLocales = options.listLocales;
   }
 
   protected onActivate(): void {
+    this.loadLocales();
     logger.info("Text edit mode enabled");
   }
 
@@ -148,6 +173,9 @@ export class TextEditTool extends BaseTool {
   }
 
   private startEdit(element: HTMLElement) {
+    // Checked before the editing class changes the element's className
+    const isListItem = this.isRepeatedElement(element);
+
     this.editingElement = element;
     this.originalText = element.innerText;
     this.originalRawText = element.textContent ?? element.innerText;
@@ -183,12 +211,227 @@ export class TextEditTool extends BaseTool {
     element.addEventListener("click", this.preventClick, true);
     element.addEventListener("mousedown", this.preventDefault, true);
 
+    if (isListItem) {
+      this.listEditMode = "item";
+      this.showListModeToggle(element);
+    }
+
+    // Only projects with several locales get a choice of where text is saved
+    if (this.locales.length > 1) {
+      this.activeLocale = this.resolveActiveLocale();
+      if (this.activeLocale) {
+        this.targetLocales.add(this.activeLocale);
+      }
+      this.showLocalePicker(element);
+    }
+
     logger.info("Started editing text", {
       tag: element.tagName,
       text: this.originalText,
     });
   }
 
+  private isRepeatedElement(element: HTMLElement): boolean {
+    let current: HTMLElement | null = element;
+
+    for (let depth = 0; current && depth <= LIST_ITEM_SEARCH_DEPTH; depth++) {
+      const parent: HTMLElement | null = current.parentElement;
+      if (!parent || parent === this.document.body) {
+        return false;
+      }
+
+      const { tagName, className } = current;
+      const lookalikes = Array.from(parent.children).filter(
+        (sibling) =>
+          sibling.tagName === tagName && sibling.className === className
+      );
+      if (lookalikes.length > 1) {
+        return true;
+      }
+
+      current = parent;
+    }
+
+    return false;
+  }
+
+  private showListModeToggle(element: HTMLElement) {
+    const toggle = this.createToggleBar("brakit-list-mode-toggle");
+
+    for (const option of LIST_MODE_OPTIONS) {
+      const button = this.createToggleButton(option.label, () => {
+        this.listEditMode = option.mode;
+        this.renderListModeToggle();
+      });
+      button.dataset.mode = option.mode;
+      toggle.appendChild(button);
+    }
+
+    this.document.body.appendChild(toggle);
+    this.listModeToggle = toggle;
+    this.renderListModeToggle();
+    this.positionToggleBar(toggle, element, "above");
+  }
+
+  private renderListModeToggle() {
+    if (!this.listModeToggle) return;
+
+    this.listModeToggle
+      .querySelectorAll<HTMLButtonElement>("button")
+      .forEach((button) => {
+        const selected = button.dataset.mode === this.listEditMode;
+        button.style.background = selected ? "#10b981" : "transparent";
+        button.style.color = selected ? "white" : "#374151";
+      });
+  }
+
+  private showLocalePicker(element: HTMLElement) {
+    const picker = this.createToggleBar("brakit-locale-picker");
+
+    const label = this.document.createElement("span");
+    label.textContent = "Save to";
+    label.style.cssText = `
+      padding: 4px 6px;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+    picker.appendChild(label);
+
+    for (const locale of this.locales) {
+      const button = this.createToggleButton(locale, () => {
+        if (this.targetLocales.has(locale)) {
+          this.targetLocales.delete(locale);
+        } else {
+          this.targetLocales.add(locale);
+        }
+        this.renderLocalePicker();
+      });
+      button.dataset.locale = locale;
+      picker.appendChild(button);
+    }
+
+    this.document.body.appendChild(picker);
+    this.localePicker = picker;
+    this.renderLocalePicker();
+    this.positionToggleBar(picker, element, "below");
+  }
+
+  private renderLocalePicker() {
+    if (!this.localePicker) return;
+
+    this.localePicker
+      .querySelectorAll<HTMLButtonElement>("button")
+      .forEach((button) => {
+        const selected = this.targetLocales.has(button.dataset.locale ?? "");
+        button.style.background = selected ? "#10b981" : "transparent";
+        button.style.color = selected ? "white" : "#374151";
+      });
+  }
+
+  /**
+   * Undefined while only the active locale is picked, so the backend keeps
+   * matching the message by its current text.
+   */
+  private getTranslationLocales(): string[] | undefined {
+    const selected = Array.from(this.targetLocales);
+    if (
+      selected.length === 0 ||
+      (selected.length === 1 && selected[0] === this.activeLocale)
+    ) {
+      return undefined;
+    }
+    return selected;
+  }
+
+  private resolveActiveLocale(): string | null {
+    const lang = this.document.documentElement.lang.toLowerCase();
+    if (!lang) return null;
+
+    return (
+      this.locales.find((locale) => locale.toLowerCase() === lang) ??
+      this.locales.find(
+        (locale) => locale.toLowerCase() === lang.split("-")[0]
+      ) ??
+      null
+    );
+  }
+
+  private loadLocales() {
+    if (!this.listLocales) return;
+
+    this.listLocales()
+      .then((locales) => {
+        this.locales = locales;
+      })
+      .catch((error) => {
+        logger.warn("Failed to list project locales", error);
+      });
+  }
+
+  private createToggleBar(className: string): HTMLElement {
+    const bar = this.document.createElement("div");
+    bar.className = className;
+    bar.setAttribute("data-brakit-overlay", "true");
+    bar.style.cssText = `
+      position: fixed;
+      display: flex;
+      align-items: center;
+      gap: 2px;
+      padding: 3px;
+      background: white;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+      z-index: 999999;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+    return bar;
+  }
+
+  private createToggleButton(
+    label: string,
+    onSelect: () => void
+  ): HTMLButtonElement {
+    const button = this.document.createElement("button");
+    button.textContent = label;
+    button.style.cssText = `
+      padding: 4px 10px;
+      border: none;
+      border-radius: 6px;
+      font-size: 12px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    // Keep focus in the edited element so the blur handler does not save
+    button.onmousedown = (e) => e.preventDefault();
+    button.onclick = (e) => {
+      e.stopPropagation();
+      onSelect();
+    };
+    return button;
+  }
+
+  /**
+   * Place a bar next to the edited element, flipping to the other side when
+   * it would leave the viewport.
+   */
+  private positionToggleBar(
+    bar: HTMLElement,
+    element: HTMLElement,
+    side: "above" | "below"
+  ) {
+    const rect = element.getBoundingClientRect();
+    const above = rect.top - bar.offsetHeight - 8;
+    const below = rect.bottom + 8;
+    const fitsBelow = below + bar.offsetHeight <= window.innerHeight;
+    const placeAbove = above >= 0 && (side === "above" || !fitsBelow);
+
+    bar.style.top = `${placeAbove ? above : below}px`;
+    bar.style.left = `${Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - bar.offsetWidth - 10)
+    )}px`;
+  }
+
   private preventDefault = (event: Event) => {
     // Prevent default button/link behavior during editing
     if (this.editingElement?.getAttribute("data-brakit-editing") === "true") {
@@ -254,6 +497,9 @@ export class TextEditTool extends BaseTool {
           textContent: metadata.textContent || oldSourceText,
           ownerComponentName: metadata.ownerComponentName,
           ownerFilePath: metadata.ownerFilePath,
+          listEditMode: this.listEditMode ?? undefined,
+          locale: this.document.documentElement.lang || undefined,
+          translationLocales: this.getTranslationLocales(),
         });
       }
     }
@@ -278,6 +524,19 @@ export class TextEditTool extends BaseTool {
     this.originalRawText = "";
     this.originalClassName = "";
     this.originalMetadata = null;
+    this.listEditMode = null;
+
+    if (this.listModeToggle) {
+      this.listModeToggle.remove();
+      this.listModeToggle = null;
+    }
+
+    if (this.localePicker) {
+      this.localePicker.remove();
+      this.localePicker = null;
+    }
+    this.activeLocale = null;
+    this.targetLocales.clear();
 
     element.contentEditable = "false";
     element.spellcheck = true;
@@ -0,0 +1,670 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+import type {
+  TypographyChange,
+  TypographyField,
+} from "../../services/backendClient";
+
+interface TypographyToolOptions {
+  document: Document;
+  onTypographyUpdate?: (data: TypographyUpdateData) => void;
+}
+
+export interface TypographyUpdateData {
+  element: HTMLElement;
+  fontWeight?: TypographyChange;
+  lineHeight?: TypographyChange;
+  letterSpacing?: TypographyChange;
+  textAlign?: TypographyChange;
+  textTransform?: TypographyChange;
+  text: string;
+  tag: string;
+  file: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  line?: number;
+}
+
+interface TypographyOption {
+  class: string;
+  label: string;
+  css: string;
+}
+
+interface TypographyFieldConfig {
+  label: string;
+  cssProperty: string;
+  control: "slider" | "buttons";
+  options: TypographyOption[];
+  /** Used to pick the closest option when the element has no class for the field */
+  toNumber?: (value: string, element: HTMLElement) => number;
+}
+
+const FIELD_ORDER: TypographyField[] = [
+  "fontWeight",
+  "lineHeight",
+  "letterSpacing",
+  "textAlign",
+  "textTransform",
+];
+
+const FIELD_CONFIG: Record<TypographyField, TypographyFieldConfig> = {
+  fontWeight: {
+    label: "Weight",
+    cssProperty: "font-weight",
+    control: "slider",
+    options: [
+      { class: "font-thin", label: "Thin", css: "100" },
+      { class: "font-extralight", label: "Extra Light", css: "200" },
+      { class: "font-light", label: "Light", css: "300" },
+      { class: "font-normal", label: "Normal", css: "400" },
+      { class: "font-medium", label: "Medium", css: "500" },
+      { class: "font-semibold", label: "Semibold", css: "600" },
+      { class: "font-bold", label: "Bold", css: "700" },
+      { class: "font-extrabold", label: "Extra Bold", css: "800" },
+      { class: "font-black", label: "Black", css: "900" },
+    ],
+    toNumber: (value) => parseFloat(value),
+  },
+  lineHeight: {
+    label: "Line height",
+    cssProperty: "line-height",
+    control: "slider",
+    options: [
+      { class: "leading-none", label: "None", css: "1" },
+      { class: "leading-tight", label: "Tight", css: "1.25" },
+      { class: "leading-snug", label: "Snug", css: "1.375" },
+      { class: "leading-normal", label: "Normal", css: "1.5" },
+      { class: "leading-relaxed", label: "Relaxed", css: "1.625" },
+      { class: "leading-loose", label: "Loose", css: "2" },
+    ],
+    toNumber: (value, element) => {
+      const fontSize = parseFloat(window.getComputedStyle(element).fontSize);
+      const px = parseFloat(value);
+      if (!Number.isFinite(px) || !fontSize) {
+        return 1.5;
+      }
+      return value.endsWith("px") ? px / fontSize : px;
+    },
+  },
+  letterSpacing: {
+    label: "Letter spacing",
+    cssProperty: "letter-spacing",
+    control: "slider",
+    options: [
+      { class: "tracking-tighter", label: "Tighter", css: "-0.05em" },
+      { class: "tracking-tight", label: "Tight", css: "-0.025em" },
+      { class: "tracking-normal", label: "Normal", css: "0em" },
+      { class: "tracking-wide", label: "Wide", css: "0.025em" },
+      { class: "tracking-wider", label: "Wider", css: "0.05em" },
+      { class: "tracking-widest", label: "Widest", css: "0.1em" },
+    ],
+    toNumber: (value, element) => {
+      if (value === "normal") {
+        return 0;
+      }
+      const fontSize = parseFloat(window.getComputedStyle(element).fontSize);
+      const px = parseFloat(value);
+      return Number.isFinite(px) && fontSize ? px / fontSize : 0;
+    },
+  },
+  textAlign: {
+    label: "Align",
+    cssProperty: "text-align",
+    control: "buttons",
+    options: [
+      { class: "text-left", label: "Left", css: "left" },
+      { class: "text-center", label: "Center", css: "center" },
+      { class: "text-right", label: "Right", css: "right" },
+      { class: "text-justify", label: "Justify", css: "justify" },
+    ],
+  },
+  textTransform: {
+    label: "Case",
+    cssProperty: "text-transform",
+    control: "buttons",
+    options: [
+      { class: "normal-case", label: "Aa", css: "none" },
+      { class: "uppercase", label: "AA", css: "uppercase" },
+      { class: "lowercase", label: "aa", css: "lowercase" },
+      { class: "capitalize", label: "Ab", css: "capitalize" },
+    ],
+  },
+};
+
+export class TypographyTool extends BaseTool {
+  private readonly onTypographyUpdate?: (data: TypographyUpdateData) => void;
+  private selectedElement: HTMLElement | null = null;
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private sliderStyleElement: HTMLStyleElement | null = null;
+  private originalClassName = "";
+  private originalInlineStyle: string | null = null;
+  private originalClasses: Partial<Record<TypographyField, string>> = {};
+  private selectedOptions: Partial<Record<TypographyField, TypographyOption>> =
+    {};
+  private touchedFields: Set<TypographyField> = new Set();
+
+  constructor(options: TypographyToolOptions) {
+    super(options.document);
+    this.onTypographyUpdate = options.onTypographyUpdate;
+  }
+
+  protected onActivate(): void {
+    logger.info("Typography mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Typography mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active || this.selectedElement) return;
+
+    const candidate = this.resolveTextElementAt(event.clientX, event.clientY);
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveTextElementAt(event.clientX, event.clientY);
+    if (!candidate) {
+      this.cleanup();
+      return;
+    }
+
+    this.preventEvent(event);
+    this.selectElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || !this.selectedElement) return;
+    this.handleEscapeKey(event, () => this.cancelEdit());
+  };
+
+  private resolveTextElementAt(x: number, y: number): HTMLElement | null {
+    const element = this.resolveElementAt(x, y);
+    if (!element || element.closest(".brakit-typography-panel")) {
+      return null;
+    }
+
+    const text = element.innerText?.trim();
+    return text ? element : null;
+  }
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #8b5cf6";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(139, 92, 246, 0.08)";
+  }
+
+  private selectElement(element: HTMLElement) {
+    if (this.panel) {
+      this.cleanup();
+    }
+
+    this.clearHover();
+    this.selectedElement = element;
+    this.originalClassName = element.className;
+    this.originalInlineStyle = element.getAttribute("style");
+    this.touchedFields.clear();
+
+    for (const field of FIELD_ORDER) {
+      const config = FIELD_CONFIG[field];
+      const classOption = config.options.find((option) =>
+        element.classList.contains(option.class)
+      );
+      if (classOption) {
+        this.originalClasses[field] = classOption.class;
+      }
+      this.selectedOptions[field] =
+        classOption ?? this.findClosestOption(field, element);
+    }
+
+    element.classList.add("brakit-text-editing");
+    this.showPanel(element);
+
+    logger.info("Selected element for typography editing", {
+      tag: element.tagName,
+      classes: this.originalClasses,
+    });
+  }
+
+  private findClosestOption(
+    field: TypographyField,
+    element: HTMLElement
+  ): TypographyOption {
+    const config = FIELD_CONFIG[field];
+    const computed = window
+      .getComputedStyle(element)
+      .getPropertyValue(config.cssProperty);
+
+    if (!config.toNumber) {
+      return (
+        config.options.find((option) => option.css === computed) ??
+        config.options[0]
+      );
+    }
+
+    const target = config.toNumber(computed, element);
+    let closest = config.options[0];
+    let minDiff = Number.POSITIVE_INFINITY;
+    for (const option of config.options) {
+      const diff = Math.abs(parseFloat(option.css) - target);
+      if (diff < minDiff) {
+        minDiff = diff;
+        closest = option;
+      }
+    }
+    return closest;
+  }
+
+  private applyPreview(field: TypographyField, option: TypographyOption) {
+    if (!this.selectedElement) return;
+
+    this.selectedOptions[field] = option;
+    this.touchedFields.add(field);
+    this.selectedElement.style.setProperty(
+      FIELD_CONFIG[field].cssProperty,
+      option.css
+    );
+  }
+
+  private showPanel(element: HTMLElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-typography-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      min-width: 300px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = "⋮⋮  Typography";
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    this.ensureSliderStyles();
+
+    for (const field of FIELD_ORDER) {
+      const config = FIELD_CONFIG[field];
+      container.appendChild(
+        config.control === "slider"
+          ? this.createSliderRow(field)
+          : this.createButtonRow(field)
+      );
+    }
+
+    const buttonRow = this.document.createElement("div");
+    buttonRow.style.cssText = `
+      display: flex;
+      gap: 8px;
+      margin-top: 4px;
+    `;
+
+    const cancelBtn = this.document.createElement("button");
+    cancelBtn.textContent = "Cancel";
+    cancelBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    cancelBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.cancelEdit();
+    };
+
+    const applyBtn = this.document.createElement("button");
+    applyBtn.textContent = "Apply";
+    applyBtn.style.cssText = `
+      flex: 1;
+      padding: 8px 16px;
+      border: none;
+      background: #8b5cf6;
+      color: white;
+      border-radius: 6px;
+      font-size: 13px;
+      font-weight: 500;
+      cursor: pointer;
+    `;
+    applyBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.saveTypography();
+    };
+
+    buttonRow.appendChild(cancelBtn);
+    buttonRow.appendChild(applyBtn);
+    container.appendChild(buttonRow);
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(rect.bottom + 10, window.innerHeight - container.offsetHeight - 10);
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createFieldLabel(text: string): HTMLElement {
+    const label = this.document.createElement("span");
+    label.textContent = text;
+    label.style.cssText = `
+      width: 92px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+    return label;
+  }
+
+  private createSliderRow(field: TypographyField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const current = this.selectedOptions[field] ?? config.options[0];
+
+    const slider = this.document.createElement("input");
+    slider.type = "range";
+    slider.min = "0";
+    slider.max = String(config.options.length - 1);
+    slider.value = String(Math.max(0, config.options.indexOf(current)));
+    slider.style.cssText = `
+      flex: 1;
+      height: 6px;
+      border-radius: 3px;
+      background: linear-gradient(to right, #ede9fe 0%, #8b5cf6 100%);
+      outline: none;
+      -webkit-appearance: none;
+      cursor: pointer;
+    `;
+
+    const display = this.document.createElement("div");
+    display.style.cssText = `
+      min-width: 72px;
+      text-align: right;
+      font-size: 12px;
+      font-weight: 600;
+      color: #8b5cf6;
+    `;
+    display.textContent = current.label;
+
+    slider.addEventListener("input", () => {
+      const option = config.options[parseInt(slider.value)];
+      display.textContent = option.label;
+      this.applyPreview(field, option);
+    });
+
+    row.appendChild(this.createFieldLabel(config.label));
+    row.appendChild(slider);
+    row.appendChild(display);
+    return row;
+  }
+
+  private createButtonRow(field: TypographyField): HTMLElement {
+    const config = FIELD_CONFIG[field];
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const group = this.document.createElement("div");
+    group.style.cssText = `
+      display: flex;
+      flex: 1;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      overflow: hidden;
+    `;
+
+    const buttons: HTMLButtonElement[] = [];
+    const paint = () => {
+      buttons.forEach((button, index) => {
+        const selected =
+          this.selectedOptions[field]?.class === config.options[index].class;
+        button.style.background = selected ? "#8b5cf6" : "white";
+        button.style.color = selected ? "white" : "#374151";
+      });
+    };
+
+    for (const option of config.options) {
+      const button = this.document.createElement("button");
+      button.textContent = option.label;
+      button.title = option.class;
+      button.style.cssText = `
+        flex: 1;
+        padding: 5px 0;
+        border: none;
+        font-size: 12px;
+        cursor: pointer;
+      `;
+      button.onclick = (e) => {
+        e.stopPropagation();
+        this.applyPreview(field, option);
+        paint();
+      };
+      buttons.push(button);
+      group.appendChild(button);
+    }
+    paint();
+
+    row.appendChild(this.createFieldLabel(config.label));
+    row.appendChild(group);
+    return row;
+  }
+
+  private ensureSliderStyles() {
+    if (this.sliderStyleElement) {
+      return;
+    }
+
+    const thumbStyle = `
+      -webkit-appearance: none;
+      appearance: none;
+      width: 16px;
+      height: 16px;
+      border-radius: 50%;
+      background: #8b5cf6;
+      cursor: pointer;
+      border: 3px solid white;
+      box-shadow: 0 2px 6px rgba(0,0,0,0.2);
+    `;
+    const styleEl = this.document.createElement("style");
+    styleEl.textContent = `
+      .brakit-typography-panel input[type="range"]::-webkit-slider-thumb { ${thumbStyle} }
+      .brakit-typography-panel input[type="range"]::-moz-range-thumb { ${thumbStyle} }
+    `;
+    this.document.head.appendChild(styleEl);
+    this.sliderStyleElement = styleEl;
+  }
+
+  private saveTypography() {
+    const element = this.selectedElement;
+    if (!element) return;
+
+    const changes: Partial<Record<TypographyField, TypographyChange>> = {};
+    for (const field of this.touchedFields) {
+      const nextClass = this.selectedOptions[field]?.class;
+      const oldClass = this.originalClasses[field] ?? "";
+      if (nextClass && nextClass !== oldClass) {
+        changes[field] = { old: oldClass, new: nextClass };
+      }
+    }
+
+    if (Object.keys(changes).length === 0) {
+      logger.info("Typography unchanged, skipping save");
+      this.cleanup();
+      return;
+    }
+
+    logger.info("Saving typography change", changes);
+
+    if (this.onTypographyUpdate) {
+      const metadata = buildSmartEditMetadata(element, this.originalClassName);
+
+      this.onTypographyUpdate({
+        element,
+        ...changes,
+        text: metadata.textContent || element.innerText.trim(),
+        tag: metadata.elementTag || element.tagName.toLowerCase(),
+        file: metadata.filePath,
+        className: metadata.className,
+        elementTag: metadata.elementTag || element.tagName.toLowerCase(),
+        textContent: metadata.textContent || element.innerText.trim(),
+        ownerComponentName: metadata.ownerComponentName,
+        ownerFilePath: metadata.ownerFilePath,
+        line: metadata.line,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private cancelEdit() {
+    if (!this.selectedElement) return;
+
+    this.cleanup();
+    logger.info("Typography edit cancelled");
+  }
+
+  private cleanup() {
+    if (this.selectedElement) {
+      const element = this.selectedElement;
+      element.classList.remove("brakit-text-editing");
+      if (this.originalInlineStyle === null) {
+        element.removeAttribute("style");
+      } else {
+        element.setAttribute("style", this.originalInlineStyle);
+      }
+      this.selectedElement = null;
+    }
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    if (this.sliderStyleElement) {
+      this.sliderStyleElement.remove();
+      this.sliderStyleElement = null;
+    }
+
+    this.originalClassName = "";
+    this.originalInlineStyle = null;
+    this.originalClasses = {};
+    this.selectedOptions = {};
+    this.touchedFields.clear();
+  }
+}
@@ -0,0 +1,481 @@
+import { logger } from "../../utils/logger";
+import { BaseTool } from "./BaseTool";
+import { buildSmartEditMetadata } from "../../utils/elementMetadata";
+import { DraggableOverlay } from "../../ui/DraggableOverlay";
+
+interface WrapToolOptions {
+  document: Document;
+  onWrapElements?: (data: WrapElementsData) => void;
+}
+
+export interface WrapElementTarget {
+  tag: string;
+  text: string;
+  identifier: string;
+  className: string;
+  elementTag: string;
+  textContent: string;
+}
+
+export interface WrapElementsData {
+  elements: WrapElementTarget[];
+  wrapperTag: string;
+  wrapperClassName: string;
+  file: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+const WRAPPER_TAGS = ["div", "section", "article", "header", "footer", "nav"];
+const DEFAULT_WRAPPER_CLASS = "flex gap-4";
+
+export class WrapTool extends BaseTool {
+  private readonly options: WrapToolOptions;
+  private selectedElements: HTMLElement[] = [];
+  private panel: HTMLElement | null = null;
+  private panelDragController: DraggableOverlay | null = null;
+  private countLabel: HTMLElement | null = null;
+  private tagSelect: HTMLSelectElement | null = null;
+  private classInput: HTMLInputElement | null = null;
+
+  constructor(options: WrapToolOptions) {
+    super(options.document);
+    this.options = options;
+  }
+
+  protected onActivate(): void {
+    logger.info("Wrap mode enabled");
+  }
+
+  protected onDeactivate(): void {
+    this.cleanup();
+    logger.info("Wrap mode disabled");
+  }
+
+  protected onDestroy(): void {
+    this.cleanup();
+  }
+
+  protected attachListeners(): void {
+    this.document.addEventListener("pointermove", this.handlePointerMove, true);
+    this.document.addEventListener("click", this.handleClick, true);
+    this.document.addEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  protected detachListeners(): void {
+    this.document.removeEventListener(
+      "pointermove",
+      this.handlePointerMove,
+      true
+    );
+    this.document.removeEventListener("click", this.handleClick, true);
+    this.document.removeEventListener("keydown", this.handleKeyDown, true);
+  }
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (!this.active) return;
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target) || this.panel?.contains(target)) {
+      this.clearHover();
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (candidate && this.selectedElements.includes(candidate)) {
+      // Keep the selection outline instead of painting the hover over it
+      this.hoveredElement = null;
+      return;
+    }
+
+    if (candidate !== this.hoveredElement) {
+      this.clearHover();
+      this.hoveredElement = candidate;
+      this.highlightElement(candidate);
+    }
+  };
+
+  private handleClick = (event: MouseEvent) => {
+    if (!this.active) return;
+
+    if (this.panel && this.panel.contains(event.target as Node)) {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    if (this.shouldIgnoreClick(target)) {
+      return;
+    }
+
+    const candidate = this.resolveElementAt(event.clientX, event.clientY);
+    if (!candidate || candidate.closest(".brakit-wrap-panel")) {
+      return;
+    }
+
+    this.preventEvent(event);
+    this.toggleElement(candidate);
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!this.active || this.selectedElements.length === 0) return;
+    this.handleEscapeKey(event, () => this.clearSelection());
+  };
+
+  private highlightElement(element: HTMLElement | null) {
+    if (!element) return;
+
+    element.style.outline = "2px solid #f97316";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(249, 115, 22, 0.08)";
+  }
+
+  private markSelected(element: HTMLElement) {
+    element.style.outline = "2px dashed #f97316";
+    element.style.outlineOffset = "2px";
+    element.style.backgroundColor = "rgba(249, 115, 22, 0.12)";
+  }
+
+  private unmarkSelected(element: HTMLElement) {
+    element.style.outline = "";
+    element.style.outlineOffset = "";
+    element.style.backgroundColor = "";
+  }
+
+  private toggleElement(element: HTMLElement) {
+    if (this.hoveredElement === element) {
+      this.hoveredElement = null;
+    }
+
+    const index = this.selectedElements.indexOf(element);
+    if (index !== -1) {
+      this.selectedElements.splice(index, 1);
+      this.unmarkSelected(element);
+    } else {
+      // Nested picks can never be siblings, so keep only the latest one
+      this.selectedElements = this.selectedElements.filter((selected) => {
+        const related =
+          selected.contains(element) || element.contains(selected);
+        if (related) {
+          this.unmarkSelected(selected);
+        }
+        return !related;
+      });
+      this.selectedElements.push(element);
+      this.markSelected(element);
+    }
+
+    logger.info("Wrap selection changed", {
+      count: this.selectedElements.length,
+    });
+
+    if (this.selectedElements.length === 0) {
+      this.cleanup();
+      return;
+    }
+
+    if (!this.panel) {
+      this.showPanel(element);
+    }
+    this.updateCount();
+  }
+
+  private showPanel(element: HTMLElement) {
+    const container = this.document.createElement("div");
+    container.className = "brakit-wrap-panel";
+    container.style.cssText = `
+      position: fixed;
+      background: white;
+      border-radius: 12px;
+      padding: 16px 20px;
+      box-shadow: 0 8px 24px rgba(0,0,0,0.15), 0 2px 6px rgba(0,0,0,0.1);
+      z-index: 999999;
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: 280px;
+      font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+    `;
+
+    const header = this.document.createElement("div");
+    header.style.cssText = `
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      cursor: grab;
+      user-select: none;
+    `;
+
+    const label = this.document.createElement("span");
+    label.style.cssText = `
+      font-size: 13px;
+      font-weight: 600;
+      color: #374151;
+    `;
+    this.countLabel = label;
+
+    const closeBtn = this.document.createElement("button");
+    closeBtn.innerHTML = "×";
+    closeBtn.style.cssText = `
+      background: none;
+      border: none;
+      font-size: 24px;
+      color: #9ca3af;
+      cursor: pointer;
+      padding: 0;
+      line-height: 1;
+    `;
+    closeBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.clearSelection();
+    };
+
+    header.appendChild(label);
+    header.appendChild(closeBtn);
+    container.appendChild(header);
+
+    const hint = this.document.createElement("div");
+    hint.textContent =
+      "Click side-by-side elements to add or remove them, then wrap.";
+    hint.style.cssText = `
+      font-size: 11px;
+      color: #9ca3af;
+    `;
+    container.appendChild(hint);
+
+    container.appendChild(this.createTagRow());
+    container.appendChild(this.createClassRow());
+    container.appendChild(this.createActions());
+
+    this.document.body.appendChild(container);
+    this.panel = container;
+
+    const rect = element.getBoundingClientRect();
+    let top = rect.top - container.offsetHeight - 10;
+    if (top < 0) {
+      top = Math.min(
+        rect.bottom + 10,
+        window.innerHeight - container.offsetHeight - 10
+      );
+    }
+    const left = Math.max(
+      10,
+      Math.min(rect.left, window.innerWidth - container.offsetWidth - 10)
+    );
+    container.style.top = `${Math.max(10, top)}px`;
+    container.style.left = `${left}px`;
+
+    this.panelDragController = new DraggableOverlay({
+      element: container,
+      handle: header,
+      margin: 10,
+    });
+  }
+
+  private createRow(labelText: string, control: HTMLElement): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 10px;
+      align-items: center;
+    `;
+
+    const label = this.document.createElement("span");
+    label.textContent = labelText;
+    label.style.cssText = `
+      width: 44px;
+      flex-shrink: 0;
+      font-size: 12px;
+      color: #6b7280;
+    `;
+
+    row.appendChild(label);
+    row.appendChild(control);
+    return row;
+  }
+
+  private createTagRow(): HTMLElement {
+    const select = this.document.createElement("select");
+    select.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 6px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      color: #374151;
+      background: white;
+    `;
+
+    for (const tag of WRAPPER_TAGS) {
+      const option = this.document.createElement("option");
+      option.value = tag;
+      option.textContent = `<${tag}>`;
+      select.appendChild(option);
+    }
+
+    this.tagSelect = select;
+    return this.createRow("Tag", select);
+  }
+
+  private createClassRow(): HTMLElement {
+    const input = this.document.createElement("input");
+    input.type = "text";
+    input.value = DEFAULT_WRAPPER_CLASS;
+    input.placeholder = "Tailwind classes";
+    input.style.cssText = `
+      flex: 1;
+      min-width: 0;
+      padding: 5px 8px;
+      border: 1px solid #e5e7eb;
+      border-radius: 6px;
+      font-size: 12px;
+      font-family: ui-monospace, SFMono-Regular, Menlo, monospace;
+      color: #374151;
+    `;
+    input.onkeydown = (e) => {
+      e.stopPropagation();
+      if (e.key === "Enter") {
+        e.preventDefault();
+        this.applyWrap();
+      } else if (e.key === "Escape") {
+        e.preventDefault();
+        this.clearSelection();
+      }
+    };
+
+    this.classInput = input;
+    return this.createRow("Class", input);
+  }
+
+  private createActions(): HTMLElement {
+    const row = this.document.createElement("div");
+    row.style.cssText = `
+      display: flex;
+      gap: 8px;
+      justify-content: flex-end;
+    `;
+
+    const clearBtn = this.document.createElement("button");
+    clearBtn.textContent = "Clear";
+    clearBtn.style.cssText = `
+      padding: 6px 12px;
+      border: 1px solid #e5e7eb;
+      background: white;
+      color: #374151;
+      border-radius: 6px;
+      font-size: 12px;
+      cursor: pointer;
+    `;
+    clearBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.clearSelection();
+    };
+
+    const wrapBtn = this.document.createElement("button");
+    wrapBtn.textContent = "Wrap";
+    wrapBtn.style.cssText = `
+      padding: 6px 14px;
+      border: none;
+      background: #f97316;
+      color: white;
+      border-radius: 6px;
+      font-size: 12px;
+      font-weight: 600;
+      cursor: pointer;
+    `;
+    wrapBtn.onclick = (e) => {
+      e.stopPropagation();
+      this.applyWrap();
+    };
+
+    row.appendChild(clearBtn);
+    row.appendChild(wrapBtn);
+    return row;
+  }
+
+  private updateCount() {
+    if (!this.countLabel) return;
+    const count = this.selectedElements.length;
+    this.countLabel.textContent = `⋮⋮  Wrap · ${count} selected`;
+  }
+
+  private applyWrap() {
+    if (this.selectedElements.length === 0) return;
+
+    // The backend expects the selection in source order
+    const ordered = [...this.selectedElements].sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+    const wrapperTag = this.tagSelect?.value || WRAPPER_TAGS[0];
+    const wrapperClassName = this.classInput?.value.trim() ?? "";
+
+    logger.info("Wrapping elements", {
+      count: ordered.length,
+      wrapperTag,
+    });
+
+    if (this.options.onWrapElements) {
+      const firstMetadata = buildSmartEditMetadata(ordered[0]);
+      const elements = ordered.map((element) => {
+        const metadata = buildSmartEditMetadata(element);
+        const tag = metadata.elementTag || element.tagName.toLowerCase();
+        const primaryText =
+          metadata.textContent || element.textContent?.trim() || "";
+        const identifier =
+          primaryText.length > 50
+            ? `${primaryText.substring(0, 50)}...`
+            : primaryText;
+
+        return {
+          tag,
+          text: identifier,
+          identifier,
+          className: metadata.className,
+          elementTag: tag,
+          textContent: metadata.textContent || identifier,
+        };
+      });
+
+      this.options.onWrapElements({
+        elements,
+        wrapperTag,
+        wrapperClassName,
+        file: firstMetadata.filePath || "unknown",
+        ownerComponentName: firstMetadata.ownerComponentName,
+        ownerFilePath: firstMetadata.ownerFilePath,
+      });
+    }
+
+    this.cleanup();
+  }
+
+  private clearSelection() {
+    if (this.selectedElements.length === 0) return;
+
+    this.cleanup();
+    logger.info("Wrap selection cleared");
+  }
+
+  private cleanup() {
+    this.clearHover();
+
+    for (const element of this.selectedElements) {
+      this.unmarkSelected(element);
+    }
+    this.selectedElements = [];
+
+    if (this.panelDragController) {
+      this.panelDragController.destroy();
+      this.panelDragController = null;
+    }
+
+    if (this.panel) {
+      this.panel.remove();
+      this.panel = null;
+    }
+
+    this.countLabel = null;
+    this.tagSelect = null;
+    this.classInput = null;
+  }
+}
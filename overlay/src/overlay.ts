@@ -4,13 +4,21 @@ import "./components/BrakitToast.js";
 import "./components/SmartEditWarning.js";
 import "./components/PageBuilderModal.js";
 import "./components/LoadingOverlay.js";
+import "./components/HistoryPanel.js";
 // @ts-ignore
 import highlightStyles from "./styles/highlights.css?raw";
 import { OverlayController } from "./core/overlayController";
 import { ModalManager } from "./core/managers/modalManager";
-import { BackendClient, EditorContextInfo } from "./services/backendClient";
+import {
+  BackendClient,
+  DevServerStatus,
+  EditorContextInfo,
+  HistoryActionSummary,
+} from "./services/backendClient";
+import { OverlayEvents } from "./core/events";
 import { ElementPayloadService } from "./payload/ElementPayloadService";
 import { logger } from "./utils/logger";
+import { getReactSourceInfo } from "./utils/reactSource";
 import { buildDrawSelectionResult } from "./core/draw/drawContextBuilder";
 import type { DrawSelectionResult } from "./core/draw/drawContext";
 import type { InitializedSubsystems } from "./core/orchestrators";
@@ -32,9 +40,13 @@ class BrakitOverlayApp {
   private isFetchingPageBuilderData = false;
   private hasLoadedPageBuilderData = false;
   private loadingOverlay: any | null = null;
+  private historyPanel: any | null = null;
+  private unsubscribeHistoryPanel: (() => void) | null = null;
   private editorContextPromise: Promise<EditorContextInfo | null> | null = null;
   private pluginHost = new PluginHost();
   private pendingPluginSelections: DrawSelectionResult[] = [];
+  private hasCompileError = false;
+  private compileErrorAction: HistoryActionSummary | null = null;
 
   constructor() {
     this.injectHighlightStyles();
@@ -55,6 +67,9 @@ class BrakitOverlayApp {
     this.observeDom();
     this.setupDeleteListener();
     this.setupPageBuilderListener();
+    this.setupHistoryPanelListener();
+    this.setupDevServerErrorListener();
+    this.setupExternalChangeListener();
     void this.ensureEditorContextLoaded();
     this.pluginHost.initialize(() => this.buildPluginContext());
     this.flushPendingPluginSelections();
@@ -87,6 +102,9 @@ class BrakitOverlayApp {
     this.bubble?.remove();
     this.toast?.remove();
     this.smartEditWarning?.remove();
+    this.unsubscribeHistoryPanel?.();
+    this.historyPanel?.remove();
+    this.historyPanel = null;
     this.bubble = null;
     this.toast = null;
     this.smartEditWarning = null;
@@ -281,14 +299,14 @@ class BrakitOverlayApp {
         layout,
       });
 
-      if (
-        Array.isArray(response.progressMessages) &&
-        response.progressMessages.length > 0
-      ) {
-        this.loadingOverlay?.clearProgress();
-        response.progressMessages.forEach((message) => {
-          this.loadingOverlay?.addProgressStep(message);
-        });
+      // Steps already streamed in over the event socket are not repeated
+      if (Array.isArray(response.progressMessages)) {
+        const shown = new Set<string>(this.loadingOverlay?.progressSteps ?? []);
+        response.progressMessages
+          .filter((message) => !shown.has(message))
+          .forEach((message) => {
+            this.loadingOverlay?.addProgressStep(message);
+          });
       }
       this.loadingOverlay?.addProgressStep("✅ Page created successfully!");
       this.loadingOverlay?.updateProgress(
@@ -366,6 +384,201 @@ class BrakitOverlayApp {
     });
   }
 
+  private setupHistoryPanelListener() {
+    document.addEventListener("brakit:open-history", () => {
+      this.openHistoryPanel();
+    });
+  }
+
+  /**
+   * Show the app's compile errors on the bubble. When the last edit looks
+   * responsible, the bubble offers to revert it.
+   */
+  private setupDevServerErrorListener() {
+    this.backend.onDevServerStatus((status) =>
+      this.handleDevServerStatus(status)
+    );
+    document.addEventListener(OverlayEvents.BubbleRevertEdit, () => {
+      void this.revertCompileErrorAction();
+    });
+  }
+
+  private handleDevServerStatus(status: DevServerStatus) {
+    const { uiCoordinator } = this.subsystems;
+    const { error, relatedAction } = status;
+
+    if (!error) {
+      if (this.hasCompileError) {
+        uiCoordinator.clearBubbleError();
+        this.showToast("✓ App compiles again.");
+      }
+      this.hasCompileError = false;
+      this.compileErrorAction = null;
+      return;
+    }
+
+    const location = [error.file, error.line, error.column]
+      .filter((part) => part !== undefined)
+      .join(":");
+    const message = location
+      ? `Failed to compile ${location}: ${error.message}`
+      : `Failed to compile: ${error.message}`;
+
+    this.hasCompileError = true;
+    this.compileErrorAction = relatedAction;
+    uiCoordinator.updateBubbleError(`${message}\n\n${error.output}`);
+    uiCoordinator.updateBubbleRevert(relatedAction?.label ?? null);
+    logger.warn("Dev server compile error", error);
+  }
+
+  private async revertCompileErrorAction() {
+    const action = this.compileErrorAction;
+    if (!action) {
+      return;
+    }
+
+    const response = await this.backend.revertHistoryAction(action.id);
+    if (!response.success) {
+      const conflictFiles = response.conflicts?.map((conflict) => conflict.file);
+      this.showToast(
+        `⚠️ ${
+          conflictFiles?.length
+            ? `${conflictFiles.join(", ")} changed since this edit; revert skipped.`
+            : response.error || "Failed to revert the last edit"
+        }`
+      );
+      return;
+    }
+
+    this.compileErrorAction = null;
+    this.subsystems.uiCoordinator.updateBubbleRevert(null);
+    this.showToast(`↺ Reverted “${action.label}”.`);
+  }
+
+  /**
+   * Warn when the file behind the selected element is edited outside
+   * Brakit, since the next edit would be based on what the page shows now.
+   */
+  private setupExternalChangeListener() {
+    this.backend.subscribe("file:changed-externally", (event) => {
+      if (this.unsubscribeHistoryPanel) {
+        void this.refreshHistoryPanel();
+      }
+
+      const element = this.subsystems.toolManager.getSelectedElement();
+      const sourceFile = element
+        ? getReactSourceInfo(element).fileName?.replace(/\\/g, "/")
+        : undefined;
+      if (!sourceFile) {
+        return;
+      }
+
+      const changed = event.files.find(
+        (file) => sourceFile === file || sourceFile.endsWith(`/${file}`)
+      );
+      if (changed) {
+        this.showToast(
+          `⚠️ ${changed} was changed outside Brakit. Wait for the page to reload before editing.`
+        );
+      }
+    });
+  }
+
+  private ensureHistoryPanel() {
+    if (this.historyPanel) {
+      return;
+    }
+
+    const attach = (element: Element) => {
+      const panel = element as any;
+      panel.addEventListener("history-panel:revert", (event: CustomEvent) => {
+        void this.handleHistoryRevert(event);
+      });
+      panel.addEventListener("history-panel:refresh", () => {
+        void this.refreshHistoryPanel();
+      });
+      panel.addEventListener("history-panel:close", () => {
+        this.unsubscribeHistoryPanel?.();
+        this.unsubscribeHistoryPanel = null;
+      });
+      this.historyPanel = panel;
+    };
+
+    if (!document.body) {
+      return;
+    }
+
+    const existing = document.querySelector("brakit-history-panel");
+    if (existing) {
+      attach(existing);
+      return;
+    }
+
+    const element = document.createElement("brakit-history-panel");
+    document.body.appendChild(element);
+    attach(element);
+  }
+
+  private openHistoryPanel() {
+    this.ensureHistoryPanel();
+    const panel = this.historyPanel;
+    if (!panel) {
+      return;
+    }
+
+    panel.openPanel?.();
+    if (!this.unsubscribeHistoryPanel) {
+      // Keep the log in sync with undo/redo triggered from the toolbar
+      this.unsubscribeHistoryPanel = this.backend.onHistoryChange(() => {
+        void this.refreshHistoryPanel();
+      });
+    }
+    void this.refreshHistoryPanel();
+  }
+
+  private async refreshHistoryPanel() {
+    const panel = this.historyPanel;
+    if (!panel) {
+      return;
+    }
+
+    panel.setLoading?.(true);
+    const response = await this.backend.getHistoryLog();
+    panel.setLoading?.(false);
+
+    if (!response.success) {
+      panel.setError?.(response.error || "Failed to load history");
+      return;
+    }
+
+    panel.setEntries?.(response.entries);
+  }
+
+  private async handleHistoryRevert(event: CustomEvent) {
+    const panel = this.historyPanel;
+    const actionId = (event.detail as { actionId?: string } | undefined)
+      ?.actionId;
+    if (!panel || !actionId) {
+      return;
+    }
+
+    const response = await this.backend.revertHistoryAction(actionId);
+    panel.setRevertPending?.(null);
+
+    if (!response.success) {
+      const conflictFiles = response.conflicts?.map((conflict) => conflict.file);
+      const message = conflictFiles?.length
+        ? `${conflictFiles.join(", ")} changed since this edit; revert skipped.`
+        : response.error || "Failed to revert action";
+      panel.setError?.(message);
+      this.showToast(`⚠️ ${message}`);
+      return;
+    }
+
+    const label = response.action?.label ? ` “${response.action.label}”` : "";
+    this.showToast(`↺ Reverted${label}.`);
+  }
+
   private deactivateActiveTools() {
     this.subsystems.toolManager.setTool(null);
     this.subsystems.floatingToolbar.setActiveTool(null);
@@ -494,6 +707,7 @@ class BrakitOverlayApp {
     const attach = (element: Element) => {
       this.loadingOverlay = element;
       this.loadingOverlay.hide();
+      this.loadingOverlay.attachBackend(this.backend);
     };
 
     if (!document.body) {
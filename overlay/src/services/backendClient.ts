@@ -16,6 +16,9 @@ export interface CanvasComponent {
 }
 
 const DEFAULT_BACKEND_URL = "http://localhost:3001";
+// How often the dev server's compile state is checked while the event
+// stream is down
+const DEV_SERVER_POLL_MS = 2_000;
 
 export type FrameworkKind = "next" | "react";
 export type RouterKind = "app" | "pages" | "react-router" | "unknown";
@@ -53,6 +56,197 @@ export interface SmartEditUpdateResponse {
   filePath?: string;
   componentName?: string;
   signals?: string[];
+  dryRun?: boolean;
+  diff?: string;
+  changes?: PreviewFileChange[];
+  verification?: VerificationReport;
+}
+
+/**
+ * For elements rendered by `.map()`: "item" edits that item's entry in the
+ * source array, "template" edits the JSX shared by every item.
+ */
+export type ListEditMode = "item" | "template";
+
+export type BatchUpdateKind = "color" | "fontSize" | "fontFamily";
+
+export interface BatchUpdatePayload {
+  updates: Array<{
+    kind: BatchUpdateKind;
+    payload: Record<string, unknown>;
+  }>;
+  dryRun?: boolean;
+}
+
+export interface BatchItemResult {
+  index: number;
+  kind: BatchUpdateKind;
+  file?: string;
+  success: boolean;
+  skipped?: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface BatchUpdateResponse extends SmartEditUpdateResponse {
+  appliedCount?: number;
+  results?: BatchItemResult[];
+}
+
+export interface PreviewFileChange {
+  file: string;
+  filePath: string;
+  diff: string;
+}
+
+export type VerificationStage = "parse" | "typecheck";
+
+export interface VerificationDiagnostic {
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  code?: string;
+}
+
+/**
+ * Returned when an edit left a file that no longer parses or type checks.
+ * The backend has already restored the files listed in `rolledBackFiles`.
+ */
+export interface VerificationReport {
+  stage: VerificationStage;
+  diagnostics: VerificationDiagnostic[];
+  rolledBackFiles: string[];
+}
+
+export type SpacingGroup = "padding" | "margin" | "gap";
+
+export interface SpacingGroupUpdate {
+  group: SpacingGroup;
+  old: string[];
+  new: string[];
+}
+
+export type TypographyField =
+  | "fontWeight"
+  | "lineHeight"
+  | "letterSpacing"
+  | "textAlign"
+  | "textTransform";
+
+export interface TypographyChange {
+  old: string;
+  new: string;
+}
+
+export type BorderField =
+  | "borderRadius"
+  | "borderWidth"
+  | "borderStyle"
+  | "borderColor"
+  | "boxShadow";
+
+export interface BorderChange {
+  old: string;
+  new: string;
+}
+
+export type LayoutField =
+  | "display"
+  | "flexDirection"
+  | "flexWrap"
+  | "justifyContent"
+  | "alignItems"
+  | "gridColumns"
+  | "gap";
+
+export interface LayoutChange {
+  old: string;
+  new: string;
+}
+
+export interface PublicImage {
+  src: string;
+  filePath: string;
+  size: number;
+}
+
+export interface ImageUpdatePayload {
+  currentSrc: string;
+  currentAlt?: string;
+  src?: string;
+  alt?: string;
+  width?: number | null;
+  height?: number | null;
+  tag: string;
+  file: string;
+  className?: string;
+  elementTag?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  forceGlobal?: boolean;
+  dryRun?: boolean;
+}
+
+export interface ProjectRoute {
+  path: string;
+  filePath: string;
+  dynamic: boolean;
+  pattern: string;
+}
+
+export interface LinkUpdatePayload {
+  currentHref: string;
+  text?: string;
+  href?: string;
+  target?: string | null;
+  rel?: string | null;
+  tag: string;
+  file: string;
+  className?: string;
+  elementTag?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  forceGlobal?: boolean;
+  dryRun?: boolean;
+}
+
+export interface LinkUpdateResponse extends SmartEditUpdateResponse {
+  missingRoute?: string;
+}
+
+export type PropValue = string | number | boolean;
+
+export interface LiteralProp {
+  name: string;
+  kind: "string" | "number" | "boolean";
+  value: PropValue;
+}
+
+export interface PropTargetPayload {
+  text?: string;
+  tag: string;
+  file: string;
+  className?: string;
+  elementTag?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+}
+
+export interface PropInspectResponse {
+  success: boolean;
+  error?: string;
+  filePath?: string;
+  elementName?: string;
+  props: LiteralProp[];
+  dynamicProps: string[];
+}
+
+export interface PropUpdatePayload extends PropTargetPayload {
+  name: string;
+  value: PropValue | null;
+  forceGlobal?: boolean;
+  dryRun?: boolean;
 }
 
 export interface EditRequestContext {
@@ -91,6 +285,7 @@ export interface DeletePayload {
   textContent?: string;
   ownerComponentName?: string;
   ownerFilePath?: string;
+  dryRun?: boolean;
 }
 
 export interface DeleteResponse {
@@ -99,20 +294,93 @@ export interface DeleteResponse {
   error?: string;
   filePath?: string;
   previousContent?: string;
+  dryRun?: boolean;
+  diff?: string;
+  changes?: PreviewFileChange[];
+  verification?: VerificationReport;
+}
+
+export type DuplicatePayload = DeletePayload;
+
+export interface DuplicateResponse extends DeleteResponse {
+  warning?: boolean;
+  details?: string;
+}
+
+export type MovePosition = "before" | "after";
+
+export interface MovePayload {
+  sourceFile: string;
+  componentName: string;
+  elementIdentifier: string;
+  elementTag?: string;
+  className?: string;
+  textContent?: string;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  target: {
+    elementIdentifier: string;
+    elementTag?: string;
+    className?: string;
+    textContent?: string;
+  };
+  position: MovePosition;
+  dryRun?: boolean;
+}
+
+export type MoveResponse = DeleteResponse;
+
+export interface WrapPayload {
+  sourceFile: string;
+  elements: Array<{
+    componentName: string;
+    elementIdentifier: string;
+    elementTag?: string;
+    className?: string;
+    textContent?: string;
+  }>;
+  ownerComponentName?: string;
+  ownerFilePath?: string;
+  wrapperTag: string;
+  wrapperClassName?: string;
+  dryRun?: boolean;
 }
 
+export type WrapResponse = DeleteResponse;
+
+export type InsertPosition = "before" | "after" | "inside";
+
 export interface InsertComponentPayload {
   filePath: string;
   componentType: string;
   componentTemplate: string;
   insertIndex: number;
   targetSelector?: string;
+  target?: {
+    componentName: string;
+    elementIdentifier: string;
+    elementTag?: string;
+    className?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+  };
+  position?: InsertPosition;
+  dryRun?: boolean;
 }
 
 export interface InsertComponentResponse {
   success: boolean;
+  warning?: boolean;
   message?: string;
+  details?: string;
   error?: string;
+  filePath?: string;
+  installedComponents?: string[];
+  dryRun?: boolean;
+  diff?: string;
+  changes?: PreviewFileChange[];
+  verification?: VerificationReport;
 }
 
 export interface GenerateCanvasCodePayload {
@@ -120,6 +388,7 @@ export interface GenerateCanvasCodePayload {
   components: CanvasComponent[];
   containerWidth?: number;
   containerHeight?: number;
+  dryRun?: boolean;
 }
 
 export interface GenerateCanvasCodeResponse {
@@ -127,6 +396,12 @@ export interface GenerateCanvasCodeResponse {
   message?: string;
   error?: string;
   progressMessages?: string[];
+  filePath?: string;
+  installedComponents?: string[];
+  dryRun?: boolean;
+  diff?: string;
+  changes?: PreviewFileChange[];
+  verification?: VerificationReport;
 }
 
 export interface HistoryActionSummary {
@@ -136,24 +411,149 @@ export interface HistoryActionSummary {
   timestamp: string;
   fileCount?: number;
   files?: string[];
+  /** Files edited outside Brakit since the action */
+  staleFiles?: string[];
 }
 
 export interface HistoryStatusResponse {
   success: boolean;
   hasAction: boolean;
   action?: HistoryActionSummary;
+  hasRedo?: boolean;
+  redoAction?: HistoryActionSummary;
+}
+
+export interface HistoryListResponse {
+  success: boolean;
+  undo: HistoryActionSummary[];
+  redo: HistoryActionSummary[];
+  error?: string;
+}
+
+export interface HistoryJumpResponse {
+  success: boolean;
+  direction?: "undo" | "redo" | "none";
+  actions?: HistoryActionSummary[];
+  restoredFiles?: string[];
+  conflicts?: HistoryConflict[];
+  error?: string;
+}
+
+export interface HistoryFileDiff {
+  file: string;
+  status: "created" | "deleted" | "modified";
+  diff: string;
+}
+
+export interface HistoryLogEntry extends HistoryActionSummary {
+  state: "applied" | "undone";
+  changes: HistoryFileDiff[];
+}
+
+export interface HistoryLogResponse {
+  success: boolean;
+  entries: HistoryLogEntry[];
+  error?: string;
+}
+
+export interface HistoryConflict {
+  file: string;
+  kind: "modified" | "missing" | "recreated";
+  message: string;
+}
+
+export interface HistoryApplyOptions {
+  force?: boolean;
+}
+
+export interface CompileError {
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  framework: "next" | "vite";
+  output: string;
+}
+
+/**
+ * The user's dev server compile state. `relatedAction` is the last Brakit
+ * edit when it looks responsible for the error.
+ */
+export interface DevServerStatus {
+  error: CompileError | null;
+  relatedAction: HistoryActionSummary | null;
+  reportedAt: string;
 }
 
+/** The undo and redo entries the toolbar offers after a history change */
+export interface HistorySnapshot {
+  action: HistoryActionSummary | null;
+  redoAction: HistoryActionSummary | null;
+}
+
+/** Events the backend pushes over the `/__brakit/events` WebSocket */
+export type BackendEvent =
+  | {
+      type: "action:committed";
+      action: HistoryActionSummary;
+      history: HistorySnapshot;
+    }
+  | {
+      type: "history:changed";
+      operation: "undo" | "redo" | "clear";
+      action?: HistoryActionSummary;
+      restoredFiles: string[];
+      history: HistorySnapshot;
+    }
+  | {
+      type: "file:changed-externally";
+      files: string[];
+    }
+  | {
+      type: "install:progress";
+      source: "page" | "component";
+      message: string;
+    }
+  | {
+      type: "dev-server:status";
+      status: DevServerStatus;
+    };
+
+export type BackendEventType = BackendEvent["type"];
+
+export type BackendEventOf<T extends BackendEventType> = Extract<
+  BackendEvent,
+  { type: T }
+>;
+
+type BackendEventListener = (event: BackendEvent) => void;
+
+// Reconnect delays double from the first to the last
+const EVENT_STREAM_RETRY_MIN_MS = 1_000;
+const EVENT_STREAM_RETRY_MAX_MS = 30_000;
+
 export interface UndoActionResponse {
   success: boolean;
   error?: string;
   restoredFiles?: string[];
+  mergedFiles?: string[];
+  conflicts?: HistoryConflict[];
   action?: HistoryActionSummary;
 }
 
 export class BackendClient {
   private baseUrl: string;
   private historyListeners = new Set<() => void>();
+  private devServerListeners = new Set<(status: DevServerStatus) => void>();
+  private devServerPollTimer: ReturnType<typeof setInterval> | null = null;
+  private lastDevServerReport: string | null = null;
+  private unsubscribeDevServer: (() => void) | null = null;
+  private eventListeners = new Map<BackendEventType, Set<BackendEventListener>>();
+  private eventStreamListeners = new Set<(connected: boolean) => void>();
+  private eventSocket: WebSocket | null = null;
+  private eventSocketConnected = false;
+  private eventSocketRetryDelay = EVENT_STREAM_RETRY_MIN_MS;
+  private eventSocketRetryTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(baseUrl?: string) {
     this.baseUrl = baseUrl || resolveBackendUrl();
@@ -244,19 +644,12 @@ export class BackendClient {
     }
   }
 
-  async createPage(payload: CreatePagePayload): Promise<CreatePageResponse> {
-    const endpoint = `${this.baseUrl}/api/editor/create`;
-    logger.debug("Creating page", payload);
+  async listRoutes(): Promise<ProjectRoute[]> {
+    const endpoint = `${this.baseUrl}/api/editor/routes`;
+    logger.debug("Fetching project routes", { endpoint });
 
     try {
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
+      const response = await fetch(endpoint);
       const data = await response.json().catch(() => ({}));
 
       if (!response.ok || data?.success !== true) {
@@ -267,90 +660,53 @@ export class BackendClient {
         throw new Error(message);
       }
 
-      this.notifyHistoryChange();
-      return {
-        success: true,
-        filePath: typeof data.filePath === "string" ? data.filePath : undefined,
-        directory:
-          typeof data.directory === "string" ? data.directory : undefined,
-        framework:
-          data.framework === "next" || data.framework === "react"
-            ? (data.framework as FrameworkKind)
-            : undefined,
-        router:
-          data.router === "app" ||
-          data.router === "pages" ||
-          data.router === "react-router"
-            ? (data.router as RouterKind)
-            : undefined,
-        progressMessages: Array.isArray(data.progressMessages)
-          ? data.progressMessages.filter(
-              (item: unknown): item is string => typeof item === "string"
-            )
-          : undefined,
-      };
+      if (!Array.isArray(data.routes)) {
+        throw new Error("Routes payload missing or invalid");
+      }
+
+      return data.routes.filter(isProjectRoute);
     } catch (error) {
       const message =
-        error instanceof Error ? error.message : "Failed to create page";
-      logger.error("Failed to create page", error);
+        error instanceof Error ? error.message : "Failed to load routes";
+      logger.error("Failed to fetch project routes", error);
       throw new Error(message);
     }
   }
 
-  async getHistoryStatus(): Promise<HistoryStatusResponse> {
-    const endpoint = `${this.baseUrl}/api/history/status`;
-    logger.debug("Fetching history status");
+  async listLocales(): Promise<string[]> {
+    const endpoint = `${this.baseUrl}/api/editor/locales`;
+    logger.debug("Fetching project locales", { endpoint });
 
     try {
       const response = await fetch(endpoint);
       const data = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        const errorMessage =
-          typeof data.error === "string"
+      if (!response.ok || data?.success !== true) {
+        const message =
+          typeof data?.error === "string"
             ? data.error
-            : `History status failed with status ${response.status}`;
-        logger.warn("History status request failed", errorMessage);
-        return { success: false, hasAction: false };
+            : `Failed with status ${response.status}`;
+        throw new Error(message);
       }
 
-      const action =
-        data?.action && typeof data.action === "object"
-          ? {
-              id: String(data.action.id),
-              type: String(data.action.type ?? ""),
-              label: String(data.action.label ?? ""),
-              timestamp: String(data.action.timestamp ?? ""),
-              fileCount:
-                typeof data.action.fileCount === "number"
-                  ? data.action.fileCount
-                  : undefined,
-              files: Array.isArray(data.action.files)
-                ? data.action.files.filter(
-                    (value: unknown): value is string =>
-                      typeof value === "string"
-                  )
-                : undefined,
-            }
-          : undefined;
+      if (!Array.isArray(data.locales)) {
+        throw new Error("Locales payload missing or invalid");
+      }
 
-      return {
-        success: true,
-        hasAction: Boolean(data?.hasAction && action),
-        action: action && data?.hasAction ? action : undefined,
-      };
+      return data.locales.filter(
+        (item: unknown): item is string => typeof item === "string"
+      );
     } catch (error) {
-      logger.error("History status request error", error);
-      return {
-        success: false,
-        hasAction: false,
-      };
+      const message =
+        error instanceof Error ? error.message : "Failed to load locales";
+      logger.error("Failed to fetch project locales", error);
+      throw new Error(message);
     }
   }
 
-  async undoLastAction(): Promise<UndoActionResponse> {
-    const endpoint = `${this.baseUrl}/api/history/undo`;
-    logger.debug("Requesting undo of last action");
+  async inspectProps(payload: PropTargetPayload): Promise<PropInspectResponse> {
+    const endpoint = `${this.baseUrl}/api/props/inspect`;
+    logger.debug("Inspecting element props", payload);
 
     try {
       const response = await fetch(endpoint, {
@@ -358,91 +714,236 @@ export class BackendClient {
         headers: {
           "Content-Type": "application/json",
         },
+        body: JSON.stringify(payload),
       });
-
       const data = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        const errorMessage =
-          typeof data.error === "string"
+      if (!response.ok || data?.success !== true) {
+        const message =
+          typeof data?.error === "string"
             ? data.error
-            : `Undo failed with status ${response.status}`;
-        logger.warn("Undo failed", errorMessage);
-        return { success: false, error: errorMessage };
-      }
-
-      const action =
-        data?.action && typeof data.action === "object"
-          ? {
-              id: String(data.action.id),
-              type: String(data.action.type ?? ""),
-              label: String(data.action.label ?? ""),
-              timestamp: String(data.action.timestamp ?? ""),
-              fileCount:
-                typeof data.action.fileCount === "number"
-                  ? data.action.fileCount
-                  : undefined,
-              files: Array.isArray(data.action.files)
-                ? data.action.files.filter(
-                    (value: unknown): value is string =>
-                      typeof value === "string"
-                  )
-                : undefined,
-            }
-          : undefined;
-
-      logger.debug("Undo succeeded");
-      this.notifyHistoryChange();
+            : `Failed with status ${response.status}`;
+        return { success: false, error: message, props: [], dynamicProps: [] };
+      }
 
       return {
         success: true,
-        restoredFiles: Array.isArray(data?.restoredFiles)
-          ? (data.restoredFiles.filter(
-              (value: unknown): value is string => typeof value === "string"
-            ) as string[])
-          : undefined,
-        action,
+        filePath: typeof data.filePath === "string" ? data.filePath : undefined,
+        elementName:
+          typeof data.elementName === "string" ? data.elementName : undefined,
+        props: Array.isArray(data.props) ? data.props.filter(isLiteralProp) : [],
+        dynamicProps: parseStringList(data.dynamicProps) ?? [],
       };
     } catch (error) {
-      logger.error("Undo request error", error);
+      logger.error("Prop inspection request error", error);
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
+        props: [],
+        dynamicProps: [],
       };
     }
   }
 
-  async deleteElement(payload: DeletePayload): Promise<DeleteResponse> {
-    const endpoint = `${this.baseUrl}/api/delete-element`;
-    logger.debug("Submitting delete", payload);
+  async listPublicImages(): Promise<PublicImage[]> {
+    const endpoint = `${this.baseUrl}/api/images`;
+    logger.debug("Fetching public images", { endpoint });
 
     try {
-      const response = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
+      const response = await fetch(endpoint);
       const data = await response.json().catch(() => ({}));
 
-      if (!response.ok) {
-        const errorMessage =
-          typeof data.error === "string"
-            ? data.error
-            : `Delete failed with status ${response.status}`;
-        logger.warn("Delete request failed", errorMessage);
-        return { success: false, error: errorMessage };
+      if (!response.ok || data?.success !== true) {
+        const message =
+          typeof data?.error === "string"
+            ? data.error
+            : `Failed with status ${response.status}`;
+        throw new Error(message);
       }
 
+      if (!Array.isArray(data.images)) {
+        throw new Error("Images payload missing or invalid");
+      }
+
+      return data.images.filter(isPublicImage);
+    } catch (error) {
       const message =
-        typeof data.message === "string" ? data.message : undefined;
+        error instanceof Error ? error.message : "Failed to load images";
+      logger.error("Failed to fetch public images", error);
+      throw new Error(message);
+    }
+  }
+
+  async uploadImage(file: File): Promise<PublicImage> {
+    const endpoint = `${this.baseUrl}/api/images/upload`;
+    logger.debug("Uploading image", { name: file.name, size: file.size });
+
+    try {
+      const data = await readFileAsDataUrl(file);
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ fileName: file.name, data }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok || result?.success !== true) {
+        const message =
+          typeof result?.error === "string"
+            ? result.error
+            : `Upload failed with status ${response.status}`;
+        throw new Error(message);
+      }
+
+      if (!isPublicImage(result.image)) {
+        throw new Error("Upload response missing image");
+      }
+
+      return result.image;
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to upload image";
+      logger.error("Failed to upload image", error);
+      throw new Error(message);
+    }
+  }
+
+  async createPage(payload: CreatePagePayload): Promise<CreatePageResponse> {
+    const endpoint = `${this.baseUrl}/api/editor/create`;
+    logger.debug("Creating page", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || data?.success !== true) {
+        const message =
+          typeof data?.error === "string"
+            ? data.error
+            : `Failed with status ${response.status}`;
+        throw new Error(message);
+      }
 
       this.notifyHistoryChange();
-      return { success: true, message };
+      return {
+        success: true,
+        filePath: typeof data.filePath === "string" ? data.filePath : undefined,
+        directory:
+          typeof data.directory === "string" ? data.directory : undefined,
+        framework:
+          data.framework === "next" || data.framework === "react"
+            ? (data.framework as FrameworkKind)
+            : undefined,
+        router:
+          data.router === "app" ||
+          data.router === "pages" ||
+          data.router === "react-router"
+            ? (data.router as RouterKind)
+            : undefined,
+        progressMessages: Array.isArray(data.progressMessages)
+          ? data.progressMessages.filter(
+              (item: unknown): item is string => typeof item === "string"
+            )
+          : undefined,
+      };
     } catch (error) {
-      logger.error("Delete request error", error);
+      const message =
+        error instanceof Error ? error.message : "Failed to create page";
+      logger.error("Failed to create page", error);
+      throw new Error(message);
+    }
+  }
+
+  async getHistoryStatus(): Promise<HistoryStatusResponse> {
+    const endpoint = `${this.baseUrl}/api/history/status`;
+    logger.debug("Fetching history status");
+
+    try {
+      const response = await fetch(endpoint);
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `History status failed with status ${response.status}`;
+        logger.warn("History status request failed", errorMessage);
+        return { success: false, hasAction: false };
+      }
+
+      const action = parseHistoryAction(data?.action);
+
+      const redoAction = parseHistoryAction(data?.redoAction);
+
+      return {
+        success: true,
+        hasAction: Boolean(data?.hasAction && action),
+        action: action && data?.hasAction ? action : undefined,
+        hasRedo: Boolean(data?.hasRedo && redoAction),
+        redoAction: redoAction && data?.hasRedo ? redoAction : undefined,
+      };
+    } catch (error) {
+      logger.error("History status request error", error);
+      return {
+        success: false,
+        hasAction: false,
+      };
+    }
+  }
+
+  async undoLastAction(
+    options?: HistoryApplyOptions
+  ): Promise<UndoActionResponse> {
+    const endpoint = `${this.baseUrl}/api/history/undo`;
+    logger.debug("Requesting undo of last action");
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ force: options?.force === true }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Undo failed with status ${response.status}`;
+        logger.warn("Undo failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          conflicts: parseHistoryConflicts(data?.conflicts),
+          action: parseHistoryAction(data?.action),
+        };
+      }
+
+      const action = parseHistoryAction(data?.action);
+
+      logger.debug("Undo succeeded");
+      this.notifyHistoryChange();
+
+      return {
+        success: true,
+        restoredFiles: parseStringList(data?.restoredFiles),
+        mergedFiles: parseStringList(data?.mergedFiles),
+        action,
+      };
+    } catch (error) {
+      logger.error("Undo request error", error);
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -450,44 +951,1026 @@ export class BackendClient {
     }
   }
 
+  async redoLastAction(
+    options?: HistoryApplyOptions
+  ): Promise<UndoActionResponse> {
+    const endpoint = `${this.baseUrl}/api/history/redo`;
+    logger.debug("Requesting redo of last undone action");
 
-  private parseSmartEditResponse(data: any): SmartEditUpdateResponse {
-    const success = typeof data.success === "boolean" ? data.success : false;
-    const warning = typeof data.warning === "boolean" ? data.warning : false;
-    const message = typeof data.message === "string" ? data.message : undefined;
-    const error = typeof data.error === "string" ? data.error : undefined;
-    const details = typeof data.details === "string" ? data.details : undefined;
-    const filePath =
-      typeof data.filePath === "string" ? data.filePath : undefined;
-    const detectedProps = Array.isArray(data.detectedProps)
-      ? (data.detectedProps.filter(
-          (value: unknown): value is string => typeof value === "string"
-        ) as string[])
-      : undefined;
-    const componentName =
-      typeof data.componentName === "string" ? data.componentName : undefined;
-    const signals = Array.isArray(data.signals)
-      ? (data.signals.filter(
-          (value: unknown): value is string => typeof value === "string"
-        ) as string[])
-      : undefined;
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ force: options?.force === true }),
+      });
 
-    return {
-      success,
-      warning,
-      message,
-      error,
-      details,
-      detectedProps,
-      filePath,
-      componentName,
-      signals,
-    };
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Redo failed with status ${response.status}`;
+        logger.warn("Redo failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          conflicts: parseHistoryConflicts(data?.conflicts),
+          action: parseHistoryAction(data?.action),
+        };
+      }
+
+      logger.debug("Redo succeeded");
+      this.notifyHistoryChange();
+
+      return {
+        success: true,
+        restoredFiles: parseStringList(data?.restoredFiles),
+        mergedFiles: parseStringList(data?.mergedFiles),
+        action: parseHistoryAction(data?.action),
+      };
+    } catch (error) {
+      logger.error("Redo request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async getHistory(): Promise<HistoryListResponse> {
+    const endpoint = `${this.baseUrl}/api/history`;
+    logger.debug("Fetching history list");
+
+    try {
+      const response = await fetch(endpoint);
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `History list failed with status ${response.status}`;
+        logger.warn("History list request failed", errorMessage);
+        return { success: false, undo: [], redo: [], error: errorMessage };
+      }
+
+      return {
+        success: true,
+        undo: parseHistoryActionList(data?.undo),
+        redo: parseHistoryActionList(data?.redo),
+      };
+    } catch (error) {
+      logger.error("History list request error", error);
+      return {
+        success: false,
+        undo: [],
+        redo: [],
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async getHistoryLog(): Promise<HistoryLogResponse> {
+    const endpoint = `${this.baseUrl}/api/history/log`;
+    logger.debug("Fetching history log");
+
+    try {
+      const response = await fetch(endpoint);
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `History log failed with status ${response.status}`;
+        logger.warn("History log request failed", errorMessage);
+        return { success: false, entries: [], error: errorMessage };
+      }
+
+      const entries: HistoryLogEntry[] = Array.isArray(data?.entries)
+        ? data.entries
+            .map((entry: any) => {
+              const summary = parseHistoryAction(entry);
+              if (!summary) {
+                return null;
+              }
+              return {
+                ...summary,
+                state: entry.state === "undone" ? "undone" : "applied",
+                changes: Array.isArray(entry.changes)
+                  ? entry.changes
+                      .filter((change: any) => typeof change?.file === "string")
+                      .map((change: any) => ({
+                        file: change.file,
+                        status:
+                          change.status === "created" ||
+                          change.status === "deleted"
+                            ? change.status
+                            : "modified",
+                        diff: typeof change.diff === "string" ? change.diff : "",
+                      }))
+                  : [],
+              };
+            })
+            .filter((entry: HistoryLogEntry | null): entry is HistoryLogEntry =>
+              Boolean(entry)
+            )
+        : [];
+
+      return { success: true, entries };
+    } catch (error) {
+      logger.error("History log request error", error);
+      return {
+        success: false,
+        entries: [],
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async revertHistoryAction(
+    actionId: string,
+    options?: HistoryApplyOptions
+  ): Promise<UndoActionResponse> {
+    const endpoint = `${this.baseUrl}/api/history/revert`;
+    logger.debug("Reverting history action", actionId);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ actionId, force: options?.force === true }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Revert failed with status ${response.status}`;
+        logger.warn("Revert failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          conflicts: parseHistoryConflicts(data?.conflicts),
+          action: parseHistoryAction(data?.action),
+        };
+      }
+
+      logger.debug("Revert succeeded");
+      this.notifyHistoryChange();
+
+      return {
+        success: true,
+        restoredFiles: parseStringList(data?.restoredFiles),
+        mergedFiles: parseStringList(data?.mergedFiles),
+        action: parseHistoryAction(data?.action),
+      };
+    } catch (error) {
+      logger.error("Revert request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async jumpToHistoryEntry(
+    actionId: string,
+    options?: HistoryApplyOptions
+  ): Promise<HistoryJumpResponse> {
+    const endpoint = `${this.baseUrl}/api/history/jump`;
+    logger.debug("Jumping to history entry", actionId);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ actionId, force: options?.force === true }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      const actions = parseHistoryActionList(data?.actions);
+      const restoredFiles = parseStringList(data?.restoredFiles);
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `History jump failed with status ${response.status}`;
+        logger.warn("History jump failed", errorMessage);
+        // A partial jump may still have touched files
+        if (actions.length > 0) {
+          this.notifyHistoryChange();
+        }
+        return {
+          success: false,
+          error: errorMessage,
+          actions,
+          restoredFiles,
+          conflicts: parseHistoryConflicts(data?.conflicts),
+        };
+      }
+
+      logger.debug("History jump succeeded");
+      this.notifyHistoryChange();
+
+      return {
+        success: true,
+        direction:
+          data?.direction === "undo" ||
+          data?.direction === "redo" ||
+          data?.direction === "none"
+            ? data.direction
+            : undefined,
+        actions,
+        restoredFiles,
+      };
+    } catch (error) {
+      logger.error("History jump request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async deleteElement(payload: DeletePayload): Promise<DeleteResponse> {
+    const endpoint = `${this.baseUrl}/api/delete-element`;
+    logger.debug("Submitting delete", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Delete failed with status ${response.status}`;
+        logger.warn("Delete request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const message =
+        typeof data.message === "string" ? data.message : undefined;
+
+      if (data?.dryRun === true) {
+        return {
+          success: true,
+          message,
+          dryRun: true,
+          diff: typeof data.diff === "string" ? data.diff : undefined,
+          filePath:
+            typeof data.filePath === "string" ? data.filePath : undefined,
+          changes: parsePreviewChanges(data.changes),
+        };
+      }
+
+      this.notifyHistoryChange();
+      return { success: true, message };
+    } catch (error) {
+      logger.error("Delete request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async duplicateElement(
+    payload: DuplicatePayload
+  ): Promise<DuplicateResponse> {
+    const endpoint = `${this.baseUrl}/api/duplicate-element`;
+    logger.debug("Submitting duplicate", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Duplicate failed with status ${response.status}`;
+        logger.warn("Duplicate request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const message =
+        typeof data.message === "string" ? data.message : undefined;
+
+      // List-rendered elements come back as a warning and change nothing
+      if (data?.warning === true) {
+        return {
+          success: false,
+          warning: true,
+          message,
+          details: typeof data.details === "string" ? data.details : undefined,
+        };
+      }
+
+      if (data?.dryRun === true) {
+        return {
+          success: true,
+          message,
+          dryRun: true,
+          diff: typeof data.diff === "string" ? data.diff : undefined,
+          filePath:
+            typeof data.filePath === "string" ? data.filePath : undefined,
+          changes: parsePreviewChanges(data.changes),
+        };
+      }
+
+      this.notifyHistoryChange();
+      return { success: true, message };
+    } catch (error) {
+      logger.error("Duplicate request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async insertComponent(
+    payload: InsertComponentPayload
+  ): Promise<InsertComponentResponse> {
+    const endpoint = `${this.baseUrl}/api/insert-component`;
+    logger.debug("Submitting component insert", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Insert failed with status ${response.status}`;
+        logger.warn("Insert request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const message =
+        typeof data.message === "string" ? data.message : undefined;
+
+      // List-rendered targets come back as a warning and change nothing
+      if (data?.warning === true) {
+        return {
+          success: false,
+          warning: true,
+          message,
+          details: typeof data.details === "string" ? data.details : undefined,
+        };
+      }
+
+      if (data?.dryRun === true) {
+        return {
+          success: true,
+          message,
+          dryRun: true,
+          diff: typeof data.diff === "string" ? data.diff : undefined,
+          filePath:
+            typeof data.filePath === "string" ? data.filePath : undefined,
+          changes: parsePreviewChanges(data.changes),
+        };
+      }
+
+      this.notifyHistoryChange();
+      return {
+        success: true,
+        message,
+        installedComponents: parseStringList(data.installedComponents),
+      };
+    } catch (error) {
+      logger.error("Insert request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async generateCanvasCode(
+    payload: GenerateCanvasCodePayload
+  ): Promise<GenerateCanvasCodeResponse> {
+    const endpoint = `${this.baseUrl}/api/generate-canvas-code`;
+    logger.debug("Submitting canvas code generation", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      const progressMessages = parseStringList(data.progressMessages);
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Canvas code generation failed with status ${response.status}`;
+        logger.warn("Canvas code request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          progressMessages,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const message =
+        typeof data.message === "string" ? data.message : undefined;
+
+      if (data?.dryRun === true) {
+        return {
+          success: true,
+          message,
+          dryRun: true,
+          diff: typeof data.diff === "string" ? data.diff : undefined,
+          filePath:
+            typeof data.filePath === "string" ? data.filePath : undefined,
+          changes: parsePreviewChanges(data.changes),
+        };
+      }
+
+      this.notifyHistoryChange();
+      return {
+        success: true,
+        message,
+        progressMessages,
+        filePath: typeof data.filePath === "string" ? data.filePath : undefined,
+        installedComponents: parseStringList(data.installedComponents),
+      };
+    } catch (error) {
+      logger.error("Canvas code request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async moveElement(payload: MovePayload): Promise<MoveResponse> {
+    const endpoint = `${this.baseUrl}/api/move-element`;
+    logger.debug("Submitting move", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Move failed with status ${response.status}`;
+        logger.warn("Move request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const message =
+        typeof data.message === "string" ? data.message : undefined;
+
+      if (data?.dryRun === true) {
+        return {
+          success: true,
+          message,
+          dryRun: true,
+          diff: typeof data.diff === "string" ? data.diff : undefined,
+          filePath:
+            typeof data.filePath === "string" ? data.filePath : undefined,
+          changes: parsePreviewChanges(data.changes),
+        };
+      }
+
+      this.notifyHistoryChange();
+      return { success: true, message };
+    } catch (error) {
+      logger.error("Move request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async wrapElements(payload: WrapPayload): Promise<WrapResponse> {
+    const endpoint = `${this.baseUrl}/api/wrap-elements`;
+    logger.debug("Submitting wrap", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Wrap failed with status ${response.status}`;
+        logger.warn("Wrap request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const message =
+        typeof data.message === "string" ? data.message : undefined;
+
+      if (data?.dryRun === true) {
+        return {
+          success: true,
+          message,
+          dryRun: true,
+          diff: typeof data.diff === "string" ? data.diff : undefined,
+          filePath:
+            typeof data.filePath === "string" ? data.filePath : undefined,
+          changes: parsePreviewChanges(data.changes),
+        };
+      }
+
+      this.notifyHistoryChange();
+      return { success: true, message };
+    } catch (error) {
+      logger.error("Wrap request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private parseSmartEditResponse(data: any): SmartEditUpdateResponse {
+    const success = typeof data.success === "boolean" ? data.success : false;
+    const warning = typeof data.warning === "boolean" ? data.warning : false;
+    const message = typeof data.message === "string" ? data.message : undefined;
+    const error = typeof data.error === "string" ? data.error : undefined;
+    const details = typeof data.details === "string" ? data.details : undefined;
+    const filePath =
+      typeof data.filePath === "string" ? data.filePath : undefined;
+    const detectedProps = Array.isArray(data.detectedProps)
+      ? (data.detectedProps.filter(
+          (value: unknown): value is string => typeof value === "string"
+        ) as string[])
+      : undefined;
+    const componentName =
+      typeof data.componentName === "string" ? data.componentName : undefined;
+    const signals = Array.isArray(data.signals)
+      ? (data.signals.filter(
+          (value: unknown): value is string => typeof value === "string"
+        ) as string[])
+      : undefined;
+
+    return {
+      success,
+      warning,
+      message,
+      error,
+      details,
+      detectedProps,
+      filePath,
+      componentName,
+      signals,
+      dryRun: data.dryRun === true ? true : undefined,
+      diff: typeof data.diff === "string" ? data.diff : undefined,
+      changes: parsePreviewChanges(data.changes),
+      verification: parseVerification(data.verification),
+    };
+  }
+
+  async updateText(payload: {
+    oldText: string;
+    newText: string;
+    tag: string;
+    file: string;
+    className?: string;
+    elementTag?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+    listEditMode?: ListEditMode;
+    locale?: string;
+    translationLocales?: string[];
+    forceGlobal?: boolean;
+    dryRun?: boolean;
+  }): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-text`;
+    logger.debug("Submitting text update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Text update failed with status ${response.status}`;
+        logger.warn("Text update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Text update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async updateFontSize(payload: {
+    oldSize: string;
+    newSize: string;
+    text: string;
+    tag: string;
+    file: string;
+    className?: string;
+    elementTag?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+    forceGlobal?: boolean;
+    dryRun?: boolean;
+  }): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-font-size`;
+    logger.debug("Submitting font size update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Font size update failed with status ${response.status}`;
+        logger.warn("Font size update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Font size update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async updateColor(payload: {
+    textColor?: { old: string; new: string };
+    backgroundColor?: { old: string; new: string };
+    hoverBackgroundColor?: { old: string; new: string };
+    text: string;
+    tag: string;
+    file: string;
+    className?: string;
+    elementTag?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+    forceGlobal?: boolean;
+    dryRun?: boolean;
+  }): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-color`;
+    logger.debug("Submitting color update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Color update failed with status ${response.status}`;
+        logger.warn("Color update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Color update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async updateSpacing(payload: {
+    spacing: SpacingGroupUpdate[];
+    text: string;
+    tag: string;
+    file: string;
+    className?: string;
+    elementTag?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+    line?: number;
+    forceGlobal?: boolean;
+    dryRun?: boolean;
+  }): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-spacing`;
+    logger.debug("Submitting spacing update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Spacing update failed with status ${response.status}`;
+        logger.warn("Spacing update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Spacing update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async updateTypography(payload: {
+    fontWeight?: TypographyChange;
+    lineHeight?: TypographyChange;
+    letterSpacing?: TypographyChange;
+    textAlign?: TypographyChange;
+    textTransform?: TypographyChange;
+    text: string;
+    tag: string;
+    file: string;
+    className?: string;
+    elementTag?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+    line?: number;
+    forceGlobal?: boolean;
+    dryRun?: boolean;
+  }): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-typography`;
+    logger.debug("Submitting typography update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Typography update failed with status ${response.status}`;
+        logger.warn("Typography update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Typography update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async updateBorder(payload: {
+    borderRadius?: BorderChange;
+    borderWidth?: BorderChange;
+    borderStyle?: BorderChange;
+    borderColor?: BorderChange;
+    boxShadow?: BorderChange;
+    text: string;
+    tag: string;
+    file: string;
+    className?: string;
+    elementTag?: string;
+    textContent?: string;
+    ownerComponentName?: string;
+    ownerFilePath?: string;
+    line?: number;
+    forceGlobal?: boolean;
+    dryRun?: boolean;
+  }): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-border`;
+    logger.debug("Submitting border update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Border update failed with status ${response.status}`;
+        logger.warn("Border update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Border update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
   }
 
-  async updateText(payload: {
-    oldText: string;
-    newText: string;
+  async updateLayout(payload: {
+    display?: LayoutChange;
+    flexDirection?: LayoutChange;
+    flexWrap?: LayoutChange;
+    justifyContent?: LayoutChange;
+    alignItems?: LayoutChange;
+    gridColumns?: LayoutChange;
+    gap?: LayoutChange;
+    text: string;
     tag: string;
     file: string;
     className?: string;
@@ -495,10 +1978,12 @@ export class BackendClient {
     textContent?: string;
     ownerComponentName?: string;
     ownerFilePath?: string;
+    line?: number;
     forceGlobal?: boolean;
+    dryRun?: boolean;
   }): Promise<SmartEditUpdateResponse> {
-    const endpoint = `${this.baseUrl}/api/update-text`;
-    logger.debug("Submitting text update", payload);
+    const endpoint = `${this.baseUrl}/api/update-layout`;
+    logger.debug("Submitting layout update", payload);
 
     try {
       const response = await fetch(endpoint, {
@@ -515,21 +2000,25 @@ export class BackendClient {
         const errorMessage =
           typeof data.error === "string"
             ? data.error
-            : `Text update failed with status ${response.status}`;
-        logger.warn("Text update request failed", errorMessage);
-        return { success: false, error: errorMessage };
+            : `Layout update failed with status ${response.status}`;
+        logger.warn("Layout update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
       }
 
       const normalized = this.parseSmartEditResponse(data);
       if (typeof data.success !== "boolean") {
         normalized.success = true;
       }
-      if (normalized.success && !normalized.warning) {
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
         this.notifyHistoryChange();
       }
       return normalized;
     } catch (error) {
-      logger.error("Text update request error", error);
+      logger.error("Layout update request error", error);
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -537,21 +2026,11 @@ export class BackendClient {
     }
   }
 
-  async updateFontSize(payload: {
-    oldSize: string;
-    newSize: string;
-    text: string;
-    tag: string;
-    file: string;
-    className?: string;
-    elementTag?: string;
-    textContent?: string;
-    ownerComponentName?: string;
-    ownerFilePath?: string;
-    forceGlobal?: boolean;
-  }): Promise<SmartEditUpdateResponse> {
-    const endpoint = `${this.baseUrl}/api/update-font-size`;
-    logger.debug("Submitting font size update", payload);
+  async updateImage(
+    payload: ImageUpdatePayload
+  ): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-image`;
+    logger.debug("Submitting image update", payload);
 
     try {
       const response = await fetch(endpoint, {
@@ -568,21 +2047,25 @@ export class BackendClient {
         const errorMessage =
           typeof data.error === "string"
             ? data.error
-            : `Font size update failed with status ${response.status}`;
-        logger.warn("Font size update request failed", errorMessage);
-        return { success: false, error: errorMessage };
+            : `Image update failed with status ${response.status}`;
+        logger.warn("Image update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
       }
 
       const normalized = this.parseSmartEditResponse(data);
       if (typeof data.success !== "boolean") {
         normalized.success = true;
       }
-      if (normalized.success && !normalized.warning) {
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
         this.notifyHistoryChange();
       }
       return normalized;
     } catch (error) {
-      logger.error("Font size update request error", error);
+      logger.error("Image update request error", error);
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -590,22 +2073,9 @@ export class BackendClient {
     }
   }
 
-  async updateColor(payload: {
-    textColor?: { old: string; new: string };
-    backgroundColor?: { old: string; new: string };
-    hoverBackgroundColor?: { old: string; new: string };
-    text: string;
-    tag: string;
-    file: string;
-    className?: string;
-    elementTag?: string;
-    textContent?: string;
-    ownerComponentName?: string;
-    ownerFilePath?: string;
-    forceGlobal?: boolean;
-  }): Promise<SmartEditUpdateResponse> {
-    const endpoint = `${this.baseUrl}/api/update-color`;
-    logger.debug("Submitting color update", payload);
+  async updateLink(payload: LinkUpdatePayload): Promise<LinkUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-link`;
+    logger.debug("Submitting link update", payload);
 
     try {
       const response = await fetch(endpoint, {
@@ -622,21 +2092,75 @@ export class BackendClient {
         const errorMessage =
           typeof data.error === "string"
             ? data.error
-            : `Color update failed with status ${response.status}`;
-        logger.warn("Color update request failed", errorMessage);
-        return { success: false, error: errorMessage };
+            : `Link update failed with status ${response.status}`;
+        logger.warn("Link update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized: LinkUpdateResponse = this.parseSmartEditResponse(data);
+      if (typeof data.success !== "boolean") {
+        normalized.success = true;
+      }
+      if (typeof data.missingRoute === "string") {
+        normalized.missingRoute = data.missingRoute;
+      }
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Link update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  async updateProp(
+    payload: PropUpdatePayload
+  ): Promise<SmartEditUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/update-prop`;
+    logger.debug("Submitting prop update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Prop update failed with status ${response.status}`;
+        logger.warn("Prop update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
       }
 
       const normalized = this.parseSmartEditResponse(data);
       if (typeof data.success !== "boolean") {
         normalized.success = true;
       }
-      if (normalized.success && !normalized.warning) {
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
         this.notifyHistoryChange();
       }
       return normalized;
     } catch (error) {
-      logger.error("Color update request error", error);
+      logger.error("Prop update request error", error);
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -656,6 +2180,7 @@ export class BackendClient {
     ownerComponentName?: string;
     ownerFilePath?: string;
     forceGlobal?: boolean;
+    dryRun?: boolean;
   }): Promise<SmartEditUpdateResponse> {
     const endpoint = `${this.baseUrl}/api/update-font-family`;
     logger.debug("Submitting font family update", payload);
@@ -677,14 +2202,18 @@ export class BackendClient {
             ? data.error
             : `Font family update failed with status ${response.status}`;
         logger.warn("Font family update request failed", errorMessage);
-        return { success: false, error: errorMessage };
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
       }
 
       const normalized = this.parseSmartEditResponse(data);
       if (typeof data.success !== "boolean") {
         normalized.success = true;
       }
-      if (normalized.success && !normalized.warning) {
+      if (normalized.success && !normalized.warning && !normalized.dryRun) {
         this.notifyHistoryChange();
       }
       return normalized;
@@ -697,6 +2226,53 @@ export class BackendClient {
     }
   }
 
+  async batchUpdate(payload: BatchUpdatePayload): Promise<BatchUpdateResponse> {
+    const endpoint = `${this.baseUrl}/api/batch-update`;
+    logger.debug("Submitting batch update", payload);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      });
+
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const errorMessage =
+          typeof data.error === "string"
+            ? data.error
+            : `Batch update failed with status ${response.status}`;
+        logger.warn("Batch update request failed", errorMessage);
+        return {
+          success: false,
+          error: errorMessage,
+          verification: parseVerification(data.verification),
+        };
+      }
+
+      const normalized: BatchUpdateResponse = {
+        ...this.parseSmartEditResponse(data),
+        appliedCount:
+          typeof data.appliedCount === "number" ? data.appliedCount : undefined,
+        results: Array.isArray(data.results) ? data.results : undefined,
+      };
+      if (normalized.success && !normalized.dryRun) {
+        this.notifyHistoryChange();
+      }
+      return normalized;
+    } catch (error) {
+      logger.error("Batch update request error", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
   onHistoryChange(listener: () => void): () => void {
     this.historyListeners.add(listener);
     return () => {
@@ -704,6 +2280,251 @@ export class BackendClient {
     };
   }
 
+  /**
+   * Listen for one kind of backend event. The WebSocket opens with the first
+   * listener and closes with the last one; while it is down it reconnects
+   * with a growing delay.
+   */
+  subscribe<T extends BackendEventType>(
+    type: T,
+    listener: (event: BackendEventOf<T>) => void
+  ): () => void {
+    const listeners = this.eventListeners.get(type) ?? new Set();
+    const wrapped = listener as BackendEventListener;
+    listeners.add(wrapped);
+    this.eventListeners.set(type, listeners);
+    this.openEventSocket();
+
+    return () => {
+      listeners.delete(wrapped);
+      if (listeners.size === 0) {
+        this.eventListeners.delete(type);
+      }
+      if (this.eventListeners.size === 0) {
+        this.closeEventSocket();
+      }
+    };
+  }
+
+  /**
+   * Called with true each time the event stream (re)connects and false when
+   * it drops. Events sent while it was down are lost, so listeners should
+   * reload whatever state they keep.
+   */
+  onEventStreamChange(listener: (connected: boolean) => void): () => void {
+    this.eventStreamListeners.add(listener);
+    return () => {
+      this.eventStreamListeners.delete(listener);
+    };
+  }
+
+  isEventStreamConnected(): boolean {
+    return this.eventSocketConnected;
+  }
+
+  async getDevServerStatus(): Promise<DevServerStatus | null> {
+    const endpoint = `${this.baseUrl}/api/dev-server/errors`;
+
+    try {
+      const response = await fetch(endpoint);
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        logger.warn(
+          "Dev server status request failed",
+          typeof data.error === "string"
+            ? data.error
+            : `Failed with status ${response.status}`
+        );
+        return null;
+      }
+
+      return parseDevServerStatus(data?.status) ?? null;
+    } catch (error) {
+      logger.debug("Dev server status unavailable", error);
+      return null;
+    }
+  }
+
+  /**
+   * Watches the dev server's compile errors. Listeners receive the current
+   * status, then every change as the backend pushes it. While the event
+   * stream is down the status is polled instead.
+   */
+  onDevServerStatus(listener: (status: DevServerStatus) => void): () => void {
+    this.devServerListeners.add(listener);
+    // Make the next status delivered reach the new listener too
+    this.lastDevServerReport = null;
+
+    if (!this.unsubscribeDevServer) {
+      const unsubscribeEvents = this.subscribe("dev-server:status", (event) =>
+        this.notifyDevServerStatus(event.status)
+      );
+      const unsubscribeStream = this.onEventStreamChange((connected) => {
+        if (connected) {
+          this.stopDevServerPolling();
+        } else {
+          this.startDevServerPolling();
+        }
+      });
+      this.unsubscribeDevServer = () => {
+        unsubscribeEvents();
+        unsubscribeStream();
+        this.stopDevServerPolling();
+      };
+    }
+
+    if (this.eventSocketConnected) {
+      void this.pollDevServerStatus();
+    } else {
+      this.startDevServerPolling();
+    }
+
+    return () => {
+      this.devServerListeners.delete(listener);
+      if (this.devServerListeners.size === 0) {
+        this.unsubscribeDevServer?.();
+        this.unsubscribeDevServer = null;
+      }
+    };
+  }
+
+  private startDevServerPolling() {
+    if (this.devServerPollTimer) {
+      return;
+    }
+
+    void this.pollDevServerStatus();
+    this.devServerPollTimer = setInterval(
+      () => void this.pollDevServerStatus(),
+      DEV_SERVER_POLL_MS
+    );
+  }
+
+  private stopDevServerPolling() {
+    if (this.devServerPollTimer) {
+      clearInterval(this.devServerPollTimer);
+      this.devServerPollTimer = null;
+    }
+  }
+
+  private async pollDevServerStatus() {
+    const status = await this.getDevServerStatus();
+    if (status) {
+      this.notifyDevServerStatus(status);
+    }
+  }
+
+  private notifyDevServerStatus(status: DevServerStatus) {
+    if (status.reportedAt === this.lastDevServerReport) {
+      return;
+    }
+    this.lastDevServerReport = status.reportedAt;
+
+    this.devServerListeners.forEach((listener) => {
+      try {
+        listener(status);
+      } catch (error) {
+        logger.warn("Dev server listener failed", error);
+      }
+    });
+  }
+
+  private openEventSocket() {
+    if (
+      this.eventSocket ||
+      this.eventSocketRetryTimer ||
+      typeof WebSocket === "undefined"
+    ) {
+      return;
+    }
+
+    // The CLI proxy forwards this path to the backend
+    const protocol = window.location.protocol === "https:" ? "wss" : "ws";
+    const socket = new WebSocket(
+      `${protocol}://${window.location.host}/__brakit/events`
+    );
+
+    socket.onopen = () => {
+      this.eventSocketRetryDelay = EVENT_STREAM_RETRY_MIN_MS;
+      this.setEventStreamConnected(true);
+    };
+
+    socket.onmessage = (message: MessageEvent) => {
+      let event: BackendEvent | undefined;
+      try {
+        event = parseBackendEvent(JSON.parse(String(message.data)));
+      } catch (error) {
+        logger.warn("Invalid backend event", error);
+      }
+      if (event) {
+        this.dispatchEvent(event);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.eventSocket !== socket) {
+        return;
+      }
+      this.eventSocket = null;
+      this.setEventStreamConnected(false);
+
+      if (this.eventListeners.size === 0) {
+        return;
+      }
+      logger.debug("Event stream closed, reconnecting", {
+        delay: this.eventSocketRetryDelay,
+      });
+      this.eventSocketRetryTimer = setTimeout(() => {
+        this.eventSocketRetryTimer = null;
+        this.openEventSocket();
+      }, this.eventSocketRetryDelay);
+      this.eventSocketRetryDelay = Math.min(
+        this.eventSocketRetryDelay * 2,
+        EVENT_STREAM_RETRY_MAX_MS
+      );
+    };
+
+    this.eventSocket = socket;
+  }
+
+  private closeEventSocket() {
+    if (this.eventSocketRetryTimer) {
+      clearTimeout(this.eventSocketRetryTimer);
+      this.eventSocketRetryTimer = null;
+    }
+
+    const socket = this.eventSocket;
+    this.eventSocket = null;
+    socket?.close();
+    this.eventSocketRetryDelay = EVENT_STREAM_RETRY_MIN_MS;
+    this.setEventStreamConnected(false);
+  }
+
+  private setEventStreamConnected(connected: boolean) {
+    if (this.eventSocketConnected === connected) {
+      return;
+    }
+    this.eventSocketConnected = connected;
+    this.eventStreamListeners.forEach((listener) => {
+      try {
+        listener(connected);
+      } catch (error) {
+        logger.warn("Event stream listener failed", error);
+      }
+    });
+  }
+
+  private dispatchEvent(event: BackendEvent) {
+    this.eventListeners.get(event.type)?.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn("Backend event listener failed", error);
+      }
+    });
+  }
+
   private notifyHistoryChange() {
     this.historyListeners.forEach((listener) => {
       try {
@@ -715,6 +2536,232 @@ export class BackendClient {
   }
 }
 
+function parseStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter((item: unknown): item is string => typeof item === "string");
+}
+
+function parseHistoryAction(value: any): HistoryActionSummary | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  return {
+    id: String(value.id),
+    type: String(value.type ?? ""),
+    label: String(value.label ?? ""),
+    timestamp: String(value.timestamp ?? ""),
+    fileCount: typeof value.fileCount === "number" ? value.fileCount : undefined,
+    files: parseStringList(value.files),
+    staleFiles: parseStringList(value.staleFiles),
+  };
+}
+
+function parseDevServerStatus(value: any): DevServerStatus | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const error = value.error;
+  const compileError: CompileError | null =
+    error && typeof error.message === "string"
+      ? {
+          message: error.message,
+          file: typeof error.file === "string" ? error.file : undefined,
+          line: typeof error.line === "number" ? error.line : undefined,
+          column: typeof error.column === "number" ? error.column : undefined,
+          framework: error.framework === "vite" ? "vite" : "next",
+          output: typeof error.output === "string" ? error.output : error.message,
+        }
+      : null;
+
+  return {
+    error: compileError,
+    relatedAction:
+      compileError && value.relatedAction
+        ? (parseHistoryAction(value.relatedAction) ?? null)
+        : null,
+    reportedAt: String(value.reportedAt ?? ""),
+  };
+}
+
+function parseHistorySnapshot(value: any): HistorySnapshot {
+  return {
+    action: parseHistoryAction(value?.action) ?? null,
+    redoAction: parseHistoryAction(value?.redoAction) ?? null,
+  };
+}
+
+function parseBackendEvent(value: any): BackendEvent | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  switch (value.type) {
+    case "action:committed": {
+      const action = parseHistoryAction(value.action);
+      return action
+        ? {
+            type: "action:committed",
+            action,
+            history: parseHistorySnapshot(value.history),
+          }
+        : undefined;
+    }
+    case "history:changed":
+      if (
+        value.operation !== "undo" &&
+        value.operation !== "redo" &&
+        value.operation !== "clear"
+      ) {
+        return undefined;
+      }
+      return {
+        type: "history:changed",
+        operation: value.operation,
+        action: parseHistoryAction(value.action),
+        restoredFiles: parseStringList(value.restoredFiles) ?? [],
+        history: parseHistorySnapshot(value.history),
+      };
+    case "file:changed-externally":
+      return {
+        type: "file:changed-externally",
+        files: parseStringList(value.files) ?? [],
+      };
+    case "install:progress":
+      return typeof value.message === "string"
+        ? {
+            type: "install:progress",
+            source: value.source === "page" ? "page" : "component",
+            message: value.message,
+          }
+        : undefined;
+    case "dev-server:status": {
+      const status = parseDevServerStatus(value.status);
+      return status ? { type: "dev-server:status", status } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function parseHistoryActionList(value: unknown): HistoryActionSummary[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((item) => parseHistoryAction(item))
+    .filter((item): item is HistoryActionSummary => Boolean(item));
+}
+
+function parsePreviewChanges(value: unknown): PreviewFileChange[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value
+    .filter(
+      (item: any) =>
+        item && typeof item.file === "string" && typeof item.diff === "string"
+    )
+    .map((item: any) => ({
+      file: item.file,
+      filePath: typeof item.filePath === "string" ? item.filePath : item.file,
+      diff: item.diff,
+    }));
+}
+
+function parseVerification(value: unknown): VerificationReport | undefined {
+  const report = value as Partial<VerificationReport> | null | undefined;
+  if (
+    !report ||
+    (report.stage !== "parse" && report.stage !== "typecheck") ||
+    !Array.isArray(report.diagnostics)
+  ) {
+    return undefined;
+  }
+
+  return {
+    stage: report.stage,
+    diagnostics: report.diagnostics
+      .filter(
+        (item: any) =>
+          item &&
+          typeof item.file === "string" &&
+          typeof item.message === "string"
+      )
+      .map((item: any) => ({
+        file: item.file,
+        line: typeof item.line === "number" ? item.line : undefined,
+        column: typeof item.column === "number" ? item.column : undefined,
+        message: item.message,
+        code: typeof item.code === "string" ? item.code : undefined,
+      })),
+    rolledBackFiles: Array.isArray(report.rolledBackFiles)
+      ? report.rolledBackFiles.filter(
+          (file): file is string => typeof file === "string"
+        )
+      : [],
+  };
+}
+
+function parseHistoryConflicts(value: unknown): HistoryConflict[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value
+    .filter((item: any) => item && typeof item.file === "string")
+    .map((item: any) => ({
+      file: item.file,
+      kind:
+        item.kind === "missing" || item.kind === "recreated"
+          ? item.kind
+          : "modified",
+      message: typeof item.message === "string" ? item.message : "",
+    }));
+}
+
+function isPublicImage(value: any): value is PublicImage {
+  return (
+    Boolean(value) &&
+    typeof value.src === "string" &&
+    typeof value.filePath === "string" &&
+    typeof value.size === "number"
+  );
+}
+
+function isProjectRoute(value: any): value is ProjectRoute {
+  return (
+    Boolean(value) &&
+    typeof value.path === "string" &&
+    typeof value.filePath === "string" &&
+    typeof value.dynamic === "boolean" &&
+    typeof value.pattern === "string"
+  );
+}
+
+function isLiteralProp(value: any): value is LiteralProp {
+  return (
+    Boolean(value) &&
+    typeof value.name === "string" &&
+    (value.kind === "string" ||
+      value.kind === "number" ||
+      value.kind === "boolean") &&
+    typeof value.value === value.kind
+  );
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read file"));
+    reader.readAsDataURL(file);
+  });
+}
+
 function resolveBackendUrl(): string {
   if (typeof window !== "undefined") {
     const globalValue = (window as any).BRAKIT_BACKEND_URL;
@@ -0,0 +1,85 @@
+export interface ComponentPaletteOption {
+  id: string;
+  label: string;
+  /** Matches the shadcn component types known to the backend */
+  componentType: string;
+  template: string;
+  description?: string;
+}
+
+export const COMPONENT_PALETTE_OPTIONS: ComponentPaletteOption[] = [
+  {
+    id: "heading",
+    label: "Heading",
+    componentType: "heading",
+    template: `<h2 className="text-2xl font-semibold tracking-tight">New heading</h2>`,
+    description: "Section heading.",
+  },
+  {
+    id: "paragraph",
+    label: "Paragraph",
+    componentType: "text",
+    template: `<p className="leading-7 text-muted-foreground">Write something here.</p>`,
+    description: "Plain body text.",
+  },
+  {
+    id: "button",
+    label: "Button",
+    componentType: "button",
+    template: `<Button>Click me</Button>`,
+    description: "shadcn button.",
+  },
+  {
+    id: "button-outline",
+    label: "Outline button",
+    componentType: "button-outline",
+    template: `<Button variant="outline">Learn more</Button>`,
+    description: "Secondary shadcn button.",
+  },
+  {
+    id: "card",
+    label: "Card",
+    componentType: "card",
+    template: `<Card>
+  <CardHeader>
+    <CardTitle>Card title</CardTitle>
+    <CardDescription>A short description.</CardDescription>
+  </CardHeader>
+  <CardContent>
+    <p>Card content</p>
+  </CardContent>
+</Card>`,
+    description: "shadcn card with header and content.",
+  },
+  {
+    id: "badge",
+    label: "Badge",
+    componentType: "badge",
+    template: `<Badge>New</Badge>`,
+    description: "Small status label.",
+  },
+  {
+    id: "alert",
+    label: "Alert",
+    componentType: "alert",
+    template: `<Alert>
+  <AlertTitle>Heads up!</AlertTitle>
+  <AlertDescription>Something worth knowing.</AlertDescription>
+</Alert>`,
+    description: "Callout with title and description.",
+  },
+  {
+    id: "input",
+    label: "Input",
+    componentType: "input",
+    template: `<Input placeholder="Type here" />`,
+    description: "Single-line text field.",
+  },
+  {
+    id: "separator",
+    label: "Separator",
+    componentType: "separator",
+    template: `<Separator className="my-4" />`,
+    description: "Horizontal divider.",
+  },
+];
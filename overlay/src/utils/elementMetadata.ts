@@ -6,6 +6,8 @@ export interface ElementMetadata {
   textContent: string;
   ownerComponentName?: string;
   ownerFilePath?: string;
+  /** Line in `ownerFilePath` where the element's JSX starts */
+  line?: number;
 }
 
 export interface SmartEditMetadata extends ElementMetadata {
@@ -23,6 +25,7 @@ export function collectElementMetadata(element: HTMLElement): ElementMetadata {
     textContent: extractPrimaryText(element),
     ownerComponentName: reactInfo.componentName || undefined,
     ownerFilePath: reactInfo.fileName || undefined,
+    line: reactInfo.fileName ? reactInfo.lineNumber : undefined,
   };
 }
 
@@ -50,6 +53,7 @@ export function buildSmartEditMetadata(
     ownerComponentName:
       metadata.ownerComponentName || reactInfo.componentName || undefined,
     ownerFilePath: metadata.ownerFilePath || reactInfo.fileName || undefined,
+    line: metadata.line,
   };
 }
 